@@ -0,0 +1,21 @@
+// eslint.config.js
+const js = require('@eslint/js');
+const tseslint = require('@typescript-eslint/eslint-plugin');
+
+module.exports = [
+  {
+    ignores: ['dist/**', 'node_modules/**', 'coverage/**']
+  },
+  js.configs.recommended,
+  ...tseslint.configs['flat/recommended'],
+  {
+    files: ['src/**/*.ts'],
+    rules: {
+      // Request bodies, Prisma rows and JSON payloads are typed loosely on purpose
+      '@typescript-eslint/no-explicit-any': 'off',
+      // Services rethrow from catch blocks so every method has the same shape
+      'no-useless-catch': 'off',
+      '@typescript-eslint/no-unused-vars': ['error', { args: 'none', caughtErrors: 'none', ignoreRestSiblings: true }]
+    }
+  }
+];
@@ -7,6 +7,30 @@ const prisma = new PrismaClient();
 async function main() {
   console.log('🌱 Starting database seed...');
 
+  // Create the organization the sample data belongs to
+  const organization = await prisma.organization.upsert({
+    where: { slug: 'smartwaste' },
+    update: {},
+    create: {
+      name: 'Smart Waste Freetown',
+      slug: 'smartwaste',
+    },
+  });
+
+  // Create platform super-admin, who belongs to no organization
+  const superAdminPassword = await bcrypt.hash('superadmin123', 12);
+  await prisma.user.upsert({
+    where: { email: 'superadmin@smartwaste.com' },
+    update: {},
+    create: {
+      email: 'superadmin@smartwaste.com',
+      passwordHash: superAdminPassword,
+      fullName: 'Platform Administrator',
+      role: UserRole.SUPER_ADMIN,
+      emailVerified: true,
+    },
+  });
+
   // Create admin user
   const adminPassword = await bcrypt.hash('admin123', 12);
   const admin = await prisma.user.upsert({
@@ -18,6 +42,7 @@ async function main() {
       fullName: 'System Administrator',
       phone: '+23276123456',
       role: UserRole.ADMIN,
+      organizationId: organization.id,
       emailVerified: true,
     },
   });
@@ -28,9 +53,26 @@ async function main() {
       licensePlate: 'SW-001',
       model: 'Mercedes Atego',
       capacity: 5000,
+      organizationId: organization.id,
     },
   });
 
+  // Pre-trip inspection checklist
+  const checklist = [
+    { code: 'BRAKES', label: 'Brakes', isCritical: true, sortOrder: 1 },
+    { code: 'HYDRAULICS', label: 'Hydraulics', isCritical: true, sortOrder: 2 },
+    { code: 'LIGHTS', label: 'Lights', isCritical: false, sortOrder: 3 },
+    { code: 'LIFTER', label: 'Bin lifter', isCritical: true, sortOrder: 4 },
+  ];
+
+  for (const item of checklist) {
+    await prisma.inspectionItem.upsert({
+      where: { organizationId_code: { organizationId: organization.id, code: item.code } },
+      update: {},
+      create: { ...item, organizationId: organization.id },
+    });
+  }
+
   // Create driver user
   const driverPassword = await bcrypt.hash('driver123', 12);
   const driverUser = await prisma.user.create({
@@ -41,6 +83,7 @@ async function main() {
       phone: '+23276654321',
       role: UserRole.DRIVER,
       emailVerified: true,
+      organizationId: organization.id,
     },
   });
 
@@ -53,6 +96,7 @@ async function main() {
       status: DriverStatus.OFFLINE,
       shiftStart: '08:00',
       shiftEnd: '17:00',
+      organizationId: organization.id,
     },
   });
 
@@ -66,6 +110,7 @@ async function main() {
       phone: '+23276789012',
       role: UserRole.USER,
       emailVerified: true,
+      organizationId: organization.id,
     },
   });
 
@@ -101,10 +146,12 @@ async function main() {
   ];
 
   for (const binData of bins) {
-    await prisma.bin.create({ data: binData });
+    await prisma.bin.create({ data: { ...binData, organizationId: organization.id } });
   }
 
   console.log('✅ Database seeded successfully!');
+  console.log(`🏢 Organization: ${organization.slug}`);
+  console.log('🛡️ Super-admin: superadmin@smartwaste.com / superadmin123');
   console.log('👤 Admin: admin@smartwaste.com / admin123');
   console.log('🚛 Driver: driver@smartwaste.com / driver123');
   console.log('👥 User: user@smartwaste.com / user123');
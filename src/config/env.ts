@@ -1,5 +1,6 @@
 // src/config/env.ts
 import dotenv from 'dotenv';
+import { RoutingProviderName } from '../types/routing';
 
 dotenv.config();
 
@@ -16,6 +17,45 @@ interface EnvConfig {
   MQTT_USERNAME: string;
   MQTT_PASSWORD: string;
   GOOGLE_MAPS_API_KEY: string; 
+  ROUTING_PROVIDER: RoutingProviderName;
+  ROUTING_SERVICE_URL: string;
+  GEOCODER_URL: string;
+  OSM_GRAPH_PATH: string;
+  PICKUP_SCHEDULING_MODE: 'THRESHOLD' | 'PREDICTIVE';
+  GEOFENCE_RADIUS_METERS: number;
+  FRONTEND_URL: string;
+  REQUIRE_EMAIL_VERIFICATION: boolean;
+  MFA_REQUIRED_ROLES: string[];
+  MFA_ISSUER: string;
+}
+
+const ROUTING_PROVIDERS: RoutingProviderName[] = ['GOOGLE', 'OSRM', 'VALHALLA', 'OSM_GRAPH', 'STRAIGHT_LINE'];
+
+// Settings each routing provider cannot run without
+const ROUTING_PROVIDER_ENV_VARS: Record<RoutingProviderName, string[]> = {
+  GOOGLE: ['GOOGLE_MAPS_API_KEY'],
+  OSRM: ['ROUTING_SERVICE_URL'],
+  VALHALLA: ['ROUTING_SERVICE_URL'],
+  OSM_GRAPH: ['OSM_GRAPH_PATH'],
+  STRAIGHT_LINE: []
+};
+
+/**
+ * The configured routing provider. Without one, Google is used when a key is
+ * set, and straight-line estimates otherwise, so the backend can run offline.
+ */
+function resolveRoutingProvider(): RoutingProviderName {
+  const configured = process.env.ROUTING_PROVIDER?.toUpperCase();
+
+  if (!configured) {
+    return process.env.GOOGLE_MAPS_API_KEY ? 'GOOGLE' : 'STRAIGHT_LINE';
+  }
+
+  if (!ROUTING_PROVIDERS.includes(configured as RoutingProviderName)) {
+    throw new Error(`Invalid ROUTING_PROVIDER: ${configured}. Expected one of ${ROUTING_PROVIDERS.join(', ')}`);
+  }
+
+  return configured as RoutingProviderName;
 }
 
 function validateEnv(): EnvConfig {
@@ -24,10 +64,12 @@ function validateEnv(): EnvConfig {
     'JWT_SECRET',
     'JWT_REFRESH_SECRET',
     'REDIS_URL',
-    'MQTT_BROKER_URL',
-    'GOOGLE_MAPS_API_KEY'  
+    'MQTT_BROKER_URL'
   ];
 
+  const routingProvider = resolveRoutingProvider();
+  requiredEnvVars.push(...ROUTING_PROVIDER_ENV_VARS[routingProvider]);
+
   for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
       throw new Error(`Missing required environment variable: ${envVar}`);
@@ -46,7 +88,22 @@ function validateEnv(): EnvConfig {
     MQTT_BROKER_URL: process.env.MQTT_BROKER_URL!,
     MQTT_USERNAME: process.env.MQTT_USERNAME || '',
     MQTT_PASSWORD: process.env.MQTT_PASSWORD || '',
-    GOOGLE_MAPS_API_KEY: process.env.GOOGLE_MAPS_API_KEY! 
+    GOOGLE_MAPS_API_KEY: process.env.GOOGLE_MAPS_API_KEY || '',
+    ROUTING_PROVIDER: routingProvider,
+    ROUTING_SERVICE_URL: (process.env.ROUTING_SERVICE_URL || '').replace(/\/+$/, ''),
+    GEOCODER_URL: (process.env.GEOCODER_URL || '').replace(/\/+$/, ''),
+    OSM_GRAPH_PATH: process.env.OSM_GRAPH_PATH || '',
+    PICKUP_SCHEDULING_MODE: process.env.PICKUP_SCHEDULING_MODE === 'PREDICTIVE' ? 'PREDICTIVE' : 'THRESHOLD',
+    GEOFENCE_RADIUS_METERS: parseInt(process.env.GEOFENCE_RADIUS_METERS || '40', 10),
+    FRONTEND_URL: (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+    REQUIRE_EMAIL_VERIFICATION: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+    // Built-in roles whose holders must use two-factor authentication; custom roles
+    // set this on the role itself
+    MFA_REQUIRED_ROLES: (process.env.MFA_REQUIRED_ROLES ?? 'SUPER_ADMIN,ADMIN')
+      .split(',')
+      .map(role => role.trim().toUpperCase())
+      .filter(Boolean),
+    MFA_ISSUER: process.env.MFA_ISSUER || 'Smart Waste'
   };
 }
 
@@ -0,0 +1,124 @@
+// src/config/permissions.ts
+import { PermissionScope, ResourceType } from '@/types/policy';
+
+interface PermissionDefinition {
+  resource: ResourceType;
+  scopes: PermissionScope[]; // Scopes a role may be granted this permission with
+  description: string;
+}
+
+// Every permission the policy engine knows about
+export const PERMISSIONS = {
+  'bin.read': { resource: 'bin', scopes: ['any', 'own'], description: 'View bins, their readings, alerts and forecasts' },
+  'bin.create': { resource: 'bin', scopes: ['any', 'own'], description: 'Register bins; with own scope they are registered to the user' },
+  'bin.update': { resource: 'bin', scopes: ['any', 'own'], description: 'Edit bins' },
+  'bin.delete': { resource: 'bin', scopes: ['any', 'own'], description: 'Delete bins' },
+  'bin.empty': { resource: 'bin', scopes: ['any', 'own'], description: 'Mark bins as emptied' },
+  'bin.alert.acknowledge': { resource: 'bin', scopes: ['any'], description: 'Acknowledge bin alerts' },
+  'bin.anomaly.read': { resource: 'bin', scopes: ['any'], description: 'View bins with anomalous sensor readings' },
+  'bin.device.manage': { resource: 'bin', scopes: ['any'], description: 'Provision, rotate and revoke bin device and gateway credentials' },
+  'bin.command.manage': { resource: 'bin', scopes: ['any'], description: 'Send commands to bins and view their results' },
+
+  'pickup.read': { resource: 'pickup', scopes: ['any', 'own', 'zone'], description: 'View pickups and their ETAs' },
+  'pickup.create': { resource: 'pickup', scopes: ['any', 'own'], description: 'Request pickups; with own scope only for the user\'s bins' },
+  'pickup.update': { resource: 'pickup', scopes: ['any', 'own', 'zone'], description: 'Edit pickups' },
+  'pickup.cancel': { resource: 'pickup', scopes: ['any', 'own', 'zone'], description: 'Cancel pickups' },
+  'pickup.status.update': { resource: 'pickup', scopes: ['any', 'own', 'zone'], description: 'Move pickups through their statuses' },
+  'pickup.assign': { resource: 'pickup', scopes: ['any', 'zone'], description: 'Assign drivers to pickups' },
+
+  'route.read': { resource: 'route', scopes: ['any', 'own', 'zone'], description: 'View routes' },
+  'route.optimize': { resource: 'route', scopes: ['any', 'own'], description: 'Optimize a driver\'s route' },
+  'route.optimize.fleet': { resource: 'route', scopes: ['any'], description: 'Optimize routes for the whole fleet' },
+  'route.publish': { resource: 'route', scopes: ['any', 'zone'], description: 'Publish planned routes to drivers' },
+  'route.drive': { resource: 'route', scopes: ['any', 'own', 'zone'], description: 'Start routes and complete or skip their stops' },
+
+  'driver.read': { resource: 'driver', scopes: ['any', 'own', 'zone'], description: 'View driver profiles and location history' },
+  'driver.stats.read': { resource: 'driver', scopes: ['any'], description: 'View driver availability, statistics and performance' },
+  'driver.create': { resource: 'driver', scopes: ['any'], description: 'Create drivers' },
+  'driver.update': { resource: 'driver', scopes: ['any', 'own', 'zone'], description: 'Edit driver profiles' },
+  'driver.delete': { resource: 'driver', scopes: ['any'], description: 'Delete drivers' },
+  'driver.status.update': { resource: 'driver', scopes: ['any', 'own', 'zone'], description: 'Change driver status' },
+  'driver.location.update': { resource: 'driver', scopes: ['any', 'own'], description: 'Report driver locations' },
+
+  'truck.manage': { resource: 'truck', scopes: ['any'], description: 'Create, edit and delete trucks and their telematics units' },
+  'truck.telemetry.read': { resource: 'truck', scopes: ['any'], description: 'View truck telemetry and maintenance schedules' },
+  'maintenance.manage': { resource: 'truck', scopes: ['any'], description: 'Manage maintenance tickets, records and service intervals' },
+
+  'inspection.read': { resource: 'inspection', scopes: ['any', 'own', 'zone'], description: 'View pre-trip inspections' },
+  'inspection.submit': { resource: 'inspection', scopes: ['own'], description: 'Submit pre-trip inspections of the assigned truck' },
+  'inspection.checklist.read': { resource: 'inspection', scopes: ['any'], description: 'View the inspection checklist' },
+  'inspection.checklist.manage': { resource: 'inspection', scopes: ['any'], description: 'Edit the inspection checklist' },
+
+  'shift.read': { resource: 'shift', scopes: ['any', 'own', 'zone'], description: 'View shifts, timesheets and shift templates' },
+  'shift.clock': { resource: 'shift', scopes: ['own'], description: 'Clock in and out and take breaks' },
+  'shift.template.manage': { resource: 'shift', scopes: ['any', 'zone'], description: 'Set drivers\' shift templates' },
+
+  'fuel.read': { resource: 'fuel', scopes: ['any', 'own', 'zone'], description: 'View fuel logs' },
+  'fuel.log': { resource: 'fuel', scopes: ['any', 'own'], description: 'Log fill-ups; with own scope for the driver\'s truck' },
+  'fuel.consumption.read': { resource: 'fuel', scopes: ['any'], description: 'View fuel consumption reports' },
+
+  'facility.read': { resource: 'facility', scopes: ['any'], description: 'View depots and disposal sites' },
+  'facility.manage': { resource: 'facility', scopes: ['any'], description: 'Create, edit and delete depots and disposal sites' },
+
+  'analytics.read': { resource: 'analytics', scopes: ['any'], description: 'View fleet-wide analytics' },
+  'analytics.summary': { resource: 'analytics', scopes: ['any'], description: 'View overview, pickup analytics and summary reports' },
+  'analytics.export': { resource: 'analytics', scopes: ['any'], description: 'Export analytics' },
+  'dashboard.view': { resource: 'analytics', scopes: ['any'], description: 'Receive live updates on the operations dashboard' },
+
+  'role.manage': { resource: 'role', scopes: ['any'], description: 'Manage custom roles and assign them to users' },
+
+  'user.update': { resource: 'user', scopes: ['any'], description: 'Change a user\'s built-in role, such as promoting them to administrator' },
+  'user.mfa.reset': { resource: 'user', scopes: ['any'], description: 'Remove a user\'s second factor so they can enrol again' },
+
+  'organization.manage': { resource: 'organization', scopes: ['any'], description: 'Onboard, edit and deactivate organizations' }
+} satisfies Record<string, PermissionDefinition>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Permissions of the built-in roles. A grant without a scope applies to any resource;
+// "permission:own" limits it to the user's own resources and "permission:zone" to
+// those of the depot the user works out of.
+export const BUILT_IN_ROLE_PERMISSIONS: Record<string, string[]> = {
+  SUPER_ADMIN: ALL_PERMISSIONS,
+  // Administrators run their own organization but cannot onboard others
+  ADMIN: ALL_PERMISSIONS.filter(permission => permission !== 'organization.manage'),
+  DRIVER: [
+    'bin.read',
+    'bin.update',
+    'bin.delete',
+    'bin.empty',
+    'bin.alert.acknowledge',
+    'pickup.read:own',
+    'pickup.update:own',
+    'pickup.cancel:own',
+    'pickup.status.update:own',
+    'route.read:own',
+    'route.optimize:own',
+    'route.drive:own',
+    'driver.read:own',
+    'driver.update:own',
+    'driver.status.update:own',
+    'driver.location.update:own',
+    'inspection.read:own',
+    'inspection.submit:own',
+    'inspection.checklist.read',
+    'shift.read:own',
+    'shift.clock:own',
+    'fuel.read:own',
+    'fuel.log:own',
+    'facility.read',
+    'analytics.summary'
+  ],
+  USER: [
+    'bin.read:own',
+    'bin.create:own',
+    'bin.update:own',
+    'bin.delete:own',
+    'pickup.read:own',
+    'pickup.create:own',
+    'pickup.update:own',
+    'pickup.cancel:own'
+  ]
+};
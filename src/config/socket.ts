@@ -0,0 +1,56 @@
+// src/config/socket.ts
+import { Server as SocketIOServer } from 'socket.io';
+
+let socketServer: SocketIOServer | null = null;
+
+/**
+ * Share the Socket.io server with services that push updates outside a socket handler
+ */
+export const setSocketServer = (io: SocketIOServer): void => {
+  socketServer = io;
+};
+
+/**
+ * The running Socket.io server, or null when the HTTP server has not started (e.g. in scripts)
+ */
+export const getSocketServer = (): SocketIOServer | null => socketServer;
+
+/**
+ * Room of an organization's dashboard users or drivers. Live updates only ever go
+ * to the rooms of the organization they concern.
+ */
+export const organizationRoom = (organizationId: string, audience: 'admins' | 'drivers'): string =>
+  `org:${organizationId}:${audience}`;
+
+/**
+ * Emit to the room of an organization's dashboard users or drivers. Records that
+ * belong to no organization are not broadcast to anyone.
+ */
+export const emitToOrganization = (
+  io: SocketIOServer,
+  organizationId: string | null | undefined,
+  audience: 'admins' | 'drivers',
+  event: string,
+  data: any
+): void => {
+  if (organizationId) {
+    io.to(organizationRoom(organizationId, audience)).emit(event, data);
+  }
+};
+
+// Rooms of a single user or driver, joined only by their own authenticated sockets
+export const userRoom = (userId: string): string => `user-${userId}`;
+
+export const driverRoom = (driverId: string): string => `driver-${driverId}`;
+
+// Room of the sockets a bin device has open, so they can be closed when its credentials change
+export const deviceRoom = (deviceId: string): string => `device-${deviceId}`;
+
+/**
+ * Close every socket a bin device has open. Sockets authenticate once, at the
+ * handshake, so this is what stops a device whose secret was revoked or rotated;
+ * with a rotated secret it can connect again using the new one.
+ */
+export const disconnectDeviceSockets = (deviceId: string): void => {
+  getSocketServer()?.in(deviceRoom(deviceId)).disconnectSockets(true);
+};
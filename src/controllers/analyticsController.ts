@@ -1,5 +1,5 @@
 // src/controllers/analyticsController.ts
-import { Request, Response, NextFunction } from 'express';
+import { Response, NextFunction } from 'express';
 import { AnalyticsService } from '@/services/analyticsService';
 import { AuthenticatedRequest } from '@/middleware/auth';
 import { AnalyticsQuery } from '@/types/analytics';
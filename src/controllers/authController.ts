@@ -5,12 +5,24 @@ import { AuthenticatedRequest } from '../middleware/auth';
 import { 
   RegisterRequest, 
   LoginRequest, 
+  MfaLoginRequest,
   RefreshTokenRequest,
-  ChangePasswordRequest 
+  ChangePasswordRequest,
+  VerifyEmailRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest
 } from '../types/auth';
+import { SessionMetadata } from '../types/session';
 
 const authService = new AuthService();
 
+// Where the client signing in or refreshing is, to record with its session
+const sessionMetadata = (req: Request): SessionMetadata => ({
+  deviceName: req.body.deviceName,
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
 export class AuthController {
   /**
    * Register new user
@@ -18,7 +30,7 @@ export class AuthController {
   async register(req: Request, res: Response, next: NextFunction) {
     try {
       const registerData: RegisterRequest = req.body;
-      const result = await authService.register(registerData);
+      const result = await authService.register(registerData, sessionMetadata(req));
       
       res.status(201).json(result);
     } catch (error) {
@@ -32,7 +44,21 @@ export class AuthController {
   async login(req: Request, res: Response, next: NextFunction) {
     try {
       const loginData: LoginRequest = req.body;
-      const result = await authService.login(loginData);
+      const result = await authService.login(loginData, sessionMetadata(req));
+      
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Finish logging in with a second factor
+   */
+  async loginWithMfa(req: Request, res: Response, next: NextFunction) {
+    try {
+      const mfaLoginData: MfaLoginRequest = req.body;
+      const result = await authService.loginWithMfa(mfaLoginData, sessionMetadata(req));
       
       res.status(200).json(result);
     } catch (error) {
@@ -46,7 +72,7 @@ export class AuthController {
   async refreshToken(req: Request, res: Response, next: NextFunction) {
     try {
       const { refreshToken }: RefreshTokenRequest = req.body;
-      const result = await authService.refreshToken(refreshToken);
+      const result = await authService.refreshToken(refreshToken, sessionMetadata(req));
       
       res.status(200).json(result);
     } catch (error) {
@@ -84,6 +110,62 @@ export class AuthController {
     }
   }
 
+  /**
+   * Verify email address from the emailed link
+   */
+  async verifyEmail(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { token }: VerifyEmailRequest = req.body;
+      const result = await authService.verifyEmail(token);
+      
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a new verification email to the current user
+   */
+  async resendVerification(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.userId;
+      const result = await authService.sendVerificationEmail(userId);
+      
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Request a password reset link
+   */
+  async forgotPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email }: ForgotPasswordRequest = req.body;
+      const result = await authService.forgotPassword(email);
+      
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set a new password from a reset link
+   */
+  async resetPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { token, password }: ResetPasswordRequest = req.body;
+      const result = await authService.resetPassword(token, password);
+      
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get user profile
    */
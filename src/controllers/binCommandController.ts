@@ -0,0 +1,64 @@
+// src/controllers/binCommandController.ts
+import { Response, NextFunction } from 'express';
+import { BinCommandService } from '../services/binCommandService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { IssueBinCommandRequest, BinCommandListQuery } from '@/types/binCommand';
+
+const binCommandService = new BinCommandService();
+
+export class BinCommandController {
+  /**
+   * Issue a command to a bin
+   */
+  async issueCommand(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const commandData: IssueBinCommandRequest = req.body;
+      const userId = req.user!.userId;
+
+      const result = await binCommandService.issueCommand(binId, commandData, userId);
+
+      res.status(202).json({
+        success: true,
+        message: 'Command queued for delivery',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get commands issued to a bin
+   */
+  async getBinCommands(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const query: BinCommandListQuery = req.query as any;
+
+      const result = await binCommandService.getBinCommands(binId, query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single bin command
+   */
+  async getBinCommandById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId, commandId } = req.params;
+
+      const result = await binCommandService.getBinCommandById(binId, commandId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,6 +1,8 @@
 // src/controllers/binController.ts
 import { Response, NextFunction } from 'express';
+import { SensorAnomaly } from '@prisma/client';
 import { BinService } from '../services/binService';
+import { BinEventService } from '../services/binEventService';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { 
   CreateBinRequest, 
@@ -8,10 +10,12 @@ import {
   BinSensorDataRequest,
   BinListQuery,
   BinHistoryQuery,
-  NearbyBinsQuery 
+  NearbyBinsQuery,
+  AnomalousBinsQuery
 } from '@/types/bin';
 
 const binService = new BinService();
+const binEventService = new BinEventService();
 
 export class BinController {
   /**
@@ -120,6 +124,10 @@ export class BinController {
       const sensorData: BinSensorDataRequest = req.body;
 
       const result = await binService.updateSensorData(binCode, sensorData);
+
+      if (result.anomalies.includes(SensorAnomaly.TEMPERATURE_SPIKE)) {
+        await binEventService.recordTemperatureSpike(binCode, sensorData.temperature);
+      }
       
       res.status(200).json(result);
     } catch (error) {
@@ -146,6 +154,43 @@ export class BinController {
     }
   }
 
+  /**
+   * Get bins whose sensors stopped reporting
+   */
+  async getOfflineBins(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await binService.getOfflineBins(userRole, userId);
+      
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get bins with suspect or invalid sensor readings
+   */
+  async getAnomalousBins(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: AnomalousBinsQuery = req.query as any;
+
+      const result = await binService.getAnomalousBins(query);
+      
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get nearby bins
    */
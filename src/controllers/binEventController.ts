@@ -0,0 +1,49 @@
+// src/controllers/binEventController.ts
+import { Response, NextFunction } from 'express';
+import { BinEventService } from '../services/binEventService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { BinAlertListQuery, AcknowledgeAlertRequest } from '@/types/binEvent';
+
+const binEventService = new BinEventService();
+
+export class BinEventController {
+  /**
+   * Get alerts raised by a bin
+   */
+  async getBinAlerts(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const query: BinAlertListQuery = req.query as any;
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await binEventService.getBinAlerts(binId, query, userRole, userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Acknowledge a bin alert
+   */
+  async acknowledgeAlert(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId, alertId } = req.params;
+      const { note }: AcknowledgeAlertRequest = req.body;
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await binEventService.acknowledgeAlert(binId, alertId, note, userRole, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Alert acknowledged successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
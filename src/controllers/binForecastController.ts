@@ -0,0 +1,50 @@
+// src/controllers/binForecastController.ts
+import { Response, NextFunction } from 'express';
+import { BinForecastService } from '../services/binForecastService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { BinForecastQuery, PredictedFullBinsQuery } from '@/types/binForecast';
+
+const binForecastService = new BinForecastService();
+
+export class BinForecastController {
+  /**
+   * Get the fill-level forecast for a bin
+   */
+  async getBinForecast(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const query: BinForecastQuery = req.query as any;
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await binForecastService.getBinForecast(binId, query, userRole, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get bins predicted to be full within the next N hours
+   */
+  async getBinsPredictedFull(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: PredictedFullBinsQuery = req.query as any;
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await binForecastService.getBinsPredictedFull(query, userRole, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
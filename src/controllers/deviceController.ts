@@ -0,0 +1,82 @@
+// src/controllers/deviceController.ts
+import { Response, NextFunction } from 'express';
+import { DeviceService } from '../services/deviceService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ProvisionDeviceRequest } from '@/types/device';
+
+const deviceService = new DeviceService();
+
+export class DeviceController {
+  /**
+   * Provision device credentials for a bin
+   */
+  async provisionDevice(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const deviceData: ProvisionDeviceRequest = req.body;
+
+      const result = await deviceService.provisionDevice(binId, deviceData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Device provisioned successfully. Store the secret now, it will not be shown again',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the device bound to a bin
+   */
+  async getDevice(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const result = await deviceService.getDeviceByBinId(binId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rotate device credentials
+   */
+  async rotateCredentials(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const result = await deviceService.rotateCredentials(binId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Device credentials rotated successfully. Store the secret now, it will not be shown again',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke device credentials
+   */
+  async revokeDevice(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { binId } = req.params;
+      const result = await deviceService.revokeDevice(binId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Device revoked successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 // src/controllers/driverController.ts
 import { Response, NextFunction } from 'express';
 import { DriverService } from '../services/driverService';
+import { DriverLocationService } from '../services/driverLocationService';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { 
   CreateDriverRequest, 
@@ -8,10 +9,12 @@ import {
   DriverStatusUpdate,
   DriverLocationUpdate,
   DriverListQuery,
-  NearbyDriversQuery 
+  NearbyDriversQuery,
+  DriverTrackQuery
 } from '@/types/driver';
 
 const driverService = new DriverService();
+const driverLocationService = new DriverLocationService();
 
 export class DriverController {
   /**
@@ -41,8 +44,9 @@ export class DriverController {
     try {
       const query: DriverListQuery = req.query;
       const userRole = req.user!.role;
+      const userId = req.user!.userId;
 
-      const result = await driverService.getDrivers(query, userRole);
+      const result = await driverService.getDrivers(query, userRole, userId);
       
       res.status(200).json(result);
     } catch (error) {
@@ -189,6 +193,27 @@ export class DriverController {
     }
   }
 
+  /**
+   * Get a driver's location trail as GeoJSON
+   */
+  async getDriverTrack(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { driverId } = req.params;
+      const query: DriverTrackQuery = req.query;
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await driverLocationService.getDriverTrack(driverId, query, userRole, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Delete driver
    */
@@ -211,52 +236,12 @@ export class DriverController {
   async getMyProfile(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const userId = req.user!.userId;
-      const userRole = req.user!.role;
-
-      if (userRole !== 'DRIVER') {
-        return res.status(403).json({
-          success: false,
-          error: 'Only drivers can access this endpoint'
-        });
-      }
-
-      // Find driver by userId
-      const { PrismaClient } = require('@prisma/client');
-      const prisma = new PrismaClient();
-      
-      const driver = await prisma.driver.findUnique({
-        where: { userId },
-        include: {
-          user: {
-            select: {
-              id: true,
-              email: true,
-              fullName: true,
-              phone: true,
-              isActive: true
-            }
-          },
-          truck: {
-            select: {
-              id: true,
-              licensePlate: true,
-              model: true,
-              capacity: true
-            }
-          }
-        }
-      });
 
-      if (!driver) {
-        return res.status(404).json({
-          success: false,
-          error: 'Driver profile not found'
-        });
-      }
+      const driver = await driverService.getDriverByUserId(userId);
 
       res.status(200).json({
         success: true,
-        data: driverService.formatDriverResponse(driver)
+        data: driver
       });
     } catch (error) {
       next(error);
@@ -0,0 +1,178 @@
+// src/controllers/facilityController.ts
+import { Request, Response, NextFunction } from 'express';
+import { FacilityService } from '../services/facilityService';
+import {
+  CreateDepotRequest,
+  UpdateDepotRequest,
+  CreateDisposalSiteRequest,
+  UpdateDisposalSiteRequest,
+  FacilityListQuery
+} from '@/types/facility';
+
+const facilityService = new FacilityService();
+
+export class FacilityController {
+  /**
+   * Create depot
+   */
+  async createDepot(req: Request, res: Response, next: NextFunction) {
+    try {
+      const depotData: CreateDepotRequest = req.body;
+      const result = await facilityService.createDepot(depotData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Depot created successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get all depots
+   */
+  async getDepots(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query: FacilityListQuery = req.query as any;
+      const result = await facilityService.getDepots(query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get depot by ID
+   */
+  async getDepotById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { depotId } = req.params;
+      const result = await facilityService.getDepotById(depotId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update depot
+   */
+  async updateDepot(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { depotId } = req.params;
+      const updateData: UpdateDepotRequest = req.body;
+      const result = await facilityService.updateDepot(depotId, updateData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Depot updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete depot
+   */
+  async deleteDepot(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { depotId } = req.params;
+      const result = await facilityService.deleteDepot(depotId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create disposal site
+   */
+  async createDisposalSite(req: Request, res: Response, next: NextFunction) {
+    try {
+      const siteData: CreateDisposalSiteRequest = req.body;
+      const result = await facilityService.createDisposalSite(siteData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Disposal site created successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get all disposal sites
+   */
+  async getDisposalSites(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query: FacilityListQuery = req.query as any;
+      const result = await facilityService.getDisposalSites(query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get disposal site by ID
+   */
+  async getDisposalSiteById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { siteId } = req.params;
+      const result = await facilityService.getDisposalSiteById(siteId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update disposal site
+   */
+  async updateDisposalSite(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { siteId } = req.params;
+      const updateData: UpdateDisposalSiteRequest = req.body;
+      const result = await facilityService.updateDisposalSite(siteId, updateData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Disposal site updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete disposal site
+   */
+  async deleteDisposalSite(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { siteId } = req.params;
+      const result = await facilityService.deleteDisposalSite(siteId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+// src/controllers/fuelController.ts
+import { Response, NextFunction } from 'express';
+import { FuelService } from '../services/fuelService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { CreateFuelLogRequest, FuelLogListQuery, FuelConsumptionQuery } from '@/types/fuel';
+
+const fuelService = new FuelService();
+
+export class FuelController {
+  /**
+   * Log a fill-up
+   */
+  async createFuelLog(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const data: CreateFuelLogRequest = req.body;
+      const result = await fuelService.createFuelLog(data, req.user!.role, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        message: result.anomalies.length > 0
+          ? 'Fuel log recorded and flagged for review'
+          : 'Fuel log recorded successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get fuel logs
+   */
+  async getFuelLogs(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: FuelLogListQuery = req.query as any;
+      const result = await fuelService.getFuelLogs(query, req.user!.role, req.user!.userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get fuel consumption per km and per tonne collected
+   */
+  async getConsumption(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: FuelConsumptionQuery = req.query as any;
+      const result = await fuelService.getConsumption(query);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// src/controllers/gatewayController.ts
+import { Response, NextFunction } from 'express';
+import { GatewayService } from '../services/gatewayService';
+import { BinEventService } from '../services/binEventService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { ProvisionGatewayRequest } from '@/types/gateway';
+import { BinAlertListQuery, AcknowledgeAlertRequest } from '@/types/binEvent';
+
+const gatewayService = new GatewayService();
+const binEventService = new BinEventService();
+
+export class GatewayController {
+  /**
+   * List the organization's gateways
+   */
+  async getGateways(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await gatewayService.getGateways();
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a gateway
+   */
+  async getGatewayById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { gatewayId } = req.params;
+      const result = await gatewayService.getGatewayById(gatewayId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Provision a gateway and its credentials
+   */
+  async provisionGateway(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const gatewayData: ProvisionGatewayRequest = req.body;
+      const result = await gatewayService.provisionGateway(gatewayData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Gateway provisioned successfully. Store the secret now, it will not be shown again',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rotate gateway credentials
+   */
+  async rotateCredentials(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { gatewayId } = req.params;
+      const result = await gatewayService.rotateCredentials(gatewayId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Gateway credentials rotated successfully. Store the secret now, it will not be shown again',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke gateway credentials
+   */
+  async revokeGateway(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { gatewayId } = req.params;
+      const result = await gatewayService.revokeGateway(gatewayId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Gateway revoked successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get health alerts raised by a gateway
+   */
+  async getGatewayAlerts(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { gatewayId } = req.params;
+      const query: BinAlertListQuery = req.query as any;
+
+      const result = await binEventService.getGatewayAlerts(gatewayId, query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Acknowledge a gateway health alert
+   */
+  async acknowledgeAlert(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { gatewayId, alertId } = req.params;
+      const { note }: AcknowledgeAlertRequest = req.body;
+      const userId = req.user!.userId;
+
+      const result = await binEventService.acknowledgeGatewayAlert(gatewayId, alertId, note, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Alert acknowledged successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+// src/controllers/inspectionController.ts
+import { Response, NextFunction } from 'express';
+import { InspectionService } from '../services/inspectionService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  CreateInspectionItemRequest,
+  UpdateInspectionItemRequest,
+  SubmitInspectionRequest,
+  InspectionListQuery
+} from '@/types/inspection';
+
+const inspectionService = new InspectionService();
+
+export class InspectionController {
+  /**
+   * Get the inspection checklist
+   */
+  async getChecklist(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await inspectionService.getChecklist(req.user!.role);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a checklist item
+   */
+  async createChecklistItem(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const data: CreateInspectionItemRequest = req.body;
+      const result = await inspectionService.createChecklistItem(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Checklist item created successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a checklist item
+   */
+  async updateChecklistItem(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { itemId } = req.params;
+      const data: UpdateInspectionItemRequest = req.body;
+      const result = await inspectionService.updateChecklistItem(itemId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Checklist item updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Submit a pre-trip inspection
+   */
+  async submitInspection(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const data: SubmitInspectionRequest = req.body;
+      const result = await inspectionService.submitInspection(req.user!.userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: result.criticalFailure
+          ? 'Inspection failed on a critical item, a maintenance ticket has been opened'
+          : 'Inspection submitted successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get inspections
+   */
+  async getInspections(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: InspectionListQuery = req.query as any;
+      const result = await inspectionService.getInspections(query, req.user!.role, req.user!.userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get inspection by ID
+   */
+  async getInspectionById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { inspectionId } = req.params;
+      const result = await inspectionService.getInspectionById(inspectionId, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,185 @@
+// src/controllers/maintenanceController.ts
+import { Response, NextFunction } from 'express';
+import { MaintenanceService } from '../services/maintenanceService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  MaintenanceTicketListQuery,
+  UpdateMaintenanceTicketRequest,
+  MaintenanceRecordListQuery,
+  CreateMaintenanceRecordRequest,
+  UpdateMaintenanceRecordRequest,
+  CreateMaintenanceRuleRequest,
+  UpdateMaintenanceRuleRequest
+} from '@/types/maintenance';
+
+const maintenanceService = new MaintenanceService();
+
+export class MaintenanceController {
+  /**
+   * Get maintenance tickets
+   */
+  async getTickets(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: MaintenanceTicketListQuery = req.query as any;
+      const result = await maintenanceService.getTickets(query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a maintenance ticket's status
+   */
+  async updateTicket(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { ticketId } = req.params;
+      const data: UpdateMaintenanceTicketRequest = req.body;
+      const result = await maintenanceService.updateTicket(ticketId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Maintenance ticket updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get maintenance records
+   */
+  async getRecords(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: MaintenanceRecordListQuery = req.query as any;
+      const result = await maintenanceService.getRecords(query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Record maintenance on a truck
+   */
+  async createRecord(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const data: CreateMaintenanceRecordRequest = req.body;
+      const result = await maintenanceService.createRecord(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Maintenance record created successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a maintenance record
+   */
+  async updateRecord(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { recordId } = req.params;
+      const data: UpdateMaintenanceRecordRequest = req.body;
+      const result = await maintenanceService.updateRecord(recordId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Maintenance record updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get service interval rules
+   */
+  async getRules(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { truckId } = req.query;
+      const result = await maintenanceService.getRules(truckId as string | undefined);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a service interval rule
+   */
+  async createRule(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const data: CreateMaintenanceRuleRequest = req.body;
+      const result = await maintenanceService.createRule(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Maintenance rule created successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a service interval rule
+   */
+  async updateRule(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { ruleId } = req.params;
+      const data: UpdateMaintenanceRuleRequest = req.body;
+      const result = await maintenanceService.updateRule(ruleId, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Maintenance rule updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a service interval rule
+   */
+  async deleteRule(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { ruleId } = req.params;
+      const result = await maintenanceService.deleteRule(ruleId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get trucks with services due soon or overdue
+   */
+  async getDueMaintenance(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const result = await maintenanceService.getDueMaintenance();
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+// src/controllers/mfaController.ts
+import { Response, NextFunction } from 'express';
+import { MfaService } from '../services/mfaService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { MfaCodeRequest } from '@/types/mfa';
+
+const mfaService = new MfaService();
+
+export class MfaController {
+  /**
+   * Get the current user's two-factor authentication status
+   */
+  async getStatus(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { userId, role } = req.user!;
+      const result = await mfaService.getStatus(userId, role);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start enrolling an authenticator app
+   */
+  async beginEnrollment(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.userId;
+      const result = await mfaService.beginEnrollment(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app
+   */
+  async confirmEnrollment(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.userId;
+      const { code }: MfaCodeRequest = req.body;
+      const result = await mfaService.confirmEnrollment(userId, code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store the recovery codes safely and sign in again',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the current user's recovery codes
+   */
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.userId;
+      const { code }: MfaCodeRequest = req.body;
+      const result = await mfaService.regenerateRecoveryCodes(userId, code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Recovery codes regenerated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Switch off two-factor authentication for the current user
+   */
+  async disable(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { userId, role } = req.user!;
+      const { code }: MfaCodeRequest = req.body;
+      const result = await mfaService.disable(userId, role, code);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reset another user's second factor
+   */
+  async resetUser(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { userId } = req.params;
+      const result = await mfaService.resetUser(userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
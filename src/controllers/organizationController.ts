@@ -0,0 +1,80 @@
+// src/controllers/organizationController.ts
+import { Request, Response, NextFunction } from 'express';
+import { OrganizationService } from '../services/organizationService';
+import {
+  CreateOrganizationRequest,
+  UpdateOrganizationRequest,
+  OrganizationListQuery
+} from '@/types/organization';
+
+const organizationService = new OrganizationService();
+
+export class OrganizationController {
+  /**
+   * Onboard a new organization and its first administrator
+   */
+  async createOrganization(req: Request, res: Response, next: NextFunction) {
+    try {
+      const organizationData: CreateOrganizationRequest = req.body;
+      const result = await organizationService.createOrganization(organizationData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Organization created successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get all organizations
+   */
+  async getOrganizations(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query: OrganizationListQuery = req.query;
+      const result = await organizationService.getOrganizations(query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get organization by ID
+   */
+  async getOrganizationById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { organizationId } = req.params;
+      const result = await organizationService.getOrganizationById(organizationId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update organization
+   */
+  async updateOrganization(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { organizationId } = req.params;
+      const updateData: UpdateOrganizationRequest = req.body;
+      const result = await organizationService.updateOrganization(organizationId, updateData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Organization updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,7 +1,9 @@
 // src/controllers/pickupController.ts
 import { Response, NextFunction } from 'express';
 import { PickupService } from '../services/pickupService';
+import { DriverService } from '../services/driverService';
 import { RouteOptimizationService } from '../services/routeOptimizationService';
+import { EtaService } from '../services/etaService';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { 
   CreatePickupRequest, 
@@ -11,9 +13,12 @@ import {
   AssignDriverRequest,
   PickupRouteOptimization
 } from '@/types/pickup';
+import { FleetRouteOptimizationRequest } from '@/types/routing';
 
 const pickupService = new PickupService();
+const driverService = new DriverService();
 const routeOptimizationService = new RouteOptimizationService();
+const etaService = new EtaService();
 
 export class PickupController {
   /**
@@ -74,6 +79,26 @@ export class PickupController {
     }
   }
 
+  /**
+   * Get the current arrival estimate for a pickup
+   */
+  async getPickupEta(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { pickupId } = req.params;
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await etaService.getPickupEta(pickupId, userRole, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Update pickup
    */
@@ -122,8 +147,9 @@ export class PickupController {
       const { pickupId } = req.params;
       const assignData: AssignDriverRequest = req.body;
       const userRole = req.user!.role;
+      const userId = req.user!.userId;
 
-      const result = await pickupService.assignDriverToPickup(pickupId, assignData, userRole);
+      const result = await pickupService.assignDriverToPickup(pickupId, assignData, userRole, userId);
       
       res.status(200).json(result);
     } catch (error) {
@@ -174,29 +200,8 @@ export class PickupController {
   async getMyUpcomingPickups(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const userId = req.user!.userId;
-      const userRole = req.user!.role;
-
-      if (userRole !== 'DRIVER') {
-        return res.status(403).json({
-          success: false,
-          error: 'Only drivers can access this endpoint'
-        });
-      }
-
-      // Find driver by userId
-      const { PrismaClient } = require('@prisma/client');
-      const prisma = new PrismaClient();
-      
-      const driver = await prisma.driver.findUnique({
-        where: { userId }
-      });
 
-      if (!driver) {
-        return res.status(404).json({
-          success: false,
-          error: 'Driver profile not found'
-        });
-      }
+      const driver = await driverService.getDriverByUserId(userId);
 
       const result = await pickupService.getUpcomingPickupsForDriver(driver.id);
       
@@ -212,7 +217,10 @@ export class PickupController {
   async optimizeRoute(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const optimizationData: PickupRouteOptimization = req.body;
-      const result = await routeOptimizationService.optimizePickupRoute(optimizationData);
+      const userRole = req.user!.role;
+      const userId = req.user!.userId;
+
+      const result = await routeOptimizationService.optimizeDriverRoute(optimizationData, userRole, userId);
       
       res.status(200).json({
         success: true,
@@ -224,35 +232,32 @@ export class PickupController {
     }
   }
 
+  /**
+   * Plan routes for all open pickups across the available fleet
+   */
+  async optimizeFleetRoutes(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const optimizationData: FleetRouteOptimizationRequest = req.body;
+      const result = await routeOptimizationService.optimizeFleetRoutes(optimizationData);
+      
+      res.status(200).json({
+        success: true,
+        message: 'Fleet routes optimized successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get optimized route for driver
    */
   async getMyOptimizedRoute(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const userId = req.user!.userId;
-      const userRole = req.user!.role;
-
-      if (userRole !== 'DRIVER') {
-        return res.status(403).json({
-          success: false,
-          error: 'Only drivers can access this endpoint'
-        });
-      }
-
-      // Find driver by userId
-      const { PrismaClient } = require('@prisma/client');
-      const prisma = new PrismaClient();
-      
-      const driver = await prisma.driver.findUnique({
-        where: { userId }
-      });
 
-      if (!driver) {
-        return res.status(404).json({
-          success: false,
-          error: 'Driver profile not found'
-        });
-      }
+      const driver = await driverService.getDriverByUserId(userId);
 
       const result = await routeOptimizationService.getDriverOptimizedRoute(driver.id);
       
@@ -0,0 +1,146 @@
+// src/controllers/roleController.ts
+import { Request, Response, NextFunction } from 'express';
+import { RoleService } from '../services/roleService';
+import { CreateRoleRequest, UpdateRoleRequest, AssignUserRoleRequest, UpdateUserRoleRequest } from '@/types/policy';
+
+const roleService = new RoleService();
+
+export class RoleController {
+  /**
+   * List the permissions roles can be granted
+   */
+  async getPermissions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = roleService.getPermissions();
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List built-in and custom roles
+   */
+  async getRoles(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await roleService.getRoles();
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get custom role by ID
+   */
+  async getRoleById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { roleId } = req.params;
+      const result = await roleService.getRoleById(roleId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create custom role
+   */
+  async createRole(req: Request, res: Response, next: NextFunction) {
+    try {
+      const roleData: CreateRoleRequest = req.body;
+      const result = await roleService.createRole(roleData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Role created successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update custom role
+   */
+  async updateRole(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { roleId } = req.params;
+      const updateData: UpdateRoleRequest = req.body;
+      const result = await roleService.updateRole(roleId, updateData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete custom role
+   */
+  async deleteRole(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { roleId } = req.params;
+      const result = await roleService.deleteRole(roleId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Assign a user's role and depot
+   */
+  async assignUserRole(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { userId } = req.params;
+      const assignData: AssignUserRoleRequest = req.body;
+      const result = await roleService.assignUserRole(userId, assignData);
+
+      res.status(200).json({
+        success: true,
+        message: 'User role updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a user's built-in role
+   */
+  async updateUserRole(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { userId } = req.params;
+      const updateData: UpdateUserRoleRequest = req.body;
+      const result = await roleService.updateUserRole(userId, updateData);
+
+      res.status(200).json({
+        success: true,
+        message: 'User role updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+// src/controllers/routeController.ts
+import { Response, NextFunction } from 'express';
+import { RouteService } from '../services/routeService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  RouteListQuery,
+  CompleteRouteStopRequest,
+  SkipRouteStopRequest,
+  CompleteRouteRequest
+} from '@/types/route';
+
+const routeService = new RouteService();
+
+export class RouteController {
+  /**
+   * Get routes
+   */
+  async getRoutes(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: RouteListQuery = req.query as any;
+      const result = await routeService.getRoutes(query, req.user!.role, req.user!.userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get route by ID
+   */
+  async getRouteById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { routeId } = req.params;
+      const result = await routeService.getRouteById(routeId, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Publish a planned route to its driver
+   */
+  async publishRoute(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { routeId } = req.params;
+      const result = await routeService.publishRoute(routeId, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Route published successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start a published route
+   */
+  async startRoute(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { routeId } = req.params;
+      const result = await routeService.startRoute(routeId, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Route started successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete a route stop
+   */
+  async completeStop(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { routeId, stopId } = req.params;
+      const stopData: CompleteRouteStopRequest = req.body;
+      const result = await routeService.completeStop(routeId, stopId, stopData, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Stop completed successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Skip a route stop
+   */
+  async skipStop(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { routeId, stopId } = req.params;
+      const skipData: SkipRouteStopRequest = req.body;
+      const result = await routeService.skipStop(routeId, stopId, skipData, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Stop skipped successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete a route
+   */
+  async completeRoute(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { routeId } = req.params;
+      const completionData: CompleteRouteRequest = req.body;
+      const result = await routeService.completeRoute(routeId, completionData, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Route completed successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// src/controllers/sessionController.ts
+import { Response, NextFunction } from 'express';
+import { SessionService } from '../services/sessionService';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+const sessionService = new SessionService();
+
+export class SessionController {
+  /**
+   * List the current user's sessions
+   */
+  async getSessions(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { userId, sessionId } = req.user!;
+      const result = await sessionService.getSessions(userId, sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sign out one of the current user's sessions
+   */
+  async revokeSession(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.userId;
+      const { sessionId } = req.params;
+      const result = await sessionService.revokeSession(userId, sessionId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sign the current user out everywhere
+   */
+  async revokeAllSessions(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user!.userId;
+      const result = await sessionService.revokeAllSessions(userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,212 @@
+// src/controllers/shiftController.ts
+import { Response, NextFunction } from 'express';
+import { ShiftService } from '../services/shiftService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  SetShiftTemplatesRequest,
+  ClockRequest,
+  ShiftListQuery,
+  TimesheetQuery,
+  TimesheetResponse
+} from '@/types/shift';
+
+const shiftService = new ShiftService();
+
+/**
+ * One row per shift, with the period totals at the end
+ */
+const timesheetToCSV = (timesheet: TimesheetResponse): string => {
+  const lines = [];
+
+  lines.push(`Driver,${timesheet.driver.fullName},${timesheet.driver.driverLicense}`);
+  lines.push(`Pay Period,${timesheet.periodStart.toISOString()},${timesheet.periodEnd.toISOString()}`);
+  lines.push('');
+  lines.push('Status,Scheduled Start,Scheduled End,Clock In,Clock Out,Worked Minutes,Break Minutes,Overtime Minutes');
+  timesheet.shifts.forEach(shift => {
+    lines.push([
+      shift.status,
+      shift.scheduledStart?.toISOString() ?? '',
+      shift.scheduledEnd?.toISOString() ?? '',
+      shift.clockInAt?.toISOString() ?? '',
+      shift.clockOutAt?.toISOString() ?? '',
+      shift.workedMinutes ?? '',
+      shift.breakMinutes ?? '',
+      shift.overtimeMinutes ?? ''
+    ].join(','));
+  });
+  lines.push('');
+  lines.push('Totals');
+  lines.push(`Shifts Worked,${timesheet.totals.shiftsWorked}`);
+  lines.push(`Missed Shifts,${timesheet.totals.missedShifts}`);
+  lines.push(`Worked Minutes,${timesheet.totals.workedMinutes}`);
+  lines.push(`Break Minutes,${timesheet.totals.breakMinutes}`);
+  lines.push(`Overtime Minutes,${timesheet.totals.overtimeMinutes}`);
+
+  return lines.join('\n');
+};
+
+export class ShiftController {
+  /**
+   * Get a driver's weekly shift schedule
+   */
+  async getShiftTemplates(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { driverId } = req.params;
+      const result = await shiftService.getShiftTemplates(driverId, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace a driver's weekly shift schedule
+   */
+  async setShiftTemplates(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { driverId } = req.params;
+      const data: SetShiftTemplatesRequest = req.body;
+      const result = await shiftService.setShiftTemplates(driverId, data, req.user!.role, req.user!.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Shift schedule updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the shift the current driver is clocked in to
+   */
+  async getCurrentShift(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const driver = await shiftService.getDriverForUser(req.user!.userId);
+      const result = await shiftService.getCurrentShift(driver.id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Clock in
+   */
+  async clockIn(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const data: ClockRequest = req.body;
+      const driver = await shiftService.getDriverForUser(req.user!.userId);
+      const result = await shiftService.clockIn(driver.id, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Clocked in successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Clock out
+   */
+  async clockOut(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const data: ClockRequest = req.body;
+      const driver = await shiftService.getDriverForUser(req.user!.userId);
+      const result = await shiftService.clockOut(driver.id, data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Clocked out successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start a break
+   */
+  async startBreak(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const driver = await shiftService.getDriverForUser(req.user!.userId);
+      const result = await shiftService.startBreak(driver.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Break started',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End a break
+   */
+  async endBreak(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const driver = await shiftService.getDriverForUser(req.user!.userId);
+      const result = await shiftService.endBreak(driver.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Break ended',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get shifts
+   */
+  async getShifts(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: ShiftListQuery = req.query as any;
+      const result = await shiftService.getShifts(query, req.user!.role, req.user!.userId);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Export a driver's timesheet for a pay period
+   */
+  async getTimesheet(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const query: TimesheetQuery = req.query as any;
+      const result = await shiftService.getTimesheet(query, req.user!.role, req.user!.userId);
+
+      if (query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="timesheet-${result.driver.id}.csv"`);
+        res.status(200).send(timesheetToCSV(result));
+      } else {
+        res.status(200).json({
+          success: true,
+          data: result
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+// src/controllers/telematicsController.ts
+import { Response, NextFunction } from 'express';
+import { TelematicsService } from '../services/telematicsService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { DeviceAuthenticatedRequest } from '../middleware/deviceAuth';
+import { ProvisionTelematicsUnitRequest, TelemetryBatchRequest, TruckTelemetryQuery } from '@/types/telemetry';
+
+const telematicsService = new TelematicsService();
+
+export class TelematicsController {
+  /**
+   * Provision telematics unit credentials for a truck
+   */
+  async provisionUnit(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { truckId } = req.params;
+      const unitData: ProvisionTelematicsUnitRequest = req.body;
+
+      const result = await telematicsService.provisionUnit(truckId, unitData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Telematics unit provisioned successfully. Store the secret now, it will not be shown again',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the telematics unit fitted to a truck
+   */
+  async getUnit(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { truckId } = req.params;
+      const result = await telematicsService.getUnitByTruckId(truckId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke the telematics unit fitted to a truck
+   */
+  async revokeUnit(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { truckId } = req.params;
+      const result = await telematicsService.revokeUnit(truckId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Telematics unit revoked successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Ingest a batch of readings from a telematics unit
+   */
+  async ingestTelemetry(req: DeviceAuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { readings }: TelemetryBatchRequest = req.body;
+      const result = await telematicsService.ingestReadings(req.telematicsUnit!.truckId, readings);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a truck's telemetry
+   */
+  async getTruckTelemetry(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { truckId } = req.params;
+      const query: TruckTelemetryQuery = req.query as any;
+      const result = await telematicsService.getTruckTelemetry(truckId, query);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -102,4 +102,18 @@ export class TruckController {
       next(error);
     }
   }
+
+  /**
+   * Get truck maintenance schedule
+   */
+  async getTruckMaintenanceSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { truckId } = req.params;
+      const result = await truckService.getTruckMaintenanceSchedule(truckId);
+      
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
\ No newline at end of file
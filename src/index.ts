@@ -7,6 +7,8 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 
 import { env } from './config/env';
+import { setSocketServer } from './config/socket';
+import { authenticateSocket } from './middleware/socketAuth';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 import { authRoutes } from './routes/auth';
@@ -15,9 +17,26 @@ import { driverRoutes } from './routes/drivers';
 import { truckRoutes } from './routes/trucks';
 import { pickupRoutes } from './routes/pickups';
 import { analyticsRoutes } from './routes/analytics';
+import { facilityRoutes } from './routes/facilities';
+import { routeRoutes } from './routes/routes';
+import { shiftRoutes } from './routes/shifts';
+import { inspectionRoutes } from './routes/inspections';
+import { maintenanceRoutes } from './routes/maintenance';
+import { fuelRoutes } from './routes/fuel';
+import { roleRoutes } from './routes/roles';
+import { organizationRoutes } from './routes/organizations';
+import { userRoutes } from './routes/users';
+import { gatewayRoutes } from './routes/gateways';
 import { RealtimeDriverService } from './services/realtimeDriverService';
 import { RealtimeBinService } from './services/realtimeBinService';
+import { RealtimePickupService } from './services/realtimePickupService';
 import { MQTTService } from './services/mqttService';
+import { BinCommandSchedulerService } from './services/binCommandSchedulerService';
+import { BinSensorMonitorService } from './services/binSensorMonitorService';
+import { PickupSchedulerService } from './services/pickupSchedulerService';
+import { DriverLocationService } from './services/driverLocationService';
+import { ShiftMonitorService } from './services/shiftMonitorService';
+import { MaintenanceMonitorService } from './services/maintenanceMonitorService';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 
@@ -58,6 +77,10 @@ const io = new SocketIOServer(server, {
     methods: ['GET', 'POST']
   }
 });
+setSocketServer(io);
+
+// Every socket authenticates when it connects, as a user or as a bin device
+io.use(authenticateSocket);
 
 // Initialize real-time services
 const realtimeBinService = new RealtimeBinService(io);
@@ -66,9 +89,36 @@ realtimeBinService.initialize();
 // Initialize MQTT service
 const mqttService = new MQTTService(realtimeBinService);
 
+// Deliver queued bin commands over MQTT
+const binCommandScheduler = new BinCommandSchedulerService(mqttService);
+binCommandScheduler.startScheduler();
+
+// Flag bins whose sensors stop reporting
+const binSensorMonitor = new BinSensorMonitorService(realtimeBinService);
+binSensorMonitor.startMonitor();
+
+// Generate automatic pickups, reminders and overdue escalations
+const pickupScheduler = new PickupSchedulerService();
+pickupScheduler.startScheduler();
+
+// Downsample old driver location history
+const driverLocationService = new DriverLocationService();
+driverLocationService.startCompaction();
+
 const realtimeDriverService = new RealtimeDriverService(io);
 realtimeDriverService.initialize();
 
+// Flag scheduled shifts nobody clocked in to
+const shiftMonitor = new ShiftMonitorService(realtimeDriverService);
+shiftMonitor.startMonitor();
+
+// Open tickets for trucks overdue for service
+const maintenanceMonitor = new MaintenanceMonitorService(io);
+maintenanceMonitor.startMonitor();
+
+const realtimePickupService = new RealtimePickupService(io);
+realtimePickupService.initialize();
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({
@@ -86,6 +136,16 @@ app.use('/api/drivers', driverRoutes);
 app.use('/api/trucks', truckRoutes);
 app.use('/api/pickups', pickupRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/facilities', facilityRoutes);
+app.use('/api/routes', routeRoutes);
+app.use('/api/shifts', shiftRoutes);
+app.use('/api/inspections', inspectionRoutes);
+app.use('/api/maintenance', maintenanceRoutes);
+app.use('/api/fuel', fuelRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/gateways', gatewayRoutes);
 
 // Error handling
 app.use(notFoundHandler);
@@ -93,7 +153,8 @@ app.use(errorHandler);
 
 const PORT = env.PORT;
 
-app.listen(PORT, () => {
+// Socket.io shares the HTTP server, so listen on it rather than on the app
+server.listen(PORT, () => {
   console.log(`🚀 Smart Waste Backend Server running on port ${PORT}`);
   console.log(`📊 Environment: ${env.NODE_ENV}`);
   console.log(`🏥 Health check: http://localhost:${PORT}/health`);
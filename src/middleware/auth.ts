@@ -1,13 +1,27 @@
 // src/middleware/auth.ts
 import { Request, Response, NextFunction } from 'express';
+import { UserRole } from '@prisma/client';
 import { verifyAccessToken } from '../utils/jwt';
+import { runWithTenant } from '../utils/tenantContext';
 import { AppError } from './errorHandler';
+import { PolicyService } from '../services/policyService';
+import { AuthService } from '../services/authService';
+import { Permission } from '../config/permissions';
+import { env } from '../config/env';
+
+const policyService = new PolicyService();
+const authService = new AuthService();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
     email: string;
     role: string;
+    organizationId: string | null;
+    mfa?: boolean;
+    sessionId?: string;
   };
 }
 
@@ -29,26 +43,98 @@ export const authenticate = async (
     const decoded = verifyAccessToken(token);
     
     req.user = decoded;
-    next();
+
+    const organizationId = resolveOrganization(req);
+
+    // Everything downstream only sees the organization's data
+    runWithTenant(organizationId, () => next());
   } catch (error) {
     next(error);
   }
 };
 
-export const authorize = (roles: string[]) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+/**
+ * The organization a request acts for. Users act for their own; super-admins act
+ * platform-wide unless they pick an organization with the X-Organization-Id header.
+ */
+const resolveOrganization = (req: AuthenticatedRequest): string | null => {
+  const { role, organizationId } = req.user!;
+
+  if (role === UserRole.SUPER_ADMIN) {
+    const requested = req.header('x-organization-id');
+
+    if (requested && !UUID_PATTERN.test(requested)) {
+      const error: AppError = new Error('Invalid organization ID format');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return requested || null;
+  }
+
+  // Tokens issued before organizations existed carry no tenant and are not accepted
+  if (!organizationId) {
+    const error: AppError = new Error('Token is not bound to an organization. Please sign in again');
+    error.statusCode = 401;
+    throw error;
+  }
+
+  return organizationId;
+};
+
+/**
+ * Require the user's role to hold a permission. Which resources it covers is
+ * enforced by the services, through the policy engine. Roles that require two-factor
+ * authentication hold no permissions until the user signs in with a second factor.
+ */
+export const requirePermission = (permission: Permission) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        const error: AppError = new Error('Authentication required');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      await policyService.authorize(permission, req.user.role);
+
+      if (!req.user.mfa && await policyService.requiresMfa(req.user.role)) {
+        const error: AppError = new Error('Your role requires two-factor authentication. Set it up at /api/auth/mfa and sign in again');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Require the user to have verified their email address, when the deployment
+ * enforces verification with REQUIRE_EMAIL_VERIFICATION
+ */
+export const requireVerifiedEmail = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!env.REQUIRE_EMAIL_VERIFICATION) {
+      return next();
+    }
+
     if (!req.user) {
       const error: AppError = new Error('Authentication required');
       error.statusCode = 401;
       throw error;
     }
 
-    if (!roles.includes(req.user.role)) {
-      const error: AppError = new Error('Insufficient permissions');
+    if (!(await authService.isEmailVerified(req.user.userId))) {
+      const error: AppError = new Error('Please verify your email address first');
       error.statusCode = 403;
       throw error;
     }
 
     next();
-  };
-};
\ No newline at end of file
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,61 @@
+// src/middleware/deviceAuth.ts
+import { Request, Response, NextFunction } from 'express';
+import { DeviceService } from '../services/deviceService';
+import { TelematicsService } from '../services/telematicsService';
+import { AuthenticatedDevice } from '@/types/device';
+import { AuthenticatedTelematicsUnit } from '@/types/telemetry';
+import { runWithTenant } from '@/utils/tenantContext';
+
+const deviceService = new DeviceService();
+const telematicsService = new TelematicsService();
+
+export interface DeviceAuthenticatedRequest extends Request {
+  device?: AuthenticatedDevice;
+  telematicsUnit?: AuthenticatedTelematicsUnit;
+}
+
+/**
+ * Authenticate an IoT device by its X-Device-Id / X-Device-Secret headers
+ * and make sure it is bound to the bin in the :binCode parameter. The request
+ * is then handled within the organization the bin belongs to.
+ */
+export const authenticateDevice = async (
+  req: DeviceAuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const deviceId = req.header('x-device-id');
+    const deviceSecret = req.header('x-device-secret');
+    const firmwareVersion = req.header('x-firmware-version');
+
+    req.device = await deviceService.verifyDeviceCredentials(
+      req.params.binCode,
+      { deviceId, deviceSecret },
+      firmwareVersion
+    );
+    runWithTenant(req.device.organizationId, () => next());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Authenticate a truck's telematics unit by its X-Device-Id / X-Device-Secret headers,
+ * handling the request within the organization the truck belongs to
+ */
+export const authenticateTelematicsUnit = async (
+  req: DeviceAuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const deviceId = req.header('x-device-id');
+    const deviceSecret = req.header('x-device-secret');
+
+    req.telematicsUnit = await telematicsService.verifyUnitCredentials({ deviceId, deviceSecret });
+    runWithTenant(req.telematicsUnit.organizationId, () => next());
+  } catch (error) {
+    next(error);
+  }
+};
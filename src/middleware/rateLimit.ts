@@ -0,0 +1,55 @@
+// src/middleware/rateLimit.ts
+import { Request, Response, NextFunction } from 'express';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+import { AuthenticatedRequest } from './auth';
+import { AppError } from './errorHandler';
+import { verifyMfaChallengeToken } from '../utils/jwt';
+
+/**
+ * Limit how often emails can be sent to one address, whoever asks for them, so
+ * the verification and password reset routes cannot be used to flood an inbox.
+ * Runs after validation, which normalizes the email in the body.
+ */
+export const emailRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  limit: 5, // emails per address per window
+  keyGenerator: (req: AuthenticatedRequest) => {
+    const email = req.body?.email || req.user?.email;
+    return email ? `email:${String(email).toLowerCase()}` : ipKeyGenerator(req.ip || '');
+  },
+  handler: (req: Request, res: Response, next: NextFunction) => {
+    const error: AppError = new Error('Too many emails requested for this address, please try again later');
+    error.statusCode = 429;
+    next(error);
+  }
+});
+
+/**
+ * Lock a user out of entering second-factor codes after a few wrong ones, so a
+ * six-digit code cannot be guessed by retrying the same sign-in. Failures count
+ * against the user the sign-in challenge or access token belongs to, whichever
+ * address they come from; successful attempts are not counted.
+ */
+export const mfaAttemptLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 5, // failed codes per user per window
+  skipSuccessfulRequests: true,
+  keyGenerator: (req: AuthenticatedRequest) => {
+    let userId = req.user?.userId;
+
+    if (!userId && req.body?.mfaToken) {
+      try {
+        userId = verifyMfaChallengeToken(String(req.body.mfaToken)).userId;
+      } catch {
+        // An invalid challenge fails on its own; count it against the address
+      }
+    }
+
+    return userId ? `mfa:${userId}` : ipKeyGenerator(req.ip || '');
+  },
+  handler: (req: Request, res: Response, next: NextFunction) => {
+    const error: AppError = new Error('Too many incorrect codes, please try again later');
+    error.statusCode = 429;
+    next(error);
+  }
+});
@@ -0,0 +1,137 @@
+// src/middleware/socketAuth.ts
+import { Socket } from 'socket.io';
+import { UserRole } from '@prisma/client';
+import { verifyAccessToken } from '../utils/jwt';
+import { runWithTenant } from '../utils/tenantContext';
+import { AppError } from './errorHandler';
+import { PolicyService } from '../services/policyService';
+import { DeviceService } from '../services/deviceService';
+import { ShiftService } from '../services/shiftService';
+import { organizationRoom, userRoom, driverRoom, deviceRoom } from '../config/socket';
+import { AuthenticatedDevice } from '@/types/device';
+
+const policyService = new PolicyService();
+const deviceService = new DeviceService();
+const shiftService = new ShiftService();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SocketUser {
+  userId: string;
+  email: string;
+  role: string;
+  organizationId: string | null; // The organization the socket acts for
+  mfa?: boolean;
+  driverId: string | null; // Set when the user has a driver profile
+}
+
+export interface SocketData {
+  user?: SocketUser;
+  device?: AuthenticatedDevice;
+}
+
+/**
+ * Authenticate a Socket.io connection during its handshake. Users connect with their
+ * access token as auth.token, bin devices with auth.deviceId, auth.deviceSecret and
+ * auth.binCode. Users are put in the rooms of their own organization that their role
+ * may see; nothing a client sends afterwards changes who it is or what it receives.
+ * Devices join a room of their own, which is closed when their credentials change.
+ */
+export const authenticateSocket = async (socket: Socket, next: (error?: Error) => void) => {
+  try {
+    const auth = socket.handshake.auth || {};
+    const data = socket.data as SocketData;
+
+    if (auth.token) {
+      data.user = await authenticateUser(socket, auth.token, auth.organizationId);
+    } else if (auth.deviceId) {
+      data.device = await deviceService.verifyDeviceCredentials(
+        auth.binCode,
+        { deviceId: auth.deviceId, deviceSecret: auth.deviceSecret },
+        auth.firmwareVersion
+      );
+      socket.join(deviceRoom(data.device.deviceId));
+    } else {
+      const error: AppError = new Error('Access token or device credentials required');
+      error.statusCode = 401;
+      throw error;
+    }
+
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+};
+
+/**
+ * Run a socket event handler within the organization the socket acts for
+ */
+export const runForSocket = <T>(socket: Socket, fn: () => T): T => {
+  const data = socket.data as SocketData;
+  return runWithTenant(data.user?.organizationId ?? data.device?.organizationId ?? null, fn);
+};
+
+const authenticateUser = async (socket: Socket, token: string, requestedOrganization?: string): Promise<SocketUser> => {
+  const decoded = verifyAccessToken(token);
+  const organizationId = resolveOrganization(decoded.role, decoded.organizationId, requestedOrganization);
+
+  return runWithTenant(organizationId, async () => {
+    const driver = await shiftService.getDriverForUser(decoded.userId).catch(() => null);
+
+    const user: SocketUser = {
+      userId: decoded.userId,
+      email: decoded.email,
+      role: decoded.role,
+      organizationId,
+      mfa: decoded.mfa,
+      driverId: driver?.id ?? null
+    };
+
+    socket.join(userRoom(user.userId));
+
+    if (user.driverId) {
+      socket.join(driverRoom(user.driverId));
+    }
+
+    // Roles that require a second factor see nothing more until the user signs in with one
+    if (!organizationId || (!user.mfa && await policyService.requiresMfa(user.role))) {
+      return user;
+    }
+
+    if (await policyService.can('dashboard.view', user.role)) {
+      socket.join(organizationRoom(organizationId, 'admins'));
+    } else if (await policyService.can('route.drive', user.role)) {
+      socket.join(organizationRoom(organizationId, 'drivers'));
+    }
+
+    return user;
+  });
+};
+
+/**
+ * The organization a socket acts for, as for HTTP requests: users act for their own,
+ * super-admins for the one they name in auth.organizationId, if any
+ */
+const resolveOrganization = (
+  role: string,
+  organizationId: string | null,
+  requestedOrganization?: string
+): string | null => {
+  if (role === UserRole.SUPER_ADMIN) {
+    if (requestedOrganization && !UUID_PATTERN.test(requestedOrganization)) {
+      const error: AppError = new Error('Invalid organization ID format');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return requestedOrganization || null;
+  }
+
+  if (!organizationId) {
+    const error: AppError = new Error('Token is not bound to an organization. Please sign in again');
+    error.statusCode = 401;
+    throw error;
+  }
+
+  return organizationId;
+};
@@ -1,7 +1,7 @@
 // src/routes/analytics.ts
 import { Router } from 'express';
 import { AnalyticsController } from '@/controllers/analyticsController';
-import { authenticate, authorize } from '@/middleware/auth';
+import { authenticate, requirePermission } from '@/middleware/auth';
 import { validateRequest } from '@/middleware/validation';
 import { query, param, body } from 'express-validator';
 
@@ -32,7 +32,7 @@ router.use(authenticate);
 // GET routes - Most analytics are admin only, some available to drivers
 router.get(
   '/dashboard',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   dateValidation,
   validateRequest,
   analyticsController.getDashboardMetrics
@@ -40,7 +40,7 @@ router.get(
 
 router.get(
   '/overview',
-  authorize(['ADMIN', 'DRIVER']),
+  requirePermission('analytics.summary'),
   dateValidation,
   validateRequest,
   analyticsController.getOverviewMetrics
@@ -48,7 +48,7 @@ router.get(
 
 router.get(
   '/bins',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   dateValidation,
   validateRequest,
   analyticsController.getBinAnalytics
@@ -56,7 +56,7 @@ router.get(
 
 router.get(
   '/drivers',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   dateValidation,
   validateRequest,
   analyticsController.getDriverAnalytics
@@ -64,7 +64,7 @@ router.get(
 
 router.get(
   '/pickups',
-  authorize(['ADMIN', 'DRIVER']),
+  requirePermission('analytics.summary'),
   dateValidation,
   validateRequest,
   analyticsController.getPickupAnalytics
@@ -72,7 +72,7 @@ router.get(
 
 router.get(
   '/routes',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   dateValidation,
   validateRequest,
   analyticsController.getRouteAnalytics
@@ -80,7 +80,7 @@ router.get(
 
 router.get(
   '/performance',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   dateValidation,
   validateRequest,
   analyticsController.getPerformanceMetrics
@@ -88,7 +88,7 @@ router.get(
 
 router.get(
   '/trends',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   dateValidation,
   validateRequest,
   analyticsController.getTrendAnalysis
@@ -96,7 +96,7 @@ router.get(
 
 router.get(
   '/chart/:metric',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   metricValidation,
   dateValidation,
   validateRequest,
@@ -105,13 +105,13 @@ router.get(
 
 router.get(
   '/realtime',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   analyticsController.getRealTimeMetrics
 );
 
 router.get(
   '/summary',
-  authorize(['ADMIN', 'DRIVER']),
+  requirePermission('analytics.summary'),
   query('period').optional().isInt({ min: 1, max: 365 }).withMessage('Period must be between 1 and 365 days'),
   validateRequest,
   analyticsController.getSummaryReport
@@ -120,7 +120,7 @@ router.get(
 // POST routes
 router.post(
   '/custom',
-  authorize(['ADMIN']),
+  requirePermission('analytics.read'),
   body('startDate').isISO8601().withMessage('Start date is required and must be valid'),
   body('endDate').isISO8601().withMessage('End date is required and must be valid'),
   body('metrics').optional().isArray().withMessage('Metrics must be an array'),
@@ -130,7 +130,7 @@ router.post(
 
 router.post(
   '/export',
-  authorize(['ADMIN']),
+  requirePermission('analytics.export'),
   query('format').optional().isIn(['json', 'csv']).withMessage('Format must be json or csv'),
   analyticsController.exportAnalytics
 );
@@ -1,29 +1,74 @@
 // src/routes/auth.ts
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
-import { authenticate } from '../middleware/auth';
+import { MfaController } from '../controllers/mfaController';
+import { SessionController } from '../controllers/sessionController';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
+import { emailRateLimit, mfaAttemptLimit } from '../middleware/rateLimit';
 import {
   registerValidation,
   loginValidation,
+  mfaLoginValidation,
+  mfaCodeValidation,
   refreshTokenValidation,
   changePasswordValidation,
-  updateProfileValidation
+  updateProfileValidation,
+  verifyEmailValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation
 } from '../validators/authValidators';
+import { param } from 'express-validator';
 
 const router = Router();
 const authController = new AuthController();
+const mfaController = new MfaController();
+const sessionController = new SessionController();
+
+// Validation for UUID parameters
+const validateUserId = [
+  param('userId').isUUID().withMessage('Invalid user ID format')
+];
+
+const validateSessionId = [
+  param('sessionId').isUUID().withMessage('Invalid session ID format')
+];
 
 // Public routes
 router.post('/register', registerValidation, validateRequest, authController.register);
 router.post('/login', loginValidation, validateRequest, authController.login);
+router.post('/login/mfa', mfaLoginValidation, validateRequest, mfaAttemptLimit, authController.loginWithMfa);
 router.post('/refresh', refreshTokenValidation, validateRequest, authController.refreshToken);
 router.post('/logout', refreshTokenValidation, validateRequest, authController.logout);
+router.post('/verify-email', verifyEmailValidation, validateRequest, authController.verifyEmail);
+router.post('/forgot-password', forgotPasswordValidation, validateRequest, emailRateLimit, authController.forgotPassword);
+router.post('/reset-password', resetPasswordValidation, validateRequest, authController.resetPassword);
 
 // Protected routes
 router.get('/me', authenticate, authController.me);
 router.get('/profile', authenticate, authController.getProfile);
 router.put('/profile', authenticate, updateProfileValidation, validateRequest, authController.updateProfile);
+router.post('/verify-email/resend', authenticate, emailRateLimit, authController.resendVerification);
 router.put('/change-password', authenticate, changePasswordValidation, validateRequest, authController.changePassword);
 
+// Signed-in sessions; deleting them all logs out everywhere
+router.get('/sessions', authenticate, sessionController.getSessions);
+router.delete('/sessions', authenticate, sessionController.revokeAllSessions);
+router.delete('/sessions/:sessionId', authenticate, validateSessionId, validateRequest, sessionController.revokeSession);
+
+// Two-factor authentication
+router.get('/mfa', authenticate, mfaController.getStatus);
+router.post('/mfa/enroll', authenticate, mfaController.beginEnrollment);
+router.post('/mfa/confirm', authenticate, mfaCodeValidation, validateRequest, mfaAttemptLimit, mfaController.confirmEnrollment);
+router.post('/mfa/recovery-codes', authenticate, mfaCodeValidation, validateRequest, mfaAttemptLimit, mfaController.regenerateRecoveryCodes);
+router.delete('/mfa', authenticate, mfaCodeValidation, validateRequest, mfaAttemptLimit, mfaController.disable);
+router.delete(
+  '/mfa/users/:userId',
+  authenticate,
+  requirePermission('user.mfa.reset'),
+  validateUserId,
+  validateRequest,
+  mfaController.resetUser
+);
+
 export { router as authRoutes };
\ No newline at end of file
@@ -1,33 +1,69 @@
 // src/routes/bins.ts
 import { Router } from 'express';
 import { BinController } from '../controllers/binController';
-import { authenticate, authorize } from '../middleware/auth';
+import { DeviceController } from '../controllers/deviceController';
+import { BinEventController } from '../controllers/binEventController';
+import { BinCommandController } from '../controllers/binCommandController';
+import { BinForecastController } from '../controllers/binForecastController';
+import { authenticate, requirePermission, requireVerifiedEmail } from '../middleware/auth';
+import { authenticateDevice } from '../middleware/deviceAuth';
 import { validateRequest } from '../middleware/validation';
 import {
   createBinValidation,
   updateBinValidation,
   sensorDataValidation,
+  anomalousBinsValidation,
+  binForecastValidation,
+  predictedFullBinsValidation,
   binListValidation,
-  nearbyBinsValidation
+  nearbyBinsValidation,
+  binAlertListValidation,
+  acknowledgeAlertValidation,
+  issueBinCommandValidation,
+  binCommandListValidation
 } from '../validators/binValidators';
+import { provisionDeviceValidation } from '../validators/deviceValidators';
 import { param } from 'express-validator';
 
 const router = Router();
 const binController = new BinController();
+const deviceController = new DeviceController();
+const binEventController = new BinEventController();
+const binCommandController = new BinCommandController();
+const binForecastController = new BinForecastController();
 
 // Validation for UUID parameters
 const validateBinId = [
   param('binId').isUUID().withMessage('Invalid bin ID format')
 ];
 
+const validateAlertId = [
+  param('alertId').isUUID().withMessage('Invalid alert ID format')
+];
+
+const validateCommandId = [
+  param('commandId').isUUID().withMessage('Invalid command ID format')
+];
+
 const validateBinCode = [
   param('binCode').notEmpty().withMessage('Bin code is required')
 ];
 
-// Public routes (for IoT devices)
+// Device routes (for IoT devices) - authenticated with device credentials
+router.post(
+  '/ingest/:binCode',
+  validateBinCode,
+  authenticateDevice,
+  sensorDataValidation,
+  validateRequest,
+  binController.updateSensorData
+);
+
+// Legacy sensor path kept for deployed firmware, now also device-authenticated
 router.post(
   '/sensor/:binCode', 
   validateBinCode,
+  authenticateDevice,
   sensorDataValidation, 
   validateRequest, 
   binController.updateSensorData
@@ -49,6 +85,26 @@ router.get(
   binController.getBinStats
 );
 
+router.get(
+  '/offline',
+  binController.getOfflineBins
+);
+
+router.get(
+  '/anomalies',
+  requirePermission('bin.anomaly.read'),
+  anomalousBinsValidation,
+  validateRequest,
+  binController.getAnomalousBins
+);
+
+router.get(
+  '/predicted-full',
+  predictedFullBinsValidation,
+  validateRequest,
+  binForecastController.getBinsPredictedFull
+);
+
 router.get(
   '/nearby', 
   nearbyBinsValidation, 
@@ -83,15 +139,94 @@ router.get(
   binController.getBinHistory
 );
 
+router.get(
+  '/:binId/forecast',
+  validateBinId,
+  binForecastValidation,
+  validateRequest,
+  binForecastController.getBinForecast
+);
+
+router.get(
+  '/:binId/alerts',
+  validateBinId,
+  binAlertListValidation,
+  validateRequest,
+  binEventController.getBinAlerts
+);
+
+router.get(
+  '/:binId/device',
+  requirePermission('bin.device.manage'),
+  validateBinId,
+  validateRequest,
+  deviceController.getDevice
+);
+
+router.get(
+  '/:binId/commands',
+  requirePermission('bin.command.manage'),
+  validateBinId,
+  binCommandListValidation,
+  validateRequest,
+  binCommandController.getBinCommands
+);
+
+router.get(
+  '/:binId/commands/:commandId',
+  requirePermission('bin.command.manage'),
+  validateBinId,
+  validateCommandId,
+  validateRequest,
+  binCommandController.getBinCommandById
+);
+
 // POST routes - Users and Admins can create bins
 router.post(
   '/', 
-  authorize(['USER', 'ADMIN']),
+  requirePermission('bin.create'),
+  requireVerifiedEmail,
   createBinValidation, 
   validateRequest, 
   binController.createBin
 );
 
+// Device credential management - Admin only
+router.post(
+  '/:binId/device',
+  requirePermission('bin.device.manage'),
+  validateBinId,
+  provisionDeviceValidation,
+  validateRequest,
+  deviceController.provisionDevice
+);
+
+router.post(
+  '/:binId/device/rotate',
+  requirePermission('bin.device.manage'),
+  validateBinId,
+  validateRequest,
+  deviceController.rotateCredentials
+);
+
+router.post(
+  '/:binId/device/revoke',
+  requirePermission('bin.device.manage'),
+  validateBinId,
+  validateRequest,
+  deviceController.revokeDevice
+);
+
+// Device commands - Admin only
+router.post(
+  '/:binId/commands',
+  requirePermission('bin.command.manage'),
+  validateBinId,
+  issueBinCommandValidation,
+  validateRequest,
+  binCommandController.issueCommand
+);
+
 // PUT routes - Users can update their own bins, Admins can update any
 router.put(
   '/:binId', 
@@ -103,12 +238,22 @@ router.put(
 
 router.put(
   '/:binId/empty', 
-  authorize(['DRIVER', 'ADMIN']),
+  requirePermission('bin.empty'),
   validateBinId, 
   validateRequest, 
   binController.markBinEmptied
 );
 
+router.put(
+  '/:binId/alerts/:alertId/acknowledge',
+  requirePermission('bin.alert.acknowledge'),
+  validateBinId,
+  validateAlertId,
+  acknowledgeAlertValidation,
+  validateRequest,
+  binEventController.acknowledgeAlert
+);
+
 // DELETE routes - Users can delete their own bins, Admins can delete any
 router.delete(
   '/:binId', 
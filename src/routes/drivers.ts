@@ -1,7 +1,7 @@
 // src/routes/drivers.ts
 import { Router } from 'express';
 import { DriverController } from '../controllers/driverController';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import {
   createDriverValidation,
@@ -9,7 +9,8 @@ import {
   driverStatusValidation,
   driverLocationValidation,
   driverListValidation,
-  nearbyDriversValidation
+  nearbyDriversValidation,
+  driverTrackValidation
 } from '../validators/driverValidators';
 import { param } from 'express-validator';
 
@@ -27,7 +28,7 @@ router.use(authenticate);
 // GET routes
 router.get(
   '/', 
-  authorize(['ADMIN', 'DRIVER']),
+  requirePermission('driver.read'),
   driverListValidation, 
   validateRequest, 
   driverController.getDrivers
@@ -35,7 +36,7 @@ router.get(
 
 router.get(
   '/available', 
-  authorize(['ADMIN']),
+  requirePermission('driver.stats.read'),
   driverController.getAvailableDrivers
 );
 
@@ -48,13 +49,13 @@ router.get(
 
 router.get(
   '/stats', 
-  authorize(['ADMIN']),
+  requirePermission('driver.stats.read'),
   driverController.getDriverStats
 );
 
 router.get(
   '/me', 
-  authorize(['DRIVER']),
+  requirePermission('driver.read'),
   driverController.getMyProfile
 );
 
@@ -67,16 +68,25 @@ router.get(
 
 router.get(
   '/:driverId/performance', 
-  authorize(['ADMIN']),
+  requirePermission('driver.stats.read'),
   validateDriverId, 
   validateRequest, 
   driverController.getDriverPerformance
 );
 
+router.get(
+  '/:driverId/track', 
+  requirePermission('driver.read'),
+  validateDriverId, 
+  driverTrackValidation,
+  validateRequest, 
+  driverController.getDriverTrack
+);
+
 // POST routes - Only admins can create drivers
 router.post(
   '/', 
-  authorize(['ADMIN']),
+  requirePermission('driver.create'),
   createDriverValidation, 
   validateRequest, 
   driverController.createDriver
@@ -101,7 +111,7 @@ router.put(
 
 router.put(
   '/:driverId/location', 
-  authorize(['DRIVER', 'ADMIN']),
+  requirePermission('driver.location.update'),
   validateDriverId,
   driverLocationValidation, 
   validateRequest, 
@@ -111,7 +121,7 @@ router.put(
 // DELETE routes - Only admins can delete drivers
 router.delete(
   '/:driverId', 
-  authorize(['ADMIN']),
+  requirePermission('driver.delete'),
   validateDriverId, 
   validateRequest, 
   driverController.deleteDriver
@@ -0,0 +1,89 @@
+// src/routes/facilities.ts
+import { Router } from 'express';
+import { FacilityController } from '../controllers/facilityController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createDepotValidation,
+  updateDepotValidation,
+  createDisposalSiteValidation,
+  updateDisposalSiteValidation,
+  facilityListValidation
+} from '../validators/facilityValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const facilityController = new FacilityController();
+
+// Validation for UUID parameters
+const validateDepotId = [
+  param('depotId').isUUID().withMessage('Invalid depot ID format')
+];
+
+const validateSiteId = [
+  param('siteId').isUUID().withMessage('Invalid disposal site ID format')
+];
+
+// All routes require authentication; drivers can read, only admins can change
+router.use(authenticate);
+router.use(requirePermission('facility.read'));
+
+// Depots
+router.get('/depots', facilityListValidation, validateRequest, facilityController.getDepots);
+router.get('/depots/:depotId', validateDepotId, validateRequest, facilityController.getDepotById);
+
+router.post(
+  '/depots',
+  requirePermission('facility.manage'),
+  createDepotValidation,
+  validateRequest,
+  facilityController.createDepot
+);
+
+router.put(
+  '/depots/:depotId',
+  requirePermission('facility.manage'),
+  validateDepotId,
+  updateDepotValidation,
+  validateRequest,
+  facilityController.updateDepot
+);
+
+router.delete(
+  '/depots/:depotId',
+  requirePermission('facility.manage'),
+  validateDepotId,
+  validateRequest,
+  facilityController.deleteDepot
+);
+
+// Disposal and transfer sites
+router.get('/disposal-sites', facilityListValidation, validateRequest, facilityController.getDisposalSites);
+router.get('/disposal-sites/:siteId', validateSiteId, validateRequest, facilityController.getDisposalSiteById);
+
+router.post(
+  '/disposal-sites',
+  requirePermission('facility.manage'),
+  createDisposalSiteValidation,
+  validateRequest,
+  facilityController.createDisposalSite
+);
+
+router.put(
+  '/disposal-sites/:siteId',
+  requirePermission('facility.manage'),
+  validateSiteId,
+  updateDisposalSiteValidation,
+  validateRequest,
+  facilityController.updateDisposalSite
+);
+
+router.delete(
+  '/disposal-sites/:siteId',
+  requirePermission('facility.manage'),
+  validateSiteId,
+  validateRequest,
+  facilityController.deleteDisposalSite
+);
+
+export { router as facilityRoutes };
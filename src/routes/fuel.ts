@@ -0,0 +1,44 @@
+// src/routes/fuel.ts
+import { Router } from 'express';
+import { FuelController } from '../controllers/fuelController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createFuelLogValidation,
+  fuelLogListValidation,
+  fuelConsumptionValidation
+} from '../validators/fuelValidators';
+
+const router = Router();
+const fuelController = new FuelController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Consumption reports - Admin only
+router.get(
+  '/consumption',
+  requirePermission('fuel.consumption.read'),
+  fuelConsumptionValidation,
+  validateRequest,
+  fuelController.getConsumption
+);
+
+// Fuel logs
+router.get(
+  '/',
+  requirePermission('fuel.read'),
+  fuelLogListValidation,
+  validateRequest,
+  fuelController.getFuelLogs
+);
+
+router.post(
+  '/',
+  requirePermission('fuel.log'),
+  createFuelLogValidation,
+  validateRequest,
+  fuelController.createFuelLog
+);
+
+export { router as fuelRoutes };
@@ -0,0 +1,84 @@
+// src/routes/gateways.ts
+import { Router } from 'express';
+import { GatewayController } from '../controllers/gatewayController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { provisionGatewayValidation } from '../validators/gatewayValidators';
+import { binAlertListValidation, acknowledgeAlertValidation } from '../validators/binValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const gatewayController = new GatewayController();
+
+// Validation for UUID parameters
+const validateGatewayId = [
+  param('gatewayId').isUUID().withMessage('Invalid gateway ID format')
+];
+
+const validateAlertId = [
+  param('alertId').isUUID().withMessage('Invalid alert ID format')
+];
+
+// All routes require authentication
+router.use(authenticate);
+
+// GET routes - Admin only
+router.get(
+  '/',
+  requirePermission('bin.device.manage'),
+  gatewayController.getGateways
+);
+
+router.get(
+  '/:gatewayId',
+  requirePermission('bin.device.manage'),
+  validateGatewayId,
+  validateRequest,
+  gatewayController.getGatewayById
+);
+
+router.get(
+  '/:gatewayId/alerts',
+  requirePermission('bin.device.manage'),
+  validateGatewayId,
+  binAlertListValidation,
+  validateRequest,
+  gatewayController.getGatewayAlerts
+);
+
+// Gateway credential management - Admin only
+router.post(
+  '/',
+  requirePermission('bin.device.manage'),
+  provisionGatewayValidation,
+  validateRequest,
+  gatewayController.provisionGateway
+);
+
+router.post(
+  '/:gatewayId/rotate',
+  requirePermission('bin.device.manage'),
+  validateGatewayId,
+  validateRequest,
+  gatewayController.rotateCredentials
+);
+
+router.post(
+  '/:gatewayId/revoke',
+  requirePermission('bin.device.manage'),
+  validateGatewayId,
+  validateRequest,
+  gatewayController.revokeGateway
+);
+
+router.put(
+  '/:gatewayId/alerts/:alertId/acknowledge',
+  requirePermission('bin.alert.acknowledge'),
+  validateGatewayId,
+  validateAlertId,
+  acknowledgeAlertValidation,
+  validateRequest,
+  gatewayController.acknowledgeAlert
+);
+
+export { router as gatewayRoutes };
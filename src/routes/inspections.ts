@@ -0,0 +1,78 @@
+// src/routes/inspections.ts
+import { Router } from 'express';
+import { InspectionController } from '../controllers/inspectionController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createInspectionItemValidation,
+  updateInspectionItemValidation,
+  submitInspectionValidation,
+  inspectionListValidation
+} from '../validators/inspectionValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const inspectionController = new InspectionController();
+
+// Validation for UUID parameters
+const validateItemId = [
+  param('itemId').isUUID().withMessage('Invalid checklist item ID format')
+];
+
+const validateInspectionId = [
+  param('inspectionId').isUUID().withMessage('Invalid inspection ID format')
+];
+
+// All routes require authentication
+router.use(authenticate);
+
+// Checklist - Only admins configure it
+router.get(
+  '/checklist',
+  requirePermission('inspection.checklist.read'),
+  inspectionController.getChecklist
+);
+
+router.post(
+  '/checklist',
+  requirePermission('inspection.checklist.manage'),
+  createInspectionItemValidation,
+  validateRequest,
+  inspectionController.createChecklistItem
+);
+
+router.put(
+  '/checklist/:itemId',
+  requirePermission('inspection.checklist.manage'),
+  validateItemId,
+  updateInspectionItemValidation,
+  validateRequest,
+  inspectionController.updateChecklistItem
+);
+
+// Inspections
+router.get(
+  '/',
+  requirePermission('inspection.read'),
+  inspectionListValidation,
+  validateRequest,
+  inspectionController.getInspections
+);
+
+router.get(
+  '/:inspectionId',
+  requirePermission('inspection.read'),
+  validateInspectionId,
+  validateRequest,
+  inspectionController.getInspectionById
+);
+
+router.post(
+  '/',
+  requirePermission('inspection.submit'),
+  submitInspectionValidation,
+  validateRequest,
+  inspectionController.submitInspection
+);
+
+export { router as inspectionRoutes };
@@ -0,0 +1,112 @@
+// src/routes/maintenance.ts
+import { Router } from 'express';
+import { MaintenanceController } from '../controllers/maintenanceController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  maintenanceTicketListValidation,
+  updateMaintenanceTicketValidation,
+  maintenanceRecordListValidation,
+  createMaintenanceRecordValidation,
+  updateMaintenanceRecordValidation,
+  maintenanceRuleListValidation,
+  createMaintenanceRuleValidation,
+  updateMaintenanceRuleValidation
+} from '../validators/maintenanceValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const maintenanceController = new MaintenanceController();
+
+// Validation for UUID parameters
+const validateTicketId = [
+  param('ticketId').isUUID().withMessage('Invalid maintenance ticket ID format')
+];
+
+const validateRecordId = [
+  param('recordId').isUUID().withMessage('Invalid maintenance record ID format')
+];
+
+const validateRuleId = [
+  param('ruleId').isUUID().withMessage('Invalid maintenance rule ID format')
+];
+
+// All routes require authentication, and maintenance is managed by admins
+router.use(authenticate);
+router.use(requirePermission('maintenance.manage'));
+
+router.get(
+  '/due',
+  maintenanceController.getDueMaintenance
+);
+
+// Tickets
+router.get(
+  '/tickets',
+  maintenanceTicketListValidation,
+  validateRequest,
+  maintenanceController.getTickets
+);
+
+router.put(
+  '/tickets/:ticketId',
+  validateTicketId,
+  updateMaintenanceTicketValidation,
+  validateRequest,
+  maintenanceController.updateTicket
+);
+
+// Records
+router.get(
+  '/records',
+  maintenanceRecordListValidation,
+  validateRequest,
+  maintenanceController.getRecords
+);
+
+router.post(
+  '/records',
+  createMaintenanceRecordValidation,
+  validateRequest,
+  maintenanceController.createRecord
+);
+
+router.put(
+  '/records/:recordId',
+  validateRecordId,
+  updateMaintenanceRecordValidation,
+  validateRequest,
+  maintenanceController.updateRecord
+);
+
+// Service interval rules
+router.get(
+  '/rules',
+  maintenanceRuleListValidation,
+  validateRequest,
+  maintenanceController.getRules
+);
+
+router.post(
+  '/rules',
+  createMaintenanceRuleValidation,
+  validateRequest,
+  maintenanceController.createRule
+);
+
+router.put(
+  '/rules/:ruleId',
+  validateRuleId,
+  updateMaintenanceRuleValidation,
+  validateRequest,
+  maintenanceController.updateRule
+);
+
+router.delete(
+  '/rules/:ruleId',
+  validateRuleId,
+  validateRequest,
+  maintenanceController.deleteRule
+);
+
+export { router as maintenanceRoutes };
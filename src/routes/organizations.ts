@@ -0,0 +1,42 @@
+// src/routes/organizations.ts
+import { Router } from 'express';
+import { OrganizationController } from '../controllers/organizationController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createOrganizationValidation,
+  updateOrganizationValidation
+} from '../validators/organizationValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const organizationController = new OrganizationController();
+
+// Validation for UUID parameters
+const validateOrganizationId = [
+  param('organizationId').isUUID().withMessage('Invalid organization ID format')
+];
+
+// All routes require authentication and are reserved for platform super-admins
+router.use(authenticate);
+router.use(requirePermission('organization.manage'));
+
+router.get('/', organizationController.getOrganizations);
+router.get('/:organizationId', validateOrganizationId, validateRequest, organizationController.getOrganizationById);
+
+router.post(
+  '/',
+  createOrganizationValidation,
+  validateRequest,
+  organizationController.createOrganization
+);
+
+router.put(
+  '/:organizationId',
+  validateOrganizationId,
+  updateOrganizationValidation,
+  validateRequest,
+  organizationController.updateOrganization
+);
+
+export { router as organizationRoutes };
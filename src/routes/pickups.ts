@@ -1,7 +1,7 @@
 // src/routes/pickups.ts
 import { Router } from 'express';
 import { PickupController } from '../controllers/pickupController';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission, requireVerifiedEmail } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import {
   createPickupValidation,
@@ -10,6 +10,7 @@ import {
   assignDriverValidation,
   pickupListValidation,
   routeOptimizationValidation,
+  fleetRouteOptimizationValidation,
   cancelPickupValidation
 } from '@/validators/pickupValidators';
 import { param } from 'express-validator';
@@ -48,13 +49,13 @@ router.get(
 
 router.get(
   '/my-upcoming', 
-  authorize(['DRIVER']),
+  requirePermission('pickup.read'),
   pickupController.getMyUpcomingPickups
 );
 
 router.get(
   '/my-route', 
-  authorize(['DRIVER']),
+  requirePermission('route.read'),
   pickupController.getMyOptimizedRoute
 );
 
@@ -84,10 +85,18 @@ router.get(
   pickupController.getPickupById
 );
 
+router.get(
+  '/:pickupId/eta', 
+  validatePickupId, 
+  validateRequest, 
+  pickupController.getPickupEta
+);
+
 // POST routes
 router.post(
   '/', 
-  authorize(['USER', 'ADMIN']),
+  requirePermission('pickup.create'),
+  requireVerifiedEmail,
   createPickupValidation, 
   validateRequest, 
   pickupController.createPickup
@@ -95,12 +104,20 @@ router.post(
 
 router.post(
   '/optimize-route', 
-  authorize(['ADMIN', 'DRIVER']),
+  requirePermission('route.optimize'),
   routeOptimizationValidation, 
   validateRequest, 
   pickupController.optimizeRoute
 );
 
+router.post(
+  '/optimize-fleet', 
+  requirePermission('route.optimize.fleet'),
+  fleetRouteOptimizationValidation, 
+  validateRequest, 
+  pickupController.optimizeFleetRoutes
+);
+
 // PUT routes
 router.put(
   '/:pickupId', 
@@ -112,7 +129,7 @@ router.put(
 
 router.put(
   '/:pickupId/status', 
-  authorize(['DRIVER', 'ADMIN']),
+  requirePermission('pickup.status.update'),
   validatePickupId,
   pickupStatusValidation, 
   validateRequest, 
@@ -121,7 +138,7 @@ router.put(
 
 router.put(
   '/:pickupId/assign', 
-  authorize(['ADMIN']),
+  requirePermission('pickup.assign'),
   validatePickupId,
   assignDriverValidation, 
   validateRequest, 
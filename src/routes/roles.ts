@@ -0,0 +1,65 @@
+// src/routes/roles.ts
+import { Router } from 'express';
+import { RoleController } from '../controllers/roleController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createRoleValidation,
+  updateRoleValidation,
+  assignUserRoleValidation
+} from '../validators/roleValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const roleController = new RoleController();
+
+// Validation for UUID parameters
+const validateRoleId = [
+  param('roleId').isUUID().withMessage('Invalid role ID format')
+];
+
+const validateUserId = [
+  param('userId').isUUID().withMessage('Invalid user ID format')
+];
+
+// All routes require authentication and the role management permission
+router.use(authenticate);
+router.use(requirePermission('role.manage'));
+
+router.get('/permissions', roleController.getPermissions);
+
+router.get('/', roleController.getRoles);
+router.get('/:roleId', validateRoleId, validateRequest, roleController.getRoleById);
+
+router.post(
+  '/',
+  createRoleValidation,
+  validateRequest,
+  roleController.createRole
+);
+
+router.put(
+  '/:roleId',
+  validateRoleId,
+  updateRoleValidation,
+  validateRequest,
+  roleController.updateRole
+);
+
+router.delete(
+  '/:roleId',
+  validateRoleId,
+  validateRequest,
+  roleController.deleteRole
+);
+
+// Custom role and zone of a user
+router.put(
+  '/users/:userId',
+  validateUserId,
+  assignUserRoleValidation,
+  validateRequest,
+  roleController.assignUserRole
+);
+
+export { router as roleRoutes };
@@ -0,0 +1,75 @@
+// src/routes/routes.ts
+import { Router } from 'express';
+import { RouteController } from '../controllers/routeController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  routeListValidation,
+  completeRouteStopValidation,
+  skipRouteStopValidation,
+  completeRouteValidation
+} from '../validators/routeValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const routeController = new RouteController();
+
+// Validation for UUID parameters
+const validateRouteId = [
+  param('routeId').isUUID().withMessage('Invalid route ID format')
+];
+
+const validateStopId = [
+  param('stopId').isUUID().withMessage('Invalid stop ID format')
+];
+
+// All routes require authentication; drivers only reach their own routes
+router.use(authenticate);
+router.use(requirePermission('route.read'));
+
+router.get('/', routeListValidation, validateRequest, routeController.getRoutes);
+router.get('/:routeId', validateRouteId, validateRequest, routeController.getRouteById);
+
+// Lifecycle: PLANNED -> PUBLISHED -> IN_PROGRESS -> COMPLETED
+router.post(
+  '/:routeId/publish',
+  requirePermission('route.publish'),
+  validateRouteId,
+  validateRequest,
+  routeController.publishRoute
+);
+
+router.post(
+  '/:routeId/start',
+  validateRouteId,
+  validateRequest,
+  routeController.startRoute
+);
+
+router.post(
+  '/:routeId/stops/:stopId/complete',
+  validateRouteId,
+  validateStopId,
+  completeRouteStopValidation,
+  validateRequest,
+  routeController.completeStop
+);
+
+router.post(
+  '/:routeId/stops/:stopId/skip',
+  validateRouteId,
+  validateStopId,
+  skipRouteStopValidation,
+  validateRequest,
+  routeController.skipStop
+);
+
+router.post(
+  '/:routeId/complete',
+  validateRouteId,
+  completeRouteValidation,
+  validateRequest,
+  routeController.completeRoute
+);
+
+export { router as routeRoutes };
@@ -0,0 +1,95 @@
+// src/routes/shifts.ts
+import { Router } from 'express';
+import { ShiftController } from '../controllers/shiftController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  setShiftTemplatesValidation,
+  clockValidation,
+  shiftListValidation,
+  timesheetValidation
+} from '../validators/shiftValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const shiftController = new ShiftController();
+
+// Validation for UUID parameters
+const validateDriverId = [
+  param('driverId').isUUID().withMessage('Invalid driver ID format')
+];
+
+// All routes require authentication
+router.use(authenticate);
+
+// GET routes
+router.get(
+  '/',
+  requirePermission('shift.read'),
+  shiftListValidation,
+  validateRequest,
+  shiftController.getShifts
+);
+
+router.get(
+  '/current',
+  requirePermission('shift.clock'),
+  shiftController.getCurrentShift
+);
+
+router.get(
+  '/timesheet',
+  requirePermission('shift.read'),
+  timesheetValidation,
+  validateRequest,
+  shiftController.getTimesheet
+);
+
+router.get(
+  '/templates/:driverId',
+  requirePermission('shift.read'),
+  validateDriverId,
+  validateRequest,
+  shiftController.getShiftTemplates
+);
+
+// POST routes - Drivers run their own time clock
+router.post(
+  '/clock-in',
+  requirePermission('shift.clock'),
+  clockValidation,
+  validateRequest,
+  shiftController.clockIn
+);
+
+router.post(
+  '/clock-out',
+  requirePermission('shift.clock'),
+  clockValidation,
+  validateRequest,
+  shiftController.clockOut
+);
+
+router.post(
+  '/breaks/start',
+  requirePermission('shift.clock'),
+  shiftController.startBreak
+);
+
+router.post(
+  '/breaks/end',
+  requirePermission('shift.clock'),
+  shiftController.endBreak
+);
+
+// PUT routes - Only admins set schedules
+router.put(
+  '/templates/:driverId',
+  requirePermission('shift.template.manage'),
+  validateDriverId,
+  setShiftTemplatesValidation,
+  validateRequest,
+  shiftController.setShiftTemplates
+);
+
+export { router as shiftRoutes };
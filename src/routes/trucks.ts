@@ -1,19 +1,36 @@
 // src/routes/trucks.ts
 import { Router } from 'express';
 import { TruckController } from '../controllers/truckController';
-import { authenticate, authorize } from '../middleware/auth';
+import { TelematicsController } from '../controllers/telematicsController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { authenticateTelematicsUnit } from '../middleware/deviceAuth';
 import { validateRequest } from '../middleware/validation';
 import { createTruckValidation, updateTruckValidation } from '../validators/driverValidators';
+import {
+  provisionTelematicsUnitValidation,
+  telemetryBatchValidation,
+  truckTelemetryQueryValidation
+} from '../validators/telemetryValidators';
 import { param } from 'express-validator';
 
 const router = Router();
 const truckController = new TruckController();
+const telematicsController = new TelematicsController();
 
 // Validation for UUID parameters
 const validateTruckId = [
   param('truckId').isUUID().withMessage('Invalid truck ID format')
 ];
 
+// Telematics units upload readings with device credentials, which identify the truck
+router.post(
+  '/telemetry/ingest',
+  authenticateTelematicsUnit,
+  telemetryBatchValidation,
+  validateRequest,
+  telematicsController.ingestTelemetry
+);
+
 // All routes require authentication
 router.use(authenticate);
 
@@ -21,20 +38,60 @@ router.use(authenticate);
 router.get('/', truckController.getTrucks);
 router.get('/available', truckController.getAvailableTrucks);
 router.get('/:truckId', validateTruckId, validateRequest, truckController.getTruckById);
+router.get(
+  '/:truckId/maintenance', 
+  requirePermission('truck.telemetry.read'),
+  validateTruckId, 
+  validateRequest, 
+  truckController.getTruckMaintenanceSchedule
+);
+router.get(
+  '/:truckId/telemetry',
+  requirePermission('truck.telemetry.read'),
+  validateTruckId,
+  truckTelemetryQueryValidation,
+  validateRequest,
+  telematicsController.getTruckTelemetry
+);
+router.get(
+  '/:truckId/telematics',
+  requirePermission('truck.manage'),
+  validateTruckId,
+  validateRequest,
+  telematicsController.getUnit
+);
 
 // POST routes - Only admins can create trucks
 router.post(
   '/', 
-  authorize(['ADMIN']),
+  requirePermission('truck.manage'),
   createTruckValidation, 
   validateRequest, 
   truckController.createTruck
 );
 
+// Telematics unit credentials - Admin only
+router.post(
+  '/:truckId/telematics',
+  requirePermission('truck.manage'),
+  validateTruckId,
+  provisionTelematicsUnitValidation,
+  validateRequest,
+  telematicsController.provisionUnit
+);
+
+router.post(
+  '/:truckId/telematics/revoke',
+  requirePermission('truck.manage'),
+  validateTruckId,
+  validateRequest,
+  telematicsController.revokeUnit
+);
+
 // PUT routes - Only admins can update trucks
 router.put(
   '/:truckId', 
-  authorize(['ADMIN']),
+  requirePermission('truck.manage'),
   validateTruckId,
   updateTruckValidation, 
   validateRequest, 
@@ -44,7 +101,7 @@ router.put(
 // DELETE routes - Only admins can delete trucks
 router.delete(
   '/:truckId', 
-  authorize(['ADMIN']),
+  requirePermission('truck.manage'),
   validateTruckId, 
   validateRequest, 
   truckController.deleteTruck
@@ -0,0 +1,30 @@
+// src/routes/users.ts
+import { Router } from 'express';
+import { RoleController } from '../controllers/roleController';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { updateUserRoleValidation } from '../validators/roleValidators';
+import { param } from 'express-validator';
+
+const router = Router();
+const roleController = new RoleController();
+
+// Validation for UUID parameters
+const validateUserId = [
+  param('userId').isUUID().withMessage('Invalid user ID format')
+];
+
+// All routes require authentication
+router.use(authenticate);
+
+// Promote or demote a user; registration always creates citizens
+router.put(
+  '/:userId/role',
+  requirePermission('user.update'),
+  validateUserId,
+  updateUserRoleValidation,
+  validateRequest,
+  roleController.updateUserRole
+);
+
+export { router as userRoutes };
@@ -0,0 +1,178 @@
+// src/services/__tests__/authService.refreshToken.test.ts
+import { AuthService } from '@/services/authService';
+import { generateTokens, hashRefreshToken, verifyAccessToken } from '@/utils/jwt';
+import { TokenPayload } from '@/types/auth';
+import { prismaMock } from './helpers/prismaMock';
+
+jest.mock('@prisma/client', () => jest.requireActual('./helpers/prismaMock').mockPrismaModule());
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const payload: TokenPayload = {
+  userId: 'user-1',
+  email: 'driver@example.com',
+  role: 'DRIVER',
+  organizationId: 'org-1',
+  mfa: false,
+  sessionId: 'session-1'
+};
+
+const storedToken = (overrides: Record<string, any> = {}) => ({
+  id: 'token-1',
+  sessionId: 'session-1',
+  userId: 'user-1',
+  rotatedAt: null,
+  expiresAt: new Date(Date.now() + HOUR_MS),
+  session: { revokedAt: null },
+  ...overrides,
+  user: {
+    id: 'user-1',
+    email: 'driver@example.com',
+    fullName: 'Dana Driver',
+    role: 'DRIVER',
+    customRole: null,
+    organizationId: 'org-1',
+    organization: { isActive: true },
+    isActive: true,
+    mfaEnabled: false,
+    ...overrides.user
+  }
+});
+
+describe('AuthService.refreshToken', () => {
+  let authService: AuthService;
+  let refreshToken: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    authService = new AuthService();
+    refreshToken = generateTokens(payload).refreshToken;
+
+    prismaMock.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.refreshToken.create.mockResolvedValue({});
+    prismaMock.session.update.mockResolvedValue({});
+    prismaMock.session.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('exchanges the token for a new one and retires it', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken());
+
+    const result = await authService.refreshToken(refreshToken, { ipAddress: '10.0.0.1' });
+
+    expect(prismaMock.refreshToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { tokenHash: hashRefreshToken(refreshToken) }
+    }));
+    expect(prismaMock.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'token-1', rotatedAt: null },
+      data: { rotatedAt: expect.any(Date) }
+    });
+    expect(result.data!.refreshToken).not.toBe(refreshToken);
+    expect(prismaMock.refreshToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        tokenHash: hashRefreshToken(result.data!.refreshToken),
+        sessionId: 'session-1',
+        userId: 'user-1'
+      })
+    });
+    expect(prismaMock.session.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: expect.objectContaining({ ipAddress: '10.0.0.1', lastUsedAt: expect.any(Date) })
+    });
+    expect(verifyAccessToken(result.data!.accessToken)).toMatchObject({ userId: 'user-1', sessionId: 'session-1' });
+  });
+
+  it('issues the access token with the user\'s current role', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken({
+      user: { role: 'USER', customRole: { name: 'DISPATCHER' } }
+    }));
+
+    const result = await authService.refreshToken(refreshToken);
+
+    expect(result.data!.user.role).toBe('DISPATCHER');
+    expect(verifyAccessToken(result.data!.accessToken).role).toBe('DISPATCHER');
+  });
+
+  it('rejects a token that fails verification with 401', async () => {
+    await expect(authService.refreshToken('not-a-token')).rejects.toMatchObject({
+      message: 'Invalid refresh token',
+      statusCode: 401
+    });
+    expect(prismaMock.refreshToken.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token that was never issued with 401', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(null);
+
+    await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({
+      message: 'Invalid refresh token',
+      statusCode: 401
+    });
+  });
+
+  it('rejects a token of a signed-out session with 401', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken({ session: { revokedAt: new Date() } }));
+
+    await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({
+      message: 'Session has been signed out',
+      statusCode: 401
+    });
+    expect(prismaMock.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('revokes the session when a token is presented again after it was exchanged', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken({ rotatedAt: new Date() }));
+
+    await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({
+      message: 'Refresh token has already been used. Please sign in again',
+      statusCode: 401
+    });
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) }
+    });
+    expect(prismaMock.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('revokes the session when a concurrent request exchanged the token first', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken());
+    prismaMock.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+    expect(prismaMock.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'session-1', revokedAt: null }
+    }));
+    expect(prismaMock.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token with 401', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() - HOUR_MS) }));
+
+    await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({
+      message: 'Refresh token expired',
+      statusCode: 401
+    });
+  });
+
+  it('rejects a deactivated user with 401', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken({ user: { isActive: false } }));
+
+    await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({
+      message: 'Account has been deactivated',
+      statusCode: 401
+    });
+  });
+
+  it('rejects a user of a deactivated organization with 401', async () => {
+    prismaMock.refreshToken.findUnique.mockResolvedValue(storedToken({ user: { organization: { isActive: false } } }));
+
+    await expect(authService.refreshToken(refreshToken)).rejects.toMatchObject({
+      message: 'Organization has been deactivated',
+      statusCode: 401
+    });
+  });
+});
@@ -0,0 +1,29 @@
+// src/services/__tests__/helpers/prismaMock.ts
+
+// Every model operation a service calls is a jest.fn, created the first time it is used
+const createModel = () => {
+  const operations: Record<string, jest.Mock> = {};
+
+  return new Proxy(operations, {
+    get: (target, operation: string) => (target[operation] ??= jest.fn())
+  });
+};
+
+const models: Record<string, any> = {};
+
+/**
+ * The client every service module builds, shared so specs can stub and inspect its queries
+ */
+export const prismaMock: any = new Proxy(models, {
+  // Not a promise, so it can be returned from async code
+  get: (target, model) => (typeof model !== 'string' || model === 'then' ? undefined : (target[model] ??= createModel()))
+});
+
+/**
+ * The @prisma/client module with PrismaClient replaced by prismaMock. Use it as
+ * jest.mock('@prisma/client', () => jest.requireActual('./helpers/prismaMock').mockPrismaModule())
+ */
+export const mockPrismaModule = () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: jest.fn(() => ({ $extends: () => prismaMock }))
+});
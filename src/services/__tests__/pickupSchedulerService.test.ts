@@ -0,0 +1,114 @@
+// src/services/__tests__/pickupSchedulerService.test.ts
+import { PickupSchedulerService } from '@/services/pickupSchedulerService';
+import { PickupService } from '@/services/pickupService';
+import { getTenantId } from '@/utils/tenantContext';
+import { prismaMock } from './helpers/prismaMock';
+
+jest.mock('@prisma/client', () => jest.requireActual('./helpers/prismaMock').mockPrismaModule());
+
+const ORG_A = '11111111-1111-1111-1111-111111111111';
+const ORG_B = '22222222-2222-2222-2222-222222222222';
+
+const bin = (organizationId: string) => ({
+  id: `bin-${organizationId}`,
+  organizationId,
+  binCode: `BIN-${organizationId.slice(0, 4)}`,
+  userId: null,
+  location: 'Main Street',
+  latitude: 52.1,
+  longitude: 4.3,
+  currentLevel: 85,
+  status: 'FULL'
+});
+
+const driver = (organizationId: string) => ({
+  id: `driver-${organizationId}`,
+  organizationId,
+  isAvailable: true,
+  currentLatitude: 52.1,
+  currentLongitude: 4.3,
+  user: { isActive: true, phone: `+31-${organizationId.slice(0, 4)}` }
+});
+
+describe('PickupSchedulerService', () => {
+  let scheduler: PickupSchedulerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    scheduler = new PickupSchedulerService();
+
+    prismaMock.organization.findMany.mockResolvedValue([
+      { id: ORG_A, slug: 'org-a' },
+      { id: ORG_B, slug: 'org-b' }
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs automatic scheduling once per organization and assigns drivers of the bin\'s organization', async () => {
+    const tenants: Array<string | null> = [];
+    prismaMock.bin.findMany.mockImplementation(async () => {
+      tenants.push(getTenantId());
+      return [bin(getTenantId()!)];
+    });
+    prismaMock.bin.findUnique.mockImplementation(async ({ where }: any) => bin(where.id.slice(4)));
+    // Drivers of both organizations are online; only the query decides which are offered
+    prismaMock.driver.findMany.mockImplementation(async ({ where }: any) =>
+      [driver(ORG_A), driver(ORG_B)].filter(candidate => candidate.organizationId === where.organizationId)
+    );
+    prismaMock.pickup.create.mockImplementation(async ({ data }: any) => ({
+      id: `pickup-${data.organizationId}`,
+      ...data,
+      bin: bin(data.organizationId)
+    }));
+
+    await scheduler.runAutomaticPickupScheduling();
+
+    expect(tenants).toEqual([ORG_A, ORG_B]);
+    expect(prismaMock.pickup.create.mock.calls.map(([args]: any) => args.data)).toEqual([
+      expect.objectContaining({ organizationId: ORG_A, driverId: `driver-${ORG_A}` }),
+      expect.objectContaining({ organizationId: ORG_B, driverId: `driver-${ORG_B}` })
+    ]);
+  });
+
+  it('sends reminders once per organization', async () => {
+    const tenants: Array<string | null> = [];
+    prismaMock.pickup.findMany.mockImplementation(async () => {
+      tenants.push(getTenantId());
+      return [];
+    });
+
+    await scheduler.sendPickupReminders();
+
+    expect(tenants).toEqual([ORG_A, ORG_B]);
+  });
+
+  it('checks overdue pickups once per organization', async () => {
+    const tenants: Array<string | null> = [];
+    prismaMock.pickup.findMany.mockImplementation(async () => {
+      tenants.push(getTenantId());
+      return [];
+    });
+
+    await scheduler.checkOverduePickups();
+
+    expect(tenants).toEqual([ORG_A, ORG_B]);
+  });
+});
+
+describe('PickupService.createPickup', () => {
+  it('rejects a driver of another organization than the bin\'s', async () => {
+    prismaMock.bin.findUnique.mockResolvedValue(bin(ORG_A));
+    prismaMock.driver.findUnique.mockResolvedValue(driver(ORG_B));
+
+    await expect(new PickupService().createPickup(
+      { binId: `bin-${ORG_A}`, driverId: `driver-${ORG_B}` },
+      'ADMIN',
+      'user-1'
+    )).rejects.toMatchObject({ message: 'Driver not found or not available', statusCode: 400 });
+    expect(prismaMock.pickup.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+// src/services/__tests__/policyService.test.ts
+import { PolicyService, parseGrant } from '@/services/policyService';
+import { runWithTenant } from '@/utils/tenantContext';
+import { prismaMock } from './helpers/prismaMock';
+
+jest.mock('@prisma/client', () => jest.requireActual('./helpers/prismaMock').mockPrismaModule());
+
+const ORG_ID = '11111111-1111-1111-1111-111111111111';
+const OTHER_ORG_ID = '22222222-2222-2222-2222-222222222222';
+
+describe('parseGrant', () => {
+  it('splits a grant into its permission and scope', () => {
+    expect(parseGrant('pickup.read:own')).toEqual({ permission: 'pickup.read', scope: 'own' });
+  });
+
+  it('treats a grant without a scope as applying to any resource', () => {
+    expect(parseGrant('bin.read')).toEqual({ permission: 'bin.read', scope: 'any' });
+  });
+});
+
+describe('PolicyService', () => {
+  let policyService: PolicyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    policyService = new PolicyService();
+  });
+
+  describe('built-in roles', () => {
+    it('grants their permissions on the scope they are defined with', async () => {
+      expect(await policyService.scopeFor('bin.read', 'ADMIN')).toBe('any');
+      expect(await policyService.scopeFor('pickup.read', 'DRIVER')).toBe('own');
+      expect(await policyService.can('route.drive', 'USER')).toBe(false);
+    });
+
+    it('keeps organization management from administrators', async () => {
+      expect(await policyService.can('organization.manage', 'SUPER_ADMIN')).toBe(true);
+      expect(await policyService.can('organization.manage', 'ADMIN')).toBe(false);
+    });
+
+    it('requires a second factor of the roles in MFA_REQUIRED_ROLES', async () => {
+      expect(await policyService.requiresMfa('ADMIN')).toBe(true);
+      expect(await policyService.requiresMfa('DRIVER')).toBe(false);
+    });
+
+    it('are never looked up in the database', async () => {
+      await runWithTenant(ORG_ID, () => policyService.can('bin.read', 'DRIVER'));
+
+      expect(prismaMock.role.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('custom roles', () => {
+    it('are looked up in the current organization', async () => {
+      prismaMock.role.findFirst.mockResolvedValue({
+        name: 'DISPATCHER',
+        permissions: ['pickup.read:zone', 'route.read'],
+        requireMfa: true
+      });
+
+      const grants = await runWithTenant(ORG_ID, () => policyService.getGrants('DISPATCHER'));
+
+      expect(prismaMock.role.findFirst).toHaveBeenCalledWith({ where: { name: 'DISPATCHER' } });
+      expect(Object.fromEntries(grants)).toEqual({ 'pickup.read': 'zone', 'route.read': 'any' });
+      expect(await runWithTenant(ORG_ID, () => policyService.requiresMfa('DISPATCHER'))).toBe(true);
+    });
+
+    it('grant nothing outside an organization', async () => {
+      expect(await runWithTenant(null, () => policyService.can('pickup.read', 'PLANNER'))).toBe(false);
+      expect(prismaMock.role.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('grant nothing when the organization has no such role', async () => {
+      prismaMock.role.findFirst.mockResolvedValue(null);
+
+      expect(await runWithTenant(ORG_ID, () => policyService.can('pickup.read', 'UNKNOWN'))).toBe(false);
+    });
+
+    it('ignore unknown permissions and scopes a permission cannot be granted on', async () => {
+      prismaMock.role.findFirst.mockResolvedValue({
+        permissions: ['bin.teleport', 'organization.manage:own', 'bin.read'],
+        requireMfa: false
+      });
+
+      const grants = await runWithTenant(OTHER_ORG_ID, () => policyService.getGrants('AUDITOR'));
+
+      expect(Object.fromEntries(grants)).toEqual({ 'bin.read': 'any' });
+    });
+
+    it('hold a permission granted more than once on its broadest scope', async () => {
+      prismaMock.role.findFirst.mockResolvedValue({
+        permissions: ['pickup.read:zone', 'pickup.read:own'],
+        requireMfa: false
+      });
+
+      expect(await runWithTenant(OTHER_ORG_ID, () => policyService.scopeFor('pickup.read', 'SUPERVISOR')))
+        .toBe('zone');
+    });
+
+    it('are cached per organization', async () => {
+      prismaMock.role.findFirst.mockResolvedValue({ permissions: ['bin.read'], requireMfa: false });
+
+      await runWithTenant(ORG_ID, () => policyService.can('bin.read', 'INSPECTOR'));
+      await runWithTenant(ORG_ID, () => policyService.can('bin.read', 'INSPECTOR'));
+      await runWithTenant(OTHER_ORG_ID, () => policyService.can('bin.read', 'INSPECTOR'));
+
+      expect(prismaMock.role.findFirst).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('authorize', () => {
+    it('returns the scope a role holds a permission on', async () => {
+      await expect(policyService.authorize('pickup.read', 'USER')).resolves.toBe('own');
+    });
+
+    it('rejects a role without the permission with 403', async () => {
+      await expect(policyService.authorize('route.drive', 'USER')).rejects.toMatchObject({
+        message: 'Insufficient permissions',
+        statusCode: 403
+      });
+    });
+  });
+
+  describe('scopeWhere', () => {
+    it('does not filter a permission held on any resource', async () => {
+      expect(await policyService.scopeWhere('pickup.read', 'ADMIN', 'user-1')).toEqual({});
+    });
+
+    it('limits an own-scoped permission to the user\'s resources', async () => {
+      expect(await policyService.scopeWhere('route.read', 'DRIVER', 'user-1')).toEqual({
+        driver: { userId: 'user-1' }
+      });
+    });
+
+    it('can build the filter for another resource', async () => {
+      expect(await policyService.scopeWhere('driver.read', 'DRIVER', 'user-1', 'shift')).toEqual({
+        driver: { userId: 'user-1' }
+      });
+    });
+
+    it('limits a zone-scoped permission to the depot the user works out of', async () => {
+      prismaMock.role.findFirst.mockResolvedValue({ permissions: ['route.read:zone'], requireMfa: false });
+      prismaMock.user.findUnique.mockResolvedValue({ depotId: 'depot-1' });
+
+      const where = await runWithTenant(ORG_ID, () =>
+        policyService.scopeWhere('route.read', 'ZONE_LEAD', 'user-1')
+      );
+
+      expect(where).toEqual({ depotId: 'depot-1' });
+    });
+
+    it('matches nothing in the zone of a user without a depot', async () => {
+      prismaMock.role.findFirst.mockResolvedValue({ permissions: ['route.read:zone'], requireMfa: false });
+      prismaMock.user.findUnique.mockResolvedValue({ depotId: null });
+
+      const where = await runWithTenant(OTHER_ORG_ID, () =>
+        policyService.scopeWhere('route.read', 'ZONE_LEAD', 'user-1')
+      );
+
+      expect(where).toEqual({ id: { in: [] } });
+    });
+  });
+
+  describe('assertAllowed', () => {
+    it('allows a permission held on any resource without a lookup', async () => {
+      await expect(policyService.assertAllowed('pickup.read', 'ADMIN', 'user-1', 'pickup-1')).resolves.toBeUndefined();
+
+      expect(prismaMock.pickup.count).not.toHaveBeenCalled();
+    });
+
+    it('allows a resource within the user\'s scope', async () => {
+      prismaMock.pickup.count.mockResolvedValue(1);
+
+      await expect(policyService.assertAllowed('pickup.read', 'USER', 'user-1', 'pickup-1')).resolves.toBeUndefined();
+      expect(prismaMock.pickup.count).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            { id: 'pickup-1' },
+            { OR: [{ createdById: 'user-1' }, { bin: { userId: 'user-1' } }, { driver: { userId: 'user-1' } }] }
+          ]
+        }
+      });
+    });
+
+    it('rejects a resource outside the user\'s scope with 403', async () => {
+      prismaMock.pickup.count.mockResolvedValue(0);
+
+      await expect(policyService.assertAllowed('pickup.read', 'USER', 'user-1', 'pickup-2')).rejects.toMatchObject({
+        message: 'Access denied',
+        statusCode: 403
+      });
+    });
+  });
+});
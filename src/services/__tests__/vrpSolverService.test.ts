@@ -0,0 +1,216 @@
+// src/services/__tests__/vrpSolverService.test.ts
+import { VrpSolverService } from '@/services/vrpSolverService';
+import { VrpProblem, VrpStop, VrpVehicle } from '@/types/routing';
+
+const SHIFT_START = new Date('2026-01-05T08:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+// Points along the equator, where 0.09 degrees of longitude is about 10 km
+const point = (longitude: number) => ({ latitude: 0, longitude });
+
+const stop = (id: string, longitude: number, overrides: Partial<VrpStop> = {}): VrpStop => ({
+  id,
+  location: point(longitude),
+  demand: 100,
+  serviceMinutes: 5,
+  priority: 1,
+  ...overrides
+});
+
+const vehicle = (id: string, overrides: Partial<VrpVehicle> = {}): VrpVehicle => ({
+  id,
+  start: point(0),
+  capacity: 1000,
+  availableFrom: SHIFT_START,
+  shiftEnd: new Date(SHIFT_START.getTime() + 8 * 60 * MINUTE_MS),
+  ...overrides
+});
+
+const problem = (overrides: Partial<VrpProblem>): VrpProblem => ({
+  stops: [],
+  vehicles: [vehicle('truck-1')],
+  speedKmh: 60,
+  ...overrides
+});
+
+const pickupIds = (route: { stops: Array<{ type: string; stopId?: string }> }) =>
+  route.stops.filter(planned => planned.type === 'PICKUP').map(planned => planned.stopId);
+
+describe('VrpSolverService', () => {
+  const solver = new VrpSolverService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('solve', () => {
+    it('serves every stop once, in the order that drives least', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('far', 0.27), stop('near', 0.09), stop('middle', 0.18)]
+      }));
+
+      expect(solution.unassigned).toEqual([]);
+      expect(pickupIds(solution.routes[0])).toEqual(['near', 'middle', 'far']);
+      expect(solution.routes[0].load).toBe(300);
+      expect(solution.totalDistance).toBeCloseTo(solution.routes[0].distance);
+    });
+
+    it('leaves out stops that would overflow the truck', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { demand: 600 }), stop('bin-2', 0.18, { demand: 600 })]
+      }));
+
+      expect(pickupIds(solution.routes[0])).toHaveLength(1);
+      expect(solution.unassigned).toEqual([{ stopId: expect.any(String), reason: 'CAPACITY' }]);
+    });
+
+    it('counts the load already on board', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { demand: 600 })],
+        vehicles: [vehicle('truck-1', { initialLoad: 500 })]
+      }));
+
+      expect(solution.unassigned).toEqual([{ stopId: 'bin-1', reason: 'CAPACITY' }]);
+    });
+
+    it('tips at a disposal site when the next stop would overflow the truck', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { demand: 600 }), stop('bin-2', 0.18, { demand: 600 })],
+        disposalSites: [{ id: 'landfill', location: point(0.135), serviceMinutes: 15 }]
+      }));
+
+      expect(solution.unassigned).toEqual([]);
+      expect(solution.routes[0].stops.map(planned => planned.stopId ?? planned.facilityId)).toEqual([
+        'bin-1',
+        'landfill',
+        'bin-2',
+        'landfill'
+      ]);
+      expect(solution.routes[0].load).toBe(1200);
+    });
+
+    it('never assigns a stop heavier than the truck', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { demand: 1500 })],
+        disposalSites: [{ id: 'landfill', location: point(0.135), serviceMinutes: 15 }]
+      }));
+
+      expect(solution.unassigned).toEqual([{ stopId: 'bin-1', reason: 'CAPACITY' }]);
+    });
+
+    it('waits for a stop\'s time window to open', () => {
+      const windowStart = new Date(SHIFT_START.getTime() + 60 * MINUTE_MS);
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { windowStart })]
+      }));
+
+      const [planned] = solution.routes[0].stops;
+      expect(planned.waitMinutes).toBe(50);
+      expect(planned.departure.getTime()).toBe(windowStart.getTime() + 5 * MINUTE_MS);
+    });
+
+    it('leaves out stops whose time window closes before the truck can arrive', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { windowEnd: new Date(SHIFT_START.getTime() + 5 * MINUTE_MS) })]
+      }));
+
+      expect(solution.unassigned).toEqual([{ stopId: 'bin-1', reason: 'TIME_WINDOW' }]);
+    });
+
+    it('leaves out stops that cannot be finished before the shift ends', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { serviceMinutes: 9 * 60 })]
+      }));
+
+      expect(solution.unassigned).toEqual([{ stopId: 'bin-1', reason: 'SHIFT_END' }]);
+    });
+
+    it('returns to the depot at the end of the route', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09)],
+        vehicles: [vehicle('truck-1', { end: { id: 'depot', location: point(0), serviceMinutes: 10 } })]
+      }));
+
+      const route = solution.routes[0];
+      expect(route.stops.map(planned => planned.type)).toEqual(['PICKUP', 'DEPOT']);
+      expect(route.distance).toBeCloseTo(20, 0);
+      expect(route.duration).toBe(35);
+    });
+
+    it('shares stops between vehicles when one truck cannot take them all', () => {
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09, { demand: 600 }), stop('bin-2', -0.09, { demand: 600 })],
+        vehicles: [vehicle('truck-1'), vehicle('truck-2')]
+      }));
+
+      expect(solution.unassigned).toEqual([]);
+      expect(solution.routes.map(route => pickupIds(route).length)).toEqual([1, 1]);
+    });
+
+    it('reports stops no vehicle could be tried for', () => {
+      const solution = solver.solve(problem({ stops: [stop('bin-1', 0.09)], vehicles: [] }));
+
+      expect(solution.unassigned).toEqual([{ stopId: 'bin-1', reason: 'NO_VEHICLE' }]);
+    });
+
+    it('prefers road costs from the travel matrix over straight lines', () => {
+      // Nodes: bin-1, truck start, truck end
+      const solution = solver.solve(problem({
+        stops: [stop('bin-1', 0.09)],
+        travelMatrix: {
+          distances: [[0, 25, 25], [25, 0, 0], [25, 0, 0]],
+          durations: [[0, 30, 30], [30, 0, 0], [30, 0, 0]]
+        }
+      }));
+
+      expect(solution.totalDistance).toBe(25);
+      expect(solution.routes[0].duration).toBe(35);
+    });
+
+    it('stops improving routes once the time limit is reached', () => {
+      // Scattered stops that cheapest insertion alone does not order best
+      const scattered = problem({
+        stops: Array.from({ length: 12 }, (_, i) => ({
+          ...stop(`bin-${i}`, ((i * 11) % 12) * 0.02),
+          location: { latitude: ((i * 7) % 5) * 0.03, longitude: ((i * 11) % 12) * 0.02 }
+        })),
+        vehicles: [vehicle('truck-1', { capacity: 5000 })],
+        timeLimitMs: 500
+      });
+
+      expect(solver.solve(scattered).iterations).toBeGreaterThan(0);
+
+      let now = SHIFT_START.getTime();
+      jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+
+      const solution = solver.solve(scattered);
+
+      expect(solution.iterations).toBe(0);
+      expect(solution.unassigned).toEqual([]);
+    });
+  });
+
+  describe('insertStop', () => {
+    it('inserts a stop at its cheapest position and keeps the rest of the order', () => {
+      const result = solver.insertStop(
+        problem({ stops: [stop('bin-1', 0.09), stop('bin-3', 0.27), stop('urgent', 0.18)] }),
+        [['bin-1', 'bin-3']],
+        'urgent'
+      );
+
+      expect(result.insertion).toMatchObject({ vehicleId: 'truck-1', position: 1 });
+      expect(result.insertion!.addedDistance).toBeCloseTo(0, 5);
+      expect(pickupIds(result.insertion!.route)).toEqual(['bin-1', 'urgent', 'bin-3']);
+    });
+
+    it('reports why no vehicle can take the stop', () => {
+      const result = solver.insertStop(
+        problem({ stops: [stop('bin-1', 0.09, { demand: 900 }), stop('urgent', 0.18, { demand: 200 })] }),
+        [['bin-1']],
+        'urgent'
+      );
+
+      expect(result).toEqual({ insertion: null, reason: 'CAPACITY' });
+    });
+  });
+});
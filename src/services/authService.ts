@@ -1,23 +1,71 @@
 // src/services/authService.ts
 import bcrypt from 'bcryptjs';
-import { v4 as uuidv4 } from 'uuid';
-import { PrismaClient, User, UserRole } from '@prisma/client';
-import { generateTokens, verifyRefreshToken } from '../utils/jwt';
+import { Prisma, PrismaClient, User, UserRole, AccountTokenPurpose } from '@prisma/client';
+import { env } from '../config/env';
+import {
+  generateTokens,
+  verifyRefreshToken,
+  hashRefreshToken,
+  generateAccountToken,
+  verifyAccountToken,
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken
+} from '../utils/jwt';
+import { NotificationService } from '../services/notificationService';
+import { MfaService } from '../services/mfaService';
+import { SessionService } from '../services/sessionService';
 import { 
   RegisterRequest, 
   LoginRequest, 
+  MfaLoginRequest,
   AuthResponse,
+  MfaChallengeResponse,
   TokenPayload 
 } from '@/types/auth';
+import { SessionMetadata } from '@/types/session';
 import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Fields of the user that signing in checks and returns
+const LOGIN_USER_SELECT = {
+  id: true,
+  email: true,
+  fullName: true,
+  role: true,
+  customRole: { select: { name: true } },
+  organizationId: true,
+  organization: { select: { isActive: true } },
+  isActive: true,
+  emailVerified: true,
+  mfaEnabled: true
+} satisfies Prisma.UserSelect;
+
+type LoginUser = Prisma.UserGetPayload<{ select: typeof LOGIN_USER_SELECT }>;
+
+// How long a refresh token lasts; each refresh replaces it with a new one
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// How long emailed links stay valid
+const EMAIL_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+const PASSWORD_RESET_TTL_SECONDS = 60 * 60;
 
 export class AuthService {
+  private notificationService: NotificationService;
+  private mfaService: MfaService;
+  private sessionService: SessionService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.mfaService = new MfaService();
+    this.sessionService = new SessionService();
+  }
+
   /**
    * Register a new user
    */
-  async register(data: RegisterRequest): Promise<AuthResponse> {
+  async register(data: RegisterRequest, metadata: SessionMetadata = {}): Promise<AuthResponse> {
     try {
       // Check if user already exists
       const existingUser = await prisma.user.findUnique({
@@ -30,6 +78,16 @@ export class AuthService {
         throw error;
       }
 
+      const organization = await prisma.organization.findUnique({
+        where: { slug: data.organizationSlug.toLowerCase() }
+      });
+
+      if (!organization || !organization.isActive) {
+        const error: AppError = new Error('Organization not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
       // Hash password
       const saltRounds = 12;
       const hashedPassword = await bcrypt.hash(data.password, saltRounds);
@@ -41,7 +99,9 @@ export class AuthService {
           passwordHash: hashedPassword,
           fullName: data.fullName,
           phone: data.phone,
-          role: data.role || UserRole.USER,
+          // Self sign-up only ever creates citizens; an administrator promotes users
+          role: UserRole.USER,
+          organizationId: organization.id,
           isActive: true,
           emailVerified: false
         },
@@ -50,26 +110,27 @@ export class AuthService {
           email: true,
           fullName: true,
           role: true,
+          organizationId: true,
           isActive: true,
           emailVerified: true
         }
       });
 
-      // Generate tokens
-      const tokenPayload: TokenPayload = {
-        userId: user.id,
-        email: user.email,
-        role: user.role
-      };
-
-      const { accessToken, refreshToken } = generateTokens(tokenPayload);
+      const { accessToken, refreshToken } = await this.issueSessionTokens(
+        {
+          userId: user.id,
+          email: user.email,
+          role: user.role,
+          organizationId: user.organizationId
+        },
+        metadata
+      );
 
-      // Store refresh token
-      await this.storeRefreshToken(user.id, refreshToken);
+      await this.sendVerificationEmail(user.id);
 
       return {
         success: true,
-        message: 'User registered successfully',
+        message: 'User registered successfully. Check your email to verify your address',
         data: {
           user,
           accessToken,
@@ -82,21 +143,17 @@ export class AuthService {
   }
 
   /**
-   * Login user
+   * Login user. Users with two-factor authentication get an MFA token instead of
+   * a session, to exchange together with their second factor at /login/mfa.
    */
-  async login(data: LoginRequest): Promise<AuthResponse> {
+  async login(data: LoginRequest, metadata: SessionMetadata = {}): Promise<AuthResponse | MfaChallengeResponse> {
     try {
       // Find user
       const user = await prisma.user.findUnique({
         where: { email: data.email.toLowerCase() },
         select: {
-          id: true,
-          email: true,
-          passwordHash: true,
-          fullName: true,
-          role: true,
-          isActive: true,
-          emailVerified: true
+          ...LOGIN_USER_SELECT,
+          passwordHash: true
         }
       });
 
@@ -121,56 +178,72 @@ export class AuthService {
         throw error;
       }
 
-      // Generate tokens
-      const tokenPayload: TokenPayload = {
-        userId: user.id,
-        email: user.email,
-        role: user.role
-      };
-
-      const { accessToken, refreshToken } = generateTokens(tokenPayload);
+      this.assertOrganizationActive(user);
 
-      // Store refresh token
-      await this.storeRefreshToken(user.id, refreshToken);
+      if (user.mfaEnabled) {
+        return {
+          success: true,
+          message: 'Enter the code from your authenticator app',
+          data: {
+            mfaRequired: true,
+            mfaToken: generateMfaChallengeToken({ userId: user.id, mfaChallenge: true })
+          }
+        };
+      }
 
-      // Remove password from response
       const { passwordHash, ...userWithoutPassword } = user;
+      return this.startSession(userWithoutPassword, false, metadata);
+    } catch (error) {
+      throw error;
+    }
+  }
 
-      return {
-        success: true,
-        message: 'Login successful',
-        data: {
-          user: userWithoutPassword,
-          accessToken,
-          refreshToken
-        }
-      };
+  /**
+   * Finish signing in with the second factor, in exchange for the MFA token from
+   * the first step
+   */
+  async loginWithMfa(data: MfaLoginRequest, metadata: SessionMetadata = {}): Promise<AuthResponse> {
+    try {
+      const { userId } = verifyMfaChallengeToken(data.mfaToken);
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: LOGIN_USER_SELECT
+      });
+
+      if (!user || !user.isActive) {
+        const error: AppError = new Error('Account has been deactivated');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      this.assertOrganizationActive(user);
+
+      await this.mfaService.verifySecondFactor(user.id, data);
+
+      return this.startSession(user, true, metadata);
     } catch (error) {
       throw error;
     }
   }
 
   /**
-   * Refresh access token
+   * Refresh access token. The refresh token is rotated: it is exchanged for a new
+   * one and cannot be used again. Presenting a token that was already exchanged
+   * means it has been copied, so the whole session is revoked.
    */
-  async refreshToken(refreshToken: string): Promise<AuthResponse> {
+  async refreshToken(refreshToken: string, metadata: SessionMetadata = {}): Promise<AuthResponse> {
     try {
       // Verify refresh token
       const decoded = verifyRefreshToken(refreshToken);
 
       // Check if refresh token exists in database
       const storedToken = await prisma.refreshToken.findUnique({
-        where: { token: refreshToken },
+        where: { tokenHash: hashRefreshToken(refreshToken) },
         include: {
+          session: { select: { revokedAt: true } },
           user: {
-            select: {
-              id: true,
-              email: true,
-              fullName: true,
-              role: true,
-              isActive: true,
-              emailVerified: true
-            }
+            select: LOGIN_USER_SELECT
           }
         }
       });
@@ -181,9 +254,18 @@ export class AuthService {
         throw error;
       }
 
+      if (storedToken.session.revokedAt) {
+        const error: AppError = new Error('Session has been signed out');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      if (storedToken.rotatedAt) {
+        await this.revokeReusedSession(storedToken.sessionId);
+      }
+
       // Check if token is expired
       if (storedToken.expiresAt < new Date()) {
-        await prisma.refreshToken.delete({ where: { id: storedToken.id } });
         const error: AppError = new Error('Refresh token expired');
         error.statusCode = 401;
         throw error;
@@ -196,21 +278,44 @@ export class AuthService {
         throw error;
       }
 
-      // Generate new tokens
+      this.assertOrganizationActive(storedToken.user);
+
+      // A role changed since the last refresh takes effect in the new access token
+      const { customRole, organization, mfaEnabled, ...user } = storedToken.user;
+      const role = customRole?.name ?? user.role;
+
+      // Generate new tokens. The session keeps its second factor only while the
+      // user still has one, so an administrator's reset takes effect here too.
       const tokenPayload: TokenPayload = {
-        userId: storedToken.user.id,
-        email: storedToken.user.email,
-        role: storedToken.user.role
+        userId: user.id,
+        email: user.email,
+        role,
+        organizationId: user.organizationId,
+        mfa: !!decoded.mfa && mfaEnabled,
+        sessionId: storedToken.sessionId
       };
 
+      // Retire the old token. Only one of two requests racing with the same token
+      // can do so; the other is treated as reuse.
+      const { count } = await prisma.refreshToken.updateMany({
+        where: { id: storedToken.id, rotatedAt: null },
+        data: { rotatedAt: new Date() }
+      });
+
+      if (count === 0) {
+        await this.revokeReusedSession(storedToken.sessionId);
+      }
+
       const { accessToken, refreshToken: newRefreshToken } = generateTokens(tokenPayload);
+      const expiresAt = await this.storeRefreshToken(storedToken.sessionId, user.id, newRefreshToken);
 
-      // Replace old refresh token with new one
-      await prisma.refreshToken.update({
-        where: { id: storedToken.id },
+      await prisma.session.update({
+        where: { id: storedToken.sessionId },
         data: {
-          token: newRefreshToken,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
+          lastUsedAt: new Date(),
+          expiresAt,
+          ...(metadata.ipAddress && { ipAddress: metadata.ipAddress }),
+          ...(metadata.userAgent && { userAgent: metadata.userAgent })
         }
       });
 
@@ -218,7 +323,7 @@ export class AuthService {
         success: true,
         message: 'Token refreshed successfully',
         data: {
-          user: storedToken.user,
+          user: { ...user, role },
           accessToken,
           refreshToken: newRefreshToken
         }
@@ -229,15 +334,22 @@ export class AuthService {
   }
 
   /**
-   * Logout user
+   * Logout user, ending the session the refresh token belongs to
    */
   async logout(refreshToken: string): Promise<{ success: boolean; message: string }> {
     try {
-      // Delete refresh token from database
-      await prisma.refreshToken.deleteMany({
-        where: { token: refreshToken }
+      const storedToken = await prisma.refreshToken.findUnique({
+        where: { tokenHash: hashRefreshToken(refreshToken) },
+        select: { sessionId: true }
       });
 
+      if (storedToken) {
+        await prisma.session.updateMany({
+          where: { id: storedToken.sessionId, revokedAt: null },
+          data: { revokedAt: new Date() }
+        });
+      }
+
       return {
         success: true,
         message: 'Logout successful'
@@ -288,10 +400,8 @@ export class AuthService {
         data: { passwordHash: hashedNewPassword }
       });
 
-      // Invalidate all refresh tokens for this user
-      await prisma.refreshToken.deleteMany({
-        where: { userId }
-      });
+      // Sign the user out of every session
+      await this.sessionService.revokeAllSessions(userId);
 
       return {
         success: true,
@@ -302,6 +412,145 @@ export class AuthService {
     }
   }
 
+  /**
+   * Email a user a fresh link to verify their address. Earlier links stop working.
+   */
+  async sendVerificationEmail(userId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, emailVerified: true }
+      });
+
+      if (!user) {
+        const error: AppError = new Error('User not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      if (user.emailVerified) {
+        const error: AppError = new Error('Email is already verified');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const token = await this.issueAccountToken(
+        user.id,
+        AccountTokenPurpose.EMAIL_VERIFICATION,
+        EMAIL_VERIFICATION_TTL_SECONDS
+      );
+
+      await this.notificationService.sendEmailVerification(
+        user.email,
+        `${env.FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`
+      );
+
+      return {
+        success: true,
+        message: 'Verification email sent'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a user's email address as verified using the token from their link
+   */
+  async verifyEmail(token: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const userId = await this.redeemAccountToken(token, AccountTokenPurpose.EMAIL_VERIFICATION);
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { emailVerified: true }
+      });
+
+      return {
+        success: true,
+        message: 'Email verified successfully'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Email a password reset link. The response is the same whether or not the
+   * address belongs to an account, so it cannot be used to discover accounts.
+   */
+  async forgotPassword(email: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+        select: { id: true, email: true, isActive: true }
+      });
+
+      if (user && user.isActive) {
+        const token = await this.issueAccountToken(
+          user.id,
+          AccountTokenPurpose.PASSWORD_RESET,
+          PASSWORD_RESET_TTL_SECONDS
+        );
+
+        await this.notificationService.sendPasswordReset(
+          user.email,
+          `${env.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`
+        );
+      }
+
+      return {
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password using the token from a reset link and sign the user out
+   * everywhere
+   */
+  async resetPassword(token: string, newPassword: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const userId = await this.redeemAccountToken(token, AccountTokenPurpose.PASSWORD_RESET);
+
+      const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+      // Following the link also proves the user owns the address
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          passwordHash: hashedPassword,
+          emailVerified: true
+        }
+      });
+
+      // Sign the user out of every session
+      await this.sessionService.revokeAllSessions(userId);
+
+      return {
+        success: true,
+        message: 'Password reset successfully. Please sign in with your new password'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a user has verified their email address
+   */
+  async isEmailVerified(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { emailVerified: true }
+    });
+
+    return !!user?.emailVerified;
+  }
+
   /**
    * Get user profile
    */
@@ -315,6 +564,7 @@ export class AuthService {
           fullName: true,
           phone: true,
           role: true,
+          organizationId: true,
           isActive: true,
           emailVerified: true,
           createdAt: true,
@@ -376,25 +626,167 @@ export class AuthService {
   }
 
   /**
-   * Store refresh token in database
+   * Issue the tokens of a new session for a signed-in user
    */
-  private async storeRefreshToken(userId: string, refreshToken: string) {
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+  private async startSession(
+    user: LoginUser,
+    mfa: boolean,
+    metadata: SessionMetadata
+  ): Promise<AuthResponse> {
+    // Users given a custom role act with it instead of their account's role
+    const { customRole, organization, mfaEnabled, ...userData } = user;
+    const role = customRole?.name ?? user.role;
+
+    const { accessToken, refreshToken } = await this.issueSessionTokens(
+      {
+        userId: user.id,
+        email: user.email,
+        role,
+        organizationId: user.organizationId,
+        mfa
+      },
+      metadata
+    );
+
+    return {
+      success: true,
+      message: 'Login successful',
+      data: {
+        user: { ...userData, role },
+        accessToken,
+        refreshToken
+      }
+    };
+  }
+
+  private assertOrganizationActive(user: { organization: { isActive: boolean } | null }) {
+    if (user.organization && !user.organization.isActive) {
+      const error: AppError = new Error('Organization has been deactivated');
+      error.statusCode = 401;
+      throw error;
+    }
+  }
+
+  /**
+   * Open a session for a signed-in user and issue its first tokens
+   */
+  private async issueSessionTokens(
+    payload: Omit<TokenPayload, 'sessionId'>,
+    metadata: SessionMetadata
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const session = await prisma.session.create({
+      data: {
+        userId: payload.userId,
+        deviceName: metadata.deviceName,
+        userAgent: metadata.userAgent,
+        ipAddress: metadata.ipAddress,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+      }
+    });
+
+    const tokens = generateTokens({ ...payload, sessionId: session.id });
+    await this.storeRefreshToken(session.id, payload.userId, tokens.refreshToken);
+
+    return tokens;
+  }
+
+  /**
+   * Store the hash of a session's new refresh token, returning when it expires
+   */
+  private async storeRefreshToken(sessionId: string, userId: string, refreshToken: string): Promise<Date> {
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
 
     await prisma.refreshToken.create({
       data: {
-        token: refreshToken,
+        tokenHash: hashRefreshToken(refreshToken),
+        sessionId,
         userId,
         expiresAt
       }
     });
+
+    return expiresAt;
+  }
+
+  /**
+   * Revoke a session whose refresh token was presented after it had been
+   * exchanged, so neither the user nor whoever copied the token can go on using it
+   */
+  private async revokeReusedSession(sessionId: string): Promise<never> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    console.warn(`🚨 Refresh token reuse detected; session ${sessionId} revoked`);
+
+    const error: AppError = new Error('Refresh token has already been used. Please sign in again');
+    error.statusCode = 401;
+    throw error;
+  }
+
+  /**
+   * Create a single-use token for an emailed link, retiring any earlier unused
+   * token the user was sent for the same purpose
+   */
+  private async issueAccountToken(
+    userId: string,
+    purpose: AccountTokenPurpose,
+    ttlSeconds: number
+  ): Promise<string> {
+    const now = new Date();
+
+    await prisma.accountToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: now }
+    });
+
+    const record = await prisma.accountToken.create({
+      data: {
+        userId,
+        purpose,
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000)
+      }
+    });
+
+    return generateAccountToken({ tokenId: record.id, userId, purpose }, ttlSeconds);
+  }
+
+  /**
+   * Check an emailed token and use it up, returning the user it was issued to
+   */
+  private async redeemAccountToken(token: string, purpose: AccountTokenPurpose): Promise<string> {
+    const payload = verifyAccountToken(token, purpose);
+    const now = new Date();
+
+    // Marking the token used only if it is still unused makes redemption single-use,
+    // even when the same link is followed twice at once
+    const { count } = await prisma.accountToken.updateMany({
+      where: {
+        id: payload.tokenId,
+        userId: payload.userId,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: now }
+      },
+      data: { usedAt: now }
+    });
+
+    if (count === 0) {
+      const error: AppError = new Error('Invalid or already used token');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return payload.userId;
   }
 
   /**
-   * Cleanup expired refresh tokens
+   * Cleanup expired sessions along with their refresh tokens. Revoked sessions are
+   * kept until then so that reuse of their tokens is still recognised.
    */
   async cleanupExpiredTokens() {
-    await prisma.refreshToken.deleteMany({
+    await prisma.session.deleteMany({
       where: {
         expiresAt: {
           lt: new Date()
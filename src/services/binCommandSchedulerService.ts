@@ -0,0 +1,129 @@
+// src/services/binCommandSchedulerService.ts
+import { PrismaClient, BinCommandStatus } from '@prisma/client';
+import { MQTTService } from '../services/mqttService';
+import { BinCommandMessage } from '@/types/binCommand';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+const ACK_TIMEOUT_MS = 30 * 1000;
+
+export class BinCommandSchedulerService {
+  private mqttService: MQTTService;
+
+  constructor(mqttService: MQTTService) {
+    this.mqttService = mqttService;
+  }
+
+  /**
+   * Expire stale commands, give up on exhausted ones and (re)send the rest
+   */
+  async processCommands(): Promise<void> {
+    try {
+      const now = new Date();
+      const ackDeadline = new Date(now.getTime() - ACK_TIMEOUT_MS);
+
+      const expired = await prisma.binCommand.updateMany({
+        where: {
+          status: { in: [BinCommandStatus.PENDING, BinCommandStatus.SENT] },
+          expiresAt: { lt: now }
+        },
+        data: {
+          status: BinCommandStatus.EXPIRED,
+          failureReason: 'Command expired before it was acknowledged'
+        }
+      });
+
+      const sentCommands = await prisma.binCommand.findMany({
+        where: {
+          status: BinCommandStatus.SENT,
+          lastAttemptAt: { lt: ackDeadline }
+        },
+        select: {
+          id: true,
+          attempts: true,
+          maxAttempts: true
+        }
+      });
+
+      const exhaustedIds = sentCommands
+        .filter(command => command.attempts >= command.maxAttempts)
+        .map(command => command.id);
+
+      if (exhaustedIds.length > 0) {
+        await prisma.binCommand.updateMany({
+          where: { id: { in: exhaustedIds } },
+          data: {
+            status: BinCommandStatus.FAILED,
+            failureReason: 'No acknowledgement from device after maximum attempts'
+          }
+        });
+      }
+
+      const retryIds = sentCommands
+        .filter(command => command.attempts < command.maxAttempts)
+        .map(command => command.id);
+
+      const dueCommands = await prisma.binCommand.findMany({
+        where: {
+          OR: [
+            { status: BinCommandStatus.PENDING },
+            { id: { in: retryIds } }
+          ]
+        },
+        include: {
+          bin: {
+            select: {
+              binCode: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      for (const command of dueCommands) {
+        const attempt = command.attempts + 1;
+
+        const message: BinCommandMessage = {
+          commandId: command.id,
+          type: command.type,
+          params: command.params,
+          attempt,
+          expiresAt: command.expiresAt
+        };
+
+        this.mqttService.sendBinCommand(command.bin.binCode, message);
+
+        await prisma.binCommand.update({
+          where: { id: command.id },
+          data: {
+            status: BinCommandStatus.SENT,
+            attempts: attempt,
+            lastAttemptAt: now,
+            ...(!command.sentAt && { sentAt: now })
+          }
+        });
+      }
+
+      if (dueCommands.length > 0 || expired.count > 0 || exhaustedIds.length > 0) {
+        console.log(
+          `📤 Bin commands: ${dueCommands.length} sent, ${exhaustedIds.length} failed, ${expired.count} expired`
+        );
+      }
+    } catch (error) {
+      console.error('Error processing bin commands:', error);
+    }
+  }
+
+  /**
+   * Start command delivery loop
+   */
+  startScheduler(): void {
+    // Deliver and retry commands every 10 seconds
+    setInterval(() => {
+      this.processCommands();
+    }, 10 * 1000);
+
+    console.log('📤 Bin command scheduler started');
+  }
+}
@@ -0,0 +1,200 @@
+// src/services/binCommandService.ts
+import { PrismaClient, BinCommandStatus, BinCommandType } from '@prisma/client';
+import {
+  IssueBinCommandRequest,
+  BinCommandAckMessage,
+  BinCommandResponse,
+  BinCommandListQuery
+} from '@/types/binCommand';
+import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+const DEFAULT_COMMAND_TTL_SECONDS = 10 * 60;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export class BinCommandService {
+  /**
+   * Queue a command for a bin. Delivery is handled by BinCommandSchedulerService.
+   */
+  async issueCommand(binId: string, data: IssueBinCommandRequest, issuedById: string): Promise<BinCommandResponse> {
+    try {
+      const bin = await prisma.bin.findUnique({
+        where: { id: binId }
+      });
+
+      if (!bin) {
+        const error: AppError = new Error('Bin not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const ttlSeconds = data.ttlSeconds || DEFAULT_COMMAND_TTL_SECONDS;
+
+      const command = await prisma.binCommand.create({
+        data: {
+          binId,
+          issuedById,
+          type: data.type,
+          params: data.params,
+          status: BinCommandStatus.PENDING,
+          maxAttempts: data.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+          expiresAt: new Date(Date.now() + ttlSeconds * 1000)
+        },
+        include: {
+          issuedBy: {
+            select: {
+              id: true,
+              fullName: true
+            }
+          }
+        }
+      });
+
+      return this.formatCommandResponse(command);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get commands issued to a bin
+   */
+  async getBinCommands(binId: string, query: BinCommandListQuery) {
+    try {
+      const limit = Math.min(Number(query.limit) || 50, 200);
+
+      const commands = await prisma.binCommand.findMany({
+        where: {
+          binId,
+          ...(query.status && { status: query.status })
+        },
+        include: {
+          issuedBy: {
+            select: {
+              id: true,
+              fullName: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      });
+
+      return {
+        success: true,
+        data: commands.map(command => this.formatCommandResponse(command))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single command issued to a bin
+   */
+  async getBinCommandById(binId: string, commandId: string): Promise<BinCommandResponse> {
+    try {
+      const command = await prisma.binCommand.findFirst({
+        where: { id: commandId, binId },
+        include: {
+          issuedBy: {
+            select: {
+              id: true,
+              fullName: true
+            }
+          }
+        }
+      });
+
+      if (!command) {
+        const error: AppError = new Error('Command not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatCommandResponse(command);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Close the loop on a command acknowledged by a bin
+   */
+  async recordAck(binCode: string, ack: BinCommandAckMessage): Promise<BinCommandResponse | null> {
+    try {
+      const command = await prisma.binCommand.findFirst({
+        where: {
+          id: ack.commandId,
+          bin: { binCode }
+        }
+      });
+
+      if (!command) {
+        const error: AppError = new Error('Command not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      // Duplicate acks arrive when a retry crosses the first ack in flight
+      if (command.status !== BinCommandStatus.SENT && command.status !== BinCommandStatus.PENDING) {
+        return null;
+      }
+
+      const updatedCommand = await prisma.binCommand.update({
+        where: { id: command.id },
+        data: ack.success
+          ? {
+              status: BinCommandStatus.ACKED,
+              ackedAt: new Date(),
+              result: ack.result
+            }
+          : {
+              status: BinCommandStatus.FAILED,
+              ackedAt: new Date(),
+              failureReason: ack.error || 'Device reported failure',
+              result: ack.result
+            }
+      });
+
+      // The bin now reports on the new interval, so offline detection must follow it
+      const params = command.params as IssueBinCommandRequest['params'];
+      if (ack.success && command.type === BinCommandType.SET_REPORTING_INTERVAL && params?.intervalSeconds) {
+        await prisma.bin.update({
+          where: { id: command.binId },
+          data: { reportingInterval: params.intervalSeconds }
+        });
+      }
+
+      return this.formatCommandResponse(updatedCommand);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Format command response
+   */
+  formatCommandResponse(command: any): BinCommandResponse {
+    return {
+      id: command.id,
+      binId: command.binId,
+      type: command.type,
+      params: command.params,
+      status: command.status,
+      attempts: command.attempts,
+      maxAttempts: command.maxAttempts,
+      sentAt: command.sentAt,
+      lastAttemptAt: command.lastAttemptAt,
+      ackedAt: command.ackedAt,
+      expiresAt: command.expiresAt,
+      failureReason: command.failureReason,
+      result: command.result,
+      issuedBy: command.issuedBy,
+      createdAt: command.createdAt,
+      updatedAt: command.updatedAt
+    };
+  }
+}
@@ -0,0 +1,606 @@
+// src/services/binEventService.ts
+import { PrismaClient, AlertSeverity, AlertStatus, BinEventType, BinStatus, Bin } from '@prisma/client';
+import { BinService } from '../services/binService';
+import { GatewayService } from '../services/gatewayService';
+import {
+  BinStatusMessage,
+  BinAlertMessage,
+  BinAlertType,
+  GatewayHealthMessage,
+  BinEventResponse,
+  RecordedBinEvent,
+  BinAlertListQuery
+} from '@/types/binEvent';
+import { AuthenticatedGateway } from '@/types/gateway';
+import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Severity of alerts raised on the alert topic
+const ALERT_SEVERITY: Record<BinAlertType, AlertSeverity> = {
+  LID_OPEN: AlertSeverity.WARNING,
+  TILT: AlertSeverity.WARNING,
+  FIRE: AlertSeverity.CRITICAL,
+  TAMPER: AlertSeverity.WARNING,
+  LOW_BATTERY: AlertSeverity.WARNING
+};
+
+// Bin status forced by an open alert of the given type
+const ALERT_STATUS_TRANSITIONS: Partial<Record<BinEventType, BinStatus>> = {
+  [BinEventType.TILT]: BinStatus.MAINTENANCE,
+  [BinEventType.TAMPER]: BinStatus.MAINTENANCE,
+  [BinEventType.FIRE]: BinStatus.OUT_OF_SERVICE
+};
+
+// Higher rank wins, so a tilt never downgrades a bin already out of service
+const STATUS_RANK: Partial<Record<BinStatus, number>> = {
+  [BinStatus.MAINTENANCE]: 1,
+  [BinStatus.OUT_OF_SERVICE]: 2
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  [AlertSeverity.INFO]: 0,
+  [AlertSeverity.WARNING]: 1,
+  [AlertSeverity.CRITICAL]: 2
+};
+
+export class BinEventService {
+  private binService: BinService;
+  private gatewayService: GatewayService;
+
+  constructor() {
+    this.binService = new BinService();
+    this.gatewayService = new GatewayService();
+  }
+
+  /**
+   * Record a status message (lid and tilt state) from a bin
+   */
+  async recordStatusUpdate(binCode: string, message: BinStatusMessage): Promise<RecordedBinEvent[]> {
+    try {
+      const bin = await this.getBinByCode(binCode);
+      const recorded: RecordedBinEvent[] = [];
+
+      if (message.lidOpen !== undefined) {
+        const lidEvent = await this.createEvent(bin, {
+          type: message.lidOpen ? BinEventType.LID_OPEN : BinEventType.LID_CLOSED,
+          severity: AlertSeverity.INFO,
+          isAlert: false,
+          message: message.lidOpen ? 'Lid opened' : 'Lid closed',
+          payload: message
+        });
+
+        if (lidEvent) {
+          recorded.push(lidEvent);
+        }
+      }
+
+      // A device reporting the bin upright or its lid closed clears the matching alert
+      if (message.tilted === false) {
+        recorded.push(...await this.resolveAlerts(bin, [BinEventType.TILT]));
+      }
+
+      if (message.lidOpen === false) {
+        recorded.push(...await this.resolveAlerts(bin, [BinEventType.LID_OPEN]));
+      }
+
+      if (message.tilted) {
+        const tiltEvent = await this.createEvent(bin, {
+          type: BinEventType.TILT,
+          severity: AlertSeverity.WARNING,
+          isAlert: true,
+          message: `Bin tilted${message.tiltAngle !== undefined ? ` ${message.tiltAngle}°` : ''}`,
+          payload: message
+        });
+
+        if (tiltEvent) {
+          recorded.push(tiltEvent);
+        }
+      }
+
+      return recorded;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Record an alert raised by a bin. Returns null if the same alert is already open.
+   */
+  async recordAlert(binCode: string, message: BinAlertMessage): Promise<RecordedBinEvent | null> {
+    try {
+      const bin = await this.getBinByCode(binCode);
+
+      return await this.createEvent(bin, {
+        type: BinEventType[message.type],
+        severity: ALERT_SEVERITY[message.type],
+        isAlert: true,
+        message: message.message || this.defaultAlertMessage(message),
+        payload: message
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Record a health report from an authenticated gateway. A gateway keeps one open
+   * alert while it is unhealthy, raised in severity if it gets worse and resolved
+   * once it reports OK again. Returns null when nothing new was recorded.
+   */
+  async recordGatewayHealth(gateway: AuthenticatedGateway, message: GatewayHealthMessage): Promise<RecordedBinEvent | null> {
+    try {
+      const openAlert = await prisma.binEvent.findFirst({
+        where: {
+          gatewayId: gateway.gatewayId,
+          type: BinEventType.GATEWAY_HEALTH,
+          alertStatus: AlertStatus.OPEN
+        }
+      });
+
+      if (message.status === 'OK') {
+        if (!openAlert) {
+          return null;
+        }
+
+        const resolvedAlert = await prisma.binEvent.update({
+          where: { id: openAlert.id },
+          data: {
+            alertStatus: AlertStatus.RESOLVED,
+            resolvedAt: new Date()
+          }
+        });
+
+        return { event: this.formatEventResponse(resolvedAlert) };
+      }
+
+      const severity = message.status === 'DOWN' ? AlertSeverity.CRITICAL : AlertSeverity.WARNING;
+      const eventData = {
+        severity,
+        message: `Gateway ${gateway.gatewayId} reported ${message.status}`,
+        payload: message as any
+      };
+
+      if (openAlert) {
+        if (SEVERITY_RANK[severity] <= SEVERITY_RANK[openAlert.severity]) {
+          return null;
+        }
+
+        const escalatedAlert = await prisma.binEvent.update({
+          where: { id: openAlert.id },
+          data: eventData
+        });
+
+        return { event: this.formatEventResponse(escalatedAlert) };
+      }
+
+      const event = await prisma.binEvent.create({
+        data: {
+          organizationId: gateway.organizationId,
+          gatewayId: gateway.gatewayId,
+          type: BinEventType.GATEWAY_HEALTH,
+          alertStatus: AlertStatus.OPEN,
+          ...eventData
+        }
+      });
+
+      return { event: this.formatEventResponse(event) };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Raise a fire alert for a reading flagged with a temperature spike
+   */
+  async recordTemperatureSpike(binCode: string, temperature?: number): Promise<RecordedBinEvent | null> {
+    try {
+      return await this.recordAlert(binCode, {
+        type: 'FIRE',
+        message: `Temperature spike in sensor reading${temperature !== undefined ? ` (${temperature}°C)` : ''}, possible fire`,
+        temperature
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Record that a bin's sensor stopped reporting
+   */
+  async recordSensorOffline(bin: Bin, lastReadingAt?: Date): Promise<RecordedBinEvent | null> {
+    try {
+      return await this.createEvent(bin, {
+        type: BinEventType.SENSOR_OFFLINE,
+        severity: AlertSeverity.WARNING,
+        isAlert: true,
+        message: lastReadingAt
+          ? `Sensor has not reported since ${lastReadingAt.toISOString()}`
+          : 'Sensor has never reported',
+        payload: {
+          lastReadingAt,
+          reportingInterval: bin.reportingInterval
+        }
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get alerts for a bin
+   */
+  async getBinAlerts(binId: string, query: BinAlertListQuery, userRole: string, userId: string) {
+    try {
+      // Check if bin exists and user has permission
+      await this.binService.getBinById(binId, userRole, userId);
+
+      const limit = Math.min(Number(query.limit) || 50, 200);
+
+      const alerts = await prisma.binEvent.findMany({
+        where: {
+          binId,
+          alertStatus: query.status ? query.status : { not: null }
+        },
+        include: {
+          acknowledgedBy: {
+            select: {
+              id: true,
+              fullName: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      });
+
+      return {
+        success: true,
+        data: alerts.map(alert => this.formatEventResponse(alert))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Acknowledge an open alert
+   */
+  async acknowledgeAlert(
+    binId: string,
+    alertId: string,
+    note: string | undefined,
+    userRole: string,
+    userId: string
+  ): Promise<BinEventResponse> {
+    try {
+      // Check if bin exists and user has permission
+      await this.binService.getBinById(binId, userRole, userId, 'bin.alert.acknowledge');
+
+      const alert = await this.acknowledgeEvent({ id: alertId, binId }, note, userId);
+
+      // Acknowledging the alert that put the bin on hold returns it to service
+      await this.releaseHold(binId);
+
+      return alert;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get health alerts raised by a gateway
+   */
+  async getGatewayAlerts(gatewayId: string, query: BinAlertListQuery) {
+    try {
+      const gateway = await this.gatewayService.getGatewayById(gatewayId);
+
+      const limit = Math.min(Number(query.limit) || 50, 200);
+
+      const alerts = await prisma.binEvent.findMany({
+        where: {
+          gatewayId: gateway.gatewayId,
+          alertStatus: query.status ? query.status : { not: null }
+        },
+        include: {
+          acknowledgedBy: {
+            select: {
+              id: true,
+              fullName: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      });
+
+      return {
+        success: true,
+        data: alerts.map(alert => this.formatEventResponse(alert))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Acknowledge an open gateway health alert
+   */
+  async acknowledgeGatewayAlert(
+    gatewayId: string,
+    alertId: string,
+    note: string | undefined,
+    userId: string
+  ): Promise<BinEventResponse> {
+    try {
+      const gateway = await this.gatewayService.getGatewayById(gatewayId);
+
+      return await this.acknowledgeEvent({ id: alertId, gatewayId: gateway.gatewayId }, note, userId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an open alert as acknowledged by a user
+   */
+  private async acknowledgeEvent(
+    where: { id: string; binId?: string; gatewayId?: string },
+    note: string | undefined,
+    userId: string
+  ): Promise<BinEventResponse> {
+    const alert = await prisma.binEvent.findFirst({
+      where: {
+        ...where,
+        alertStatus: { not: null }
+      }
+    });
+
+    if (!alert) {
+      const error: AppError = new Error('Alert not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (alert.alertStatus === AlertStatus.ACKNOWLEDGED) {
+      const error: AppError = new Error('Alert has already been acknowledged');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (alert.alertStatus === AlertStatus.RESOLVED) {
+      const error: AppError = new Error('Alert has already been resolved');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const updatedAlert = await prisma.binEvent.update({
+      where: { id: alert.id },
+      data: {
+        alertStatus: AlertStatus.ACKNOWLEDGED,
+        acknowledgedById: userId,
+        acknowledgedAt: new Date(),
+        acknowledgementNote: note
+      },
+      include: {
+        acknowledgedBy: {
+          select: {
+            id: true,
+            fullName: true
+          }
+        }
+      }
+    });
+
+    return this.formatEventResponse(updatedAlert);
+  }
+
+  /**
+   * Persist an event for a bin and apply any status transition it implies
+   */
+  private async createEvent(
+    bin: Bin,
+    event: {
+      type: BinEventType;
+      severity: AlertSeverity;
+      isAlert: boolean;
+      message: string;
+      payload: any;
+    }
+  ): Promise<RecordedBinEvent | null> {
+    // Devices repeat alerts until the condition clears; keep one open alert per type
+    if (event.isAlert) {
+      const openAlert = await prisma.binEvent.findFirst({
+        where: {
+          binId: bin.id,
+          type: event.type,
+          alertStatus: AlertStatus.OPEN
+        }
+      });
+
+      if (openAlert) {
+        return null;
+      }
+    }
+
+    const createdEvent = await prisma.binEvent.create({
+      data: {
+        organizationId: bin.organizationId,
+        binId: bin.id,
+        type: event.type,
+        severity: event.severity,
+        alertStatus: event.isAlert ? AlertStatus.OPEN : null,
+        message: event.message,
+        payload: event.payload
+      }
+    });
+
+    const recorded: RecordedBinEvent = { event: this.formatEventResponse(createdEvent) };
+
+    const targetStatus = ALERT_STATUS_TRANSITIONS[event.type];
+    if (targetStatus && (STATUS_RANK[targetStatus] || 0) > (STATUS_RANK[bin.status] || 0)) {
+      await prisma.bin.update({
+        where: { id: bin.id },
+        data: {
+          status: targetStatus,
+          // Keep the status from before the first hold when a worse alert follows
+          heldFromStatus: bin.heldFromStatus ?? bin.status
+        }
+      });
+
+      recorded.statusChange = {
+        oldStatus: bin.status,
+        newStatus: targetStatus
+      };
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Resolve a bin's open alerts of the given types, releasing any hold they put it on
+   */
+  private async resolveAlerts(bin: Bin, types: BinEventType[]): Promise<RecordedBinEvent[]> {
+    const openAlerts = await prisma.binEvent.findMany({
+      where: {
+        binId: bin.id,
+        type: { in: types },
+        alertStatus: AlertStatus.OPEN
+      }
+    });
+
+    const recorded: RecordedBinEvent[] = [];
+
+    for (const openAlert of openAlerts) {
+      const resolvedAlert = await prisma.binEvent.update({
+        where: { id: openAlert.id },
+        data: {
+          alertStatus: AlertStatus.RESOLVED,
+          resolvedAt: new Date()
+        }
+      });
+
+      recorded.push({ event: this.formatEventResponse(resolvedAlert) });
+    }
+
+    if (recorded.length > 0) {
+      const statusChange = await this.releaseHold(bin.id);
+      if (statusChange) {
+        recorded[recorded.length - 1].statusChange = statusChange;
+      }
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Return a bin put on hold by device alerts to the status it should have once
+   * an alert is acknowledged or resolved: the hold of the worst alert still open,
+   * or else the status it had before. A bin that was at a fill level goes back to
+   * the level of its latest reading, which kept being recorded during the hold.
+   */
+  private async releaseHold(binId: string): Promise<RecordedBinEvent['statusChange']> {
+    const bin = await prisma.bin.findUnique({
+      where: { id: binId }
+    });
+
+    // Holds set by an admin rather than an alert are left alone
+    if (!bin || !bin.heldFromStatus) {
+      return undefined;
+    }
+
+    const openHolds = await prisma.binEvent.findMany({
+      where: {
+        binId,
+        type: { in: Object.keys(ALERT_STATUS_TRANSITIONS) as BinEventType[] },
+        alertStatus: AlertStatus.OPEN
+      },
+      select: { type: true }
+    });
+
+    const heldStatus = openHolds
+      .map(hold => ALERT_STATUS_TRANSITIONS[hold.type]!)
+      .sort((a, b) => (STATUS_RANK[b] || 0) - (STATUS_RANK[a] || 0))[0];
+
+    let newStatus = bin.status;
+    if (STATUS_RANK[bin.status]) {
+      if (heldStatus) {
+        newStatus = heldStatus;
+      } else {
+        newStatus = STATUS_RANK[bin.heldFromStatus]
+          ? bin.heldFromStatus
+          : this.binService.calculateBinStatus(Number(bin.currentLevel));
+      }
+    }
+
+    await prisma.bin.update({
+      where: { id: binId },
+      data: {
+        status: newStatus,
+        heldFromStatus: heldStatus ? bin.heldFromStatus : null
+      }
+    });
+
+    return newStatus !== bin.status
+      ? { oldStatus: bin.status, newStatus }
+      : undefined;
+  }
+
+  /**
+   * Resolve a bin from the code in an MQTT topic
+   */
+  private async getBinByCode(binCode: string): Promise<Bin> {
+    const bin = await prisma.bin.findUnique({
+      where: { binCode }
+    });
+
+    if (!bin) {
+      const error: AppError = new Error('Bin not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return bin;
+  }
+
+  /**
+   * Build a readable message for alerts sent without one
+   */
+  private defaultAlertMessage(message: BinAlertMessage): string {
+    switch (message.type) {
+      case 'FIRE':
+        return `Possible fire detected${message.temperature !== undefined ? ` (${message.temperature}°C)` : ''}`;
+      case 'LOW_BATTERY':
+        return `Low battery${message.batteryLevel !== undefined ? ` (${message.batteryLevel}%)` : ''}`;
+      case 'TILT':
+        return `Bin tilted${message.tiltAngle !== undefined ? ` ${message.tiltAngle}°` : ''}`;
+      case 'TAMPER':
+        return 'Tampering detected';
+      case 'LID_OPEN':
+        return 'Lid left open';
+    }
+  }
+
+  /**
+   * Format event response
+   */
+  private formatEventResponse(event: any): BinEventResponse {
+    return {
+      id: event.id,
+      organizationId: event.organizationId,
+      binId: event.binId,
+      gatewayId: event.gatewayId,
+      type: event.type,
+      severity: event.severity,
+      alertStatus: event.alertStatus,
+      message: event.message,
+      payload: event.payload,
+      acknowledgedAt: event.acknowledgedAt,
+      acknowledgementNote: event.acknowledgementNote,
+      acknowledgedBy: event.acknowledgedBy,
+      resolvedAt: event.resolvedAt,
+      createdAt: event.createdAt
+    };
+  }
+}
@@ -0,0 +1,272 @@
+// src/services/binForecastService.ts
+import { PrismaClient, Bin, ReadingQuality } from '@prisma/client';
+import { BinService } from '../services/binService';
+import { PolicyService } from '../services/policyService';
+import {
+  BinForecast,
+  BinForecastQuery,
+  ForecastConfidence,
+  PredictedFullBinsQuery
+} from '@/types/binForecast';
+import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+export const DEFAULT_FORECAST_THRESHOLD = 80;
+
+// History used to learn fill patterns
+const LOOKBACK_DAYS = 28;
+// Forecasts further out than this are reported as "not reaching the threshold"
+const MAX_HORIZON_HOURS = 14 * 24;
+// A fall larger than this between two readings is an emptying, not consumption
+const RESET_DROP = 15;
+// Gaps longer than this say nothing about the fill rate at a given hour
+const MAX_INTERVAL_HOURS = 6;
+// Hours of observation a weekday/hour bucket needs before it is trusted
+const MIN_BUCKET_HOURS = 2;
+// Bins forecast per history query, to bound memory on large fleets
+const FORECAST_BATCH_SIZE = 50;
+
+interface FillSample {
+  fill: number;
+  hours: number;
+}
+
+interface FillProfile {
+  overall: FillSample;
+  byWeekHour: FillSample[]; // 7 * 24 buckets, indexed by day * 24 + hour
+  byHour: FillSample[]; // 24 buckets, across all weekdays
+}
+
+export class BinForecastService {
+  private binService: BinService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.binService = new BinService();
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Forecast when a single bin will reach the threshold
+   */
+  async getBinForecast(binId: string, query: BinForecastQuery, userRole: string, userId: string): Promise<BinForecast> {
+    try {
+      // Check if bin exists and user has permission
+      await this.binService.getBinById(binId, userRole, userId);
+
+      const bin = await prisma.bin.findUnique({
+        where: { id: binId }
+      });
+
+      if (!bin) {
+        const error: AppError = new Error('Bin not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const threshold = Number(query.threshold) || DEFAULT_FORECAST_THRESHOLD;
+      const [forecast] = await this.forecastBins([bin], threshold);
+
+      return forecast;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get active bins predicted to reach the threshold within the horizon, soonest first
+   */
+  async getBinsPredictedFull(query: PredictedFullBinsQuery, userRole: string, userId: string): Promise<BinForecast[]> {
+    try {
+      const hours = Number(query.hours) || 24;
+      const threshold = Number(query.threshold) || DEFAULT_FORECAST_THRESHOLD;
+
+      const whereClause: any = {
+        isActive: true,
+        AND: [await this.policyService.scopeWhere('bin.read', userRole, userId)]
+      };
+
+      const bins = await prisma.bin.findMany({
+        where: whereClause
+      });
+
+      const forecasts = await this.forecastBins(bins, threshold);
+
+      return forecasts
+        .filter(forecast => forecast.hoursUntilThreshold !== null && forecast.hoursUntilThreshold <= hours)
+        .sort((a, b) => a.hoursUntilThreshold! - b.hoursUntilThreshold!);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Forecast a set of bins from their recent sensor history
+   */
+  async forecastBins(bins: Bin[], threshold: number = DEFAULT_FORECAST_THRESHOLD): Promise<BinForecast[]> {
+    try {
+      const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      const forecasts: BinForecast[] = [];
+
+      for (let i = 0; i < bins.length; i += FORECAST_BATCH_SIZE) {
+        const batch = bins.slice(i, i + FORECAST_BATCH_SIZE);
+
+        // Suspect readings would teach the model impossible fill rates
+        const readings = await prisma.binSensorData.findMany({
+          where: {
+            binId: { in: batch.map(bin => bin.id) },
+            quality: ReadingQuality.VALID,
+            timestamp: { gte: since }
+          },
+          select: {
+            binId: true,
+            fillLevel: true,
+            timestamp: true
+          },
+          orderBy: { timestamp: 'asc' }
+        });
+
+        const readingsByBin = new Map<string, Array<{ fillLevel: number; timestamp: Date }>>();
+        for (const reading of readings) {
+          const binReadings = readingsByBin.get(reading.binId) || [];
+          binReadings.push({ fillLevel: Number(reading.fillLevel), timestamp: reading.timestamp });
+          readingsByBin.set(reading.binId, binReadings);
+        }
+
+        for (const bin of batch) {
+          const profile = this.buildFillProfile(bin, readingsByBin.get(bin.id) || []);
+          forecasts.push(this.projectFill(bin, profile, threshold));
+        }
+      }
+
+      return forecasts;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Learn how fast a bin fills at each hour of the week
+   */
+  private buildFillProfile(bin: Bin, readings: Array<{ fillLevel: number; timestamp: Date }>): FillProfile {
+    const emptySample = (): FillSample => ({ fill: 0, hours: 0 });
+    const profile: FillProfile = {
+      overall: emptySample(),
+      byWeekHour: Array.from({ length: 7 * 24 }, emptySample),
+      byHour: Array.from({ length: 24 }, emptySample)
+    };
+
+    for (let i = 1; i < readings.length; i++) {
+      const previous = readings[i - 1];
+      const current = readings[i];
+      const hours = (current.timestamp.getTime() - previous.timestamp.getTime()) / (1000 * 60 * 60);
+      const delta = current.fillLevel - previous.fillLevel;
+
+      // Skip intervals spanning an emptying, whether reported by the sensor or marked by a driver
+      const emptiedBetween = bin.lastEmptied !== null &&
+        bin.lastEmptied > previous.timestamp &&
+        bin.lastEmptied <= current.timestamp;
+
+      if (hours <= 0 || hours > MAX_INTERVAL_HOURS || delta <= -RESET_DROP || emptiedBetween) {
+        continue;
+      }
+
+      // Small negative deltas are sensor noise or compaction, not negative fill
+      const fill = Math.max(delta, 0);
+      const day = previous.timestamp.getDay();
+      const hour = previous.timestamp.getHours();
+
+      for (const sample of [profile.overall, profile.byWeekHour[day * 24 + hour], profile.byHour[hour]]) {
+        sample.fill += fill;
+        sample.hours += hours;
+      }
+    }
+
+    return profile;
+  }
+
+  /**
+   * Walk forward hour by hour using the learnt rates until the threshold is reached
+   */
+  private projectFill(bin: Bin, profile: FillProfile, threshold: number): BinForecast {
+    const now = new Date();
+    const currentLevel = Number(bin.currentLevel);
+    const overallRate = profile.overall.hours > 0 ? profile.overall.fill / profile.overall.hours : 0;
+
+    let hoursUntilThreshold: number | null = null;
+
+    if (currentLevel >= threshold) {
+      hoursUntilThreshold = 0;
+    } else if (overallRate > 0) {
+      let level = currentLevel;
+      let elapsed = 0;
+      let cursor = new Date(now);
+
+      while (elapsed < MAX_HORIZON_HOURS) {
+        // Step to the next hour boundary so each step uses a single bucket
+        const nextHour = new Date(cursor);
+        nextHour.setMinutes(0, 0, 0);
+        nextHour.setHours(nextHour.getHours() + 1);
+        const step = (nextHour.getTime() - cursor.getTime()) / (1000 * 60 * 60);
+        const rate = this.rateAt(profile, cursor, overallRate);
+
+        if (rate > 0 && level + rate * step >= threshold) {
+          hoursUntilThreshold = elapsed + (threshold - level) / rate;
+          break;
+        }
+
+        level += rate * step;
+        elapsed += step;
+        cursor = nextHour;
+      }
+    }
+
+    return {
+      binId: bin.id,
+      binCode: bin.binCode,
+      location: bin.location,
+      latitude: Number(bin.latitude),
+      longitude: Number(bin.longitude),
+      currentLevel,
+      threshold,
+      fillRatePerHour: Number(overallRate.toFixed(3)),
+      predictedFullAt: hoursUntilThreshold !== null
+        ? new Date(now.getTime() + hoursUntilThreshold * 60 * 60 * 1000)
+        : null,
+      hoursUntilThreshold: hoursUntilThreshold !== null ? Number(hoursUntilThreshold.toFixed(2)) : null,
+      confidence: this.resolveConfidence(profile.overall.hours),
+      observedHours: Number(profile.overall.hours.toFixed(1)),
+      generatedAt: now
+    };
+  }
+
+  /**
+   * Fill rate for a moment in time, falling back from weekday/hour to hour of day to overall
+   */
+  private rateAt(profile: FillProfile, moment: Date, overallRate: number): number {
+    const weekHour = profile.byWeekHour[moment.getDay() * 24 + moment.getHours()];
+    if (weekHour.hours >= MIN_BUCKET_HOURS) {
+      return weekHour.fill / weekHour.hours;
+    }
+
+    const hour = profile.byHour[moment.getHours()];
+    if (hour.hours >= MIN_BUCKET_HOURS) {
+      return hour.fill / hour.hours;
+    }
+
+    return overallRate;
+  }
+
+  /**
+   * Confidence grows with the amount of fill history
+   */
+  private resolveConfidence(observedHours: number): ForecastConfidence {
+    if (observedHours >= 7 * 24) {
+      return 'HIGH';
+    }
+
+    return observedHours >= 48 ? 'MEDIUM' : 'LOW';
+  }
+}
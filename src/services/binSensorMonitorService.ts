@@ -0,0 +1,141 @@
+// src/services/binSensorMonitorService.ts
+import { PrismaClient, DeviceStatus } from '@prisma/client';
+import { BinEventService } from '../services/binEventService';
+import { RealtimeBinService } from '../services/realtimeBinService';
+import { OrganizationService } from '../services/organizationService';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// A sensor is offline after missing this many expected readings
+const MISSED_READINGS_BEFORE_OFFLINE = 3;
+// Never flag a sensor offline sooner than this, whatever its reporting interval
+const MIN_OFFLINE_THRESHOLD_MS = 10 * 60 * 1000;
+
+export class BinSensorMonitorService {
+  private binEventService: BinEventService;
+  private organizationService: OrganizationService;
+  private realtimeService: RealtimeBinService;
+
+  constructor(realtimeService: RealtimeBinService) {
+    this.binEventService = new BinEventService();
+    this.organizationService = new OrganizationService();
+    this.realtimeService = realtimeService;
+  }
+
+  /**
+   * Flag bins whose latest sensor reading is overdue, one organization at a time so
+   * that each is only told about its own bins
+   */
+  async checkOfflineSensors(): Promise<void> {
+    try {
+      console.log('📡 Checking for offline bin sensors...');
+
+      await this.organizationService.forEachOrganization(organizationId =>
+        this.checkOrganizationSensors(organizationId)
+      );
+    } catch (error) {
+      console.error('Error checking offline sensors:', error);
+    }
+  }
+
+  private async checkOrganizationSensors(organizationId: string): Promise<void> {
+    try {
+      // Only bins with a provisioned device are expected to report
+      const bins = await prisma.bin.findMany({
+        where: {
+          isActive: true,
+          sensorOffline: false,
+          device: {
+            status: DeviceStatus.PROVISIONED
+          }
+        },
+        include: {
+          device: { select: { provisionedAt: true } }
+        }
+      });
+
+      if (bins.length === 0) {
+        return;
+      }
+
+      const lastReadings = await prisma.binSensorData.groupBy({
+        by: ['binId'],
+        where: {
+          binId: { in: bins.map(bin => bin.id) }
+        },
+        _max: {
+          timestamp: true
+        }
+      });
+
+      const lastReadingByBin = new Map(
+        lastReadings.map(reading => [reading.binId, reading._max.timestamp])
+      );
+
+      const now = new Date();
+      const offlineBins = bins
+        .map(bin => ({ bin, lastReadingAt: lastReadingByBin.get(bin.id) || undefined }))
+        .filter(({ bin, lastReadingAt }) => {
+          const threshold = Math.max(
+            bin.reportingInterval * 1000 * MISSED_READINGS_BEFORE_OFFLINE,
+            MIN_OFFLINE_THRESHOLD_MS
+          );
+          // A device only starts reporting once provisioned, which may be long after the bin was
+          // created, and a re-provisioned one gets a fresh start after its predecessor's readings
+          const provisionedAt = bin.device!.provisionedAt;
+          const lastSignOfLife = lastReadingAt && lastReadingAt > provisionedAt ? lastReadingAt : provisionedAt;
+
+          return now.getTime() - lastSignOfLife.getTime() > threshold;
+        });
+
+      if (offlineBins.length === 0) {
+        return;
+      }
+
+      await prisma.bin.updateMany({
+        where: {
+          id: { in: offlineBins.map(({ bin }) => bin.id) }
+        },
+        data: {
+          sensorOffline: true,
+          sensorOfflineSince: now
+        }
+      });
+
+      for (const { bin, lastReadingAt } of offlineBins) {
+        const recorded = await this.binEventService.recordSensorOffline(bin, lastReadingAt);
+
+        if (recorded) {
+          await this.realtimeService.broadcastBinAlert(recorded.event);
+        }
+      }
+
+      this.realtimeService.broadcastSensorOffline(
+        organizationId,
+        offlineBins.map(({ bin, lastReadingAt }) => ({
+          id: bin.id,
+          binCode: bin.binCode,
+          location: bin.location,
+          lastReadingAt
+        }))
+      );
+
+      console.log(`📡 Flagged ${offlineBins.length} bin sensors as offline`);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Start offline sensor monitoring
+   */
+  startMonitor(): void {
+    // Check for overdue sensors every 5 minutes
+    setInterval(() => {
+      this.checkOfflineSensors();
+    }, 5 * 60 * 1000);
+
+    console.log('📡 Bin sensor monitor started');
+  }
+}
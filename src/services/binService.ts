@@ -1,5 +1,8 @@
 // src/services/binService.ts
-import { PrismaClient, BinStatus, UserRole } from '@prisma/client';
+import { PrismaClient, BinStatus, ReadingQuality } from '@prisma/client';
+import { SensorAnomalyService } from '../services/sensorAnomalyService';
+import { PolicyService } from '../services/policyService';
+import { Permission } from '@/config/permissions';
 import { 
   CreateBinRequest, 
   UpdateBinRequest, 
@@ -8,13 +11,26 @@ import {
   BinStatsResponse,
   BinSensorDataRequest,
   BinHistoryQuery,
-  NearbyBinsQuery
+  NearbyBinsQuery,
+  OfflineBinResponse,
+  SensorDataUpdateResult,
+  AnomalousBinResponse,
+  AnomalousBinsQuery
 } from '@/types/bin';
 import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
 
 export class BinService {
+  private sensorAnomalyService: SensorAnomalyService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.sensorAnomalyService = new SensorAnomalyService();
+    this.policyService = new PolicyService();
+  }
+
   /**
    * Create a new bin
    */
@@ -31,10 +47,11 @@ export class BinService {
         throw error;
       }
 
-      // For regular users, set userId to their own ID
-      // For admins, allow setting any userId or leave null
+      // Users who may only create their own bins get them registered to themselves;
+      // others may register a bin to anyone or leave it unassigned
+      const scope = await this.policyService.authorize('bin.create', userRole);
       let assignedUserId = data.userId;
-      if (userRole === UserRole.USER) {
+      if (scope === 'own') {
         assignedUserId = requestUserId;
       }
 
@@ -46,6 +63,8 @@ export class BinService {
           longitude: data.longitude,
           capacity: data.capacity || 100,
           binType: data.binType || 'general',
+          reportingInterval: data.reportingInterval,
+          geofenceRadius: data.geofenceRadius,
           userId: assignedUserId,
           currentLevel: 0,
           status: BinStatus.EMPTY
@@ -76,13 +95,12 @@ export class BinService {
       const limit = Math.min(query.limit || 20, 100); // Max 100 per page
       const skip = (page - 1) * limit;
 
-      // Build where clause based on role and filters
-      const whereClause: any = {};
+      // Build where clause based on the bins the user may see and filters
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('bin.read', userRole, userId)]
+      };
 
-      // Role-based filtering
-      if (userRole === UserRole.USER) {
-        whereClause.userId = userId;
-      } else if (query.userId) {
+      if (query.userId) {
         whereClause.userId = query.userId;
       }
 
@@ -159,16 +177,19 @@ export class BinService {
   }
 
   /**
-   * Get bin by ID
+   * Get bin by ID, if the user may access it with the given permission
    */
-  async getBinById(binId: string, userRole: string, userId: string): Promise<BinResponse> {
+  async getBinById(
+    binId: string,
+    userRole: string,
+    userId: string,
+    permission: Permission = 'bin.read'
+  ): Promise<BinResponse> {
     try {
-      const whereClause: any = { id: binId };
-
-      // Users can only see their own bins
-      if (userRole === UserRole.USER) {
-        whereClause.userId = userId;
-      }
+      const whereClause: any = {
+        id: binId,
+        AND: [await this.policyService.scopeWhere(permission, userRole, userId)]
+      };
 
       const bin = await prisma.bin.findFirst({
         where: whereClause,
@@ -206,7 +227,7 @@ export class BinService {
   async updateBin(binId: string, data: UpdateBinRequest, userRole: string, userId: string): Promise<BinResponse> {
     try {
       // Check if bin exists and user has permission
-      const existingBin = await this.getBinById(binId, userRole, userId);
+      await this.getBinById(binId, userRole, userId, 'bin.update');
 
       const updatedBin = await prisma.bin.update({
         where: { id: binId },
@@ -216,6 +237,8 @@ export class BinService {
           ...(data.longitude && { longitude: data.longitude }),
           ...(data.capacity && { capacity: data.capacity }),
           ...(data.binType && { binType: data.binType }),
+          ...(data.reportingInterval && { reportingInterval: data.reportingInterval }),
+          ...(data.geofenceRadius !== undefined && { geofenceRadius: data.geofenceRadius }),
           ...(data.status && { status: data.status }),
           ...(data.isActive !== undefined && { isActive: data.isActive })
         },
@@ -242,7 +265,7 @@ export class BinService {
   async deleteBin(binId: string, userRole: string, userId: string): Promise<{ success: boolean; message: string }> {
     try {
       // Check if bin exists and user has permission
-      await this.getBinById(binId, userRole, userId);
+      await this.getBinById(binId, userRole, userId, 'bin.delete');
 
       await prisma.bin.delete({
         where: { id: binId }
@@ -260,7 +283,7 @@ export class BinService {
   /**
    * Update bin sensor data (for IoT devices)
    */
-  async updateSensorData(binCode: string, sensorData: BinSensorDataRequest): Promise<{ success: boolean; message: string }> {
+  async updateSensorData(binCode: string, sensorData: BinSensorDataRequest): Promise<SensorDataUpdateResult> {
     try {
       const bin = await prisma.bin.findUnique({
         where: { binCode }
@@ -272,8 +295,15 @@ export class BinService {
         throw error;
       }
 
-      // Determine bin status based on fill level
-      const status = this.calculateBinStatus(sensorData.fillLevel);
+      // Implausible readings are kept for diagnosis but never drive the bin's level
+      const assessment = await this.sensorAnomalyService.assessReading(bin, sensorData);
+      const isTrusted = assessment.quality === ReadingQuality.VALID;
+
+      // Determine bin status based on fill level, unless a device alert
+      // has taken the bin out of normal operation
+      const status = this.isOperationalHold(bin.status)
+        ? bin.status
+        : this.calculateBinStatus(sensorData.fillLevel);
 
       // Update bin with new data
       await prisma.$transaction([
@@ -281,8 +311,12 @@ export class BinService {
         prisma.bin.update({
           where: { binCode },
           data: {
-            currentLevel: sensorData.fillLevel,
-            status
+            ...(isTrusted && {
+              currentLevel: sensorData.fillLevel,
+              status
+            }),
+            sensorOffline: false,
+            sensorOfflineSince: null
           }
         }),
         // Store sensor data for history
@@ -294,14 +328,19 @@ export class BinService {
             temperature: sensorData.temperature,
             humidity: sensorData.humidity,
             batteryLevel: sensorData.batteryLevel,
-            signalStrength: sensorData.signalStrength
+            signalStrength: sensorData.signalStrength,
+            quality: assessment.quality,
+            anomalies: assessment.anomalies
           }
         })
       ]);
 
       return {
         success: true,
-        message: 'Sensor data updated successfully'
+        message: isTrusted
+          ? 'Sensor data updated successfully'
+          : `Sensor data stored as ${assessment.quality} and excluded from bin status`,
+        ...assessment
       };
     } catch (error) {
       throw error;
@@ -313,12 +352,8 @@ export class BinService {
    */
   async getBinStats(userRole: string, userId: string): Promise<BinStatsResponse> {
     try {
-      const whereClause: any = {};
-
-      // Users can only see stats for their own bins
-      if (userRole === UserRole.USER) {
-        whereClause.userId = userId;
-      }
+      // Stats only cover the bins the user may see
+      const whereClause: any = await this.policyService.scopeWhere('bin.read', userRole, userId);
 
       const [total, statusCounts, avgFillLevel] = await Promise.all([
         prisma.bin.count({ where: whereClause }),
@@ -379,6 +414,66 @@ export class BinService {
     }
   }
 
+  /**
+   * Get bins whose sensors have stopped reporting
+   */
+  async getOfflineBins(userRole: string, userId: string): Promise<OfflineBinResponse[]> {
+    try {
+      const whereClause: any = {
+        isActive: true,
+        sensorOffline: true,
+        AND: [await this.policyService.scopeWhere('bin.read', userRole, userId)]
+      };
+
+      const bins = await prisma.bin.findMany({
+        where: whereClause,
+        include: {
+          user: {
+            select: {
+              id: true,
+              fullName: true,
+              email: true
+            }
+          },
+          device: { select: { provisionedAt: true } }
+        },
+        orderBy: { sensorOfflineSince: 'asc' }
+      });
+
+      const lastReadings = await prisma.binSensorData.groupBy({
+        by: ['binId'],
+        where: {
+          binId: { in: bins.map(bin => bin.id) }
+        },
+        _max: {
+          timestamp: true
+        }
+      });
+
+      const lastReadingByBin = new Map(
+        lastReadings.map(reading => [reading.binId, reading._max.timestamp])
+      );
+
+      const now = Date.now();
+
+      return bins.map(bin => {
+        const lastReadingAt = lastReadingByBin.get(bin.id) || undefined;
+        // Counted from provisioning when the current device has not reported yet
+        const provisionedAt = bin.device?.provisionedAt ?? bin.createdAt;
+        const lastSignOfLife = lastReadingAt && lastReadingAt > provisionedAt ? lastReadingAt : provisionedAt;
+        const expectedBy = lastSignOfLife.getTime() + bin.reportingInterval * 1000;
+
+        return {
+          ...this.formatBinResponse(bin),
+          lastReadingAt,
+          overdueMinutes: Math.max(0, Math.round((now - expectedBy) / (1000 * 60)))
+        };
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
   /**
    * Get nearby bins
    */
@@ -438,6 +533,71 @@ export class BinService {
     }
   }
 
+  /**
+   * Get bins that produced suspect or invalid readings in the look-back window
+   */
+  async getAnomalousBins(query: AnomalousBinsQuery): Promise<AnomalousBinResponse[]> {
+    try {
+      const hours = Number(query.hours) || 24;
+      const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+      const anomalyWhere = {
+        quality: { not: ReadingQuality.VALID },
+        timestamp: { gte: since }
+      };
+
+      const anomalyCounts = await prisma.binSensorData.groupBy({
+        by: ['binId'],
+        where: anomalyWhere,
+        _count: { _all: true },
+        _max: { timestamp: true }
+      });
+
+      const binIds = anomalyCounts.map(item => item.binId);
+
+      const [bins, latestAnomalies] = await Promise.all([
+        prisma.bin.findMany({
+          where: { id: { in: binIds } },
+          include: {
+            user: {
+              select: {
+                id: true,
+                fullName: true,
+                email: true
+              }
+            }
+          }
+        }),
+        prisma.binSensorData.findMany({
+          where: {
+            ...anomalyWhere,
+            binId: { in: binIds }
+          },
+          orderBy: { timestamp: 'desc' },
+          distinct: ['binId'],
+          select: {
+            binId: true,
+            anomalies: true
+          }
+        })
+      ]);
+
+      const countByBin = new Map(anomalyCounts.map(item => [item.binId, item]));
+      const anomaliesByBin = new Map(latestAnomalies.map(item => [item.binId, item.anomalies]));
+
+      return bins
+        .map(bin => ({
+          ...this.formatBinResponse(bin),
+          anomalousReadings: countByBin.get(bin.id)!._count._all,
+          lastAnomalyAt: countByBin.get(bin.id)!._max.timestamp!,
+          lastAnomalies: anomaliesByBin.get(bin.id) || []
+        }))
+        .sort((a, b) => b.anomalousReadings - a.anomalousReadings);
+    } catch (error) {
+      throw error;
+    }
+  }
+
   /**
    * Get bin sensor history
    */
@@ -479,7 +639,7 @@ export class BinService {
   async markBinEmptied(binId: string, userRole: string, userId: string): Promise<{ success: boolean; message: string }> {
     try {
       // Check if bin exists and user has permission
-      await this.getBinById(binId, userRole, userId);
+      await this.getBinById(binId, userRole, userId, 'bin.empty');
 
       await prisma.bin.update({
         where: { id: binId },
@@ -502,7 +662,7 @@ export class BinService {
   /**
    * Calculate bin status based on fill level
    */
-  private calculateBinStatus(fillLevel: number): BinStatus {
+  calculateBinStatus(fillLevel: number): BinStatus {
     if (fillLevel <= 20) return BinStatus.EMPTY;
     if (fillLevel <= 40) return BinStatus.LOW;
     if (fillLevel <= 60) return BinStatus.MEDIUM;
@@ -510,6 +670,13 @@ export class BinService {
     return BinStatus.FULL;
   }
 
+  /**
+   * Statuses set by alerts or admins that sensor readings must not override
+   */
+  private isOperationalHold(status: BinStatus): boolean {
+    return status === BinStatus.MAINTENANCE || status === BinStatus.OUT_OF_SERVICE;
+  }
+
   /**
    * Calculate distance between two coordinates (Haversine formula)
    */
@@ -544,6 +711,10 @@ export class BinService {
       status: bin.status,
       binType: bin.binType,
       lastEmptied: bin.lastEmptied,
+      reportingInterval: bin.reportingInterval,
+      geofenceRadius: bin.geofenceRadius,
+      sensorOffline: bin.sensorOffline,
+      sensorOfflineSince: bin.sensorOfflineSince,
       isActive: bin.isActive,
       createdAt: bin.createdAt,
       updatedAt: bin.updatedAt,
@@ -0,0 +1,269 @@
+// src/services/deviceService.ts
+import { Prisma, PrismaClient, DeviceStatus } from '@prisma/client';
+import {
+  ProvisionDeviceRequest,
+  DeviceCredentials,
+  DeviceResponse,
+  DeviceCredentialsResponse,
+  AuthenticatedDevice
+} from '@/types/device';
+import { AppError } from '@/middleware/errorHandler';
+import { generateDeviceSecret, hashDeviceSecret, deviceSecretMatches } from '@/utils/deviceSecret';
+import { runWithTenant } from '@/utils/tenantContext';
+import { disconnectDeviceSockets } from '@/config/socket';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+export class DeviceService {
+  /**
+   * Provision credentials for the device mounted on a bin
+   */
+  async provisionDevice(binId: string, data: ProvisionDeviceRequest): Promise<DeviceCredentialsResponse> {
+    try {
+      const bin = await prisma.bin.findUnique({
+        where: { id: binId },
+        include: { device: true }
+      });
+
+      if (!bin) {
+        const error: AppError = new Error('Bin not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      if (bin.device && bin.device.status === DeviceStatus.PROVISIONED) {
+        const error: AppError = new Error('Bin already has a provisioned device. Rotate or revoke it first');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      // Device IDs are burned into firmware, so they must be unique across bins of every organization
+      const existingDevice = await runWithTenant(null, () =>
+        prisma.binDevice.findUnique({
+          where: { deviceId: data.deviceId }
+        })
+      );
+
+      if (existingDevice && existingDevice.binId !== binId) {
+        throw this.deviceIdTakenError();
+      }
+
+      const deviceSecret = generateDeviceSecret();
+      const deviceData = {
+        deviceId: data.deviceId,
+        secretHash: hashDeviceSecret(deviceSecret),
+        firmwareVersion: data.firmwareVersion,
+        status: DeviceStatus.PROVISIONED,
+        provisionedAt: new Date(),
+        rotatedAt: null,
+        revokedAt: null,
+        lastSeenAt: null
+      };
+
+      // A bin keeps a single device record; re-provisioning replaces a revoked one
+      const device = await prisma.binDevice.upsert({
+        where: { binId },
+        create: { binId, ...deviceData },
+        update: deviceData,
+        include: {
+          bin: { select: { binCode: true } }
+        }
+      }).catch(error => {
+        // Another bin claimed the device ID since the check above
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw this.deviceIdTakenError();
+        }
+        throw error;
+      });
+
+      return {
+        device: this.formatDeviceResponse(device),
+        deviceSecret
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get the device bound to a bin
+   */
+  async getDeviceByBinId(binId: string): Promise<DeviceResponse> {
+    try {
+      const device = await prisma.binDevice.findUnique({
+        where: { binId },
+        include: {
+          bin: { select: { binCode: true } }
+        }
+      });
+
+      if (!device) {
+        const error: AppError = new Error('No device provisioned for this bin');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatDeviceResponse(device);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a new secret for a provisioned device, invalidating the old one
+   */
+  async rotateCredentials(binId: string): Promise<DeviceCredentialsResponse> {
+    try {
+      const existingDevice = await this.getDeviceByBinId(binId);
+
+      if (existingDevice.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Cannot rotate credentials of a revoked device');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const deviceSecret = generateDeviceSecret();
+
+      const device = await prisma.binDevice.update({
+        where: { binId },
+        data: {
+          secretHash: hashDeviceSecret(deviceSecret),
+          rotatedAt: new Date()
+        },
+        include: {
+          bin: { select: { binCode: true } }
+        }
+      });
+
+      // Sockets opened with the old secret must not go on publishing
+      disconnectDeviceSockets(device.deviceId);
+
+      return {
+        device: this.formatDeviceResponse(device),
+        deviceSecret
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke the device bound to a bin
+   */
+  async revokeDevice(binId: string): Promise<DeviceResponse> {
+    try {
+      const existingDevice = await this.getDeviceByBinId(binId);
+
+      if (existingDevice.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Device is already revoked');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const device = await prisma.binDevice.update({
+        where: { binId },
+        data: {
+          status: DeviceStatus.REVOKED,
+          revokedAt: new Date()
+        },
+        include: {
+          bin: { select: { binCode: true } }
+        }
+      });
+
+      // A revoked device must not go on publishing over sockets it already has open
+      disconnectDeviceSockets(device.deviceId);
+
+      return this.formatDeviceResponse(device);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Verify that a reading for binCode comes from the device bound to that bin
+   */
+  async verifyDeviceCredentials(
+    binCode: string,
+    credentials: Partial<DeviceCredentials>,
+    firmwareVersion?: string
+  ): Promise<AuthenticatedDevice> {
+    try {
+      if (!credentials.deviceId || !credentials.deviceSecret) {
+        const error: AppError = new Error('Device credentials required');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      const device = await prisma.binDevice.findUnique({
+        where: { deviceId: credentials.deviceId },
+        include: {
+          bin: { select: { binCode: true, organizationId: true } }
+        }
+      });
+
+      if (!device || !deviceSecretMatches(credentials.deviceSecret, device.secretHash)) {
+        const error: AppError = new Error('Invalid device credentials');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      if (device.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Device credentials have been revoked');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      if (device.bin.binCode !== binCode) {
+        const error: AppError = new Error('Device is not bound to this bin');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      await prisma.binDevice.update({
+        where: { id: device.id },
+        data: {
+          lastSeenAt: new Date(),
+          ...(firmwareVersion && { firmwareVersion })
+        }
+      });
+
+      return {
+        id: device.id,
+        deviceId: device.deviceId,
+        binId: device.binId,
+        binCode: device.bin.binCode,
+        organizationId: device.bin.organizationId
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  private deviceIdTakenError(): AppError {
+    const error: AppError = new Error('Device ID is already bound to another bin');
+    error.statusCode = 409;
+    return error;
+  }
+
+  /**
+   * Format device response
+   */
+  private formatDeviceResponse(device: any): DeviceResponse {
+    return {
+      id: device.id,
+      deviceId: device.deviceId,
+      binId: device.binId,
+      binCode: device.bin?.binCode,
+      firmwareVersion: device.firmwareVersion,
+      status: device.status,
+      provisionedAt: device.provisionedAt,
+      rotatedAt: device.rotatedAt,
+      revokedAt: device.revokedAt,
+      lastSeenAt: device.lastSeenAt,
+      createdAt: device.createdAt,
+      updatedAt: device.updatedAt
+    };
+  }
+}
@@ -1,7 +1,8 @@
 // src/services/driverAnalyticsService.ts
 import { PrismaClient } from '@prisma/client';
+import { tenantIsolation } from '@/utils/tenantIsolation';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
 
 export class DriverAnalyticsService {
   /**
@@ -53,6 +54,8 @@ export class DriverAnalyticsService {
             status: true,
             totalDistance: true,
             estimatedDuration: true,
+            actualDistance: true,
+            actualDuration: true,
             createdAt: true,
             startedAt: true,
             completedAt: true,
@@ -126,6 +129,17 @@ export class DriverAnalyticsService {
     }
   }
 
+  /**
+   * Distance driven on a route, falling back to the planned distance
+   */
+  private routeDistance(route: { totalDistance: any; actualDistance?: any }): number {
+    if (route.actualDistance !== null && route.actualDistance !== undefined) {
+      return Number(route.actualDistance);
+    }
+
+    return route.totalDistance ? Number(route.totalDistance) : 0;
+  }
+
   /**
    * Calculate basic performance metrics
    */
@@ -150,9 +164,9 @@ export class DriverAnalyticsService {
       averagePickupTime = totalTime / completedPickupsWithTime.length / (1000 * 60); // in minutes
     }
 
-    // Calculate total distance
+    // Calculate total distance, driven where recorded and planned otherwise
     const totalDistance = routes.reduce((sum, route) => {
-      return sum + (route.totalDistance ? Number(route.totalDistance) : 0);
+      return sum + this.routeDistance(route);
     }, 0);
 
     return {
@@ -179,7 +193,8 @@ export class DriverAnalyticsService {
     let routeEfficiency = 0;
     if (routesWithTiming.length > 0) {
       const efficiencySum = routesWithTiming.reduce((sum, route) => {
-        const actualDuration = (route.completedAt.getTime() - route.startedAt.getTime()) / (1000 * 60);
+        const actualDuration = route.actualDuration ||
+          (route.completedAt.getTime() - route.startedAt.getTime()) / (1000 * 60);
         const efficiency = (route.estimatedDuration / actualDuration) * 100;
         return sum + Math.min(efficiency, 200); // Cap at 200% efficiency
       }, 0);
@@ -215,7 +230,7 @@ export class DriverAnalyticsService {
       const week = this.getWeekKey(route.createdAt);
       if (!weeklyData[week]) weeklyData[week] = { pickups: 0, routes: 0, distance: 0 };
       weeklyData[week].routes++;
-      weeklyData[week].distance += route.totalDistance ? Number(route.totalDistance) : 0;
+      weeklyData[week].distance += this.routeDistance(route);
     });
 
     return Object.entries(weeklyData)
@@ -292,7 +307,8 @@ export class DriverAnalyticsService {
               status: 'COMPLETED'
             },
             select: {
-              totalDistance: true
+              totalDistance: true,
+              actualDistance: true
             }
           }
         }
@@ -301,7 +317,7 @@ export class DriverAnalyticsService {
       const leaderboard = drivers.map(driver => {
         const totalPickups = driver.pickups.length;
         const totalDistance = driver.routes.reduce((sum, route) => 
-          sum + (route.totalDistance ? Number(route.totalDistance) : 0), 0
+          sum + this.routeDistance(route), 0
         );
 
         return {
@@ -0,0 +1,289 @@
+// src/services/driverLocationService.ts
+import { PrismaClient, RouteStatus } from '@prisma/client';
+import {
+  DriverLocationUpdate,
+  DriverTrackFeature,
+  DriverTrackQuery,
+  DriverTrackResponse
+} from '@/types/driver';
+import { AppError } from '@/middleware/errorHandler';
+import { haversineDistance, simplifyPath } from '@/utils/geo';
+import { PolicyService } from '@/services/policyService';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Fixes less precise than this are kept for replay but not counted as driven distance
+const MAX_FIX_ACCURACY_METERS = 50;
+// Jumps implying a faster speed than this are GPS glitches, not driving
+const MAX_PLAUSIBLE_SPEED_KMH = 150;
+// A gap this long between fixes starts a new line in a track
+const TRACK_GAP_MINUTES = 10;
+const MAX_TRACK_RANGE_DAYS = 7;
+// Points older than this are downsampled, keeping the shape of the trail
+const COMPACT_AFTER_DAYS = 7;
+const COMPACTION_TOLERANCE_METERS = 10;
+const COMPACTION_BATCH_SIZE = 5000;
+
+interface TrailPoint {
+  latitude: any;
+  longitude: any;
+  speed: any;
+  accuracy: any;
+  routeId: string | null;
+  recordedAt: Date;
+}
+
+export class DriverLocationService {
+  private policyService: PolicyService;
+
+  constructor() {
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Add a fix to a driver's breadcrumb trail, tagged with the route they are driving
+   */
+  async recordLocation(driverId: string, location: DriverLocationUpdate): Promise<void> {
+    try {
+      const activeRoute = await prisma.route.findFirst({
+        where: {
+          driverId,
+          status: RouteStatus.IN_PROGRESS
+        },
+        select: { id: true }
+      });
+
+      await prisma.driverLocation.create({
+        data: {
+          driverId,
+          routeId: activeRoute?.id,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          speed: location.speed,
+          heading: location.heading,
+          accuracy: location.accuracy,
+          ...(location.recordedAt && { recordedAt: new Date(location.recordedAt) })
+        }
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get a driver's trail between two times as GeoJSON LineStrings, split
+   * wherever the route changes or the device stopped reporting for a while
+   */
+  async getDriverTrack(
+    driverId: string,
+    query: DriverTrackQuery,
+    requestUserRole: string,
+    requestUserId: string
+  ): Promise<DriverTrackResponse> {
+    try {
+      const driver = await prisma.driver.findUnique({
+        where: { id: driverId }
+      });
+
+      if (!driver) {
+        const error: AppError = new Error('Driver not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      await this.policyService.assertAllowed('driver.read', requestUserRole, requestUserId, driverId);
+
+      const to = query.to ? new Date(query.to) : new Date();
+      const from = query.from ? new Date(query.from) : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+      if (from >= to) {
+        const error: AppError = new Error('From must be before to');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      if (to.getTime() - from.getTime() > MAX_TRACK_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        const error: AppError = new Error(`Track range cannot exceed ${MAX_TRACK_RANGE_DAYS} days`);
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const points = await prisma.driverLocation.findMany({
+        where: {
+          driverId,
+          recordedAt: { gte: from, lte: to }
+        },
+        orderBy: { recordedAt: 'asc' }
+      });
+
+      return {
+        type: 'FeatureCollection',
+        // A LineString needs at least two positions
+        features: this.splitTrail(points)
+          .filter(segment => segment.length >= 2)
+          .map(segment => this.toFeature(segment))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Distance actually driven on a route, in kilometers, from its trail
+   */
+  async getRouteDrivenDistance(routeId: string): Promise<number> {
+    try {
+      const points = await prisma.driverLocation.findMany({
+        where: { routeId },
+        orderBy: { recordedAt: 'asc' }
+      });
+
+      return this.trailDistance(points);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Downsample trails older than a week. Points that do not change the shape
+   * of a stretch of driving are deleted; the rest are marked compacted.
+   */
+  async compactHistory(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - COMPACT_AFTER_DAYS * 24 * 60 * 60 * 1000);
+
+      const drivers = await prisma.driverLocation.groupBy({
+        by: ['driverId'],
+        where: {
+          compacted: false,
+          recordedAt: { lt: cutoff }
+        }
+      });
+
+      let removed = 0;
+      for (const { driverId } of drivers) {
+        let batch: Array<TrailPoint & { id: string }>;
+
+        do {
+          batch = await prisma.driverLocation.findMany({
+            where: {
+              driverId,
+              compacted: false,
+              recordedAt: { lt: cutoff }
+            },
+            orderBy: { recordedAt: 'asc' },
+            take: COMPACTION_BATCH_SIZE
+          });
+
+          const keep = new Set<string>();
+          for (const segment of this.splitTrail(batch)) {
+            const kept = simplifyPath(
+              segment.map(point => ({ latitude: Number(point.latitude), longitude: Number(point.longitude) })),
+              COMPACTION_TOLERANCE_METERS
+            );
+            kept.forEach(index => keep.add(segment[index].id));
+          }
+
+          const dropped = batch.filter(point => !keep.has(point.id)).map(point => point.id);
+
+          await prisma.$transaction([
+            prisma.driverLocation.deleteMany({ where: { id: { in: dropped } } }),
+            prisma.driverLocation.updateMany({
+              where: { id: { in: [...keep] } },
+              data: { compacted: true }
+            })
+          ]);
+
+          removed += dropped.length;
+        } while (batch.length === COMPACTION_BATCH_SIZE);
+      }
+
+      if (removed > 0) {
+        console.log(`🧭 Compacted driver location history, removed ${removed} points`);
+      }
+    } catch (error) {
+      console.error('Error compacting driver location history:', error);
+    }
+  }
+
+  /**
+   * Start daily compaction of old location history
+   */
+  startCompaction(): void {
+    setInterval(() => {
+      this.compactHistory();
+    }, 24 * 60 * 60 * 1000);
+
+    console.log('🧭 Driver location history compaction started');
+  }
+
+  /**
+   * Split a time-ordered trail into continuous stretches of driving
+   */
+  private splitTrail<T extends TrailPoint>(points: T[]): T[][] {
+    const segments: T[][] = [];
+
+    points.forEach((point, index) => {
+      const previous = points[index - 1];
+      const isBreak = !previous ||
+        previous.routeId !== point.routeId ||
+        point.recordedAt.getTime() - previous.recordedAt.getTime() > TRACK_GAP_MINUTES * 60 * 1000;
+
+      if (isBreak) {
+        segments.push([point]);
+      } else {
+        segments[segments.length - 1].push(point);
+      }
+    });
+
+    return segments;
+  }
+
+  /**
+   * Sum the distance between consecutive fixes, ignoring imprecise fixes and glitches, in kilometers
+   */
+  private trailDistance(points: TrailPoint[]): number {
+    const usable = points.filter(point =>
+      point.accuracy === null || Number(point.accuracy) <= MAX_FIX_ACCURACY_METERS
+    );
+
+    let meters = 0;
+    let previous = usable[0];
+    for (const point of usable.slice(1)) {
+      const distance = haversineDistance(
+        { latitude: Number(previous.latitude), longitude: Number(previous.longitude) },
+        { latitude: Number(point.latitude), longitude: Number(point.longitude) }
+      );
+      const hours = (point.recordedAt.getTime() - previous.recordedAt.getTime()) / (60 * 60 * 1000);
+
+      // A fix that jumps implausibly far is skipped, the next one is measured from the last good fix
+      if (hours > 0 && distance / 1000 / hours > MAX_PLAUSIBLE_SPEED_KMH) {
+        continue;
+      }
+
+      meters += distance;
+      previous = point;
+    }
+
+    return Math.round((meters / 1000) * 100) / 100;
+  }
+
+  private toFeature(segment: TrailPoint[]): DriverTrackFeature {
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: segment.map(point => [Number(point.longitude), Number(point.latitude)])
+      },
+      properties: {
+        routeId: segment[0].routeId,
+        startedAt: segment[0].recordedAt,
+        endedAt: segment[segment.length - 1].recordedAt,
+        distance: this.trailDistance(segment),
+        timestamps: segment.map(point => point.recordedAt),
+        speeds: segment.map(point => (point.speed !== null ? Number(point.speed) : null))
+      }
+    };
+  }
+}
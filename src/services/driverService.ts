@@ -13,21 +13,37 @@ import {
   DriverPerformanceResponse
 } from '@/types/driver';
 import { AppError } from '@/middleware/errorHandler';
+import { DriverLocationService } from '@/services/driverLocationService';
+import { ShiftService } from '@/services/shiftService';
+import { InspectionService } from '@/services/inspectionService';
+import { PolicyService } from '@/services/policyService';
+import { Permission } from '@/config/permissions';
+import { tenantIsolation } from '@/utils/tenantIsolation';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Statuses in which a driver is on the road
+const WORKING_STATUSES: DriverStatus[] = [DriverStatus.ONLINE, DriverStatus.BUSY];
 
 export class DriverService {
+  private driverLocationService: DriverLocationService;
+  private shiftService: ShiftService;
+  private inspectionService: InspectionService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.driverLocationService = new DriverLocationService();
+    this.shiftService = new ShiftService();
+    this.inspectionService = new InspectionService();
+    this.policyService = new PolicyService();
+  }
+
   /**
    * Create a new driver
    */
   async createDriver(data: CreateDriverRequest, requestUserRole: string): Promise<DriverResponse> {
     try {
-      // Only admins can create drivers
-      if (requestUserRole !== UserRole.ADMIN) {
-        const error: AppError = new Error('Only administrators can create drivers');
-        error.statusCode = 403;
-        throw error;
-      }
+      await this.policyService.authorize('driver.create', requestUserRole);
 
       // Check if driver license already exists
       const existingDriver = await prisma.driver.findFirst({
@@ -156,14 +172,16 @@ export class DriverService {
   /**
    * Get all drivers with filtering and pagination
    */
-  async getDrivers(query: DriverListQuery, requestUserRole: string) {
+  async getDrivers(query: DriverListQuery, requestUserRole: string, requestUserId: string) {
     try {
       const page = query.page || 1;
       const limit = Math.min(query.limit || 20, 100);
       const skip = (page - 1) * limit;
 
       // Build where clause
-      const whereClause: any = {};
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('driver.read', requestUserRole, requestUserId)]
+      };
 
       if (query.status) {
         whereClause.status = query.status;
@@ -251,14 +269,17 @@ export class DriverService {
   /**
    * Get driver by ID
    */
-  async getDriverById(driverId: string, requestUserRole: string, requestUserId: string): Promise<DriverResponse> {
+  async getDriverById(
+    driverId: string,
+    requestUserRole: string,
+    requestUserId: string,
+    permission: Permission = 'driver.read'
+  ): Promise<DriverResponse> {
     try {
-      const whereClause: any = { id: driverId };
-
-      // Drivers can only see their own profile unless they're admin
-      if (requestUserRole === UserRole.DRIVER) {
-        whereClause.userId = requestUserId;
-      }
+      const whereClause: any = {
+        id: driverId,
+        AND: [await this.policyService.scopeWhere(permission, requestUserRole, requestUserId)]
+      };
 
       const driver = await prisma.driver.findFirst({
         where: whereClause,
@@ -301,6 +322,46 @@ export class DriverService {
     }
   }
 
+  /**
+   * Get the driver profile of a signed-in user
+   */
+  async getDriverByUserId(userId: string): Promise<DriverResponse> {
+    try {
+      const driver = await prisma.driver.findUnique({
+        where: { userId },
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              fullName: true,
+              phone: true,
+              isActive: true
+            }
+          },
+          truck: {
+            select: {
+              id: true,
+              licensePlate: true,
+              model: true,
+              capacity: true
+            }
+          }
+        }
+      });
+
+      if (!driver) {
+        const error: AppError = new Error('Driver profile not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatDriverResponse(driver);
+    } catch (error) {
+      throw error;
+    }
+  }
+
   /**
    * Update driver
    */
@@ -312,7 +373,7 @@ export class DriverService {
   ): Promise<DriverResponse> {
     try {
       // Check if driver exists and user has permission
-      const existingDriver = await this.getDriverById(driverId, requestUserRole, requestUserId);
+      await this.getDriverById(driverId, requestUserRole, requestUserId, 'driver.update');
 
       // Verify truck exists if being updated
       if (data.truckId) {
@@ -380,7 +441,15 @@ export class DriverService {
   ): Promise<{ success: boolean; message: string }> {
     try {
       // Check if driver exists and user has permission
-      await this.getDriverById(driverId, requestUserRole, requestUserId);
+      const driver = await this.getDriverById(driverId, requestUserRole, requestUserId, 'driver.status.update');
+
+      // Starting or resuming work needs a truck that passed its pre-trip inspection
+      if (WORKING_STATUSES.includes(statusData.status) && !WORKING_STATUSES.includes(driver.status)) {
+        await this.inspectionService.assertCanGoOnline(driverId);
+      }
+
+      // Going ON_BREAK and back is recorded against the driver's shift
+      await this.shiftService.syncBreakWithStatus(driverId, statusData.status);
 
       await prisma.driver.update({
         where: { id: driverId },
@@ -411,7 +480,7 @@ export class DriverService {
   ): Promise<{ success: boolean; message: string }> {
     try {
       // Check if driver exists and user has permission
-      await this.getDriverById(driverId, requestUserRole, requestUserId);
+      await this.getDriverById(driverId, requestUserRole, requestUserId, 'driver.location.update');
 
       await prisma.driver.update({
         where: { id: driverId },
@@ -421,6 +490,8 @@ export class DriverService {
         }
       });
 
+      await this.driverLocationService.recordLocation(driverId, locationData);
+
       return {
         success: true,
         message: 'Driver location updated successfully'
@@ -483,7 +554,7 @@ export class DriverService {
       const radius = query.radius || 10; // Default 10km
       const limit = query.limit || 20;
 
-      let whereClause: any = {
+      const whereClause: any = {
         isAvailable: true,
         user: { isActive: true },
         currentLatitude: { not: null },
@@ -715,12 +786,7 @@ export class DriverService {
    */
   async deleteDriver(driverId: string, requestUserRole: string): Promise<{ success: boolean; message: string }> {
     try {
-      // Only admins can delete drivers
-      if (requestUserRole !== UserRole.ADMIN) {
-        const error: AppError = new Error('Only administrators can delete drivers');
-        error.statusCode = 403;
-        throw error;
-      }
+      await this.policyService.authorize('driver.delete', requestUserRole);
 
       const driver = await prisma.driver.findUnique({
         where: { id: driverId }
@@ -0,0 +1,219 @@
+// src/services/etaService.ts
+import { PrismaClient, PickupStatus, RouteStatus } from '@prisma/client';
+import { DriverLocationUpdate } from '@/types/driver';
+import { PickupEtaResponse, RouteEtaUpdate } from '@/types/route';
+import { GeoPoint, RoutingProvider } from '@/types/routing';
+import { AppError } from '@/middleware/errorHandler';
+import { getRoutingProvider } from '@/services/routingProviderFactory';
+import { PolicyService } from '@/services/policyService';
+import { haversineDistance } from '@/utils/geo';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Stops that have not been completed or skipped yet
+const PENDING_STOP_STATUSES: PickupStatus[] = [PickupStatus.SCHEDULED, PickupStatus.IN_PROGRESS];
+// Drivers report their position every few seconds; ETAs do not need to move that often
+const ETA_REFRESH_SECONDS = 30;
+// Used for the leg to the next stop when the routing provider is unavailable
+const FALLBACK_SPEED_KMH = 30;
+const DEFAULT_SERVICE_MINUTES = 5;
+
+export class EtaService {
+  private routingProvider: RoutingProvider;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.routingProvider = getRoutingProvider();
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Recompute arrival estimates for the remaining stops of a driver's active route
+   * from their current position. Only the leg to the next stop is re-measured;
+   * later legs and service times keep the durations of the plan. Returns null when
+   * the driver has no active route or the estimates were refreshed moments ago.
+   */
+  async refreshDriverEtas(driverId: string, location: DriverLocationUpdate): Promise<RouteEtaUpdate | null> {
+    try {
+      const route = await prisma.route.findFirst({
+        where: {
+          driverId,
+          status: RouteStatus.IN_PROGRESS
+        },
+        include: {
+          depot: true,
+          stops: {
+            where: { status: { in: PENDING_STOP_STATUSES } },
+            include: {
+              bin: {
+                select: {
+                  id: true,
+                  userId: true,
+                  latitude: true,
+                  longitude: true
+                }
+              },
+              disposalSite: true
+            },
+            orderBy: { stopOrder: 'asc' }
+          }
+        }
+      });
+
+      if (!route || route.stops.length === 0) {
+        return null;
+      }
+
+      const now = new Date();
+      const [nextStop] = route.stops;
+      if (nextStop.etaUpdatedAt && now.getTime() - nextStop.etaUpdatedAt.getTime() < ETA_REFRESH_SECONDS * 1000) {
+        return null;
+      }
+
+      // A stop under way was reached already; otherwise measure the drive there
+      let arrival: number;
+      if (nextStop.status === PickupStatus.IN_PROGRESS) {
+        arrival = (nextStop.actualArrival ?? now).getTime();
+      } else {
+        const place = nextStop.bin ?? nextStop.disposalSite ?? route.depot;
+        arrival = now.getTime() + (place
+          ? await this.travelSeconds(location, {
+              latitude: Number(place.latitude),
+              longitude: Number(place.longitude)
+            }) * 1000
+          : 0);
+      }
+
+      const estimates = route.stops.map((stop, index) => {
+        const plannedArrival = stop.estimatedArrival?.getTime();
+        const plannedDeparture = stop.estimatedDeparture?.getTime();
+        const serviceMs = plannedArrival !== undefined && plannedDeparture !== undefined
+          ? plannedDeparture - plannedArrival
+          : DEFAULT_SERVICE_MINUTES * 60 * 1000;
+
+        const estimatedArrival = new Date(arrival);
+        // A driver still at the stop past its planned service time leaves no earlier than now
+        const departure = stop.status === PickupStatus.IN_PROGRESS
+          ? Math.max(arrival + serviceMs, now.getTime())
+          : arrival + serviceMs;
+
+        const next = route.stops[index + 1];
+        const plannedLegMs = next?.estimatedArrival && plannedDeparture !== undefined
+          ? Math.max(0, next.estimatedArrival.getTime() - plannedDeparture)
+          : 0;
+        arrival = departure + plannedLegMs;
+
+        return {
+          stop,
+          estimatedArrival,
+          estimatedDeparture: new Date(departure)
+        };
+      });
+
+      await prisma.$transaction(estimates.map(estimate =>
+        prisma.routeStop.update({
+          where: { id: estimate.stop.id },
+          data: {
+            estimatedArrival: estimate.estimatedArrival,
+            estimatedDeparture: estimate.estimatedDeparture,
+            etaUpdatedAt: now
+          }
+        })
+      ));
+
+      return {
+        routeId: route.id,
+        driverId,
+        stops: estimates.map(estimate => ({
+          routeStopId: estimate.stop.id,
+          pickupId: estimate.stop.pickupId,
+          binId: estimate.stop.binId,
+          binOwnerId: estimate.stop.bin?.userId ?? null,
+          estimatedArrival: estimate.estimatedArrival
+        })),
+        updatedAt: now
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current arrival estimate for a pickup
+   */
+  async getPickupEta(pickupId: string, requestUserRole: string, requestUserId: string): Promise<PickupEtaResponse> {
+    try {
+      const pickup = await prisma.pickup.findUnique({
+        where: { id: pickupId }
+      });
+
+      if (!pickup) {
+        const error: AppError = new Error('Pickup not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      await this.policyService.assertAllowed('pickup.read', requestUserRole, requestUserId, pickupId);
+
+      const stop = await prisma.routeStop.findFirst({
+        where: {
+          pickupId,
+          route: { status: { in: [RouteStatus.PUBLISHED, RouteStatus.IN_PROGRESS, RouteStatus.COMPLETED] } }
+        },
+        include: {
+          route: {
+            select: { id: true, driverId: true }
+          }
+        },
+        orderBy: { route: { createdAt: 'desc' } }
+      });
+
+      const isPending = !!stop && PENDING_STOP_STATUSES.includes(stop.status);
+      const stopsAhead = isPending
+        ? await prisma.routeStop.count({
+            where: {
+              routeId: stop!.routeId,
+              status: { in: PENDING_STOP_STATUSES },
+              stopOrder: { lt: stop!.stopOrder }
+            }
+          })
+        : 0;
+
+      return {
+        pickupId: pickup.id,
+        status: pickup.status,
+        routeId: stop?.route.id ?? null,
+        driverId: stop?.route.driverId ?? pickup.driverId,
+        scheduledAt: pickup.scheduledAt,
+        estimatedArrival: isPending ? stop!.estimatedArrival : null,
+        etaUpdatedAt: isPending ? stop!.etaUpdatedAt : null,
+        stopsAhead,
+        completedAt: pickup.completedAt
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Driving time between two points, in seconds
+   */
+  private async travelSeconds(from: GeoPoint, to: GeoPoint): Promise<number> {
+    try {
+      const matrix = await this.routingProvider.getDistanceMatrix({
+        origins: [from],
+        destinations: [to]
+      });
+      const seconds = matrix.durations[0][0];
+
+      if (Number.isFinite(seconds)) {
+        return seconds;
+      }
+    } catch (error) {
+      console.warn(`${this.routingProvider.name} routing unavailable, estimating ETA from straight-line distance:`, error);
+    }
+
+    return (haversineDistance(from, to) / 1000 / FALLBACK_SPEED_KMH) * 60 * 60;
+  }
+}
@@ -0,0 +1,371 @@
+// src/services/facilityService.ts
+import { PrismaClient } from '@prisma/client';
+import {
+  CreateDepotRequest,
+  UpdateDepotRequest,
+  DepotResponse,
+  CreateDisposalSiteRequest,
+  UpdateDisposalSiteRequest,
+  DisposalSiteResponse,
+  FacilityListQuery
+} from '@/types/facility';
+import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+export class FacilityService {
+  /**
+   * Create a depot
+   */
+  async createDepot(data: CreateDepotRequest): Promise<DepotResponse> {
+    try {
+      await this.ensureDepotNameAvailable(data.name);
+
+      const depot = await prisma.depot.create({
+        data: {
+          name: data.name,
+          address: data.address,
+          latitude: data.latitude,
+          longitude: data.longitude
+        },
+        include: {
+          _count: {
+            select: {
+              trucks: true
+            }
+          }
+        }
+      });
+
+      return this.formatDepotResponse(depot);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get all depots
+   */
+  async getDepots(query: FacilityListQuery) {
+    try {
+      const depots = await prisma.depot.findMany({
+        where: {
+          ...(query.isActive !== undefined && { isActive: String(query.isActive) === 'true' })
+        },
+        include: {
+          _count: {
+            select: {
+              trucks: true
+            }
+          }
+        },
+        orderBy: { name: 'asc' }
+      });
+
+      return {
+        success: true,
+        data: depots.map(depot => this.formatDepotResponse(depot))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get depot by ID
+   */
+  async getDepotById(depotId: string): Promise<DepotResponse> {
+    try {
+      const depot = await prisma.depot.findUnique({
+        where: { id: depotId },
+        include: {
+          _count: {
+            select: {
+              trucks: true
+            }
+          }
+        }
+      });
+
+      if (!depot) {
+        const error: AppError = new Error('Depot not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatDepotResponse(depot);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Update depot
+   */
+  async updateDepot(depotId: string, data: UpdateDepotRequest): Promise<DepotResponse> {
+    try {
+      const existingDepot = await this.getDepotById(depotId);
+
+      if (data.name && data.name !== existingDepot.name) {
+        await this.ensureDepotNameAvailable(data.name);
+      }
+
+      const depot = await prisma.depot.update({
+        where: { id: depotId },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.address !== undefined && { address: data.address }),
+          ...(data.latitude !== undefined && { latitude: data.latitude }),
+          ...(data.longitude !== undefined && { longitude: data.longitude }),
+          ...(data.isActive !== undefined && { isActive: data.isActive })
+        },
+        include: {
+          _count: {
+            select: {
+              trucks: true
+            }
+          }
+        }
+      });
+
+      return this.formatDepotResponse(depot);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Delete depot. Depots with trucks or routes are deactivated instead.
+   */
+  async deleteDepot(depotId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.getDepotById(depotId);
+
+      const [truckCount, routeCount] = await Promise.all([
+        prisma.truck.count({ where: { depotId } }),
+        prisma.route.count({ where: { depotId } })
+      ]);
+
+      if (truckCount > 0 || routeCount > 0) {
+        await prisma.depot.update({
+          where: { id: depotId },
+          data: { isActive: false }
+        });
+
+        return {
+          success: true,
+          message: 'Depot is in use and has been deactivated'
+        };
+      }
+
+      await prisma.depot.delete({
+        where: { id: depotId }
+      });
+
+      return {
+        success: true,
+        message: 'Depot deleted successfully'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Create a disposal site
+   */
+  async createDisposalSite(data: CreateDisposalSiteRequest): Promise<DisposalSiteResponse> {
+    try {
+      await this.ensureDisposalSiteNameAvailable(data.name);
+
+      const site = await prisma.disposalSite.create({
+        data: {
+          name: data.name,
+          siteType: data.siteType,
+          address: data.address,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          unloadMinutes: data.unloadMinutes
+        }
+      });
+
+      return this.formatDisposalSiteResponse(site);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get all disposal sites
+   */
+  async getDisposalSites(query: FacilityListQuery) {
+    try {
+      const sites = await prisma.disposalSite.findMany({
+        where: {
+          ...(query.isActive !== undefined && { isActive: String(query.isActive) === 'true' })
+        },
+        orderBy: { name: 'asc' }
+      });
+
+      return {
+        success: true,
+        data: sites.map(site => this.formatDisposalSiteResponse(site))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get disposal site by ID
+   */
+  async getDisposalSiteById(siteId: string): Promise<DisposalSiteResponse> {
+    try {
+      const site = await prisma.disposalSite.findUnique({
+        where: { id: siteId }
+      });
+
+      if (!site) {
+        const error: AppError = new Error('Disposal site not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatDisposalSiteResponse(site);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Update disposal site
+   */
+  async updateDisposalSite(siteId: string, data: UpdateDisposalSiteRequest): Promise<DisposalSiteResponse> {
+    try {
+      const existingSite = await this.getDisposalSiteById(siteId);
+
+      if (data.name && data.name !== existingSite.name) {
+        await this.ensureDisposalSiteNameAvailable(data.name);
+      }
+
+      const site = await prisma.disposalSite.update({
+        where: { id: siteId },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.siteType && { siteType: data.siteType }),
+          ...(data.address !== undefined && { address: data.address }),
+          ...(data.latitude !== undefined && { latitude: data.latitude }),
+          ...(data.longitude !== undefined && { longitude: data.longitude }),
+          ...(data.unloadMinutes !== undefined && { unloadMinutes: data.unloadMinutes }),
+          ...(data.isActive !== undefined && { isActive: data.isActive })
+        }
+      });
+
+      return this.formatDisposalSiteResponse(site);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Delete disposal site. Sites used by routes are deactivated instead.
+   */
+  async deleteDisposalSite(siteId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.getDisposalSiteById(siteId);
+
+      const stopCount = await prisma.routeStop.count({
+        where: { disposalSiteId: siteId }
+      });
+
+      if (stopCount > 0) {
+        await prisma.disposalSite.update({
+          where: { id: siteId },
+          data: { isActive: false }
+        });
+
+        return {
+          success: true,
+          message: 'Disposal site is in use and has been deactivated'
+        };
+      }
+
+      await prisma.disposalSite.delete({
+        where: { id: siteId }
+      });
+
+      return {
+        success: true,
+        message: 'Disposal site deleted successfully'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Reject duplicate depot names within the organization
+   */
+  private async ensureDepotNameAvailable(name: string): Promise<void> {
+    const existingDepot = await prisma.depot.findFirst({
+      where: { name }
+    });
+
+    if (existingDepot) {
+      const error: AppError = new Error('Depot with this name already exists');
+      error.statusCode = 400;
+      throw error;
+    }
+  }
+
+  /**
+   * Reject duplicate disposal site names within the organization
+   */
+  private async ensureDisposalSiteNameAvailable(name: string): Promise<void> {
+    const existingSite = await prisma.disposalSite.findFirst({
+      where: { name }
+    });
+
+    if (existingSite) {
+      const error: AppError = new Error('Disposal site with this name already exists');
+      error.statusCode = 400;
+      throw error;
+    }
+  }
+
+  /**
+   * Format depot response
+   */
+  private formatDepotResponse(depot: any): DepotResponse {
+    return {
+      id: depot.id,
+      name: depot.name,
+      address: depot.address,
+      latitude: Number(depot.latitude),
+      longitude: Number(depot.longitude),
+      isActive: depot.isActive,
+      createdAt: depot.createdAt,
+      updatedAt: depot.updatedAt,
+      _count: depot._count
+    };
+  }
+
+  /**
+   * Format disposal site response
+   */
+  private formatDisposalSiteResponse(site: any): DisposalSiteResponse {
+    return {
+      id: site.id,
+      name: site.name,
+      siteType: site.siteType,
+      address: site.address,
+      latitude: Number(site.latitude),
+      longitude: Number(site.longitude),
+      unloadMinutes: site.unloadMinutes,
+      isActive: site.isActive,
+      createdAt: site.createdAt,
+      updatedAt: site.updatedAt
+    };
+  }
+}
@@ -0,0 +1,470 @@
+// src/services/fuelService.ts
+import { PrismaClient, FuelAnomaly, RouteStatus, RouteStopType, PickupStatus } from '@prisma/client';
+import {
+  CreateFuelLogRequest,
+  FuelLogListQuery,
+  FuelConsumptionQuery,
+  FuelLogResponse,
+  TruckFuelConsumption,
+  FleetFuelSummary
+} from '@/types/fuel';
+import { TimeSeries } from '@/types/analytics';
+import { AppError } from '@/middleware/errorHandler';
+import { MaintenanceService } from '@/services/maintenanceService';
+import { PolicyService } from '@/services/policyService';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Fuel necks and pump meters are not exact
+const TANK_CAPACITY_TOLERANCE = 1.05;
+// Fill-ups after less driving than this should be small top-ups
+const MIN_REFUEL_DISTANCE_KM = 20;
+// ...no bigger than this share of the tank, or this many liters when the tank size is unknown
+const MAX_TOP_UP_TANK_SHARE = 0.25;
+const MAX_TOP_UP_LITERS = 50;
+// Consumption this far above the truck's usual rate suggests fuel went somewhere else
+const HIGH_CONSUMPTION_RATIO = 1.4;
+// The usual rate is the median of this many recent intervals, once there are enough
+const BASELINE_INTERVALS = 10;
+const MIN_BASELINE_INTERVALS = 3;
+// Intervals shorter than this are too noisy to measure consumption over
+const MIN_INTERVAL_KM = 50;
+// How far before a period to look for the full fill-up its first interval starts from
+const INTERVAL_LOOKBACK_DAYS = 60;
+
+interface FuelEntry {
+  liters: any;
+  odometer: number;
+  fullTank: boolean;
+  filledAt: Date;
+}
+
+interface ConsumptionInterval {
+  endedAt: Date;
+  liters: number;
+  distance: number;
+}
+
+export class FuelService {
+  private maintenanceService: MaintenanceService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.maintenanceService = new MaintenanceService();
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Log a fill-up, flagging anything that looks like fuel theft. Users who may only
+   * log their own fuel log it for their assigned truck.
+   */
+  async createFuelLog(data: CreateFuelLogRequest, requestUserRole: string, requestUserId: string): Promise<FuelLogResponse> {
+    try {
+      let truckId = data.truckId;
+      let driverId: string | undefined;
+
+      const scope = await this.policyService.authorize('fuel.log', requestUserRole);
+
+      if (scope === 'own') {
+        const driver = await prisma.driver.findUnique({
+          where: { userId: requestUserId }
+        });
+
+        if (!driver) {
+          const error: AppError = new Error('Driver profile not found');
+          error.statusCode = 404;
+          throw error;
+        }
+
+        if (!driver.truckId) {
+          const error: AppError = new Error('Driver has no truck assigned');
+          error.statusCode = 400;
+          throw error;
+        }
+
+        truckId = driver.truckId;
+        driverId = driver.id;
+      }
+
+      if (!truckId) {
+        const error: AppError = new Error('Truck ID is required');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const truck = await prisma.truck.findUnique({
+        where: { id: truckId }
+      });
+
+      if (!truck) {
+        const error: AppError = new Error('Truck not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const entry: FuelEntry = {
+        liters: data.liters,
+        odometer: data.odometer,
+        fullTank: data.fullTank !== false,
+        filledAt: data.filledAt ? new Date(data.filledAt) : new Date()
+      };
+
+      const anomalies = await this.detectAnomalies(truck.id, truck.fuelTankCapacity, entry);
+
+      const log = await prisma.fuelLog.create({
+        data: {
+          truckId: truck.id,
+          driverId,
+          liters: entry.liters,
+          cost: data.cost,
+          odometer: entry.odometer,
+          station: data.station,
+          fullTank: entry.fullTank,
+          anomalies,
+          notes: data.notes,
+          filledAt: entry.filledAt
+        }
+      });
+
+      await this.maintenanceService.recordOdometer(truck.id, entry.odometer);
+
+      return this.formatFuelLogResponse(log);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get fuel logs with filtering and pagination, limited to those the user may see
+   */
+  async getFuelLogs(query: FuelLogListQuery, requestUserRole: string, requestUserId: string) {
+    try {
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('fuel.read', requestUserRole, requestUserId)]
+      };
+
+      if (query.truckId) {
+        whereClause.truckId = query.truckId;
+      }
+
+      if (query.anomalous !== undefined) {
+        whereClause.anomalies = { isEmpty: String(query.anomalous) !== 'true' };
+      }
+
+      if (query.startDate || query.endDate) {
+        whereClause.filledAt = {
+          ...(query.startDate && { gte: new Date(query.startDate) }),
+          ...(query.endDate && { lte: new Date(query.endDate) })
+        };
+      }
+
+      const [logs, total] = await Promise.all([
+        prisma.fuelLog.findMany({
+          where: whereClause,
+          skip,
+          take: limit,
+          orderBy: { filledAt: 'desc' }
+        }),
+        prisma.fuelLog.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: logs.map(log => this.formatFuelLogResponse(log)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Fuel consumption per km and per tonne collected, for one truck or the whole fleet
+   */
+  async getConsumption(query: FuelConsumptionQuery): Promise<FleetFuelSummary> {
+    try {
+      const endDate = query.endDate ? new Date(query.endDate) : new Date();
+      const startDate = query.startDate
+        ? new Date(query.startDate)
+        : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      if (startDate >= endDate) {
+        const error: AppError = new Error('Start date must be before end date');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      if (query.truckId) {
+        const truck = await prisma.truck.findUnique({ where: { id: query.truckId } });
+
+        if (!truck) {
+          const error: AppError = new Error('Truck not found');
+          error.statusCode = 404;
+          throw error;
+        }
+      }
+
+      return await this.getFleetFuelSummary(startDate, endDate, query.truckId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Fuel used over a period, from the fuel logs. Consumption per km is measured
+   * between full fill-ups; consumption per tonne is against the weight collected
+   * on routes the trucks completed.
+   */
+  async getFleetFuelSummary(startDate: Date, endDate: Date, truckId?: string): Promise<FleetFuelSummary> {
+    try {
+      const logs = await prisma.fuelLog.findMany({
+        where: {
+          ...(truckId && { truckId }),
+          filledAt: {
+            gte: new Date(startDate.getTime() - INTERVAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+            lte: endDate
+          }
+        },
+        include: {
+          truck: { select: { licensePlate: true } }
+        },
+        orderBy: { filledAt: 'asc' }
+      });
+
+      const logsByTruck = new Map<string, typeof logs>();
+      for (const log of logs) {
+        if (!logsByTruck.has(log.truckId)) {
+          logsByTruck.set(log.truckId, []);
+        }
+        logsByTruck.get(log.truckId)!.push(log);
+      }
+
+      const inPeriod = (date: Date) => date >= startDate && date <= endDate;
+      const tonnesByTruck = await this.getTonnesCollected(startDate, endDate, truckId);
+
+      const trucks: TruckFuelConsumption[] = [];
+      const allIntervals: ConsumptionInterval[] = [];
+
+      for (const [id, truckLogs] of logsByTruck) {
+        const periodLogs = truckLogs.filter(log => inPeriod(log.filledAt));
+        if (periodLogs.length === 0) {
+          continue;
+        }
+
+        const intervals = this.consumptionIntervals(truckLogs).filter(interval => inPeriod(interval.endedAt));
+        allIntervals.push(...intervals);
+
+        const fuelUsed = periodLogs.reduce((sum, log) => sum + Number(log.liters), 0);
+        const intervalLiters = intervals.reduce((sum, interval) => sum + interval.liters, 0);
+        const distance = intervals.reduce((sum, interval) => sum + interval.distance, 0);
+        const tonnesCollected = tonnesByTruck.get(id) ?? 0;
+
+        trucks.push({
+          truckId: id,
+          licensePlate: truckLogs[0].truck.licensePlate,
+          fuelUsed: this.round(fuelUsed),
+          fuelCost: this.round(periodLogs.reduce((sum, log) => sum + Number(log.cost ?? 0), 0)),
+          distance,
+          litersPer100Km: distance > 0 ? this.round((intervalLiters / distance) * 100) : null,
+          tonnesCollected: this.round(tonnesCollected),
+          litersPerTonne: tonnesCollected > 0 ? this.round(fuelUsed / tonnesCollected) : null,
+          anomalies: periodLogs.filter(log => log.anomalies.length > 0).length
+        });
+      }
+
+      const totalFuelUsed = trucks.reduce((sum, truck) => sum + truck.fuelUsed, 0);
+      const totalTonnes = trucks.reduce((sum, truck) => sum + truck.tonnesCollected, 0);
+      const intervalLiters = allIntervals.reduce((sum, interval) => sum + interval.liters, 0);
+      const distance = allIntervals.reduce((sum, interval) => sum + interval.distance, 0);
+
+      return {
+        totalFuelUsed: this.round(totalFuelUsed),
+        totalCost: this.round(trucks.reduce((sum, truck) => sum + truck.fuelCost, 0)),
+        averagePerKm: distance > 0 ? Math.round((intervalLiters / distance) * 10000) / 10000 : 0,
+        litersPer100Km: distance > 0 ? this.round((intervalLiters / distance) * 100) : 0,
+        litersPerTonne: totalTonnes > 0 ? this.round(totalFuelUsed / totalTonnes) : null,
+        efficiencyTrend: this.dailyEfficiency(allIntervals, startDate, endDate),
+        trucks: trucks.sort((a, b) => (b.litersPer100Km ?? 0) - (a.litersPer100Km ?? 0))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Check a new fill-up against the tank size and the truck's previous fill-ups
+   */
+  private async detectAnomalies(truckId: string, tankCapacity: number | null, entry: FuelEntry): Promise<FuelAnomaly[]> {
+    const anomalies: FuelAnomaly[] = [];
+    const liters = Number(entry.liters);
+
+    if (tankCapacity && liters > tankCapacity * TANK_CAPACITY_TOLERANCE) {
+      anomalies.push(FuelAnomaly.EXCEEDS_TANK_CAPACITY);
+    }
+
+    const history = (await prisma.fuelLog.findMany({
+      where: {
+        truckId,
+        filledAt: { lt: entry.filledAt }
+      },
+      orderBy: { filledAt: 'desc' },
+      take: 50
+    })).reverse();
+
+    const previous = history[history.length - 1];
+    if (!previous) {
+      return anomalies;
+    }
+
+    const distance = entry.odometer - previous.odometer;
+    if (distance < 0) {
+      anomalies.push(FuelAnomaly.ODOMETER_ROLLBACK);
+      return anomalies;
+    }
+
+    const maxTopUp = tankCapacity ? tankCapacity * MAX_TOP_UP_TANK_SHARE : MAX_TOP_UP_LITERS;
+    if (distance < MIN_REFUEL_DISTANCE_KM && liters > maxTopUp) {
+      anomalies.push(FuelAnomaly.REFUEL_WITHOUT_DISTANCE);
+    }
+
+    if (entry.fullTank) {
+      const [interval] = this.consumptionIntervals([...history, entry]).slice(-1);
+      const rates = this.consumptionIntervals(history)
+        .slice(-BASELINE_INTERVALS)
+        .map(previousInterval => previousInterval.liters / previousInterval.distance)
+        .sort((a, b) => a - b);
+
+      if (interval && interval.endedAt.getTime() === entry.filledAt.getTime() && rates.length >= MIN_BASELINE_INTERVALS) {
+        const baseline = rates[Math.floor(rates.length / 2)];
+        if (interval.liters / interval.distance > baseline * HIGH_CONSUMPTION_RATIO) {
+          anomalies.push(FuelAnomaly.HIGH_CONSUMPTION);
+        }
+      }
+    }
+
+    return anomalies;
+  }
+
+  /**
+   * Fuel used between consecutive full fill-ups of one truck, in filling order.
+   * The liters to refill the tank, plus any top-ups along the way, are what the
+   * truck burned over the distance between the two.
+   */
+  private consumptionIntervals(logs: FuelEntry[]): ConsumptionInterval[] {
+    const intervals: ConsumptionInterval[] = [];
+    let lastFull: FuelEntry | null = null;
+    let liters = 0;
+
+    for (const log of logs) {
+      liters += Number(log.liters);
+
+      if (!log.fullTank) {
+        continue;
+      }
+
+      if (lastFull) {
+        const distance = log.odometer - lastFull.odometer;
+        if (distance >= MIN_INTERVAL_KM) {
+          intervals.push({ endedAt: log.filledAt, liters, distance });
+        }
+      }
+
+      lastFull = log;
+      liters = 0;
+    }
+
+    return intervals;
+  }
+
+  /**
+   * Tonnes collected per truck on routes completed in a period. A route's
+   * weighbridge tickets are used when recorded, the weights at the bins otherwise.
+   */
+  private async getTonnesCollected(startDate: Date, endDate: Date, truckId?: string): Promise<Map<string, number>> {
+    const routes = await prisma.route.findMany({
+      where: {
+        status: RouteStatus.COMPLETED,
+        completedAt: { gte: startDate, lte: endDate },
+        truckId: truckId ?? { not: null }
+      },
+      select: {
+        truckId: true,
+        stops: {
+          where: {
+            status: PickupStatus.COMPLETED,
+            collectedWeight: { not: null }
+          },
+          select: { stopType: true, collectedWeight: true }
+        }
+      }
+    });
+
+    const tonnes = new Map<string, number>();
+    for (const route of routes) {
+      const weighbridge = route.stops.filter(stop => stop.stopType === RouteStopType.DISPOSAL);
+      const weighed = weighbridge.length > 0
+        ? weighbridge
+        : route.stops.filter(stop => stop.stopType === RouteStopType.PICKUP);
+      const kg = weighed.reduce((sum, stop) => sum + Number(stop.collectedWeight), 0);
+
+      tonnes.set(route.truckId!, (tonnes.get(route.truckId!) ?? 0) + kg / 1000);
+    }
+
+    return tonnes;
+  }
+
+  /**
+   * Liters per 100 km for each day of a period, from the intervals ending that day
+   */
+  private dailyEfficiency(intervals: ConsumptionInterval[], startDate: Date, endDate: Date): TimeSeries[] {
+    const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    const trends: TimeSeries[] = [];
+
+    for (let i = 0; i < days; i++) {
+      const date = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000);
+      const nextDate = new Date(date.getTime() + 24 * 60 * 60 * 1000);
+      const daily = intervals.filter(interval => interval.endedAt >= date && interval.endedAt < nextDate);
+      const distance = daily.reduce((sum, interval) => sum + interval.distance, 0);
+      const liters = daily.reduce((sum, interval) => sum + interval.liters, 0);
+
+      trends.push({
+        date: date.toISOString().split('T')[0],
+        value: distance > 0 ? this.round((liters / distance) * 100) : 0,
+        metric: 'fuelEfficiency'
+      });
+    }
+
+    return trends;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private formatFuelLogResponse(log: any): FuelLogResponse {
+    return {
+      id: log.id,
+      truckId: log.truckId,
+      driverId: log.driverId,
+      liters: Number(log.liters),
+      cost: log.cost !== null ? Number(log.cost) : null,
+      odometer: log.odometer,
+      station: log.station,
+      fullTank: log.fullTank,
+      anomalies: log.anomalies,
+      notes: log.notes,
+      filledAt: log.filledAt,
+      createdAt: log.createdAt
+    };
+  }
+}
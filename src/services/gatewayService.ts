@@ -0,0 +1,219 @@
+// src/services/gatewayService.ts
+import { Prisma, PrismaClient, DeviceStatus } from '@prisma/client';
+import {
+  ProvisionGatewayRequest,
+  GatewayCredentials,
+  GatewayResponse,
+  GatewayCredentialsResponse,
+  AuthenticatedGateway
+} from '@/types/gateway';
+import { AppError } from '@/middleware/errorHandler';
+import { generateDeviceSecret, hashDeviceSecret, deviceSecretMatches } from '@/utils/deviceSecret';
+import { runWithTenant } from '@/utils/tenantContext';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+export class GatewayService {
+  /**
+   * Register a gateway with the organization and issue its credentials
+   */
+  async provisionGateway(data: ProvisionGatewayRequest): Promise<GatewayCredentialsResponse> {
+    try {
+      // Gateway IDs identify gateways on the shared broker, so they are unique across organizations
+      const existingGateway = await runWithTenant(null, () =>
+        prisma.gateway.findUnique({
+          where: { gatewayId: data.gatewayId }
+        })
+      );
+
+      if (existingGateway) {
+        throw this.gatewayIdTakenError();
+      }
+
+      const gatewaySecret = generateDeviceSecret();
+
+      const gateway = await prisma.gateway.create({
+        data: {
+          gatewayId: data.gatewayId,
+          name: data.name,
+          secretHash: hashDeviceSecret(gatewaySecret)
+        }
+      }).catch(error => {
+        // Another organization registered the gateway ID since the check above
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw this.gatewayIdTakenError();
+        }
+        throw error;
+      });
+
+      return {
+        gateway: this.formatGatewayResponse(gateway),
+        gatewaySecret
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * List the organization's gateways
+   */
+  async getGateways(): Promise<GatewayResponse[]> {
+    try {
+      const gateways = await prisma.gateway.findMany({
+        orderBy: { gatewayId: 'asc' }
+      });
+
+      return gateways.map(gateway => this.formatGatewayResponse(gateway));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get a gateway by ID
+   */
+  async getGatewayById(id: string): Promise<GatewayResponse> {
+    try {
+      const gateway = await prisma.gateway.findUnique({
+        where: { id }
+      });
+
+      if (!gateway) {
+        const error: AppError = new Error('Gateway not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatGatewayResponse(gateway);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a new secret for a gateway, invalidating the old one
+   */
+  async rotateCredentials(id: string): Promise<GatewayCredentialsResponse> {
+    try {
+      const existingGateway = await this.getGatewayById(id);
+
+      if (existingGateway.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Cannot rotate credentials of a revoked gateway');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const gatewaySecret = generateDeviceSecret();
+
+      const gateway = await prisma.gateway.update({
+        where: { id },
+        data: {
+          secretHash: hashDeviceSecret(gatewaySecret),
+          rotatedAt: new Date()
+        }
+      });
+
+      return {
+        gateway: this.formatGatewayResponse(gateway),
+        gatewaySecret
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a gateway's credentials
+   */
+  async revokeGateway(id: string): Promise<GatewayResponse> {
+    try {
+      const existingGateway = await this.getGatewayById(id);
+
+      if (existingGateway.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Gateway is already revoked');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const gateway = await prisma.gateway.update({
+        where: { id },
+        data: {
+          status: DeviceStatus.REVOKED,
+          revokedAt: new Date()
+        }
+      });
+
+      return this.formatGatewayResponse(gateway);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Verify that a health report comes from a provisioned gateway
+   */
+  async verifyGatewayCredentials(credentials: Partial<GatewayCredentials>): Promise<AuthenticatedGateway> {
+    try {
+      if (!credentials.gatewayId || !credentials.gatewaySecret) {
+        const error: AppError = new Error('Gateway credentials required');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      const gateway = await prisma.gateway.findUnique({
+        where: { gatewayId: credentials.gatewayId }
+      });
+
+      if (!gateway || !deviceSecretMatches(credentials.gatewaySecret, gateway.secretHash)) {
+        const error: AppError = new Error('Invalid gateway credentials');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      if (gateway.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Gateway credentials have been revoked');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      await prisma.gateway.update({
+        where: { id: gateway.id },
+        data: { lastSeenAt: new Date() }
+      });
+
+      return {
+        id: gateway.id,
+        gatewayId: gateway.gatewayId,
+        organizationId: gateway.organizationId
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  private gatewayIdTakenError(): AppError {
+    const error: AppError = new Error('Gateway ID is already registered');
+    error.statusCode = 409;
+    return error;
+  }
+
+  /**
+   * Format gateway response
+   */
+  private formatGatewayResponse(gateway: any): GatewayResponse {
+    return {
+      id: gateway.id,
+      gatewayId: gateway.gatewayId,
+      name: gateway.name,
+      status: gateway.status,
+      provisionedAt: gateway.provisionedAt,
+      rotatedAt: gateway.rotatedAt,
+      revokedAt: gateway.revokedAt,
+      lastSeenAt: gateway.lastSeenAt,
+      createdAt: gateway.createdAt,
+      updatedAt: gateway.updatedAt
+    };
+  }
+}
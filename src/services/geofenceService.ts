@@ -0,0 +1,209 @@
+// src/services/geofenceService.ts
+import { PrismaClient, PickupStatus, RouteStatus, RouteStopType } from '@prisma/client';
+import { env } from '../config/env';
+import { DriverLocationUpdate } from '@/types/driver';
+import { GeofenceEvent } from '@/types/route';
+import { PickupService } from '@/services/pickupService';
+import { haversineDistance } from '@/utils/geo';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Fixes less precise than this cannot place a truck at a bin
+const MAX_FIX_ACCURACY_METERS = 50;
+// A truck must stay inside the geofence this long before it counts as arrived
+const ARRIVAL_CONFIRM_SECONDS = 20;
+// ...and outside it this long before it counts as departed
+const DEPARTURE_CONFIRM_SECONDS = 30;
+// Departure is measured against a wider circle, so fixes wandering around the edge do not count
+const EXIT_RADIUS_RATIO = 1.5;
+
+export class GeofenceService {
+  private pickupService: PickupService;
+
+  constructor() {
+    this.pickupService = new PickupService();
+  }
+
+  /**
+   * Detect arrivals at and departures from the bins on a driver's active route.
+   * Crossing a geofence is only recorded once a later fix confirms it, which
+   * keeps GPS jitter near the boundary from flapping the stop's state.
+   * Arrival starts the pickup; departure flags the stop for the driver to confirm.
+   */
+  async processLocation(driverId: string, location: DriverLocationUpdate): Promise<GeofenceEvent[]> {
+    try {
+      if (location.accuracy !== undefined && location.accuracy > MAX_FIX_ACCURACY_METERS) {
+        return [];
+      }
+
+      const route = await prisma.route.findFirst({
+        where: {
+          driverId,
+          status: RouteStatus.IN_PROGRESS
+        },
+        include: {
+          stops: {
+            where: {
+              stopType: RouteStopType.PICKUP,
+              status: { in: [PickupStatus.SCHEDULED, PickupStatus.IN_PROGRESS] },
+              bin: { isNot: null }
+            },
+            include: {
+              bin: {
+                select: {
+                  id: true,
+                  latitude: true,
+                  longitude: true,
+                  geofenceRadius: true
+                }
+              }
+            },
+            orderBy: { stopOrder: 'asc' }
+          }
+        }
+      });
+
+      if (!route) {
+        return [];
+      }
+
+      const now = new Date();
+      const stops = route.stops.map(stop => ({
+        stop,
+        distance: haversineDistance(location, {
+          latitude: Number(stop.bin!.latitude),
+          longitude: Number(stop.bin!.longitude)
+        }),
+        radius: stop.bin!.geofenceRadius ?? env.GEOFENCE_RADIUS_METERS
+      }));
+
+      // The stop the truck is at, until it is seen leaving
+      const current = stops.find(({ stop }) =>
+        stop.status === PickupStatus.IN_PROGRESS && stop.actualArrival && !stop.actualDeparture
+      );
+
+      if (current) {
+        const event = await this.checkDeparture(current.stop, current.distance > current.radius * EXIT_RADIUS_RATIO, now);
+        return event ? [{ ...event, routeId: route.id, driverId }] : [];
+      }
+
+      const events: GeofenceEvent[] = [];
+      for (const { stop, distance, radius } of stops) {
+        if (stop.status !== PickupStatus.SCHEDULED) {
+          continue;
+        }
+
+        if (distance <= radius) {
+          if (!stop.geofenceEnteredAt) {
+            await prisma.routeStop.update({
+              where: { id: stop.id },
+              data: { geofenceEnteredAt: now }
+            });
+          } else if (!events.length && now.getTime() - stop.geofenceEnteredAt.getTime() >= ARRIVAL_CONFIRM_SECONDS * 1000) {
+            await this.recordArrival(stop.id, stop.pickupId, stop.geofenceEnteredAt);
+            events.push({
+              type: 'ARRIVAL',
+              routeId: route.id,
+              routeStopId: stop.id,
+              pickupId: stop.pickupId,
+              binId: stop.bin!.id,
+              driverId,
+              occurredAt: stop.geofenceEnteredAt
+            });
+          }
+        } else if (stop.geofenceEnteredAt && distance > radius * EXIT_RADIUS_RATIO) {
+          // Drove past without stopping
+          await prisma.routeStop.update({
+            where: { id: stop.id },
+            data: { geofenceEnteredAt: null }
+          });
+        }
+      }
+
+      return events;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Track a truck leaving the stop it is at. Returns the departure once confirmed.
+   */
+  private async checkDeparture(
+    stop: {
+      id: string;
+      pickupId: string | null;
+      actualArrival: Date | null;
+      geofenceExitedAt: Date | null;
+      bin: { id: string } | null;
+    },
+    isOutside: boolean,
+    now: Date
+  ): Promise<Omit<GeofenceEvent, 'routeId' | 'driverId'> | null> {
+    if (!isOutside) {
+      // Back inside before the departure was confirmed
+      if (stop.geofenceExitedAt) {
+        await prisma.routeStop.update({
+          where: { id: stop.id },
+          data: { geofenceExitedAt: null }
+        });
+      }
+      return null;
+    }
+
+    if (!stop.geofenceExitedAt) {
+      await prisma.routeStop.update({
+        where: { id: stop.id },
+        data: { geofenceExitedAt: now }
+      });
+      return null;
+    }
+
+    if (now.getTime() - stop.geofenceExitedAt.getTime() < DEPARTURE_CONFIRM_SECONDS * 1000) {
+      return null;
+    }
+
+    const dwellTime = Math.round((stop.geofenceExitedAt.getTime() - stop.actualArrival!.getTime()) / 1000);
+
+    await prisma.routeStop.update({
+      where: { id: stop.id },
+      data: {
+        actualDeparture: stop.geofenceExitedAt,
+        dwellTime,
+        awaitingConfirmation: true
+      }
+    });
+
+    return {
+      type: 'DEPARTURE',
+      routeStopId: stop.id,
+      pickupId: stop.pickupId,
+      binId: stop.bin!.id,
+      occurredAt: stop.geofenceExitedAt,
+      dwellTime
+    };
+  }
+
+  /**
+   * Mark a stop as reached and start its pickup
+   */
+  private async recordArrival(stopId: string, pickupId: string | null, arrivedAt: Date): Promise<void> {
+    await prisma.routeStop.update({
+      where: { id: stopId },
+      data: {
+        status: PickupStatus.IN_PROGRESS,
+        actualArrival: arrivedAt
+      }
+    });
+
+    if (pickupId) {
+      await this.pickupService.updatePickupStatus(
+        pickupId,
+        { status: PickupStatus.IN_PROGRESS },
+        'ADMIN',
+        ''
+      );
+    }
+  }
+}
@@ -1,48 +1,30 @@
 // src/services/googleMapsService.ts
 import { env } from '../config/env';
-
-export interface Coordinates {
-  latitude: number;
-  longitude: number;
-}
-
-export interface RouteRequest {
-  origin: Coordinates;
-  destination: Coordinates;
-  waypoints?: Coordinates[];
-}
-
-export interface RouteResponse {
-  distance: number; // in meters
-  duration: number; // in seconds
-  polyline: string;
-  steps?: Array<{
-    instruction: string;
-    distance: number;
-    duration: number;
-  }>;
-}
-
-export interface DistanceMatrixRequest {
-  origins: Coordinates[];
-  destinations: Coordinates[];
-}
-
-export interface DistanceMatrixResponse {
-  distances: number[][]; // distances[i][j] = distance from origin[i] to destination[j]
-  durations: number[][]; // durations[i][j] = duration from origin[i] to destination[j]
-}
-
-export class GoogleMapsService {
+import {
+  GeoPoint,
+  RouteRequest,
+  RouteResponse,
+  DistanceMatrixRequest,
+  DistanceMatrixResponse,
+  RoutingProvider,
+  RoutingProviderName
+} from '../types/routing';
+import { haversineDistance } from '../utils/geo';
+
+// The Distance Matrix API accepts at most 100 elements per request
+const MATRIX_CHUNK_SIZE = 10;
+
+export class GoogleMapsService implements RoutingProvider {
+  readonly name: RoutingProviderName = 'GOOGLE';
   private apiKey: string;
   private baseUrl = 'https://maps.googleapis.com/maps/api';
 
-  constructor() {
-    this.apiKey = env.GOOGLE_MAPS_API_KEY;
+  constructor(apiKey: string = env.GOOGLE_MAPS_API_KEY) {
+    this.apiKey = apiKey;
   }
 
   /**
-   * Get route between two points with optional waypoints
+   * Get route between two points with optional waypoints, visited in order
    */
   async getRoute(request: RouteRequest): Promise<RouteResponse> {
     try {
@@ -56,7 +38,7 @@ export class GoogleMapsService {
         const waypointStr = waypoints
           .map(wp => `${wp.latitude},${wp.longitude}`)
           .join('|');
-        url += `&waypoints=optimize:true|${waypointStr}`;
+        url += `&waypoints=${encodeURIComponent(waypointStr)}`;
       }
       
       url += `&key=${this.apiKey}`;
@@ -69,17 +51,17 @@ export class GoogleMapsService {
       }
 
       const route = data.routes[0];
-      const leg = route.legs[0];
 
+      // One leg per waypoint, plus the final leg to the destination
       return {
-        distance: leg.distance.value,
-        duration: leg.duration.value,
+        distance: route.legs.reduce((sum: number, leg: any) => sum + leg.distance.value, 0),
+        duration: route.legs.reduce((sum: number, leg: any) => sum + leg.duration.value, 0),
         polyline: route.overview_polyline.points,
-        steps: leg.steps?.map((step: any) => ({
+        steps: route.legs.flatMap((leg: any) => (leg.steps || []).map((step: any) => ({
           instruction: step.html_instructions.replace(/<[^>]*>/g, ''), // Remove HTML tags
           distance: step.distance.value,
           duration: step.duration.value
-        }))
+        })))
       };
     } catch (error) {
       console.error('Error getting route from Google Maps:', error);
@@ -91,6 +73,39 @@ export class GoogleMapsService {
    * Get distance matrix for multiple origins and destinations
    */
   async getDistanceMatrix(request: DistanceMatrixRequest): Promise<DistanceMatrixResponse> {
+    try {
+      const { origins, destinations } = request;
+      const distances: number[][] = origins.map(() => []);
+      const durations: number[][] = origins.map(() => []);
+
+      // Large matrices are fetched block by block to stay under the element limit
+      for (let i = 0; i < origins.length; i += MATRIX_CHUNK_SIZE) {
+        for (let j = 0; j < destinations.length; j += MATRIX_CHUNK_SIZE) {
+          const block = await this.getDistanceMatrixBlock({
+            origins: origins.slice(i, i + MATRIX_CHUNK_SIZE),
+            destinations: destinations.slice(j, j + MATRIX_CHUNK_SIZE)
+          });
+
+          block.distances.forEach((row, rowIndex) => {
+            row.forEach((value, columnIndex) => {
+              distances[i + rowIndex][j + columnIndex] = value;
+              durations[i + rowIndex][j + columnIndex] = block.durations[rowIndex][columnIndex];
+            });
+          });
+        }
+      }
+
+      return { distances, durations };
+    } catch (error) {
+      console.error('Error getting distance matrix from Google Maps:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch one block of the distance matrix
+   */
+  private async getDistanceMatrixBlock(request: DistanceMatrixRequest): Promise<DistanceMatrixResponse> {
     try {
       const { origins, destinations } = request;
       
@@ -134,7 +149,6 @@ export class GoogleMapsService {
 
       return { distances, durations };
     } catch (error) {
-      console.error('Error getting distance matrix from Google Maps:', error);
       throw error;
     }
   }
@@ -142,7 +156,7 @@ export class GoogleMapsService {
   /**
    * Geocode an address to coordinates
    */
-  async geocode(address: string): Promise<Coordinates> {
+  async geocode(address: string): Promise<GeoPoint> {
     try {
       const url = `${this.baseUrl}/geocode/json?` +
         `address=${encodeURIComponent(address)}` +
@@ -169,7 +183,7 @@ export class GoogleMapsService {
   /**
    * Reverse geocode coordinates to address
    */
-  async reverseGeocode(coordinates: Coordinates): Promise<string> {
+  async reverseGeocode(coordinates: GeoPoint): Promise<string> {
     try {
       const url = `${this.baseUrl}/geocode/json?` +
         `latlng=${coordinates.latitude},${coordinates.longitude}` +
@@ -193,20 +207,8 @@ export class GoogleMapsService {
    * Calculate distance between two points using Haversine formula
    * (Backup method when Google Maps API is not available)
    */
-  calculateHaversineDistance(coord1: Coordinates, coord2: Coordinates): number {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (coord1.latitude * Math.PI) / 180;
-    const φ2 = (coord2.latitude * Math.PI) / 180;
-    const Δφ = ((coord2.latitude - coord1.latitude) * Math.PI) / 180;
-    const Δλ = ((coord2.longitude - coord1.longitude) * Math.PI) / 180;
-
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) *
-      Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c; // Distance in meters
+  calculateHaversineDistance(coord1: GeoPoint, coord2: GeoPoint): number {
+    return haversineDistance(coord1, coord2); // Distance in meters
   }
 
   /**
@@ -0,0 +1,388 @@
+// src/services/inspectionService.ts
+import { PrismaClient, DriverStatus } from '@prisma/client';
+import {
+  CreateInspectionItemRequest,
+  UpdateInspectionItemRequest,
+  InspectionItemResponse,
+  SubmitInspectionRequest,
+  InspectionListQuery,
+  InspectionResponse
+} from '@/types/inspection';
+import { AppError } from '@/middleware/errorHandler';
+import { MaintenanceService } from '@/services/maintenanceService';
+import { PolicyService } from '@/services/policyService';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// A passed inspection clears the driver to go online for this long
+const INSPECTION_VALID_HOURS = 12;
+
+const INSPECTION_INCLUDE = {
+  results: {
+    include: {
+      item: { select: { code: true, label: true, sortOrder: true } }
+    }
+  },
+  maintenanceTickets: { select: { id: true } }
+};
+
+export class InspectionService {
+  private maintenanceService: MaintenanceService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.maintenanceService = new MaintenanceService();
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Get the inspection checklist. Only those who manage it see retired items.
+   */
+  async getChecklist(requestUserRole: string): Promise<InspectionItemResponse[]> {
+    try {
+      const canManage = await this.policyService.can('inspection.checklist.manage', requestUserRole);
+      const items = await prisma.inspectionItem.findMany({
+        where: canManage ? {} : { isActive: true },
+        orderBy: [{ sortOrder: 'asc' }, { label: 'asc' }]
+      });
+
+      return items.map(item => this.formatItemResponse(item));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Add an item to the inspection checklist
+   */
+  async createChecklistItem(data: CreateInspectionItemRequest): Promise<InspectionItemResponse> {
+    try {
+      const code = data.code.toUpperCase();
+      const existingItem = await prisma.inspectionItem.findFirst({
+        where: { code }
+      });
+
+      if (existingItem) {
+        const error: AppError = new Error('Checklist item with this code already exists');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const item = await prisma.inspectionItem.create({
+        data: {
+          code,
+          label: data.label,
+          description: data.description,
+          isCritical: data.isCritical ?? false,
+          sortOrder: data.sortOrder ?? 0
+        }
+      });
+
+      return this.formatItemResponse(item);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Update a checklist item. Items are deactivated rather than deleted so past
+   * inspections keep their results.
+   */
+  async updateChecklistItem(itemId: string, data: UpdateInspectionItemRequest): Promise<InspectionItemResponse> {
+    try {
+      const item = await prisma.inspectionItem.findUnique({
+        where: { id: itemId }
+      });
+
+      if (!item) {
+        const error: AppError = new Error('Checklist item not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const updatedItem = await prisma.inspectionItem.update({
+        where: { id: itemId },
+        data: {
+          ...(data.label !== undefined && { label: data.label }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.isCritical !== undefined && { isCritical: data.isCritical }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder })
+        }
+      });
+
+      return this.formatItemResponse(updatedItem);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a pre-trip inspection of the driver's assigned truck. A failed critical
+   * item opens a maintenance ticket and takes the driver offline and unavailable.
+   */
+  async submitInspection(requestUserId: string, data: SubmitInspectionRequest): Promise<InspectionResponse> {
+    try {
+      const driver = await prisma.driver.findUnique({
+        where: { userId: requestUserId },
+        include: {
+          truck: { select: { id: true, licensePlate: true } }
+        }
+      });
+
+      if (!driver) {
+        const error: AppError = new Error('Driver profile not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      if (!driver.truck) {
+        const error: AppError = new Error('Driver has no truck assigned');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const items = await prisma.inspectionItem.findMany({
+        where: { isActive: true }
+      });
+      const itemsById = new Map(items.map(item => [item.id, item]));
+
+      const unknown = data.results.find(result => !itemsById.has(result.itemId));
+      if (unknown) {
+        const error: AppError = new Error(`Unknown checklist item: ${unknown.itemId}`);
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const answered = new Set(data.results.map(result => result.itemId));
+      if (answered.size !== data.results.length) {
+        const error: AppError = new Error('Each checklist item can only be answered once');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const missing = items.filter(item => !answered.has(item.id));
+      if (missing.length > 0) {
+        const error: AppError = new Error(`Checklist incomplete, missing: ${missing.map(item => item.label).join(', ')}`);
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const failedCritical = data.results
+        .filter(result => !result.passed && itemsById.get(result.itemId)!.isCritical)
+        .map(result => ({ item: itemsById.get(result.itemId)!, notes: result.notes }));
+
+      const inspection = await prisma.truckInspection.create({
+        data: {
+          truckId: driver.truck.id,
+          driverId: driver.id,
+          passed: data.results.every(result => result.passed),
+          criticalFailure: failedCritical.length > 0,
+          odometer: data.odometer,
+          notes: data.notes,
+          results: {
+            create: data.results.map(result => ({
+              itemId: result.itemId,
+              passed: result.passed,
+              isCritical: itemsById.get(result.itemId)!.isCritical,
+              notes: result.notes
+            }))
+          }
+        }
+      });
+
+      if (data.odometer !== undefined) {
+        await this.maintenanceService.recordOdometer(driver.truck.id, data.odometer);
+      }
+
+      if (failedCritical.length > 0) {
+        await this.maintenanceService.openTicket({
+          truckId: driver.truck.id,
+          inspectionId: inspection.id,
+          title: `Pre-trip inspection failed: ${failedCritical.map(({ item }) => item.label).join(', ')}`,
+          description: failedCritical
+            .map(({ item, notes }) => (notes ? `${item.label}: ${notes}` : item.label))
+            .join('\n'),
+          isCritical: true
+        });
+
+        // Take the driver off the road until a dispatcher makes them available again
+        await prisma.driver.update({
+          where: { id: driver.id },
+          data: {
+            isAvailable: false,
+            status: DriverStatus.OFFLINE
+          }
+        });
+      }
+
+      return await this.getInspectionById(inspection.id, 'ADMIN', '');
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get inspections with filtering and pagination, limited to those the user may see
+   */
+  async getInspections(query: InspectionListQuery, requestUserRole: string, requestUserId: string) {
+    try {
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('inspection.read', requestUserRole, requestUserId)]
+      };
+
+      if (query.driverId) {
+        whereClause.driverId = query.driverId;
+      }
+
+      if (query.truckId) {
+        whereClause.truckId = query.truckId;
+      }
+
+      if (query.passed !== undefined) {
+        whereClause.passed = String(query.passed) === 'true';
+      }
+
+      const [inspections, total] = await Promise.all([
+        prisma.truckInspection.findMany({
+          where: whereClause,
+          include: INSPECTION_INCLUDE,
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        prisma.truckInspection.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: inspections.map(inspection => this.formatInspectionResponse(inspection)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get inspection by ID
+   */
+  async getInspectionById(inspectionId: string, requestUserRole: string, requestUserId: string): Promise<InspectionResponse> {
+    try {
+      const inspection = await prisma.truckInspection.findUnique({
+        where: { id: inspectionId },
+        include: INSPECTION_INCLUDE
+      });
+
+      if (!inspection) {
+        const error: AppError = new Error('Inspection not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      await this.policyService.assertAllowed('inspection.read', requestUserRole, requestUserId, inspectionId);
+
+      return this.formatInspectionResponse(inspection);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Refuse to put a driver online until their truck is out of the shop, has passed a
+   * recent inspection and has no open critical maintenance ticket. Drivers without a
+   * truck are not checked.
+   */
+  async assertCanGoOnline(driverId: string): Promise<void> {
+    try {
+      const driver = await prisma.driver.findUnique({
+        where: { id: driverId }
+      });
+
+      if (!driver || !driver.truckId) {
+        return;
+      }
+
+      if (await this.maintenanceService.isInShop(driver.truckId)) {
+        const error: AppError = new Error('Truck is in the shop for maintenance');
+        error.statusCode = 409;
+        throw error;
+      }
+
+      if (await this.maintenanceService.hasOpenCriticalTicket(driver.truckId)) {
+        const error: AppError = new Error('Truck has an open critical maintenance ticket');
+        error.statusCode = 409;
+        throw error;
+      }
+
+      const latest = await prisma.truckInspection.findFirst({
+        where: {
+          driverId,
+          truckId: driver.truckId,
+          createdAt: { gte: new Date(Date.now() - INSPECTION_VALID_HOURS * 60 * 60 * 1000) }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      if (!latest) {
+        const error: AppError = new Error('A pre-trip inspection of the truck is required before going online');
+        error.statusCode = 409;
+        throw error;
+      }
+
+      if (latest.criticalFailure) {
+        const error: AppError = new Error('Truck failed its pre-trip inspection on a critical item');
+        error.statusCode = 409;
+        throw error;
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  private formatItemResponse(item: any): InspectionItemResponse {
+    return {
+      id: item.id,
+      code: item.code,
+      label: item.label,
+      description: item.description,
+      isCritical: item.isCritical,
+      isActive: item.isActive,
+      sortOrder: item.sortOrder
+    };
+  }
+
+  private formatInspectionResponse(inspection: any): InspectionResponse {
+    return {
+      id: inspection.id,
+      truckId: inspection.truckId,
+      driverId: inspection.driverId,
+      passed: inspection.passed,
+      criticalFailure: inspection.criticalFailure,
+      odometer: inspection.odometer,
+      notes: inspection.notes,
+      results: [...inspection.results]
+        .sort((a: any, b: any) => a.item.sortOrder - b.item.sortOrder)
+        .map((result: any) => ({
+          itemId: result.itemId,
+          code: result.item.code,
+          label: result.item.label,
+          passed: result.passed,
+          isCritical: result.isCritical,
+          notes: result.notes
+        })),
+      maintenanceTicketIds: inspection.maintenanceTickets.map((ticket: any) => ticket.id),
+      createdAt: inspection.createdAt
+    };
+  }
+}
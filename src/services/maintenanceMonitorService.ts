@@ -0,0 +1,56 @@
+// src/services/maintenanceMonitorService.ts
+import { Server as SocketIOServer } from 'socket.io';
+import { MaintenanceService } from '../services/maintenanceService';
+import { OrganizationService } from '../services/organizationService';
+import { emitToOrganization } from '../config/socket';
+
+export class MaintenanceMonitorService {
+  private maintenanceService: MaintenanceService;
+  private organizationService: OrganizationService;
+  private io: SocketIOServer;
+
+  constructor(io: SocketIOServer) {
+    this.maintenanceService = new MaintenanceService();
+    this.organizationService = new OrganizationService();
+    this.io = io;
+  }
+
+  /**
+   * Open tickets for overdue scheduled services and alert each organization's dashboard
+   * to its own trucks
+   */
+  async checkOverdueMaintenance(): Promise<void> {
+    try {
+      await this.organizationService.forEachOrganization(async (organizationId) => {
+        const overdue = await this.maintenanceService.checkOverdueMaintenance();
+
+        if (overdue.length === 0) {
+          return;
+        }
+
+        emitToOrganization(this.io, organizationId, 'admins', 'maintenance-overdue', {
+          type: 'MAINTENANCE_OVERDUE',
+          overdue,
+          count: overdue.length,
+          timestamp: new Date()
+        });
+
+        console.log(`🔧 Flagged ${overdue.length} overdue truck services`);
+      });
+    } catch (error) {
+      console.error('Error checking overdue maintenance:', error);
+    }
+  }
+
+  /**
+   * Start overdue maintenance monitoring
+   */
+  startMonitor(): void {
+    // Service intervals are days or thousands of km, hourly is plenty
+    setInterval(() => {
+      this.checkOverdueMaintenance();
+    }, 60 * 60 * 1000);
+
+    console.log('🔧 Maintenance monitor started');
+  }
+}
@@ -0,0 +1,758 @@
+// src/services/maintenanceService.ts
+import { PrismaClient, MaintenanceTicketStatus } from '@prisma/client';
+import {
+  MaintenanceTicketListQuery,
+  UpdateMaintenanceTicketRequest,
+  MaintenanceTicketResponse,
+  CreateMaintenanceRecordRequest,
+  UpdateMaintenanceRecordRequest,
+  MaintenanceRecordListQuery,
+  MaintenanceRecordResponse,
+  CreateMaintenanceRuleRequest,
+  UpdateMaintenanceRuleRequest,
+  MaintenanceRuleResponse,
+  MaintenanceDueItem,
+  MaintenanceDueStatus,
+  MaintenanceScheduleResponse,
+  OverdueMaintenance
+} from '@/types/maintenance';
+import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Tickets that still need work
+export const OPEN_TICKET_STATUSES: MaintenanceTicketStatus[] = [
+  MaintenanceTicketStatus.OPEN,
+  MaintenanceTicketStatus.IN_PROGRESS
+];
+// Services this close to falling due are flagged DUE_SOON
+const DUE_SOON_DAYS = 7;
+const DUE_SOON_KM = 500;
+
+const DUE_STATUS_RANK: Record<MaintenanceDueStatus, number> = {
+  OVERDUE: 2,
+  DUE_SOON: 1,
+  OK: 0
+};
+
+export class MaintenanceService {
+  /**
+   * Open a maintenance ticket for a truck
+   */
+  async openTicket(data: {
+    truckId: string;
+    title: string;
+    description?: string;
+    isCritical?: boolean;
+    inspectionId?: string;
+    faultCode?: string;
+  }): Promise<MaintenanceTicketResponse> {
+    try {
+      const ticket = await prisma.maintenanceTicket.create({
+        data: {
+          truckId: data.truckId,
+          title: data.title,
+          description: data.description,
+          isCritical: data.isCritical ?? false,
+          inspectionId: data.inspectionId,
+          faultCode: data.faultCode
+        },
+        include: {
+          truck: { select: { licensePlate: true, model: true } }
+        }
+      });
+
+      return this.formatTicketResponse(ticket);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get maintenance tickets with filtering and pagination
+   */
+  async getTickets(query: MaintenanceTicketListQuery) {
+    try {
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {};
+
+      if (query.truckId) {
+        whereClause.truckId = query.truckId;
+      }
+
+      if (query.status) {
+        whereClause.status = query.status;
+      }
+
+      const [tickets, total] = await Promise.all([
+        prisma.maintenanceTicket.findMany({
+          where: whereClause,
+          include: {
+            truck: { select: { licensePlate: true, model: true } }
+          },
+          skip,
+          take: limit,
+          orderBy: [{ isCritical: 'desc' }, { createdAt: 'desc' }]
+        }),
+        prisma.maintenanceTicket.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: tickets.map(ticket => this.formatTicketResponse(ticket)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Move a ticket through its workflow
+   */
+  async updateTicket(ticketId: string, data: UpdateMaintenanceTicketRequest): Promise<MaintenanceTicketResponse> {
+    try {
+      const ticket = await prisma.maintenanceTicket.findUnique({
+        where: { id: ticketId }
+      });
+
+      if (!ticket) {
+        const error: AppError = new Error('Maintenance ticket not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      if (ticket.status === MaintenanceTicketStatus.RESOLVED) {
+        const error: AppError = new Error('Maintenance ticket is already resolved');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const updatedTicket = await prisma.maintenanceTicket.update({
+        where: { id: ticketId },
+        data: {
+          status: data.status,
+          ...(data.status === MaintenanceTicketStatus.RESOLVED && { resolvedAt: new Date() }),
+          ...(data.resolutionNotes !== undefined && { resolutionNotes: data.resolutionNotes })
+        },
+        include: {
+          truck: { select: { licensePlate: true, model: true } }
+        }
+      });
+
+      return this.formatTicketResponse(updatedTicket);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a truck has an unresolved ticket that keeps it off the road
+   */
+  async hasOpenCriticalTicket(truckId: string): Promise<boolean> {
+    try {
+      const count = await prisma.maintenanceTicket.count({
+        where: {
+          truckId,
+          isCritical: true,
+          status: { in: OPEN_TICKET_STATUSES }
+        }
+      });
+
+      return count > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a truck is in the shop, i.e. has maintenance under way
+   */
+  async isInShop(truckId: string): Promise<boolean> {
+    try {
+      const count = await prisma.maintenanceRecord.count({
+        where: {
+          truckId,
+          completedAt: null
+        }
+      });
+
+      return count > 0;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Record a truck's odometer reading. Readings lower than the last known one are ignored.
+   */
+  async recordOdometer(truckId: string, odometer: number): Promise<void> {
+    try {
+      await prisma.truck.updateMany({
+        where: {
+          id: truckId,
+          OR: [{ odometer: null }, { odometer: { lt: odometer } }]
+        },
+        data: { odometer }
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get maintenance records with filtering and pagination
+   */
+  async getRecords(query: MaintenanceRecordListQuery) {
+    try {
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {};
+
+      if (query.truckId) {
+        whereClause.truckId = query.truckId;
+      }
+
+      if (query.type) {
+        whereClause.type = query.type.toUpperCase();
+      }
+
+      if (query.inShop !== undefined) {
+        whereClause.completedAt = String(query.inShop) === 'true' ? null : { not: null };
+      }
+
+      const [records, total] = await Promise.all([
+        prisma.maintenanceRecord.findMany({
+          where: whereClause,
+          skip,
+          take: limit,
+          orderBy: { serviceDate: 'desc' }
+        }),
+        prisma.maintenanceRecord.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: records.map(record => this.formatRecordResponse(record)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Record maintenance on a truck. Without a completion date the truck is in
+   * the shop, and unavailable, until the record is completed.
+   */
+  async createRecord(data: CreateMaintenanceRecordRequest): Promise<MaintenanceRecordResponse> {
+    try {
+      const truck = await prisma.truck.findUnique({
+        where: { id: data.truckId }
+      });
+
+      if (!truck) {
+        const error: AppError = new Error('Truck not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const serviceDate = new Date(data.serviceDate);
+      const completedAt = data.completedAt ? new Date(data.completedAt) : null;
+      this.assertServicePeriod(serviceDate, completedAt);
+
+      if (!completedAt && await this.isInShop(data.truckId)) {
+        const error: AppError = new Error('Truck is already in the shop');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const record = await prisma.maintenanceRecord.create({
+        data: {
+          truckId: data.truckId,
+          type: data.type.toUpperCase(),
+          serviceDate,
+          completedAt,
+          odometer: data.odometer,
+          cost: data.cost,
+          vendor: data.vendor,
+          notes: data.notes
+        }
+      });
+
+      if (data.odometer !== undefined) {
+        await this.recordOdometer(data.truckId, data.odometer);
+      }
+
+      if (completedAt) {
+        await this.resolveServiceTickets(record.truckId, record.type);
+      }
+
+      return this.formatRecordResponse(record);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Update a maintenance record, e.g. to complete it when the truck leaves the shop
+   */
+  async updateRecord(recordId: string, data: UpdateMaintenanceRecordRequest): Promise<MaintenanceRecordResponse> {
+    try {
+      const record = await prisma.maintenanceRecord.findUnique({
+        where: { id: recordId }
+      });
+
+      if (!record) {
+        const error: AppError = new Error('Maintenance record not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const completedAt = data.completedAt !== undefined
+        ? (data.completedAt ? new Date(data.completedAt) : null)
+        : record.completedAt;
+      this.assertServicePeriod(record.serviceDate, completedAt);
+
+      // Reopening a record puts the truck back in the shop
+      if (record.completedAt && !completedAt && await this.isInShop(record.truckId)) {
+        const error: AppError = new Error('Truck is already in the shop');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const updatedRecord = await prisma.maintenanceRecord.update({
+        where: { id: recordId },
+        data: {
+          ...(data.completedAt !== undefined && { completedAt }),
+          ...(data.odometer !== undefined && { odometer: data.odometer }),
+          ...(data.cost !== undefined && { cost: data.cost }),
+          ...(data.vendor !== undefined && { vendor: data.vendor }),
+          ...(data.notes !== undefined && { notes: data.notes })
+        }
+      });
+
+      if (data.odometer !== undefined) {
+        await this.recordOdometer(record.truckId, data.odometer);
+      }
+
+      if (!record.completedAt && completedAt) {
+        await this.resolveServiceTickets(record.truckId, record.type);
+      }
+
+      return this.formatRecordResponse(updatedRecord);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get service interval rules, optionally those that apply to one truck
+   */
+  async getRules(truckId?: string): Promise<MaintenanceRuleResponse[]> {
+    try {
+      const rules = await prisma.maintenanceRule.findMany({
+        where: truckId ? { OR: [{ truckId }, { truckId: null }] } : {},
+        orderBy: [{ type: 'asc' }, { truckId: 'asc' }]
+      });
+
+      return rules.map(rule => this.formatRuleResponse(rule));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Create a service interval rule, fleet-wide or for one truck
+   */
+  async createRule(data: CreateMaintenanceRuleRequest): Promise<MaintenanceRuleResponse> {
+    try {
+      if (!data.intervalDays && !data.intervalKm) {
+        const error: AppError = new Error('A rule needs an interval in days, kilometers or both');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      if (data.truckId) {
+        const truck = await prisma.truck.findUnique({ where: { id: data.truckId } });
+
+        if (!truck) {
+          const error: AppError = new Error('Truck not found');
+          error.statusCode = 404;
+          throw error;
+        }
+      }
+
+      const type = data.type.toUpperCase();
+      const existingRule = await prisma.maintenanceRule.findFirst({
+        where: {
+          truckId: data.truckId ?? null,
+          type
+        }
+      });
+
+      if (existingRule) {
+        const error: AppError = new Error('A rule for this service type already exists');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const rule = await prisma.maintenanceRule.create({
+        data: {
+          truckId: data.truckId,
+          type,
+          description: data.description,
+          intervalDays: data.intervalDays,
+          intervalKm: data.intervalKm
+        }
+      });
+
+      return this.formatRuleResponse(rule);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Update a service interval rule
+   */
+  async updateRule(ruleId: string, data: UpdateMaintenanceRuleRequest): Promise<MaintenanceRuleResponse> {
+    try {
+      const rule = await prisma.maintenanceRule.findUnique({
+        where: { id: ruleId }
+      });
+
+      if (!rule) {
+        const error: AppError = new Error('Maintenance rule not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const intervalDays = data.intervalDays !== undefined ? data.intervalDays : rule.intervalDays;
+      const intervalKm = data.intervalKm !== undefined ? data.intervalKm : rule.intervalKm;
+      if (!intervalDays && !intervalKm) {
+        const error: AppError = new Error('A rule needs an interval in days, kilometers or both');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const updatedRule = await prisma.maintenanceRule.update({
+        where: { id: ruleId },
+        data: {
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.intervalDays !== undefined && { intervalDays: data.intervalDays }),
+          ...(data.intervalKm !== undefined && { intervalKm: data.intervalKm }),
+          ...(data.isActive !== undefined && { isActive: data.isActive })
+        }
+      });
+
+      return this.formatRuleResponse(updatedRule);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a service interval rule
+   */
+  async deleteRule(ruleId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const rule = await prisma.maintenanceRule.findUnique({
+        where: { id: ruleId }
+      });
+
+      if (!rule) {
+        const error: AppError = new Error('Maintenance rule not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      await prisma.maintenanceRule.delete({
+        where: { id: ruleId }
+      });
+
+      return {
+        success: true,
+        message: 'Maintenance rule deleted successfully'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Work out when each service that applies to a truck next falls due
+   */
+  async getMaintenanceSchedule(truckId: string): Promise<MaintenanceScheduleResponse> {
+    try {
+      const truck = await prisma.truck.findUnique({
+        where: { id: truckId }
+      });
+
+      if (!truck) {
+        const error: AppError = new Error('Truck not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const [rules, records] = await Promise.all([
+        // Fleet rules are those of the truck's organization, also when the overdue
+        // check runs across every organization
+        prisma.maintenanceRule.findMany({
+          where: { organizationId: truck.organizationId, OR: [{ truckId }, { truckId: null }] }
+        }),
+        prisma.maintenanceRecord.findMany({
+          where: { truckId },
+          orderBy: { serviceDate: 'desc' }
+        })
+      ]);
+
+      // A truck's own rule for a type replaces the fleet rule, even when switched off
+      const rulesByType = new Map<string, typeof rules[number]>();
+      for (const rule of rules) {
+        if (rule.truckId || !rulesByType.has(rule.type)) {
+          rulesByType.set(rule.type, rule);
+        }
+      }
+
+      const now = new Date();
+      const items = [...rulesByType.values()]
+        .filter(rule => rule.isActive)
+        .map(rule => this.computeDueItem(
+          rule,
+          records.find(record => record.type === rule.type && record.completedAt) ?? null,
+          truck,
+          now
+        ))
+        .sort((a, b) =>
+          DUE_STATUS_RANK[b.status] - DUE_STATUS_RANK[a.status] ||
+          (a.nextDueDate?.getTime() ?? Infinity) - (b.nextDueDate?.getTime() ?? Infinity) ||
+          (a.kmRemaining ?? Infinity) - (b.kmRemaining ?? Infinity)
+        );
+
+      return {
+        truck: {
+          id: truck.id,
+          licensePlate: truck.licensePlate,
+          model: truck.model,
+          odometer: truck.odometer
+        },
+        inShop: records.some(record => !record.completedAt),
+        lastMaintenance: records.length > 0 ? this.formatRecordResponse(records[0]) : null,
+        nextMaintenance: items[0] ?? null,
+        maintenanceStatus: items[0]?.status ?? 'OK',
+        items
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Schedules of the active trucks with services due soon or overdue
+   */
+  async getDueMaintenance(): Promise<MaintenanceScheduleResponse[]> {
+    try {
+      const trucks = await prisma.truck.findMany({
+        where: { isActive: true },
+        select: { id: true },
+        orderBy: { licensePlate: 'asc' }
+      });
+
+      const schedules = [];
+      for (const truck of trucks) {
+        const schedule = await this.getMaintenanceSchedule(truck.id);
+        if (schedule.maintenanceStatus !== 'OK') {
+          schedules.push(schedule);
+        }
+      }
+
+      return schedules;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Open a ticket for each overdue service that does not have one yet
+   */
+  async checkOverdueMaintenance(): Promise<OverdueMaintenance[]> {
+    try {
+      const overdue: OverdueMaintenance[] = [];
+
+      for (const schedule of await this.getDueMaintenance()) {
+        for (const item of schedule.items.filter(entry => entry.status === 'OVERDUE')) {
+          const existingTicket = await prisma.maintenanceTicket.findFirst({
+            where: {
+              truckId: schedule.truck.id,
+              ruleId: item.ruleId,
+              status: { in: OPEN_TICKET_STATUSES }
+            }
+          });
+
+          if (existingTicket) {
+            continue;
+          }
+
+          const ticket = await prisma.maintenanceTicket.create({
+            data: {
+              truckId: schedule.truck.id,
+              ruleId: item.ruleId,
+              title: `Scheduled service overdue: ${item.type}`,
+              description: [
+                item.nextDueDate && `Due ${item.nextDueDate.toISOString().split('T')[0]}`,
+                item.nextDueOdometer !== null && `Due at ${item.nextDueOdometer} km`
+              ].filter(Boolean).join(', ')
+            }
+          });
+
+          overdue.push({
+            truckId: schedule.truck.id,
+            licensePlate: schedule.truck.licensePlate,
+            item,
+            ticketId: ticket.id
+          });
+        }
+      }
+
+      return overdue;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Close the overdue-service tickets a completed service takes care of
+   */
+  private async resolveServiceTickets(truckId: string, type: string): Promise<void> {
+    await prisma.maintenanceTicket.updateMany({
+      where: {
+        truckId,
+        rule: { type },
+        status: { in: OPEN_TICKET_STATUSES }
+      },
+      data: {
+        status: MaintenanceTicketStatus.RESOLVED,
+        resolvedAt: new Date(),
+        resolutionNotes: 'Resolved by completed maintenance record'
+      }
+    });
+  }
+
+  private assertServicePeriod(serviceDate: Date, completedAt: Date | null): void {
+    if (completedAt && completedAt < serviceDate) {
+      const error: AppError = new Error('Completion date cannot be before the service date');
+      error.statusCode = 400;
+      throw error;
+    }
+  }
+
+  /**
+   * When a service next falls due, counted from the last time it was done.
+   * A service never done is counted from when the truck joined the fleet.
+   */
+  private computeDueItem(
+    rule: { id: string; type: string; intervalDays: number | null; intervalKm: number | null },
+    lastRecord: { serviceDate: Date; completedAt: Date | null; odometer: number | null } | null,
+    truck: { createdAt: Date; odometer: number | null },
+    now: Date
+  ): MaintenanceDueItem {
+    const baseDate = lastRecord ? lastRecord.completedAt! : truck.createdAt;
+    const baseOdometer = lastRecord ? lastRecord.odometer : 0;
+
+    const nextDueDate = rule.intervalDays
+      ? new Date(baseDate.getTime() + rule.intervalDays * 24 * 60 * 60 * 1000)
+      : null;
+    const nextDueOdometer = rule.intervalKm && baseOdometer !== null
+      ? baseOdometer + rule.intervalKm
+      : null;
+    const kmRemaining = nextDueOdometer !== null && truck.odometer !== null
+      ? nextDueOdometer - truck.odometer
+      : null;
+
+    let status: MaintenanceDueStatus = 'OK';
+    if ((nextDueDate && nextDueDate <= now) || (kmRemaining !== null && kmRemaining <= 0)) {
+      status = 'OVERDUE';
+    } else if (
+      (nextDueDate && nextDueDate.getTime() - now.getTime() <= DUE_SOON_DAYS * 24 * 60 * 60 * 1000) ||
+      (kmRemaining !== null && kmRemaining <= DUE_SOON_KM)
+    ) {
+      status = 'DUE_SOON';
+    }
+
+    return {
+      ruleId: rule.id,
+      type: rule.type,
+      intervalDays: rule.intervalDays,
+      intervalKm: rule.intervalKm,
+      lastServiceDate: lastRecord?.serviceDate ?? null,
+      lastServiceOdometer: lastRecord?.odometer ?? null,
+      nextDueDate,
+      nextDueOdometer,
+      kmRemaining,
+      status
+    };
+  }
+
+  private formatRecordResponse(record: any): MaintenanceRecordResponse {
+    return {
+      id: record.id,
+      truckId: record.truckId,
+      type: record.type,
+      serviceDate: record.serviceDate,
+      completedAt: record.completedAt,
+      inShop: !record.completedAt,
+      odometer: record.odometer,
+      cost: record.cost !== null ? Number(record.cost) : null,
+      vendor: record.vendor,
+      notes: record.notes,
+      createdAt: record.createdAt
+    };
+  }
+
+  private formatRuleResponse(rule: any): MaintenanceRuleResponse {
+    return {
+      id: rule.id,
+      truckId: rule.truckId,
+      type: rule.type,
+      description: rule.description,
+      intervalDays: rule.intervalDays,
+      intervalKm: rule.intervalKm,
+      isActive: rule.isActive
+    };
+  }
+
+  private formatTicketResponse(ticket: any): MaintenanceTicketResponse {
+    return {
+      id: ticket.id,
+      truckId: ticket.truckId,
+      truck: ticket.truck,
+      inspectionId: ticket.inspectionId,
+      faultCode: ticket.faultCode,
+      title: ticket.title,
+      description: ticket.description,
+      isCritical: ticket.isCritical,
+      status: ticket.status,
+      resolvedAt: ticket.resolvedAt,
+      resolutionNotes: ticket.resolutionNotes,
+      createdAt: ticket.createdAt,
+      updatedAt: ticket.updatedAt
+    };
+  }
+}
@@ -0,0 +1,300 @@
+// src/services/mfaService.ts
+import { PrismaClient } from '@prisma/client';
+import {
+  MfaEnrollmentResponse,
+  MfaRecoveryCodesResponse,
+  MfaStatusResponse
+} from '@/types/mfa';
+import { MfaLoginRequest } from '@/types/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { env } from '@/config/env';
+import { PolicyService } from '@/services/policyService';
+import { SessionService } from '@/services/sessionService';
+import {
+  generateTotpSecret,
+  buildTotpUri,
+  matchTotpStep,
+  generateRecoveryCode,
+  hashRecoveryCode
+} from '@/utils/totp';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Recovery codes issued at enrolment and on regeneration
+const RECOVERY_CODE_COUNT = 10;
+
+export class MfaService {
+  private policyService: PolicyService;
+  private sessionService: SessionService;
+
+  constructor() {
+    this.policyService = new PolicyService();
+    this.sessionService = new SessionService();
+  }
+
+  /**
+   * Whether a user has a second factor, and whether their role requires one
+   */
+  async getStatus(userId: string, role: string): Promise<MfaStatusResponse> {
+    try {
+      const user = await this.findUser(userId);
+
+      const recoveryCodesRemaining = await prisma.mfaRecoveryCode.count({
+        where: { userId, usedAt: null }
+      });
+
+      return {
+        enabled: user.mfaEnabled,
+        required: await this.policyService.requiresMfa(role),
+        recoveryCodesRemaining
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Start enrolling an authenticator. The secret only takes effect once a code
+   * from the authenticator confirms it; starting again replaces it.
+   */
+  async beginEnrollment(userId: string): Promise<MfaEnrollmentResponse> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.mfaEnabled) {
+        const error: AppError = new Error('Two-factor authentication is already enabled');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const secret = generateTotpSecret();
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaSecret: secret,
+          mfaLastUsedStep: null
+        }
+      });
+
+      return {
+        secret,
+        otpauthUri: buildTotpUri(secret, user.email, env.MFA_ISSUER)
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Switch on two-factor authentication with a code from the newly enrolled
+   * authenticator, returning the recovery codes
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<MfaRecoveryCodesResponse> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.mfaEnabled) {
+        const error: AppError = new Error('Two-factor authentication is already enabled');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      if (!user.mfaSecret) {
+        const error: AppError = new Error('Start enrolment before confirming it');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      await this.verifyTotp(userId, user.mfaSecret, code);
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { mfaEnabled: true }
+      });
+
+      return {
+        recoveryCodes: await this.replaceRecoveryCodes(userId)
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a user's recovery codes, for instance once most have been used
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<MfaRecoveryCodesResponse> {
+    try {
+      const user = await this.findEnrolledUser(userId);
+
+      await this.verifyTotp(userId, user.mfaSecret!, code);
+
+      return {
+        recoveryCodes: await this.replaceRecoveryCodes(userId)
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Switch off two-factor authentication, unless the user's role requires it
+   */
+  async disable(userId: string, role: string, code: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const user = await this.findEnrolledUser(userId);
+
+      if (await this.policyService.requiresMfa(role)) {
+        const error: AppError = new Error('Your role requires two-factor authentication');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      await this.verifyTotp(userId, user.mfaSecret!, code);
+      await this.clearSecondFactor(userId);
+
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user's second factor on an administrator's behalf, for a user who has
+   * lost their authenticator and recovery codes. The user is signed out everywhere
+   * and must enrol again if their role requires it.
+   */
+  async resetUser(userId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await this.findUser(userId);
+
+      await this.clearSecondFactor(userId);
+      await this.sessionService.revokeAllSessions(userId);
+
+      return {
+        success: true,
+        message: 'Two-factor authentication reset successfully'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Check the second factor given at sign-in: a code from the authenticator or an
+   * unused recovery code
+   */
+  async verifySecondFactor(userId: string, data: Pick<MfaLoginRequest, 'code' | 'recoveryCode'>): Promise<void> {
+    try {
+      const user = await this.findEnrolledUser(userId);
+
+      if (data.code) {
+        await this.verifyTotp(userId, user.mfaSecret!, data.code);
+        return;
+      }
+
+      const { count } = await prisma.mfaRecoveryCode.updateMany({
+        where: {
+          userId,
+          codeHash: hashRecoveryCode(data.recoveryCode || ''),
+          usedAt: null
+        },
+        data: { usedAt: new Date() }
+      });
+
+      if (count === 0) {
+        const error: AppError = new Error('Invalid recovery code');
+        error.statusCode = 401;
+        throw error;
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Accept an authenticator code at most once. Recording the code's time step only
+   * if it is later than the last one accepted stops a code from being replayed.
+   */
+  private async verifyTotp(userId: string, secret: string, code: string): Promise<void> {
+    const step = matchTotpStep(secret, code);
+
+    const accepted = step !== null && (await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }]
+      },
+      data: { mfaLastUsedStep: step }
+    })).count > 0;
+
+    if (!accepted) {
+      const error: AppError = new Error('Invalid authentication code');
+      error.statusCode = 401;
+      throw error;
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () => generateRecoveryCode());
+
+    await prisma.$transaction([
+      prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.mfaRecoveryCode.createMany({
+        data: recoveryCodes.map(code => ({ userId, codeHash: hashRecoveryCode(code) }))
+      })
+    ]);
+
+    return recoveryCodes;
+  }
+
+  private async clearSecondFactor(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaSecret: null,
+          mfaEnabled: false,
+          mfaLastUsedStep: null
+        }
+      }),
+      prisma.mfaRecoveryCode.deleteMany({ where: { userId } })
+    ]);
+  }
+
+  private async findUser(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        mfaSecret: true,
+        mfaEnabled: true
+      }
+    });
+
+    if (!user) {
+      const error: AppError = new Error('User not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return user;
+  }
+
+  private async findEnrolledUser(userId: string) {
+    const user = await this.findUser(userId);
+
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      const error: AppError = new Error('Two-factor authentication is not enabled');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return user;
+  }
+}
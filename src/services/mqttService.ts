@@ -1,17 +1,41 @@
 // src/services/mqttService.ts
 import mqtt from 'mqtt';
 import { env } from '../config/env';
-import { BinService } from '../services/binService';
+import { DeviceService } from '../services/deviceService';
+import { BinEventService } from '../services/binEventService';
+import { BinCommandService } from '../services/binCommandService';
 import { RealtimeBinService } from '../services/realtimeBinService';
+import { TelematicsService } from '../services/telematicsService';
+import { GatewayService } from '../services/gatewayService';
 import { BinSensorDataRequest } from '@/types/bin';
+import {
+  BinStatusMessage,
+  BinAlertMessage,
+  BinAlertType,
+  GatewayHealthMessage,
+  GatewayHealthStatus
+} from '@/types/binEvent';
+import { BinCommandAckMessage, BinCommandMessage } from '@/types/binCommand';
+import { TelemetryReading, AuthenticatedTelematicsUnit } from '@/types/telemetry';
+import { AuthenticatedDevice } from '@/types/device';
+import { AuthenticatedGateway } from '@/types/gateway';
+import { runWithTenant } from '@/utils/tenantContext';
 
 export class MQTTService {
   private client: mqtt.MqttClient;
-  private binService: BinService;
+  private deviceService: DeviceService;
+  private binEventService: BinEventService;
+  private binCommandService: BinCommandService;
   private realtimeService: RealtimeBinService;
+  private telematicsService: TelematicsService;
+  private gatewayService: GatewayService;
 
   constructor(realtimeService: RealtimeBinService) {
-    this.binService = new BinService();
+    this.deviceService = new DeviceService();
+    this.binEventService = new BinEventService();
+    this.binCommandService = new BinCommandService();
+    this.telematicsService = new TelematicsService();
+    this.gatewayService = new GatewayService();
     this.realtimeService = realtimeService;
 
     // Initialize MQTT client
@@ -64,7 +88,9 @@ export class MQTTService {
       'smartwaste/bins/+/data',        // Bin sensor data
       'smartwaste/bins/+/status',      // Bin status updates
       'smartwaste/bins/+/alert',       // Bin alerts
-      'smartwaste/system/health',      // System health
+      'smartwaste/bins/+/ack',         // Command acknowledgements
+      'smartwaste/system/health',      // Gateway health
+      'smartwaste/trucks/+/telemetry', // Truck telematics
     ];
 
     topics.forEach(topic => {
@@ -85,12 +111,10 @@ export class MQTTService {
     try {
       const data = JSON.parse(message);
       
-      if (topic.includes('/data')) {
-        await this.handleSensorData(topic, data);
-      } else if (topic.includes('/status')) {
-        await this.handleStatusUpdate(topic, data);
-      } else if (topic.includes('/alert')) {
-        await this.handleAlert(topic, data);
+      if (topic.startsWith('smartwaste/trucks/')) {
+        await this.handleTelemetry(topic, data);
+      } else if (topic.startsWith('smartwaste/bins/')) {
+        await this.handleBinMessage(topic, data);
       } else if (topic.includes('/health')) {
         await this.handleHealthUpdate(data);
       }
@@ -100,11 +124,35 @@ export class MQTTService {
   }
 
   /**
-   * Handle sensor data from bins
+   * Authenticate a message from a bin, then handle it within the organization
+   * the bin belongs to
    */
-  private async handleSensorData(topic: string, data: any) {
+  private async handleBinMessage(topic: string, data: any) {
     const binCode = this.extractBinCodeFromTopic(topic);
-    
+    const kind = topic.split('/')[3]; // smartwaste/bins/BINCODE/KIND
+
+    const device = await this.authenticateBinMessage(binCode, data, kind);
+    if (!device) {
+      return;
+    }
+
+    await runWithTenant(device.organizationId, async () => {
+      if (kind === 'data') {
+        await this.handleSensorData(binCode, data);
+      } else if (kind === 'status') {
+        await this.handleStatusUpdate(binCode, data);
+      } else if (kind === 'alert') {
+        await this.handleAlert(binCode, data);
+      } else if (kind === 'ack') {
+        await this.handleCommandAck(binCode, data);
+      }
+    });
+  }
+
+  /**
+   * Handle sensor data from bins
+   */
+  private async handleSensorData(binCode: string, data: any) {
     const sensorData: BinSensorDataRequest = {
       fillLevel: data.fillLevel,
       weight: data.weight,
@@ -114,45 +162,262 @@ export class MQTTService {
       signalStrength: data.signalStrength
     };
 
-    // Update database
-    await this.binService.updateSensorData(binCode, sensorData);
-
-    // Broadcast real-time update
+    // Store the reading and broadcast the real-time update. The realtime service
+    // persists the reading itself, so it must not be written here as well.
     await this.realtimeService.handleBinLevelUpdate({ binCode, sensorData });
 
     console.log(`📊 Sensor data updated for bin ${binCode}:`, sensorData);
   }
 
   /**
-   * Handle status updates from bins
+   * Handle status updates (lid and tilt state) from bins
    */
-  private async handleStatusUpdate(topic: string, data: any) {
-    const binCode = this.extractBinCodeFromTopic(topic);
-    
-    console.log(`📡 Status update for bin ${binCode}:`, data);
-    
-    // You can add custom status update logic here
+  private async handleStatusUpdate(binCode: string, data: any) {
+    const statusMessage = this.parseStatusMessage(data);
+    if (!statusMessage) {
+      console.warn(`⚠️ Ignoring malformed status update for bin ${binCode}:`, data);
+      return;
+    }
+
+    const recordedEvents = await this.binEventService.recordStatusUpdate(binCode, statusMessage);
+    for (const recorded of recordedEvents) {
+      await this.realtimeService.broadcastRecordedEvent(recorded);
+    }
+
+    console.log(`📡 Status update for bin ${binCode}:`, statusMessage);
   }
 
   /**
    * Handle alerts from bins
    */
-  private async handleAlert(topic: string, data: any) {
-    const binCode = this.extractBinCodeFromTopic(topic);
-    
-    console.log(`🚨 Alert from bin ${binCode}:`, data);
-    
-    // Broadcast emergency alert
-    this.realtimeService.broadcastEmergencyAlert(data.message, data.binId);
+  private async handleAlert(binCode: string, data: any) {
+    const alertMessage = this.parseAlertMessage(data);
+    if (!alertMessage) {
+      console.warn(`⚠️ Ignoring malformed alert for bin ${binCode}:`, data);
+      return;
+    }
+
+    const recorded = await this.binEventService.recordAlert(binCode, alertMessage);
+    if (recorded) {
+      await this.realtimeService.broadcastRecordedEvent(recorded);
+    }
+
+    console.log(`🚨 Alert from bin ${binCode}:`, alertMessage);
+  }
+
+  /**
+   * Handle command acknowledgements from bins
+   */
+  private async handleCommandAck(binCode: string, data: any) {
+    if (typeof data.commandId !== 'string' || typeof data.success !== 'boolean') {
+      console.warn(`⚠️ Ignoring malformed command ack for bin ${binCode}:`, data);
+      return;
+    }
+
+    const ack: BinCommandAckMessage = {
+      commandId: data.commandId,
+      success: data.success,
+      error: typeof data.error === 'string' ? data.error : undefined,
+      result: data.result
+    };
+
+    const command = await this.binCommandService.recordAck(binCode, ack);
+
+    if (command) {
+      console.log(`✅ Command ${command.id} (${command.type}) for bin ${binCode}: ${command.status}`);
+    }
   }
 
   /**
-   * Handle system health updates
+   * Authenticate a gateway health update, then record it within the organization
+   * the gateway belongs to
    */
   private async handleHealthUpdate(data: any) {
-    console.log('💓 System health update:', data);
-    
-    // You can add system health monitoring logic here
+    const healthMessage = this.parseGatewayHealthMessage(data);
+    if (!healthMessage) {
+      console.warn('⚠️ Ignoring malformed gateway health update:', data);
+      return;
+    }
+
+    let gateway: AuthenticatedGateway;
+    try {
+      gateway = await this.gatewayService.verifyGatewayCredentials({
+        gatewayId: healthMessage.gatewayId,
+        gatewaySecret: data.gatewaySecret
+      });
+    } catch (error: any) {
+      console.warn(`🚫 Rejected health update from gateway ${healthMessage.gatewayId}: ${error.message}`);
+      return;
+    }
+
+    await runWithTenant(gateway.organizationId, async () => {
+      const recorded = await this.binEventService.recordGatewayHealth(gateway, healthMessage);
+      if (recorded) {
+        await this.realtimeService.broadcastRecordedEvent(recorded);
+      }
+    });
+
+    console.log('💓 Gateway health update:', healthMessage);
+  }
+
+  /**
+   * Handle readings from a truck's telematics unit, one reading or a buffered batch
+   */
+  private async handleTelemetry(topic: string, data: any) {
+    const deviceId = topic.split('/')[2]; // smartwaste/trucks/DEVICEID/telemetry
+
+    let unit: AuthenticatedTelematicsUnit;
+    try {
+      unit = await this.telematicsService.verifyUnitCredentials({
+        deviceId,
+        deviceSecret: data.deviceSecret
+      });
+    } catch (error: any) {
+      console.warn(`🚫 Rejected telemetry from unit ${deviceId}: ${error.message}`);
+      return;
+    }
+
+    const readings = (Array.isArray(data.readings) ? data.readings : [data])
+      .map((reading: any) => this.parseTelemetryReading(reading))
+      .filter((reading: TelemetryReading | null): reading is TelemetryReading => reading !== null);
+
+    if (readings.length === 0) {
+      console.warn(`⚠️ Ignoring malformed telemetry from unit ${deviceId}:`, data);
+      return;
+    }
+
+    const result = await runWithTenant(unit.organizationId, () =>
+      this.telematicsService.ingestReadings(unit.truckId, readings)
+    );
+
+    console.log(`🚚 Telemetry from truck ${unit.truckId}: ${result.accepted} reading(s)`);
+  }
+
+  /**
+   * Verify that a bin message comes from the device bound to that bin
+   */
+  private async authenticateBinMessage(binCode: string, data: any, kind: string): Promise<AuthenticatedDevice | null> {
+    try {
+      return await this.deviceService.verifyDeviceCredentials(
+        binCode,
+        { deviceId: data.deviceId, deviceSecret: data.deviceSecret },
+        data.firmwareVersion
+      );
+    } catch (error: any) {
+      console.warn(`🚫 Rejected ${kind} message for bin ${binCode}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Validate a status topic payload
+   */
+  private parseStatusMessage(data: any): BinStatusMessage | null {
+    const message: BinStatusMessage = {};
+
+    if (data.lidOpen !== undefined) {
+      if (typeof data.lidOpen !== 'boolean') return null;
+      message.lidOpen = data.lidOpen;
+    }
+
+    if (data.tilted !== undefined) {
+      if (typeof data.tilted !== 'boolean') return null;
+      message.tilted = data.tilted;
+    }
+
+    if (data.tiltAngle !== undefined) {
+      if (typeof data.tiltAngle !== 'number') return null;
+      message.tiltAngle = data.tiltAngle;
+    }
+
+    return Object.keys(message).length > 0 ? message : null;
+  }
+
+  /**
+   * Validate an alert topic payload
+   */
+  private parseAlertMessage(data: any): BinAlertMessage | null {
+    const alertTypes: BinAlertType[] = ['LID_OPEN', 'TILT', 'FIRE', 'TAMPER', 'LOW_BATTERY'];
+
+    // Heat alerts from older firmware are treated as fire alerts
+    const type = data.type === 'HEAT' ? 'FIRE' : data.type;
+    if (!alertTypes.includes(type)) {
+      return null;
+    }
+
+    const numberOrUndefined = (value: any) => (typeof value === 'number' ? value : undefined);
+
+    return {
+      type,
+      message: typeof data.message === 'string' ? data.message : undefined,
+      temperature: numberOrUndefined(data.temperature),
+      batteryLevel: numberOrUndefined(data.batteryLevel),
+      tiltAngle: numberOrUndefined(data.tiltAngle)
+    };
+  }
+
+  /**
+   * Validate a gateway health payload
+   */
+  private parseGatewayHealthMessage(data: any): GatewayHealthMessage | null {
+    const statuses: GatewayHealthStatus[] = ['OK', 'DEGRADED', 'DOWN'];
+
+    if (typeof data.gatewayId !== 'string' || !statuses.includes(data.status)) {
+      return null;
+    }
+
+    const numberOrUndefined = (value: any) => (typeof value === 'number' ? value : undefined);
+
+    return {
+      gatewayId: data.gatewayId,
+      status: data.status,
+      uptime: numberOrUndefined(data.uptime),
+      connectedDevices: numberOrUndefined(data.connectedDevices),
+      signalStrength: numberOrUndefined(data.signalStrength),
+      batteryLevel: numberOrUndefined(data.batteryLevel)
+    };
+  }
+
+  /**
+   * Validate a telemetry reading. Malformed fields are dropped; a reading with no
+   * usable field at all is rejected.
+   */
+  private parseTelemetryReading(data: any): TelemetryReading | null {
+    if (typeof data !== 'object' || data === null) {
+      return null;
+    }
+
+    const numberIn = (value: any, min: number, max: number) =>
+      typeof value === 'number' && value >= min && value <= max ? value : undefined;
+
+    const reading: TelemetryReading = {
+      latitude: numberIn(data.latitude, -90, 90),
+      longitude: numberIn(data.longitude, -180, 180),
+      speed: numberIn(data.speed, 0, 300),
+      heading: numberIn(data.heading, 0, 360),
+      odometer: Number.isInteger(data.odometer) ? numberIn(data.odometer, 0, Number.MAX_SAFE_INTEGER) : undefined,
+      engineHours: numberIn(data.engineHours, 0, Number.MAX_SAFE_INTEGER),
+      fuelLevel: numberIn(data.fuelLevel, 0, 100),
+      faultCodes: Array.isArray(data.faultCodes)
+        ? data.faultCodes.filter((code: any) => typeof code === 'string' && /^[A-Za-z0-9-]{2,20}$/.test(code))
+        : undefined
+    };
+
+    // A fix needs both coordinates
+    if (reading.latitude === undefined || reading.longitude === undefined) {
+      reading.latitude = undefined;
+      reading.longitude = undefined;
+    }
+
+    if (typeof data.recordedAt === 'string' && !isNaN(Date.parse(data.recordedAt))) {
+      reading.recordedAt = data.recordedAt;
+    }
+
+    const hasData = Object.entries(reading).some(([key, value]) =>
+      key !== 'recordedAt' && value !== undefined && !(Array.isArray(value) && value.length === 0)
+    );
+
+    return hasData ? reading : null;
   }
 
   /**
@@ -173,7 +438,7 @@ export class MQTTService {
   /**
    * Send command to specific bin
    */
-  public sendBinCommand(binCode: string, command: any) {
+  public sendBinCommand(binCode: string, command: BinCommandMessage) {
     const topic = `smartwaste/bins/${binCode}/command`;
     this.publish(topic, command);
   }
@@ -0,0 +1,67 @@
+// src/services/nominatimGeocoderService.ts
+import { GeoPoint } from '../types/routing';
+
+export class NominatimGeocoderService {
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Geocode an address to coordinates
+   */
+  async geocode(address: string): Promise<GeoPoint> {
+    try {
+      const results = await this.request(`/search?format=json&limit=1&q=${encodeURIComponent(address)}`);
+
+      if (!Array.isArray(results) || results.length === 0) {
+        throw new Error(`Geocoding error: no results for "${address}"`);
+      }
+
+      return {
+        latitude: Number(results[0].lat),
+        longitude: Number(results[0].lon)
+      };
+    } catch (error) {
+      console.error('Error geocoding address:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse geocode coordinates to address
+   */
+  async reverseGeocode(coordinates: GeoPoint): Promise<string> {
+    try {
+      const result = await this.request(
+        `/reverse?format=json&lat=${coordinates.latitude}&lon=${coordinates.longitude}`
+      );
+
+      if (!result?.display_name) {
+        throw new Error(`Reverse geocoding error: ${result?.error || 'no results'}`);
+      }
+
+      return result.display_name;
+    } catch (error) {
+      console.error('Error reverse geocoding coordinates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Call the geocoder, which is optional alongside a self-hosted router
+   */
+  private async request(path: string): Promise<any> {
+    if (!this.baseUrl) {
+      throw new Error('Geocoding is not available: GEOCODER_URL is not set');
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with HTTP ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
@@ -148,6 +148,30 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Email a user the link that confirms their address
+   */
+  async sendEmailVerification(email: string, link: string): Promise<void> {
+    try {
+      const message = `Confirm your email address for Smart Waste: ${link}`;
+      await this.sendEmailNotification([email], message, 'EMAIL_VERIFICATION');
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
+  }
+
+  /**
+   * Email a user the link that lets them choose a new password
+   */
+  async sendPasswordReset(email: string, link: string): Promise<void> {
+    try {
+      const message = `Reset your Smart Waste password: ${link}. If you did not ask for this, ignore this email.`;
+      await this.sendEmailNotification([email], message, 'PASSWORD_RESET');
+    } catch (error) {
+      console.error('Error sending password reset email:', error);
+    }
+  }
+
   /**
    * Send pickup completion notification to user
    */
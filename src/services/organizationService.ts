@@ -0,0 +1,231 @@
+// src/services/organizationService.ts
+import bcrypt from 'bcryptjs';
+import { PrismaClient, UserRole } from '@prisma/client';
+import {
+  CreateOrganizationRequest,
+  UpdateOrganizationRequest,
+  OrganizationResponse,
+  OrganizationListQuery
+} from '@/types/organization';
+import { AppError } from '@/middleware/errorHandler';
+import { runWithTenant } from '@/utils/tenantContext';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+const organizationCounts = {
+  _count: {
+    select: {
+      users: true,
+      bins: true,
+      drivers: true,
+      trucks: true
+    }
+  }
+};
+
+export class OrganizationService {
+  /**
+   * Onboard an organization together with its first administrator
+   */
+  async createOrganization(data: CreateOrganizationRequest): Promise<OrganizationResponse> {
+    try {
+      const slug = data.slug.toLowerCase();
+
+      const existingOrganization = await prisma.organization.findFirst({
+        where: {
+          OR: [{ slug }, { name: data.name }]
+        }
+      });
+
+      if (existingOrganization) {
+        const error: AppError = new Error('Organization with this name or slug already exists');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      // Emails sign users in, so they are unique across every organization
+      const existingUser = await runWithTenant(null, () =>
+        prisma.user.findUnique({
+          where: { email: data.admin.email }
+        })
+      );
+
+      if (existingUser) {
+        const error: AppError = new Error('User with this email already exists');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const hashedPassword = await bcrypt.hash(data.admin.password, 12);
+
+      const organization = await prisma.$transaction(async (tx) => {
+        const created = await tx.organization.create({
+          data: {
+            name: data.name,
+            slug
+          }
+        });
+
+        // Create the administrator as a member of the new organization, whichever
+        // organization the super-admin is currently acting for
+        await runWithTenant(created.id, () =>
+          tx.user.create({
+            data: {
+              email: data.admin.email,
+              passwordHash: hashedPassword,
+              fullName: data.admin.fullName,
+              phone: data.admin.phone,
+              role: UserRole.ADMIN
+            }
+          })
+        );
+
+        return created;
+      });
+
+      return this.getOrganizationById(organization.id);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get all organizations with filtering and pagination
+   */
+  async getOrganizations(query: OrganizationListQuery) {
+    try {
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {};
+
+      if (query.isActive !== undefined) {
+        whereClause.isActive = String(query.isActive) === 'true';
+      }
+
+      if (query.search) {
+        whereClause.OR = [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { slug: { contains: query.search, mode: 'insensitive' } }
+        ];
+      }
+
+      const [organizations, totalCount] = await Promise.all([
+        prisma.organization.findMany({
+          where: whereClause,
+          include: organizationCounts,
+          skip,
+          take: limit,
+          orderBy: { name: 'asc' }
+        }),
+        prisma.organization.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: organizations.map(organization => this.formatOrganizationResponse(organization)),
+        pagination: {
+          page,
+          limit,
+          total: totalCount,
+          totalPages: Math.ceil(totalCount / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get organization by ID
+   */
+  async getOrganizationById(organizationId: string): Promise<OrganizationResponse> {
+    try {
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        include: organizationCounts
+      });
+
+      if (!organization) {
+        const error: AppError = new Error('Organization not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatOrganizationResponse(organization);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Rename an organization or switch it on or off. The members of a deactivated
+   * organization can no longer sign in or refresh their tokens.
+   */
+  async updateOrganization(organizationId: string, data: UpdateOrganizationRequest): Promise<OrganizationResponse> {
+    try {
+      await this.getOrganizationById(organizationId);
+
+      if (data.name) {
+        const nameTaken = await prisma.organization.findFirst({
+          where: {
+            name: data.name,
+            id: { not: organizationId }
+          }
+        });
+
+        if (nameTaken) {
+          const error: AppError = new Error('Organization with this name already exists');
+          error.statusCode = 400;
+          throw error;
+        }
+      }
+
+      await prisma.organization.update({
+        where: { id: organizationId },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.isActive !== undefined && { isActive: data.isActive })
+        }
+      });
+
+      return this.getOrganizationById(organizationId);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Run a background job once for each active organization, within that organization,
+   * so that it only ever matches up bins, drivers and trucks of the same organization.
+   * A failure in one organization does not stop the others.
+   */
+  async forEachOrganization(job: (organizationId: string) => Promise<void>): Promise<void> {
+    const organizations = await prisma.organization.findMany({
+      where: { isActive: true },
+      select: { id: true, slug: true }
+    });
+
+    for (const organization of organizations) {
+      try {
+        await runWithTenant(organization.id, () => job(organization.id));
+      } catch (error) {
+        console.error(`Error running job for organization ${organization.slug}:`, error);
+      }
+    }
+  }
+
+  private formatOrganizationResponse(organization: any): OrganizationResponse {
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      isActive: organization.isActive,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt,
+      _count: organization._count
+    };
+  }
+}
@@ -0,0 +1,624 @@
+// src/services/osmGraphRoutingService.ts
+import { promises as fs } from 'fs';
+import { env } from '../config/env';
+import {
+  GeoPoint,
+  RouteRequest,
+  RouteResponse,
+  DistanceMatrixRequest,
+  DistanceMatrixResponse,
+  RoutingProvider,
+  RoutingProviderName
+} from '../types/routing';
+import { encodePolyline, haversineDistance } from '../utils/geo';
+
+// Typical speeds in km/h per OSM highway class, used when a way has no maxspeed
+const HIGHWAY_SPEEDS_KMH: Record<string, number> = {
+  motorway: 90,
+  motorway_link: 45,
+  trunk: 70,
+  trunk_link: 40,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  road: 30,
+  residential: 25,
+  living_street: 10,
+  service: 15
+};
+// Travel between a point and the nearest road, e.g. a bin set back from the street
+const OFF_NETWORK_SPEED_KMH = 10;
+// Spatial index cell size, roughly 550 m
+const GRID_CELL_DEGREES = 0.005;
+// Points further than this many cells from any road cannot be routed
+const MAX_SNAP_RINGS = 20;
+
+// An Overpass API JSON element
+interface OsmElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  tags?: Record<string, string>;
+}
+
+interface RoadEdge {
+  to: number;
+  distance: number; // in meters
+  duration: number; // in seconds
+  name: number; // Index into RoadGraph.names, -1 when unnamed
+}
+
+interface RoadGraph {
+  latitudes: Float64Array;
+  longitudes: Float64Array;
+  edges: RoadEdge[][]; // Outgoing edges per node
+  nodeNames: Int32Array; // Street name per node, -1 when unnamed
+  names: string[];
+  grid: Map<string, number[]>; // Routable nodes per cell
+  streets: Map<string, number>; // Lower-cased street name to a node on it
+}
+
+interface SnappedPoint {
+  node: number;
+  distance: number; // Meters between the point and the node
+}
+
+interface SearchResult {
+  durations: Float64Array;
+  distances: Float64Array;
+  previousEdge: Array<RoadEdge | null>;
+  previousNode: Int32Array;
+}
+
+/**
+ * Binary min-heap of nodes keyed by travel time
+ */
+class NodeQueue {
+  private keys: number[] = [];
+  private nodes: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, key: number): void {
+    this.keys.push(key);
+    this.nodes.push(node);
+    let index = this.nodes.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.keys[parent] <= key) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): { node: number; key: number } {
+    const top = { node: this.nodes[0], key: this.keys[0] };
+    const lastNode = this.nodes.pop()!;
+    const lastKey = this.keys.pop()!;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.keys[0] = lastKey;
+      let index = 0;
+
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.nodes.length && this.keys[left] < this.keys[smallest]) {
+          smallest = left;
+        }
+        if (right < this.nodes.length && this.keys[right] < this.keys[smallest]) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+  }
+}
+
+/**
+ * Fully offline routing over an OpenStreetMap extract exported as Overpass JSON,
+ * e.g. `[out:json];(way["highway"](bbox);>;);out;`. The extract is loaded into
+ * memory on first use and routed with Dijkstra's algorithm on travel time.
+ */
+export class OsmGraphRoutingService implements RoutingProvider {
+  readonly name: RoutingProviderName = 'OSM_GRAPH';
+  private graphPath: string;
+  private graph: Promise<RoadGraph> | null = null;
+
+  constructor(graphPath: string = env.OSM_GRAPH_PATH) {
+    this.graphPath = graphPath;
+  }
+
+  /**
+   * Get route between two points with optional waypoints, visited in order
+   */
+  async getRoute(request: RouteRequest): Promise<RouteResponse> {
+    try {
+      const graph = await this.loadGraph();
+      const points = [request.origin, ...(request.waypoints || []), request.destination];
+      const shape: GeoPoint[] = [request.origin];
+      const steps: NonNullable<RouteResponse['steps']> = [];
+      let stepName: number | null = null;
+      let distance = 0;
+      let duration = 0;
+
+      for (let i = 1; i < points.length; i++) {
+        const from = this.snap(graph, points[i - 1]);
+        const to = this.snap(graph, points[i]);
+        const search = this.search(graph, from.node, new Set([to.node]));
+
+        if (search.durations[to.node] === Infinity) {
+          throw new Error(`No road route between stops ${i} and ${i + 1}`);
+        }
+
+        // Walk back from the target to recover the edges driven
+        const path: Array<{ from: number; edge: RoadEdge }> = [];
+        for (let node = to.node; node !== from.node; node = search.previousNode[node]) {
+          path.unshift({ from: search.previousNode[node], edge: search.previousEdge[node]! });
+        }
+
+        distance += from.distance + search.distances[to.node] + to.distance;
+        duration += this.offNetworkSeconds(from.distance) + search.durations[to.node] + this.offNetworkSeconds(to.distance);
+
+        for (const { edge } of path) {
+          shape.push(this.nodePoint(graph, edge.to));
+
+          // Consecutive edges on the same street make up one step
+          if (steps.length > 0 && edge.name === stepName) {
+            steps[steps.length - 1].distance += edge.distance;
+            steps[steps.length - 1].duration += edge.duration;
+          } else {
+            const streetName = edge.name >= 0 ? graph.names[edge.name] : 'unnamed road';
+            steps.push({
+              instruction: `${steps.length === 0 ? 'Head along' : 'Continue onto'} ${streetName}`,
+              distance: edge.distance,
+              duration: edge.duration
+            });
+            stepName = edge.name;
+          }
+        }
+
+        shape.push(points[i]);
+      }
+
+      return {
+        distance: Math.round(distance),
+        duration: Math.round(duration),
+        polyline: encodePolyline(shape),
+        steps: steps.map(step => ({
+          ...step,
+          distance: Math.round(step.distance),
+          duration: Math.round(step.duration)
+        }))
+      };
+    } catch (error) {
+      console.error('Error getting route from road graph:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get distance matrix for multiple origins and destinations
+   */
+  async getDistanceMatrix(request: DistanceMatrixRequest): Promise<DistanceMatrixResponse> {
+    try {
+      const graph = await this.loadGraph();
+      const targets = request.destinations.map(point => this.snap(graph, point));
+      const targetNodes = new Set(targets.map(target => target.node));
+      const distances: number[][] = [];
+      const durations: number[][] = [];
+
+      request.origins.forEach((origin, i) => {
+        const source = this.snap(graph, origin);
+        const search = this.search(graph, source.node, targetNodes);
+        distances[i] = [];
+        durations[i] = [];
+
+        targets.forEach((target, j) => {
+          // Points snapped to the same road node are reached directly
+          if (target.node === source.node) {
+            const direct = haversineDistance(origin, request.destinations[j]);
+            distances[i][j] = direct;
+            durations[i][j] = this.offNetworkSeconds(direct);
+            return;
+          }
+
+          distances[i][j] = source.distance + search.distances[target.node] + target.distance;
+          durations[i][j] = this.offNetworkSeconds(source.distance) +
+            search.durations[target.node] +
+            this.offNetworkSeconds(target.distance);
+        });
+      });
+
+      return { distances, durations };
+    } catch (error) {
+      console.error('Error getting distance matrix from road graph:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Geocode an address to a point on the best matching street
+   */
+  async geocode(address: string): Promise<GeoPoint> {
+    try {
+      const graph = await this.loadGraph();
+      const query = address.trim().toLowerCase();
+
+      let match = graph.streets.get(query);
+
+      if (match === undefined) {
+        // Prefer the longest street name mentioned in the address, e.g. "12 Siaka Stevens Street, Freetown"
+        let bestLength = 0;
+        graph.streets.forEach((node, street) => {
+          if (street.length > bestLength && (query.includes(street) || street.includes(query))) {
+            match = node;
+            bestLength = street.length;
+          }
+        });
+      }
+
+      if (match === undefined) {
+        throw new Error(`Geocoding error: no street matching "${address}"`);
+      }
+
+      return this.nodePoint(graph, match);
+    } catch (error) {
+      console.error('Error geocoding address:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse geocode coordinates to the name of the nearest named street
+   */
+  async reverseGeocode(coordinates: GeoPoint): Promise<string> {
+    try {
+      const graph = await this.loadGraph();
+      const { node } = this.snap(graph, coordinates, true);
+
+      return graph.names[graph.nodeNames[node]];
+    } catch (error) {
+      console.error('Error reverse geocoding coordinates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load the road graph once and share it between requests
+   */
+  private loadGraph(): Promise<RoadGraph> {
+    if (!this.graph) {
+      this.graph = this.buildGraph().catch(error => {
+        // Allow a retry once the extract has been fixed
+        this.graph = null;
+        throw error;
+      });
+    }
+
+    return this.graph;
+  }
+
+  /**
+   * Build a routable graph from the truck-accessible highways in the extract
+   */
+  private async buildGraph(): Promise<RoadGraph> {
+    const startedAt = Date.now();
+    const raw = JSON.parse(await fs.readFile(this.graphPath, 'utf8'));
+    const elements: OsmElement[] = raw.elements || [];
+
+    const coordinates = new Map<number, [number, number]>();
+    for (const element of elements) {
+      if (element.type === 'node' && element.lat !== undefined && element.lon !== undefined) {
+        coordinates.set(element.id, [element.lat, element.lon]);
+      }
+    }
+
+    const indexByOsmId = new Map<number, number>();
+    const latitudes: number[] = [];
+    const longitudes: number[] = [];
+    const edges: RoadEdge[][] = [];
+    const nodeNames: number[] = [];
+    const names: string[] = [];
+    const nameIndex = new Map<string, number>();
+    const streets = new Map<string, number>();
+
+    const nodeIndex = (osmId: number): number => {
+      let index = indexByOsmId.get(osmId);
+      if (index === undefined) {
+        const [lat, lon] = coordinates.get(osmId)!;
+        index = latitudes.length;
+        indexByOsmId.set(osmId, index);
+        latitudes.push(lat);
+        longitudes.push(lon);
+        edges.push([]);
+        nodeNames.push(-1);
+      }
+      return index;
+    };
+
+    for (const element of elements) {
+      const tags = element.tags || {};
+      if (element.type !== 'way' || !element.nodes || !this.isTruckRoad(tags)) {
+        continue;
+      }
+
+      const wayNodes = element.nodes.filter(id => coordinates.has(id)).map(nodeIndex);
+      const speed = this.waySpeed(tags);
+      const direction = this.wayDirection(tags);
+
+      let name = -1;
+      if (tags.name) {
+        name = nameIndex.get(tags.name) ?? names.push(tags.name) - 1;
+        nameIndex.set(tags.name, name);
+        if (!streets.has(tags.name.toLowerCase())) {
+          streets.set(tags.name.toLowerCase(), wayNodes[Math.floor(wayNodes.length / 2)]);
+        }
+      }
+
+      for (let i = 1; i < wayNodes.length; i++) {
+        const a = wayNodes[i - 1];
+        const b = wayNodes[i];
+        const distance = haversineDistance(
+          { latitude: latitudes[a], longitude: longitudes[a] },
+          { latitude: latitudes[b], longitude: longitudes[b] }
+        );
+        const duration = (distance / 1000 / speed) * 60 * 60;
+
+        if (direction >= 0) {
+          edges[a].push({ to: b, distance, duration, name });
+        }
+        if (direction <= 0) {
+          edges[b].push({ to: a, distance, duration, name });
+        }
+
+        for (const node of [a, b]) {
+          if (nodeNames[node] === -1) {
+            nodeNames[node] = name;
+          }
+        }
+      }
+    }
+
+    if (latitudes.length === 0) {
+      throw new Error(`No truck-accessible roads found in ${this.graphPath}`);
+    }
+
+    const graph: RoadGraph = {
+      latitudes: Float64Array.from(latitudes),
+      longitudes: Float64Array.from(longitudes),
+      edges,
+      nodeNames: Int32Array.from(nodeNames),
+      names,
+      grid: new Map(),
+      streets
+    };
+
+    // Only index the main road network, so points never snap onto an isolated fragment
+    const component = this.largestComponent(graph);
+    for (let node = 0; node < latitudes.length; node++) {
+      if (component[node]) {
+        const key = this.cellKey(this.cell(latitudes[node]), this.cell(longitudes[node]));
+        const cell = graph.grid.get(key) || [];
+        cell.push(node);
+        graph.grid.set(key, cell);
+      }
+    }
+
+    console.log(`🗺️ Road graph loaded: ${latitudes.length} nodes from ${this.graphPath} in ${Date.now() - startedAt}ms`);
+
+    return graph;
+  }
+
+  /**
+   * Roads a refuse truck may legally drive on
+   */
+  private isTruckRoad(tags: Record<string, string>): boolean {
+    if (!tags.highway || HIGHWAY_SPEEDS_KMH[tags.highway] === undefined) {
+      return false;
+    }
+
+    const blocked = ['no', 'private'];
+    return !blocked.includes(tags.access) &&
+      !blocked.includes(tags.motor_vehicle) &&
+      !blocked.includes(tags.hgv) &&
+      tags.area !== 'yes';
+  }
+
+  /**
+   * Speed on a way in km/h, from maxspeed when it is numeric
+   */
+  private waySpeed(tags: Record<string, string>): number {
+    const maxspeed = parseFloat(tags.maxspeed);
+    if (Number.isFinite(maxspeed) && maxspeed > 0) {
+      return tags.maxspeed.includes('mph') ? maxspeed * 1.609 : maxspeed;
+    }
+
+    return HIGHWAY_SPEEDS_KMH[tags.highway];
+  }
+
+  /**
+   * 1 for one-way along the node order, -1 for one-way against it, 0 for both ways
+   */
+  private wayDirection(tags: Record<string, string>): number {
+    if (tags.oneway === '-1') {
+      return -1;
+    }
+
+    if (['yes', 'true', '1'].includes(tags.oneway)) {
+      return 1;
+    }
+
+    // Roundabouts and motorways are one-way unless tagged otherwise
+    if (tags.oneway !== 'no' && (tags.junction === 'roundabout' || tags.highway === 'motorway')) {
+      return 1;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Mark the nodes of the largest connected part of the network, ignoring direction
+   */
+  private largestComponent(graph: RoadGraph): Uint8Array {
+    const count = graph.latitudes.length;
+    const parent = Int32Array.from({ length: count }, (_, index) => index);
+    const find = (node: number): number => {
+      while (parent[node] !== node) {
+        parent[node] = parent[parent[node]];
+        node = parent[node];
+      }
+      return node;
+    };
+
+    graph.edges.forEach((edges, from) => {
+      for (const edge of edges) {
+        parent[find(from)] = find(edge.to);
+      }
+    });
+
+    const sizes = new Map<number, number>();
+    let largest = 0;
+    for (let node = 0; node < count; node++) {
+      const root = find(node);
+      const size = (sizes.get(root) || 0) + 1;
+      sizes.set(root, size);
+      if (size > (sizes.get(largest) || 0)) {
+        largest = root;
+      }
+    }
+
+    const component = new Uint8Array(count);
+    for (let node = 0; node < count; node++) {
+      component[node] = find(node) === largest ? 1 : 0;
+    }
+
+    return component;
+  }
+
+  /**
+   * Nearest road node to a point, searching outwards ring by ring
+   */
+  private snap(graph: RoadGraph, point: GeoPoint, namedOnly: boolean = false): SnappedPoint {
+    const row = this.cell(point.latitude);
+    const column = this.cell(point.longitude);
+    let best = null as SnappedPoint | null;
+
+    for (let ring = 0; ring <= MAX_SNAP_RINGS; ring++) {
+      for (let r = row - ring; r <= row + ring; r++) {
+        for (let c = column - ring; c <= column + ring; c++) {
+          // Only the border of the ring is new
+          if (Math.abs(r - row) !== ring && Math.abs(c - column) !== ring) {
+            continue;
+          }
+
+          for (const node of graph.grid.get(this.cellKey(r, c)) || []) {
+            if (namedOnly && graph.nodeNames[node] === -1) {
+              continue;
+            }
+
+            const distance = haversineDistance(point, this.nodePoint(graph, node));
+            if (!best || distance < best.distance) {
+              best = { node, distance };
+            }
+          }
+        }
+      }
+
+      // Nodes beyond this ring are at least this far away; a corner of this ring may not be
+      const ringDistance = ring * GRID_CELL_DEGREES * 111000 * Math.cos((point.latitude * Math.PI) / 180);
+      if (best && best.distance <= ringDistance) {
+        break;
+      }
+    }
+
+    if (!best) {
+      throw new Error(`No road found near ${point.latitude}, ${point.longitude}`);
+    }
+
+    return best;
+  }
+
+  /**
+   * Fastest paths from a node, stopping once every target has been reached
+   */
+  private search(graph: RoadGraph, source: number, targets: Set<number>): SearchResult {
+    const count = graph.latitudes.length;
+    const durations = new Float64Array(count).fill(Infinity);
+    const distances = new Float64Array(count).fill(Infinity);
+    const previousNode = new Int32Array(count).fill(-1);
+    const previousEdge: Array<RoadEdge | null> = new Array(count).fill(null);
+    const settled = new Uint8Array(count);
+    const queue = new NodeQueue();
+    let remaining = targets.size;
+
+    durations[source] = 0;
+    distances[source] = 0;
+    queue.push(source, 0);
+
+    while (queue.size > 0 && remaining > 0) {
+      const { node, key } = queue.pop();
+      if (settled[node] || key > durations[node]) {
+        continue;
+      }
+
+      settled[node] = 1;
+      if (targets.has(node)) {
+        remaining--;
+      }
+
+      for (const edge of graph.edges[node]) {
+        const duration = durations[node] + edge.duration;
+        if (duration < durations[edge.to]) {
+          durations[edge.to] = duration;
+          distances[edge.to] = distances[node] + edge.distance;
+          previousNode[edge.to] = node;
+          previousEdge[edge.to] = edge;
+          queue.push(edge.to, duration);
+        }
+      }
+    }
+
+    return { durations, distances, previousEdge, previousNode };
+  }
+
+  private offNetworkSeconds(distance: number): number {
+    return (distance / 1000 / OFF_NETWORK_SPEED_KMH) * 60 * 60;
+  }
+
+  private nodePoint(graph: RoadGraph, node: number): GeoPoint {
+    return { latitude: graph.latitudes[node], longitude: graph.longitudes[node] };
+  }
+
+  private cell(degrees: number): number {
+    return Math.floor(degrees / GRID_CELL_DEGREES);
+  }
+
+  private cellKey(row: number, column: number): string {
+    return `${row}:${column}`;
+  }
+}
@@ -0,0 +1,138 @@
+// src/services/osrmRoutingService.ts
+import { env } from '../config/env';
+import {
+  GeoPoint,
+  RouteRequest,
+  RouteResponse,
+  DistanceMatrixRequest,
+  DistanceMatrixResponse,
+  RoutingProvider,
+  RoutingProviderName
+} from '../types/routing';
+import { NominatimGeocoderService } from './nominatimGeocoderService';
+
+// Self-hosted OSRM servers are built for a single profile
+const OSRM_PROFILE = 'driving';
+
+export class OsrmRoutingService implements RoutingProvider {
+  readonly name: RoutingProviderName = 'OSRM';
+  private baseUrl: string;
+  private geocoder: NominatimGeocoderService;
+
+  constructor(baseUrl: string = env.ROUTING_SERVICE_URL, geocoderUrl: string = env.GEOCODER_URL) {
+    this.baseUrl = baseUrl;
+    this.geocoder = new NominatimGeocoderService(geocoderUrl);
+  }
+
+  /**
+   * Get route between two points with optional waypoints, visited in order
+   */
+  async getRoute(request: RouteRequest): Promise<RouteResponse> {
+    try {
+      const points = [request.origin, ...(request.waypoints || []), request.destination];
+      const data = await this.request(
+        `/route/v1/${OSRM_PROFILE}/${this.formatCoordinates(points)}?overview=full&geometries=polyline&steps=true`
+      );
+
+      const route = data.routes[0];
+
+      return {
+        distance: route.distance,
+        duration: route.duration,
+        polyline: route.geometry,
+        steps: route.legs.flatMap((leg: any) => (leg.steps || []).map((step: any) => ({
+          instruction: this.formatInstruction(step),
+          distance: step.distance,
+          duration: step.duration
+        })))
+      };
+    } catch (error) {
+      console.error('Error getting route from OSRM:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get distance matrix for multiple origins and destinations
+   */
+  async getDistanceMatrix(request: DistanceMatrixRequest): Promise<DistanceMatrixResponse> {
+    try {
+      const { origins, destinations } = request;
+      const points = [...origins, ...destinations];
+      const sources = origins.map((_, index) => index).join(';');
+      const targets = destinations.map((_, index) => origins.length + index).join(';');
+
+      const data = await this.request(
+        `/table/v1/${OSRM_PROFILE}/${this.formatCoordinates(points)}` +
+        `?sources=${sources}&destinations=${targets}&annotations=distance,duration`
+      );
+
+      // OSRM reports unreachable pairs as null
+      const toMatrix = (rows: Array<Array<number | null>>) =>
+        rows.map(row => row.map(value => (value === null ? Infinity : value)));
+
+      return {
+        distances: toMatrix(data.distances),
+        durations: toMatrix(data.durations)
+      };
+    } catch (error) {
+      console.error('Error getting distance matrix from OSRM:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Geocode an address to coordinates
+   */
+  async geocode(address: string): Promise<GeoPoint> {
+    return this.geocoder.geocode(address);
+  }
+
+  /**
+   * Reverse geocode coordinates to address
+   */
+  async reverseGeocode(coordinates: GeoPoint): Promise<string> {
+    return this.geocoder.reverseGeocode(coordinates);
+  }
+
+  /**
+   * Call the OSRM HTTP API
+   */
+  private async request(path: string): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    const data = await response.json() as any;
+
+    if (data.code !== 'Ok') {
+      throw new Error(`OSRM error: ${data.code} - ${data.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * OSRM takes longitude first
+   */
+  private formatCoordinates(points: GeoPoint[]): string {
+    return points.map(point => `${point.longitude},${point.latitude}`).join(';');
+  }
+
+  /**
+   * Build a readable instruction from an OSRM maneuver
+   */
+  private formatInstruction(step: any): string {
+    const { type, modifier } = step.maneuver;
+    const road = step.name ? ` onto ${step.name}` : '';
+
+    switch (type) {
+      case 'depart':
+        return `Head ${modifier || 'out'}${step.name ? ` on ${step.name}` : ''}`;
+      case 'arrive':
+        return 'Arrive at destination';
+      case 'roundabout':
+      case 'rotary':
+        return `At the roundabout, take exit ${step.maneuver.exit ?? 1}${road}`;
+      default:
+        return `${type === 'turn' ? 'Turn' : 'Continue'}${modifier ? ` ${modifier}` : ''}${road}`;
+    }
+  }
+}
@@ -1,30 +1,89 @@
 // src/services/pickupSchedulerService.ts
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, PickupSource, BinStatus, Driver, ShiftTemplate } from '@prisma/client';
+import { env } from '../config/env';
 import { PickupService } from '../services/pickupService';
 import { NotificationService } from '../services/notificationService';
+import { BinForecastService, DEFAULT_FORECAST_THRESHOLD } from '../services/binForecastService';
+import { OrganizationService } from '../services/organizationService';
+import { BinForecast } from '@/types/binForecast';
+import { PickupGenerationReason } from '@/types/pickup';
+import { getDriverShiftWindow } from '@/utils/shift';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+import { getTenantId } from '@/utils/tenantContext';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Fill level that triggers a pickup in threshold mode
+const PICKUP_THRESHOLD = 80;
+// How far ahead predictive mode plans pickups
+const PREDICTIVE_HORIZON_HOURS = 48;
+// Aim to collect a bin this long before it is predicted to be full
+const PICKUP_LEAD_TIME_HOURS = 2;
+// Bins in the same grid cell (about 2 km) and full on the same day share a batch
+const AREA_CELL_DEGREES = 0.02;
+// Time budgeted per stop when staggering a batch
+const STOP_SERVICE_MINUTES = 15;
+
+interface PickupBatch {
+  key: string;
+  area: string;
+  day: string;
+  forecasts: BinForecast[];
+}
+
+interface ShiftSlot {
+  start: Date;
+  end: Date;
+}
 
 export class PickupSchedulerService {
   private pickupService: PickupService;
   private notificationService: NotificationService;
+  private binForecastService: BinForecastService;
+  private organizationService: OrganizationService;
 
   constructor() {
     this.pickupService = new PickupService();
     this.notificationService = new NotificationService();
+    this.binForecastService = new BinForecastService();
+    this.organizationService = new OrganizationService();
+  }
+
+  /**
+   * Create automatic pickups using the configured scheduling mode. Outside an
+   * organization it runs once per organization, so bins are only ever given to
+   * drivers of their own organization.
+   */
+  async runAutomaticPickupScheduling(): Promise<void> {
+    if (!getTenantId()) {
+      await this.organizationService.forEachOrganization(() => this.runAutomaticPickupScheduling());
+      return;
+    }
+
+    if (env.PICKUP_SCHEDULING_MODE === 'PREDICTIVE') {
+      await this.checkAndCreatePredictivePickups();
+    } else {
+      await this.checkAndCreateAutomaticPickups();
+    }
   }
 
   /**
-   * Check for bins that need pickup and create automatic requests
+   * Check for bins that need pickup and create automatic requests, once per
+   * organization when run outside one
    */
   async checkAndCreateAutomaticPickups(): Promise<void> {
+    if (!getTenantId()) {
+      await this.organizationService.forEachOrganization(() => this.checkAndCreateAutomaticPickups());
+      return;
+    }
+
     try {
       console.log('🕐 Running automatic pickup check...');
 
       // Find bins that are 80% or more full and don't have pending pickups
       const fullBins = await prisma.bin.findMany({
         where: {
-          currentLevel: { gte: 80 },
+          currentLevel: { gte: PICKUP_THRESHOLD },
           isActive: true,
           pickups: {
             none: {
@@ -69,7 +128,15 @@ export class PickupSchedulerService {
               notes: `Automatic pickup - bin ${bin.currentLevel}% full`
             },
             'ADMIN',
-            bin.userId || 'system'
+            bin.userId || 'system',
+            {
+              source: PickupSource.THRESHOLD,
+              reason: {
+                rule: `Fill level at or above ${PICKUP_THRESHOLD}%`,
+                currentLevel,
+                threshold: PICKUP_THRESHOLD
+              }
+            }
           );
 
           console.log(`📋 Created automatic pickup for bin ${bin.binCode} (${bin.currentLevel}% full)`);
@@ -83,9 +150,143 @@ export class PickupSchedulerService {
   }
 
   /**
-   * Send pickup reminders to drivers
+   * Create pickups ahead of time for bins predicted to be full soon,
+   * batched by area and day and fitted into the shifts of the organization's drivers
+   */
+  async checkAndCreatePredictivePickups(): Promise<void> {
+    if (!getTenantId()) {
+      await this.organizationService.forEachOrganization(() => this.checkAndCreatePredictivePickups());
+      return;
+    }
+
+    try {
+      console.log('🔮 Running predictive pickup planning...');
+
+      const now = new Date();
+
+      const bins = await prisma.bin.findMany({
+        where: {
+          isActive: true,
+          status: { notIn: [BinStatus.MAINTENANCE, BinStatus.OUT_OF_SERVICE] },
+          pickups: {
+            none: {
+              status: {
+                in: ['SCHEDULED', 'IN_PROGRESS']
+              }
+            }
+          }
+        }
+      });
+
+      const forecasts = await this.binForecastService.forecastBins(bins, DEFAULT_FORECAST_THRESHOLD);
+
+      // Low-confidence forecasts only count once the bin has actually reached the threshold
+      const dueForecasts = forecasts.filter(forecast =>
+        forecast.hoursUntilThreshold !== null &&
+        forecast.hoursUntilThreshold <= PREDICTIVE_HORIZON_HOURS &&
+        (forecast.confidence !== 'LOW' || forecast.hoursUntilThreshold === 0)
+      );
+
+      if (dueForecasts.length === 0) {
+        console.log('🔮 No bins predicted full within the planning horizon');
+        return;
+      }
+
+      const drivers = await prisma.driver.findMany({
+        where: {
+          isAvailable: true,
+          user: { isActive: true }
+        },
+        include: { shiftTemplates: true }
+      });
+
+      const driverLoad = await this.getDriverLoad(now);
+      const binsById = new Map(bins.map(bin => [bin.id, bin]));
+      const batches = this.batchByAreaAndDay(dueForecasts);
+      let created = 0;
+
+      for (const batch of batches) {
+        const earliestFullAt = batch.forecasts[0].predictedFullAt!;
+        const target = new Date(Math.max(
+          now.getTime(),
+          earliestFullAt.getTime() - PICKUP_LEAD_TIME_HOURS * 60 * 60 * 1000
+        ));
+        const durationMinutes = batch.forecasts.length * STOP_SERVICE_MINUTES;
+        const assignment = this.assignBatchToDriver(drivers, driverLoad, target, earliestFullAt, durationMinutes, now);
+
+        for (const [index, forecast] of batch.forecasts.entries()) {
+          const bin = binsById.get(forecast.binId)!;
+          const slotStart = assignment ? assignment.slot.start : target;
+          const scheduledAt = new Date(slotStart.getTime() + index * STOP_SERVICE_MINUTES * 60 * 1000);
+
+          const reason: PickupGenerationReason = {
+            rule: `Predicted to reach ${forecast.threshold}% within ${PREDICTIVE_HORIZON_HOURS} hours`,
+            currentLevel: forecast.currentLevel,
+            threshold: forecast.threshold,
+            predictedFullAt: forecast.predictedFullAt,
+            hoursUntilThreshold: forecast.hoursUntilThreshold,
+            fillRatePerHour: forecast.fillRatePerHour,
+            confidence: forecast.confidence,
+            batch: {
+              key: batch.key,
+              area: batch.area,
+              day: batch.day,
+              size: batch.forecasts.length
+            },
+            ...(assignment && {
+              shiftWindow: {
+                driverId: assignment.driverId,
+                start: assignment.slot.start,
+                end: assignment.slot.end
+              }
+            })
+          };
+
+          try {
+            await this.pickupService.createPickup(
+              {
+                binId: bin.id,
+                driverId: assignment?.driverId,
+                scheduledAt,
+                priority: forecast.hoursUntilThreshold! <= PICKUP_LEAD_TIME_HOURS ? 'HIGH' : 'MEDIUM',
+                pickupType: 'SCHEDULED',
+                notes: `Predictive pickup - bin expected at ${forecast.threshold}% by ${forecast.predictedFullAt!.toISOString()}`
+              },
+              'ADMIN',
+              bin.userId || 'system',
+              {
+                source: PickupSource.FORECAST,
+                reason
+              }
+            );
+
+            created++;
+          } catch (error) {
+            console.error(`Error creating predictive pickup for bin ${bin.binCode}:`, error);
+          }
+        }
+
+        if (assignment) {
+          const loadKey = `${assignment.driverId}|${batch.day}`;
+          driverLoad.set(loadKey, (driverLoad.get(loadKey) || 0) + batch.forecasts.length);
+        }
+      }
+
+      console.log(`🔮 Created ${created} predictive pickups in ${batches.length} batches`);
+    } catch (error) {
+      console.error('Error in predictive pickup planning:', error);
+    }
+  }
+
+  /**
+   * Send pickup reminders to drivers, once per organization when run outside one
    */
   async sendPickupReminders(): Promise<void> {
+    if (!getTenantId()) {
+      await this.organizationService.forEachOrganization(() => this.sendPickupReminders());
+      return;
+    }
+
     try {
       console.log('🔔 Sending pickup reminders...');
 
@@ -137,9 +338,14 @@ export class PickupSchedulerService {
   }
 
   /**
-   * Check for overdue pickups
+   * Check for overdue pickups, once per organization when run outside one
    */
   async checkOverduePickups(): Promise<void> {
+    if (!getTenantId()) {
+      await this.organizationService.forEachOrganization(() => this.checkOverduePickups());
+      return;
+    }
+
     try {
       console.log('⏰ Checking for overdue pickups...');
 
@@ -207,7 +413,7 @@ export class PickupSchedulerService {
   startScheduler(): void {
     // Check for automatic pickups every 30 minutes
     setInterval(() => {
-      this.checkAndCreateAutomaticPickups();
+      this.runAutomaticPickupScheduling();
     }, 30 * 60 * 1000);
 
     // Send reminders every 5 minutes
@@ -220,6 +426,138 @@ export class PickupSchedulerService {
       this.checkOverduePickups();
     }, 10 * 60 * 1000);
 
-    console.log('🕐 Pickup scheduler started');
+    console.log(`🕐 Pickup scheduler started (${env.PICKUP_SCHEDULING_MODE.toLowerCase()} mode)`);
+  }
+
+  /**
+   * Group forecasts by grid cell and the day the bins are predicted full, earliest first
+   */
+  private batchByAreaAndDay(forecasts: BinForecast[]): PickupBatch[] {
+    const batches = new Map<string, PickupBatch>();
+
+    for (const forecast of forecasts) {
+      const cellLat = Math.floor(forecast.latitude / AREA_CELL_DEGREES) * AREA_CELL_DEGREES + AREA_CELL_DEGREES / 2;
+      const cellLng = Math.floor(forecast.longitude / AREA_CELL_DEGREES) * AREA_CELL_DEGREES + AREA_CELL_DEGREES / 2;
+      const area = `${cellLat.toFixed(3)},${cellLng.toFixed(3)}`;
+      const day = this.formatDay(forecast.predictedFullAt!);
+      const key = `${area}|${day}`;
+
+      const batch = batches.get(key) || { key, area, day, forecasts: [] };
+      batch.forecasts.push(forecast);
+      batches.set(key, batch);
+    }
+
+    return Array.from(batches.values())
+      .map(batch => ({
+        ...batch,
+        forecasts: batch.forecasts.sort((a, b) => a.predictedFullAt!.getTime() - b.predictedFullAt!.getTime())
+      }))
+      .sort((a, b) => a.forecasts[0].predictedFullAt!.getTime() - b.forecasts[0].predictedFullAt!.getTime());
+  }
+
+  /**
+   * Pick the driver whose shift fits the batch best: before the bins fill up if
+   * possible, then the least loaded driver that day, then the earliest slot
+   */
+  private assignBatchToDriver(
+    drivers: Array<Driver & { shiftTemplates: ShiftTemplate[] }>,
+    driverLoad: Map<string, number>,
+    target: Date,
+    deadline: Date,
+    durationMinutes: number,
+    now: Date
+  ): { driverId: string; slot: ShiftSlot } | null {
+    let best: { driverId: string; slot: ShiftSlot; late: boolean; load: number } | null = null;
+
+    for (const driver of drivers) {
+      const slot = this.findShiftSlot(driver, target, durationMinutes, now);
+      if (!slot) {
+        continue;
+      }
+
+      const late = slot.start > deadline;
+      const load = driverLoad.get(`${driver.id}|${this.formatDay(slot.start)}`) || 0;
+
+      const isBetter = !best ||
+        (late !== best.late ? !late : load !== best.load ? load < best.load : slot.start < best.slot.start);
+
+      if (isBetter) {
+        best = { driverId: driver.id, slot, late, load };
+      }
+    }
+
+    return best ? { driverId: best.driverId, slot: best.slot } : null;
+  }
+
+  /**
+   * Find the start time closest to the target at which the driver's shift can fit
+   * the whole batch. Earlier slots are preferred over later ones.
+   */
+  private findShiftSlot(driver: Driver & { shiftTemplates: ShiftTemplate[] }, target: Date, durationMinutes: number, now: Date): ShiftSlot | null {
+    let before: ShiftSlot | null = null;
+    let after: ShiftSlot | null = null;
+
+    // Shifts on the day before the target through two days after it
+    for (let offset = -1; offset <= 2; offset++) {
+      const day = new Date(target);
+      day.setDate(day.getDate() + offset);
+
+      // No window means a day off
+      const window = getDriverShiftWindow(day, driver);
+      if (!window) {
+        continue;
+      }
+
+      const earliestStart = Math.max(window.start.getTime(), now.getTime());
+      const latestStart = window.end.getTime() - durationMinutes * 60 * 1000;
+      if (earliestStart > latestStart) {
+        continue;
+      }
+
+      const start = new Date(Math.min(Math.max(target.getTime(), earliestStart), latestStart));
+      const slot = { start, end: window.end };
+
+      if (start <= target) {
+        before = slot;
+      } else if (!after) {
+        after = slot;
+      }
+    }
+
+    return before || after;
+  }
+
+  /**
+   * Pickups already scheduled per driver and day, keyed "driverId|YYYY-MM-DD"
+   */
+  private async getDriverLoad(now: Date): Promise<Map<string, number>> {
+    const scheduledPickups = await prisma.pickup.findMany({
+      where: {
+        status: 'SCHEDULED',
+        driverId: { not: null },
+        scheduledAt: { gte: now }
+      },
+      select: {
+        driverId: true,
+        scheduledAt: true
+      }
+    });
+
+    const load = new Map<string, number>();
+    for (const pickup of scheduledPickups) {
+      const key = `${pickup.driverId}|${this.formatDay(pickup.scheduledAt!)}`;
+      load.set(key, (load.get(key) || 0) + 1);
+    }
+
+    return load;
+  }
+
+  /**
+   * Local calendar day as YYYY-MM-DD
+   */
+  private formatDay(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
   }
-}
\ No newline at end of file
+}
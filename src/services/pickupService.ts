@@ -1,5 +1,5 @@
 // src/services/pickupService.ts (Fixed version)
-import { PrismaClient, PickupStatus, UserRole, DriverStatus } from '@prisma/client';
+import { PrismaClient, PickupStatus, PickupPriority, PickupType, DriverStatus } from '@prisma/client';
 import { 
   CreatePickupRequest, 
   UpdatePickupRequest, 
@@ -8,23 +8,37 @@ import {
   PickupListQuery,
   PickupStatsResponse,
   AssignDriverRequest,
-  PickupRouteOptimization,
-  OptimizedRoute
+  PickupGeneration
 } from '@/types/pickup';
 import { AppError } from '@/middleware/errorHandler';
+import { RouteOptimizationService } from '@/services/routeOptimizationService';
+import { PolicyService } from '@/services/policyService';
+import { Permission } from '@/config/permissions';
+import { tenantIsolation } from '@/utils/tenantIsolation';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
 
 export class PickupService {
+  private routeOptimizationService: RouteOptimizationService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.routeOptimizationService = new RouteOptimizationService();
+    this.policyService = new PolicyService();
+  }
+
   /**
    * Create a new pickup request
    */
   async createPickup(
     data: CreatePickupRequest, 
     requestUserRole: string, 
-    requestUserId: string
+    requestUserId: string,
+    generation?: PickupGeneration
   ): Promise<PickupResponse> {
     try {
+      const scope = await this.policyService.authorize('pickup.create', requestUserRole);
+
       // Verify bin exists and user has permission
       const bin = await prisma.bin.findUnique({
         where: { id: data.binId },
@@ -42,7 +56,7 @@ export class PickupService {
       }
 
       // Check permissions
-      if (requestUserRole === UserRole.USER && bin.userId !== requestUserId) {
+      if (scope === 'own' && bin.userId !== requestUserId) {
         const error: AppError = new Error('You can only create pickups for your own bins');
         error.statusCode = 403;
         throw error;
@@ -57,7 +71,8 @@ export class PickupService {
           }
         });
 
-        if (!driver || !driver.user.isActive || !driver.isAvailable) {
+        // Outside a tenant context drivers of every organization are visible, so match the bin's
+        if (!driver || !driver.user.isActive || !driver.isAvailable || driver.organizationId !== bin.organizationId) {
           const error: AppError = new Error('Driver not found or not available');
           error.statusCode = 400;
           throw error;
@@ -71,7 +86,8 @@ export class PickupService {
       let assignedDriverId: string | undefined = data.driverId;
       if (!assignedDriverId && currentLevel >= 80) {
         const bestDriver = await this.findBestAvailableDriver(
-          Number(bin.latitude), 
+          bin.organizationId,
+          Number(bin.latitude),
           Number(bin.longitude)
         );
         assignedDriverId = bestDriver || undefined;
@@ -88,14 +104,19 @@ export class PickupService {
       // Create pickup - Note: Remove fields that don't exist in your schema
       const pickup = await prisma.pickup.create({
         data: {
+          organizationId: bin.organizationId,
           binId: data.binId,
           driverId: assignedDriverId,
           createdById: requestUserId,
           scheduledAt: data.scheduledAt || this.calculateScheduledTime(priority),
           notes: data.notes,
-          status: PickupStatus.SCHEDULED
-          // Note: Only include fields that exist in your Prisma schema
-          // If priority and pickupType don't exist in your schema, remove them
+          status: PickupStatus.SCHEDULED,
+          priority: priority as PickupPriority,
+          pickupType: (data.pickupType || 'ON_DEMAND') as PickupType,
+          ...(generation && {
+            generationSource: generation.source,
+            generationReason: generation.reason as any
+          })
         },
         include: {
           bin: {
@@ -137,6 +158,17 @@ export class PickupService {
         }
       });
 
+      // Slot urgent work into routes already on the road, without holding up the request
+      if (priority === 'URGENT' || data.pickupType === 'EMERGENCY') {
+        const reason = data.pickupType === 'EMERGENCY'
+          ? `Emergency pickup at ${bin.binCode}`
+          : `Urgent pickup at ${bin.binCode}`;
+
+        this.routeOptimizationService.insertUrgentPickup(pickup.id, reason).catch(error => {
+          console.error('Error re-optimizing routes for urgent pickup:', error);
+        });
+      }
+
       return this.formatPickupResponse(pickup, priority, data.pickupType || 'ON_DEMAND');
     } catch (error) {
       throw error;
@@ -152,21 +184,10 @@ export class PickupService {
       const limit = Math.min(query.limit || 20, 100);
       const skip = (page - 1) * limit;
 
-      // Build where clause based on role and filters
-      const whereClause: any = {};
-
-      // Role-based filtering
-      if (requestUserRole === UserRole.USER) {
-        whereClause.createdById = requestUserId;
-      } else if (requestUserRole === UserRole.DRIVER) {
-        // Find driver ID for this user
-        const driver = await prisma.driver.findUnique({
-          where: { userId: requestUserId }
-        });
-        if (driver) {
-          whereClause.driverId = driver.id;
-        }
-      }
+      // Build where clause based on the pickups the user may see and filters
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('pickup.read', requestUserRole, requestUserId)]
+      };
 
       // Apply filters
       if (query.status) {
@@ -185,6 +206,10 @@ export class PickupService {
         whereClause.createdById = query.userId;
       }
 
+      if (query.generationSource) {
+        whereClause.generationSource = query.generationSource;
+      }
+
       // Date filters
       if (query.scheduledDate) {
         const date = new Date(query.scheduledDate);
@@ -283,7 +308,8 @@ export class PickupService {
   async getPickupById(
     pickupId: string, 
     requestUserRole: string, 
-    requestUserId: string
+    requestUserId: string,
+    permission: Permission = 'pickup.read'
   ): Promise<PickupResponse> {
     try {
       const pickup = await prisma.pickup.findUnique({
@@ -335,22 +361,7 @@ export class PickupService {
       }
 
       // Check permissions
-      if (requestUserRole === UserRole.USER && pickup.createdById !== requestUserId) {
-        const error: AppError = new Error('Access denied');
-        error.statusCode = 403;
-        throw error;
-      }
-
-      if (requestUserRole === UserRole.DRIVER) {
-        const driver = await prisma.driver.findUnique({
-          where: { userId: requestUserId }
-        });
-        if (!driver || pickup.driverId !== driver.id) {
-          const error: AppError = new Error('Access denied');
-          error.statusCode = 403;
-          throw error;
-        }
-      }
+      await this.policyService.assertAllowed(permission, requestUserRole, requestUserId, pickupId);
 
       return this.formatPickupResponse(pickup, 'MEDIUM', 'ON_DEMAND');
     } catch (error) {
@@ -369,7 +380,7 @@ export class PickupService {
   ): Promise<PickupResponse> {
     try {
       // Check if pickup exists and user has permission
-      const existingPickup = await this.getPickupById(pickupId, requestUserRole, requestUserId);
+      await this.getPickupById(pickupId, requestUserRole, requestUserId, 'pickup.update');
 
       // Verify driver if being assigned
       if (data.driverId) {
@@ -452,7 +463,7 @@ export class PickupService {
   ): Promise<{ success: boolean; message: string }> {
     try {
       // Check if pickup exists and user has permission
-      const existingPickup = await this.getPickupById(pickupId, requestUserRole, requestUserId);
+      const existingPickup = await this.getPickupById(pickupId, requestUserRole, requestUserId, 'pickup.status.update');
 
       const updateData: any = {
         status: statusData.status,
@@ -496,16 +507,10 @@ export class PickupService {
   async assignDriverToPickup(
     pickupId: string,
     assignData: AssignDriverRequest,
-    requestUserRole: string
+    requestUserRole: string,
+    requestUserId: string
   ): Promise<{ success: boolean; message: string }> {
     try {
-      // Only admins can assign drivers
-      if (requestUserRole !== UserRole.ADMIN) {
-        const error: AppError = new Error('Only administrators can assign drivers');
-        error.statusCode = 403;
-        throw error;
-      }
-
       // Verify pickup exists
       const pickup = await prisma.pickup.findUnique({
         where: { id: pickupId }
@@ -517,6 +522,8 @@ export class PickupService {
         throw error;
       }
 
+      await this.policyService.assertAllowed('pickup.assign', requestUserRole, requestUserId, pickupId);
+
       // Verify driver exists and is available
       const driver = await prisma.driver.findUnique({
         where: { id: assignData.driverId },
@@ -554,19 +561,9 @@ export class PickupService {
    */
   async getPickupStats(requestUserRole: string, requestUserId: string): Promise<PickupStatsResponse> {
     try {
-      const whereClause: any = {};
-
-      // Role-based filtering
-      if (requestUserRole === UserRole.USER) {
-        whereClause.createdById = requestUserId;
-      } else if (requestUserRole === UserRole.DRIVER) {
-        const driver = await prisma.driver.findUnique({
-          where: { userId: requestUserId }
-        });
-        if (driver) {
-          whereClause.driverId = driver.id;
-        }
-      }
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('pickup.read', requestUserRole, requestUserId)]
+      };
 
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -693,7 +690,7 @@ export class PickupService {
   ): Promise<{ success: boolean; message: string }> {
     try {
       // Check if pickup exists and user has permission
-      const existingPickup = await this.getPickupById(pickupId, requestUserRole, requestUserId);
+      const existingPickup = await this.getPickupById(pickupId, requestUserRole, requestUserId, 'pickup.cancel');
 
       // Cannot cancel completed pickups
       if (existingPickup.status === PickupStatus.COMPLETED) {
@@ -774,10 +771,16 @@ export class PickupService {
   /**
    * Find best available driver based on location
    */
-  private async findBestAvailableDriver(binLat: number, binLng: number): Promise<string | null> {
+  private async findBestAvailableDriver(
+    organizationId: string | null,
+    binLat: number,
+    binLng: number
+  ): Promise<string | null> {
     try {
+      // Only drivers of the bin's own organization may be given its pickup
       const availableDrivers = await prisma.driver.findMany({
         where: {
+          organizationId,
           status: DriverStatus.ONLINE,
           isAvailable: true,
           currentLatitude: { not: null },
@@ -887,6 +890,8 @@ export class PickupService {
       startedAt: pickup.startedAt,
       completedAt: pickup.completedAt,
       notes: pickup.notes,
+      generationSource: pickup.generationSource,
+      generationReason: pickup.generationReason,
       createdAt: pickup.createdAt,
       updatedAt: pickup.updatedAt,
       bin: {
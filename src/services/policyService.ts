@@ -0,0 +1,264 @@
+// src/services/policyService.ts
+import { PrismaClient } from '@prisma/client';
+import { PERMISSIONS, Permission, BUILT_IN_ROLE_PERMISSIONS } from '@/config/permissions';
+import { PermissionScope, ResourceType } from '@/types/policy';
+import { AppError } from '@/middleware/errorHandler';
+import { env } from '@/config/env';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+import { getTenantId } from '@/utils/tenantContext';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Custom roles are re-read from the database at most this often
+const ROLE_CACHE_TTL_MS = 60 * 1000;
+
+// When a role is granted a permission more than once, the broadest scope wins
+const SCOPE_RANK: Record<PermissionScope, number> = { own: 1, zone: 2, any: 3 };
+
+interface ResourceRule {
+  model: string; // Prisma model the resource lives in
+  own?: (userId: string) => any;
+  zone?: (depotId: string) => any;
+}
+
+// What "own" and "zone" mean for each kind of resource, as Prisma filters
+const RESOURCE_RULES: Partial<Record<ResourceType, ResourceRule>> = {
+  bin: {
+    model: 'bin',
+    own: userId => ({ userId })
+  },
+  pickup: {
+    model: 'pickup',
+    // Pickups the user requested, of the user's bins, or assigned to them as a driver
+    own: userId => ({ OR: [{ createdById: userId }, { bin: { userId } }, { driver: { userId } }] }),
+    // Unassigned pickups are open to every zone so they can be dispatched
+    zone: depotId => ({ OR: [{ driverId: null }, { driver: { truck: { depotId } } }] })
+  },
+  route: {
+    model: 'route',
+    own: userId => ({ driver: { userId } }),
+    zone: depotId => ({ depotId })
+  },
+  driver: {
+    model: 'driver',
+    own: userId => ({ userId }),
+    zone: depotId => ({ truck: { depotId } })
+  },
+  inspection: {
+    model: 'truckInspection',
+    own: userId => ({ driver: { userId } }),
+    zone: depotId => ({ truck: { depotId } })
+  },
+  shift: {
+    model: 'shift',
+    own: userId => ({ driver: { userId } }),
+    zone: depotId => ({ driver: { truck: { depotId } } })
+  },
+  fuel: {
+    model: 'fuelLog',
+    own: userId => ({ driver: { userId } }),
+    zone: depotId => ({ truck: { depotId } })
+  }
+};
+
+interface LoadedRole {
+  grants: Map<Permission, PermissionScope>;
+  requireMfa: boolean;
+  loadedAt: number;
+}
+
+const roleCache = new Map<string, LoadedRole>();
+
+/**
+ * Split a grant such as "pickup.read:own" into its permission and scope
+ */
+export const parseGrant = (grant: string): { permission: string; scope: PermissionScope } => {
+  const [permission, scope] = grant.split(':');
+  return { permission, scope: (scope || 'any') as PermissionScope };
+};
+
+export class PolicyService {
+  /**
+   * The permissions a role holds, with the scope each is granted on. Built-in roles
+   * are defined in code; any other role name is looked up among the custom roles of
+   * the current organization.
+   */
+  async getGrants(role: string): Promise<Map<Permission, PermissionScope>> {
+    return (await this.loadRole(role)).grants;
+  }
+
+  /**
+   * Whether holders of a role must sign in with a second factor. Set per custom
+   * role, and for the built-in roles by the MFA_REQUIRED_ROLES setting.
+   */
+  async requiresMfa(role: string): Promise<boolean> {
+    return (await this.loadRole(role)).requireMfa;
+  }
+
+  /**
+   * The scope a role holds a permission on, or null if it does not hold it
+   */
+  async scopeFor(permission: Permission, role: string): Promise<PermissionScope | null> {
+    const grants = await this.getGrants(role);
+    return grants.get(permission) ?? null;
+  }
+
+  /**
+   * Whether a role holds a permission on any scope
+   */
+  async can(permission: Permission, role: string): Promise<boolean> {
+    return (await this.scopeFor(permission, role)) !== null;
+  }
+
+  /**
+   * Require a role to hold a permission, returning the scope it holds it on
+   */
+  async authorize(permission: Permission, role: string): Promise<PermissionScope> {
+    try {
+      const scope = await this.scopeFor(permission, role);
+
+      if (!scope) {
+        const error: AppError = new Error('Insufficient permissions');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      return scope;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * A Prisma filter limiting a query to the resources the user may access with a
+   * permission. Empty when the permission is held on any resource. The filter is
+   * built for the permission's own resource unless another one is named, such as
+   * the driver whose shifts are being read.
+   */
+  async scopeWhere(
+    permission: Permission,
+    role: string,
+    userId: string,
+    resource: ResourceType = PERMISSIONS[permission].resource
+  ): Promise<any> {
+    try {
+      const scope = await this.authorize(permission, role);
+
+      if (scope === 'any') {
+        return {};
+      }
+
+      const rule = RESOURCE_RULES[resource];
+
+      if (scope === 'own' && rule?.own) {
+        return rule.own(userId);
+      }
+
+      if (scope === 'zone' && rule?.zone) {
+        const user = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { depotId: true }
+        });
+
+        // Without a depot the user has no zone, so nothing is in it
+        return user?.depotId ? rule.zone(user.depotId) : { id: { in: [] } };
+      }
+
+      return { id: { in: [] } };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Require a user to be allowed to act on one resource with a permission
+   */
+  async assertAllowed(
+    permission: Permission,
+    role: string,
+    userId: string,
+    resourceId: string,
+    resource: ResourceType = PERMISSIONS[permission].resource
+  ): Promise<void> {
+    try {
+      const where = await this.scopeWhere(permission, role, userId, resource);
+
+      if (Object.keys(where).length === 0) {
+        return;
+      }
+
+      const rule = RESOURCE_RULES[resource]!;
+      const count = await (prisma as any)[rule.model].count({
+        where: { AND: [{ id: resourceId }, where] }
+      });
+
+      if (count === 0) {
+        const error: AppError = new Error('Access denied');
+        error.statusCode = 403;
+        throw error;
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a grant names a known permission with a scope it can be granted on
+   */
+  isValidGrant(grant: string): boolean {
+    const { permission, scope } = parseGrant(grant);
+    const definition = PERMISSIONS[permission as Permission];
+
+    return !!definition && (definition.scopes as PermissionScope[]).includes(scope);
+  }
+
+  /**
+   * Forget a custom role's cached permissions after it changes
+   */
+  invalidateRole(role: string) {
+    roleCache.delete(this.cacheKey(role));
+  }
+
+  private async loadRole(role: string): Promise<LoadedRole> {
+    try {
+      const cacheKey = this.cacheKey(role);
+      const cached = roleCache.get(cacheKey);
+      if (cached && Date.now() - cached.loadedAt < ROLE_CACHE_TTL_MS) {
+        return cached;
+      }
+
+      let grantList = BUILT_IN_ROLE_PERMISSIONS[role];
+      let requireMfa = env.MFA_REQUIRED_ROLES.includes(role);
+
+      // Outside an organization there are no custom roles to look in
+      if (!grantList) {
+        const customRole = getTenantId()
+          ? await prisma.role.findFirst({ where: { name: role } })
+          : null;
+        grantList = customRole?.permissions || [];
+        requireMfa = !!customRole?.requireMfa;
+      }
+
+      const grants = new Map<Permission, PermissionScope>();
+      for (const grant of grantList.filter(grant => this.isValidGrant(grant))) {
+        const { permission, scope } = parseGrant(grant);
+        const existing = grants.get(permission as Permission);
+
+        if (!existing || SCOPE_RANK[scope] > SCOPE_RANK[existing]) {
+          grants.set(permission as Permission, scope);
+        }
+      }
+
+      const loaded = { grants, requireMfa, loadedAt: Date.now() };
+      roleCache.set(cacheKey, loaded);
+      return loaded;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  // Organizations may each have a custom role of the same name
+  private cacheKey(role: string): string {
+    return `${getTenantId() ?? ''}:${role}`;
+  }
+}
@@ -1,15 +1,28 @@
 // src/services/realtimeBinService.ts
 import { Server as SocketIOServer } from 'socket.io';
+import { validationResult } from 'express-validator';
+import { PrismaClient, SensorAnomaly } from '@prisma/client';
 import { BinService } from '../services/binService';
+import { BinEventService } from '../services/binEventService';
 import { BinSensorDataRequest } from '@/types/bin';
+import { BinEventResponse, RecordedBinEvent } from '@/types/binEvent';
+import { AppError } from '@/middleware/errorHandler';
+import { SocketData, runForSocket } from '@/middleware/socketAuth';
+import { emitToOrganization, userRoom } from '@/config/socket';
+import { sensorDataValidation } from '@/validators/binValidators';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
 
 export class RealtimeBinService {
   private io: SocketIOServer;
   private binService: BinService;
+  private binEventService: BinEventService;
 
   constructor(io: SocketIOServer) {
     this.io = io;
     this.binService = new BinService();
+    this.binEventService = new BinEventService();
   }
 
   /**
@@ -19,25 +32,30 @@ export class RealtimeBinService {
     this.io.on('connection', (socket) => {
       console.log(`Client connected: ${socket.id}`);
 
-      // Join rooms based on user role
-      socket.on('join-room', (data) => {
-        const { userRole, userId } = data;
-        
-        if (userRole === 'ADMIN') {
-          socket.join('admin-room');
-        } else if (userRole === 'DRIVER') {
-          socket.join('driver-room');
-        } else {
-          socket.join(`user-${userId}`);
-        }
-      });
-
-      // Handle bin level updates from IoT devices
+      // Handle bin level updates from IoT devices. The device authenticated when it
+      // connected, so the reading is always stored against its own bin.
       socket.on('bin-level-update', async (data) => {
+        const { device } = socket.data as SocketData;
+
         try {
-          await this.handleBinLevelUpdate(data);
-        } catch (error) {
+          if (!device) {
+            const error: AppError = new Error('Only bin devices can report readings');
+            error.statusCode = 403;
+            throw error;
+          }
+
+          await this.assertValidSensorData(data?.sensorData);
+
+          await runForSocket(socket, () =>
+            this.handleBinLevelUpdate({ binCode: device.binCode, sensorData: data.sensorData })
+          );
+        } catch (error: any) {
           console.error('Error handling bin level update:', error);
+          socket.emit('bin-level-update-rejected', {
+            binCode: device?.binCode ?? data?.binCode,
+            error: error.message,
+            timestamp: new Date()
+          });
         }
       });
 
@@ -48,21 +66,29 @@ export class RealtimeBinService {
   }
 
   /**
-   * Handle bin level updates from IoT devices
+   * Handle bin level updates from IoT devices. Errors are logged and passed on, so
+   * the sender can be told the reading was not stored.
    */
   async handleBinLevelUpdate(data: { binCode: string; sensorData: BinSensorDataRequest }) {
     try {
       const { binCode, sensorData } = data;
 
       // Update sensor data in database
-      await this.binService.updateSensorData(binCode, sensorData);
+      const result = await this.binService.updateSensorData(binCode, sensorData);
+
+      if (result.anomalies.includes(SensorAnomaly.TEMPERATURE_SPIKE)) {
+        const recorded = await this.binEventService.recordTemperatureSpike(binCode, sensorData.temperature);
+        if (recorded) {
+          await this.broadcastRecordedEvent(recorded);
+        }
+      }
 
       // Get updated bin information
       const updatedBin = await this.getBinByCode(binCode);
 
       if (updatedBin) {
-        // Broadcast to admin room
-        this.io.to('admin-room').emit('bin-updated', {
+        // Broadcast to the organization's dashboard
+        emitToOrganization(this.io, updatedBin.organizationId, 'admins', 'bin-updated', {
           type: 'LEVEL_UPDATE',
           bin: updatedBin,
           timestamp: new Date()
@@ -70,7 +96,7 @@ export class RealtimeBinService {
 
         // Broadcast to drivers if bin is full
         if (updatedBin.status === 'FULL') {
-          this.io.to('driver-room').emit('bin-full-alert', {
+          emitToOrganization(this.io, updatedBin.organizationId, 'drivers', 'bin-full-alert', {
             type: 'FULL_ALERT',
             bin: updatedBin,
             timestamp: new Date()
@@ -79,7 +105,7 @@ export class RealtimeBinService {
 
         // Broadcast to bin owner
         if (updatedBin.user?.id) {
-          this.io.to(`user-${updatedBin.user.id}`).emit('bin-updated', {
+          this.io.to(userRoom(updatedBin.user.id)).emit('bin-updated', {
             type: 'LEVEL_UPDATE',
             bin: updatedBin,
             timestamp: new Date()
@@ -88,6 +114,48 @@ export class RealtimeBinService {
       }
     } catch (error) {
       console.error('Error in handleBinLevelUpdate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a reading sent over a socket with the rules readings posted over HTTP must meet
+   */
+  private async assertValidSensorData(sensorData: unknown): Promise<void> {
+    const request = { body: sensorData ?? {} };
+    await Promise.all(sensorDataValidation.map(chain => chain.run(request)));
+
+    const errors = validationResult(request);
+
+    if (!errors.isEmpty()) {
+      const error: AppError = new Error(errors.array().map(item => item.msg).join('. '));
+      error.statusCode = 400;
+      throw error;
+    }
+  }
+
+  /**
+   * Broadcast a recorded bin event and any status change it caused
+   */
+  async broadcastRecordedEvent(recorded: RecordedBinEvent) {
+    const { event, statusChange } = recorded;
+
+    if (event.alertStatus) {
+      await this.broadcastBinAlert(event);
+
+      if (event.severity === 'CRITICAL' && event.alertStatus === 'OPEN') {
+        const organizationId = event.organizationId
+          ?? (event.binId ? await this.getBinOrganizationId(event.binId) : null);
+        this.broadcastEmergencyAlert(organizationId, event.message || event.type, event.binId);
+      }
+    }
+
+    if (statusChange && event.binId) {
+      await this.broadcastBinStatusChange(
+        event.binId,
+        statusChange.oldStatus,
+        statusChange.newStatus
+      );
     }
   }
 
@@ -97,6 +165,7 @@ export class RealtimeBinService {
   async broadcastBinStatusChange(binId: string, oldStatus: string, newStatus: string) {
     try {
       const bin = await this.binService.getBinById(binId, 'ADMIN', '');
+      const organizationId = await this.getBinOrganizationId(binId);
 
       const updateData = {
         type: 'STATUS_CHANGE',
@@ -107,11 +176,11 @@ export class RealtimeBinService {
       };
 
       // Broadcast to all relevant parties
-      this.io.to('admin-room').emit('bin-status-changed', updateData);
-      this.io.to('driver-room').emit('bin-status-changed', updateData);
+      emitToOrganization(this.io, organizationId, 'admins', 'bin-status-changed', updateData);
+      emitToOrganization(this.io, organizationId, 'drivers', 'bin-status-changed', updateData);
 
       if (bin.user?.id) {
-        this.io.to(`user-${bin.user.id}`).emit('bin-status-changed', updateData);
+        this.io.to(userRoom(bin.user.id)).emit('bin-status-changed', updateData);
       }
     } catch (error) {
       console.error('Error broadcasting bin status change:', error);
@@ -119,9 +188,9 @@ export class RealtimeBinService {
   }
 
   /**
-   * Send emergency alerts
+   * Send emergency alerts to an organization's dashboard and drivers
    */
-  broadcastEmergencyAlert(message: string, binId?: string) {
+  broadcastEmergencyAlert(organizationId: string | null, message: string, binId?: string | null) {
     const alertData = {
       type: 'EMERGENCY',
       message,
@@ -129,8 +198,61 @@ export class RealtimeBinService {
       timestamp: new Date()
     };
 
-    this.io.to('admin-room').emit('emergency-alert', alertData);
-    this.io.to('driver-room').emit('emergency-alert', alertData);
+    emitToOrganization(this.io, organizationId, 'admins', 'emergency-alert', alertData);
+    emitToOrganization(this.io, organizationId, 'drivers', 'emergency-alert', alertData);
+  }
+
+  /**
+   * Broadcast a device alert to admins and the bin owner
+   */
+  async broadcastBinAlert(alert: BinEventResponse) {
+    try {
+      const alertData = {
+        type: 'DEVICE_ALERT',
+        alert,
+        timestamp: new Date()
+      };
+
+      // Gateway health alerts have no bin and go to the gateway's organization
+      if (!alert.binId) {
+        emitToOrganization(this.io, alert.organizationId, 'admins', 'bin-alert', alertData);
+        return;
+      }
+
+      const bin = await this.binService.getBinById(alert.binId, 'ADMIN', '');
+      const organizationId = alert.organizationId ?? await this.getBinOrganizationId(alert.binId);
+
+      emitToOrganization(this.io, organizationId, 'admins', 'bin-alert', alertData);
+
+      if (bin.user?.id) {
+        this.io.to(userRoom(bin.user.id)).emit('bin-alert', alertData);
+      }
+    } catch (error) {
+      console.error('Error broadcasting bin alert:', error);
+    }
+  }
+
+  /**
+   * Notify an organization's admins about its bins whose sensors stopped reporting
+   */
+  broadcastSensorOffline(
+    organizationId: string,
+    bins: Array<{ id: string; binCode: string; location: string; lastReadingAt?: Date }>
+  ) {
+    emitToOrganization(this.io, organizationId, 'admins', 'bin-sensor-offline', {
+      type: 'SENSOR_OFFLINE',
+      bins,
+      timestamp: new Date()
+    });
+  }
+
+  private async getBinOrganizationId(binId: string): Promise<string | null> {
+    const bin = await prisma.bin.findUnique({
+      where: { id: binId },
+      select: { organizationId: true }
+    });
+
+    return bin?.organizationId ?? null;
   }
 
   /**
@@ -138,10 +260,6 @@ export class RealtimeBinService {
    */
   private async getBinByCode(binCode: string) {
     try {
-      // This is a simplified version - you might want to add this method to BinService
-      const { PrismaClient } = require('@prisma/client');
-      const prisma = new PrismaClient();
-
       const bin = await prisma.bin.findUnique({
         where: { binCode },
         include: {
@@ -1,15 +1,33 @@
 // src/services/realtimeDriverService.ts
 import { Server as SocketIOServer } from 'socket.io';
 import { DriverService } from '@/services/driverService';
+import { EtaService } from '@/services/etaService';
+import { GeofenceService } from '@/services/geofenceService';
+import { ShiftService } from '@/services/shiftService';
+import { PolicyService } from '@/services/policyService';
+import { AppError } from '@/middleware/errorHandler';
 import { DriverLocationUpdate } from '@/types/driver';
+import { RouteReoptimization } from '@/types/pickup';
+import { GeofenceEvent, RouteEtaUpdate } from '@/types/route';
+import { MissedShift } from '@/types/shift';
+import { SocketData, SocketUser, runForSocket } from '@/middleware/socketAuth';
+import { emitToOrganization, userRoom, driverRoom } from '@/config/socket';
 
 export class RealtimeDriverService {
   private io: SocketIOServer;
   private driverService: DriverService;
+  private etaService: EtaService;
+  private geofenceService: GeofenceService;
+  private shiftService: ShiftService;
+  private policyService: PolicyService;
 
   constructor(io: SocketIOServer) {
     this.io = io;
     this.driverService = new DriverService();
+    this.etaService = new EtaService();
+    this.geofenceService = new GeofenceService();
+    this.shiftService = new ShiftService();
+    this.policyService = new PolicyService();
   }
 
   /**
@@ -17,19 +35,18 @@ export class RealtimeDriverService {
    */
   initialize() {
     this.io.on('connection', (socket) => {
-      console.log(`🚛 Driver tracking client connected: ${socket.id}`);
+      // Only signed-in users report driver updates; devices cannot
+      const { user } = socket.data as SocketData;
+      if (!user) {
+        return;
+      }
 
-      // Handle driver joining their room
-      socket.on('join-driver-room', (data) => {
-        const { driverId } = data;
-        socket.join(`driver-${driverId}`);
-        console.log(`Driver ${driverId} joined their room`);
-      });
+      console.log(`🚛 Driver tracking client connected: ${socket.id}`);
 
       // Handle driver location updates
       socket.on('driver-location-update', async (data) => {
         try {
-          await this.handleDriverLocationUpdate(data);
+          await runForSocket(socket, () => this.handleDriverLocationUpdate(user, data));
         } catch (error) {
           console.error('Error handling driver location update:', error);
         }
@@ -38,7 +55,7 @@ export class RealtimeDriverService {
       // Handle driver status changes
       socket.on('driver-status-change', async (data) => {
         try {
-          await this.handleDriverStatusChange(data);
+          await runForSocket(socket, () => this.handleDriverStatusChange(user, data));
         } catch (error) {
           console.error('Error handling driver status change:', error);
         }
@@ -47,7 +64,7 @@ export class RealtimeDriverService {
       // Handle driver check-in/check-out
       socket.on('driver-shift-update', async (data) => {
         try {
-          await this.handleDriverShiftUpdate(data);
+          await runForSocket(socket, () => this.handleDriverShiftUpdate(user, data));
         } catch (error) {
           console.error('Error handling driver shift update:', error);
         }
@@ -62,29 +79,41 @@ export class RealtimeDriverService {
   /**
    * Handle driver location updates
    */
-  async handleDriverLocationUpdate(data: { driverId: string; location: DriverLocationUpdate }) {
+  async handleDriverLocationUpdate(user: SocketUser, data: { location: DriverLocationUpdate }) {
     try {
-      const { driverId, location } = data;
+      const driverId = this.requireDriver(user);
+      const { location } = data;
+      const { organizationId } = user;
 
       // Update location in database
-      await this.driverService.updateDriverLocation(driverId, location, 'DRIVER', '');
+      await this.driverService.updateDriverLocation(driverId, location, user.role, user.userId);
 
       // Broadcast to admin dashboard
-      this.io.to('admin-room').emit('driver-location-updated', {
+      emitToOrganization(this.io, organizationId, 'admins', 'driver-location-updated', {
         type: 'LOCATION_UPDATE',
         driverId,
         location,
         timestamp: new Date()
       });
 
-      // Broadcast to other drivers in the area (for coordination)
-      this.io.emit('nearby-driver-update', {
+      // Broadcast to the organization's other drivers (for coordination)
+      emitToOrganization(this.io, organizationId, 'drivers', 'nearby-driver-update', {
         type: 'DRIVER_NEARBY',
         driverId,
         location,
         timestamp: new Date()
       });
 
+      // Detect arrivals at and departures from the bins on the driver's route
+      const geofenceEvents = await this.geofenceService.processLocation(driverId, location);
+      geofenceEvents.forEach(event => this.broadcastGeofenceEvent(organizationId, event));
+
+      // Keep the arrival estimates of the driver's remaining stops current
+      const etaUpdate = await this.etaService.refreshDriverEtas(driverId, location);
+      if (etaUpdate) {
+        this.broadcastEtaUpdate(organizationId, etaUpdate);
+      }
+
       console.log(`📍 Driver ${driverId} location updated:`, location);
     } catch (error) {
       console.error('Error in handleDriverLocationUpdate:', error);
@@ -94,9 +123,13 @@ export class RealtimeDriverService {
   /**
    * Handle driver status changes
    */
-  async handleDriverStatusChange(data: { driverId: string; status: string; location?: DriverLocationUpdate }) {
+  async handleDriverStatusChange(
+    user: SocketUser,
+    data: { status: string; location?: DriverLocationUpdate }
+  ) {
     try {
-      const { driverId, status, location } = data;
+      const driverId = this.requireDriver(user);
+      const { status, location } = data;
 
       // Update status in database
       const statusUpdate = {
@@ -105,13 +138,13 @@ export class RealtimeDriverService {
         currentLongitude: location?.longitude
       };
 
-      await this.driverService.updateDriverStatus(driverId, statusUpdate, 'DRIVER', '');
+      await this.driverService.updateDriverStatus(driverId, statusUpdate, user.role, user.userId);
 
       // Get updated driver info
       const updatedDriver = await this.driverService.getDriverById(driverId, 'ADMIN', '');
 
       // Broadcast to relevant parties
-      this.io.to('admin-room').emit('driver-status-changed', {
+      emitToOrganization(this.io, user.organizationId, 'admins', 'driver-status-changed', {
         type: 'STATUS_CHANGE',
         driver: updatedDriver,
         oldStatus: status,
@@ -120,7 +153,7 @@ export class RealtimeDriverService {
       });
 
       // Notify driver
-      this.io.to(`driver-${driverId}`).emit('status-updated', {
+      this.io.to(driverRoom(driverId)).emit('status-updated', {
         type: 'STATUS_CONFIRMED',
         status: updatedDriver.status,
         timestamp: new Date()
@@ -135,27 +168,34 @@ export class RealtimeDriverService {
   /**
    * Handle driver shift updates (check-in/check-out)
    */
-  async handleDriverShiftUpdate(data: { driverId: string; action: 'check-in' | 'check-out'; location?: DriverLocationUpdate }) {
+  async handleDriverShiftUpdate(
+    user: SocketUser,
+    data: { action: 'check-in' | 'check-out'; location?: DriverLocationUpdate }
+  ) {
     try {
-      const { driverId, action, location } = data;
+      const driverId = this.requireDriver(user);
+      const { action, location } = data;
+
+      await this.policyService.authorize('shift.clock', user.role);
 
       const status = action === 'check-in' ? 'ONLINE' : 'OFFLINE';
-      
-      // Update status
-      const statusUpdate = {
-        status: status as any,
-        currentLatitude: location?.latitude,
-        currentLongitude: location?.longitude
+      const clock = {
+        latitude: location?.latitude,
+        longitude: location?.longitude
       };
 
-      await this.driverService.updateDriverStatus(driverId, statusUpdate, 'DRIVER', '');
+      // Clocking in or out sets the driver's status as well
+      const shift = action === 'check-in'
+        ? await this.shiftService.clockIn(driverId, clock)
+        : await this.shiftService.clockOut(driverId, clock);
 
       // Broadcast shift change
-      this.io.to('admin-room').emit('driver-shift-changed', {
+      emitToOrganization(this.io, user.organizationId, 'admins', 'driver-shift-changed', {
         type: 'SHIFT_CHANGE',
         driverId,
         action,
         status,
+        shift,
         timestamp: new Date()
       });
 
@@ -165,11 +205,37 @@ export class RealtimeDriverService {
     }
   }
 
+  /**
+   * The driver profile of the signed-in user. Drivers only ever report their own
+   * location, status and shifts, whatever driver a client names.
+   */
+  private requireDriver(user: SocketUser): string {
+    if (!user.driverId) {
+      const error: AppError = new Error('Driver profile not found');
+      error.statusCode = 403;
+      throw error;
+    }
+
+    return user.driverId;
+  }
+
+  /**
+   * Alert an organization's dashboard to scheduled shifts nobody turned up for
+   */
+  broadcastMissedShifts(organizationId: string, shifts: MissedShift[]) {
+    emitToOrganization(this.io, organizationId, 'admins', 'shifts-missed', {
+      type: 'SHIFTS_MISSED',
+      shifts,
+      count: shifts.length,
+      timestamp: new Date()
+    });
+  }
+
   /**
    * Broadcast driver assignment notification
    */
-  broadcastDriverAssignment(driverId: string, routeId: string, pickupId?: string) {
-    this.io.to(`driver-${driverId}`).emit('assignment-received', {
+  broadcastDriverAssignment(organizationId: string, driverId: string, routeId: string, pickupId?: string) {
+    this.io.to(driverRoom(driverId)).emit('assignment-received', {
       type: 'NEW_ASSIGNMENT',
       routeId,
       pickupId,
@@ -178,7 +244,7 @@ export class RealtimeDriverService {
     });
 
     // Also notify admin dashboard
-    this.io.to('admin-room').emit('driver-assigned', {
+    emitToOrganization(this.io, organizationId, 'admins', 'driver-assigned', {
       type: 'DRIVER_ASSIGNED',
       driverId,
       routeId,
@@ -188,10 +254,10 @@ export class RealtimeDriverService {
   }
 
   /**
-   * Broadcast emergency alert to nearby drivers
+   * Broadcast emergency alert to an organization's drivers
    */
-  broadcastEmergencyToDrivers(location: DriverLocationUpdate, message: string, radius: number = 10) {
-    this.io.emit('emergency-alert-drivers', {
+  broadcastEmergencyToDrivers(organizationId: string, location: DriverLocationUpdate, message: string, radius: number = 10) {
+    emitToOrganization(this.io, organizationId, 'drivers', 'emergency-alert-drivers', {
       type: 'EMERGENCY_NEARBY',
       location,
       message,
@@ -203,15 +269,15 @@ export class RealtimeDriverService {
   /**
    * Send route completion notification
    */
-  notifyRouteCompletion(driverId: string, routeId: string, completionData: any) {
-    this.io.to(`driver-${driverId}`).emit('route-completed', {
+  notifyRouteCompletion(organizationId: string, driverId: string, routeId: string, completionData: any) {
+    this.io.to(driverRoom(driverId)).emit('route-completed', {
       type: 'ROUTE_COMPLETED',
       routeId,
       completionData,
       timestamp: new Date()
     });
 
-    this.io.to('admin-room').emit('route-completed', {
+    emitToOrganization(this.io, organizationId, 'admins', 'route-completed', {
       type: 'ROUTE_COMPLETED',
       driverId,
       routeId,
@@ -220,11 +286,86 @@ export class RealtimeDriverService {
     });
   }
 
+  /**
+   * Send a revised stop list to a driver whose route changed mid-shift
+   */
+  notifyRouteUpdated(organizationId: string | null, driverId: string, reoptimization: RouteReoptimization) {
+    this.io.to(driverRoom(driverId)).emit('route-updated', {
+      type: 'ROUTE_UPDATED',
+      routeId: reoptimization.route.routeId,
+      pickupId: reoptimization.pickupId,
+      reason: reoptimization.reason,
+      stops: reoptimization.route.stops,
+      timestamp: new Date()
+    });
+
+    emitToOrganization(this.io, organizationId, 'admins', 'route-updated', {
+      type: 'ROUTE_UPDATED',
+      driverId,
+      routeId: reoptimization.route.routeId,
+      pickupId: reoptimization.pickupId,
+      reason: reoptimization.reason,
+      addedDistance: reoptimization.addedDistance,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Tell a driver their arrival or departure at a stop was detected, and the admin dashboard too
+   */
+  broadcastGeofenceEvent(organizationId: string | null, event: GeofenceEvent) {
+    const eventName = event.type === 'ARRIVAL' ? 'stop-arrival-detected' : 'stop-departure-detected';
+
+    this.io.to(driverRoom(event.driverId)).emit(eventName, {
+      ...event,
+      message: event.type === 'ARRIVAL'
+        ? 'Arrived at pickup stop'
+        : 'You left the pickup stop. Please confirm the pickup was completed.',
+      timestamp: new Date()
+    });
+
+    emitToOrganization(this.io, organizationId, 'admins', 'geofence-event', {
+      ...event,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Send recomputed stop ETAs to the admin dashboard and each bin owner
+   */
+  broadcastEtaUpdate(organizationId: string | null, update: RouteEtaUpdate) {
+    emitToOrganization(this.io, organizationId, 'admins', 'route-etas-updated', {
+      type: 'ETA_UPDATE',
+      routeId: update.routeId,
+      driverId: update.driverId,
+      stops: update.stops.map(stop => ({
+        routeStopId: stop.routeStopId,
+        pickupId: stop.pickupId,
+        estimatedArrival: stop.estimatedArrival
+      })),
+      timestamp: update.updatedAt
+    });
+
+    for (const stop of update.stops) {
+      if (!stop.pickupId || !stop.binOwnerId) {
+        continue;
+      }
+
+      this.io.to(userRoom(stop.binOwnerId)).emit('pickup-eta-updated', {
+        type: 'PICKUP_ETA',
+        pickupId: stop.pickupId,
+        binId: stop.binId,
+        estimatedArrival: stop.estimatedArrival,
+        timestamp: update.updatedAt
+      });
+    }
+  }
+
   /**
    * Send traffic/route update to driver
    */
   sendTrafficUpdate(driverId: string, trafficData: any) {
-    this.io.to(`driver-${driverId}`).emit('traffic-update', {
+    this.io.to(driverRoom(driverId)).emit('traffic-update', {
       type: 'TRAFFIC_UPDATE',
       data: trafficData,
       timestamp: new Date()
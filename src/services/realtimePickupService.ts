@@ -1,7 +1,8 @@
 // src/services/realtimePickupService.ts
 import { Server as SocketIOServer } from 'socket.io';
 import { PickupService } from '../services/pickupService';
-import { PickupNotification } from '@/types/pickup';
+import { SocketData, runForSocket } from '@/middleware/socketAuth';
+import { emitToOrganization, userRoom, driverRoom } from '@/config/socket';
 
 export class RealtimePickupService {
   private io: SocketIOServer;
@@ -17,12 +18,18 @@ export class RealtimePickupService {
    */
   initialize() {
     this.io.on('connection', (socket) => {
+      // Users joined their own and their organization's rooms when they connected
+      const { user } = socket.data as SocketData;
+      if (!user) {
+        return;
+      }
+
       console.log(`📋 Pickup client connected: ${socket.id}`);
 
       // Handle pickup status updates
       socket.on('pickup-status-update', async (data) => {
         try {
-          await this.handlePickupStatusUpdate(data);
+          await runForSocket(socket, () => this.handlePickupStatusUpdate(user.organizationId, data));
         } catch (error) {
           console.error('Error handling pickup status update:', error);
         }
@@ -31,7 +38,7 @@ export class RealtimePickupService {
       // Handle pickup creation
       socket.on('pickup-created', async (data) => {
         try {
-          await this.handlePickupCreated(data);
+          await runForSocket(socket, () => this.handlePickupCreated(user.organizationId, data));
         } catch (error) {
           console.error('Error handling pickup creation:', error);
         }
@@ -40,7 +47,7 @@ export class RealtimePickupService {
       // Handle driver assignment
       socket.on('driver-assigned', async (data) => {
         try {
-          await this.handleDriverAssigned(data);
+          await runForSocket(socket, () => this.handleDriverAssigned(user.organizationId, data));
         } catch (error) {
           console.error('Error handling driver assignment:', error);
         }
@@ -55,9 +62,12 @@ export class RealtimePickupService {
   /**
    * Handle pickup status updates
    */
-  async handlePickupStatusUpdate(data: { pickupId: string; status: string; driverId?: string }) {
+  async handlePickupStatusUpdate(
+    organizationId: string | null,
+    data: { pickupId: string; status: string; driverId?: string }
+  ) {
     try {
-      const { pickupId, status, driverId } = data;
+      const { pickupId, status } = data;
 
       // Get pickup details
       const pickup = await this.pickupService.getPickupById(pickupId, 'ADMIN', '');
@@ -75,15 +85,15 @@ export class RealtimePickupService {
       };
 
       // Notify admin dashboard
-      this.io.to('admin-room').emit('pickup-status-changed', updateData);
+      emitToOrganization(this.io, organizationId, 'admins', 'pickup-status-changed', updateData);
 
       // Notify assigned driver
       if (pickup.driver?.id) {
-        this.io.to(`driver-${pickup.driver.id}`).emit('pickup-status-changed', updateData);
+        this.io.to(driverRoom(pickup.driver.id)).emit('pickup-status-changed', updateData);
       }
 
       // Notify bin owner
-      this.io.to(`user-${pickup.createdBy.id}`).emit('pickup-status-changed', updateData);
+      this.io.to(userRoom(pickup.createdBy.id)).emit('pickup-status-changed', updateData);
 
       console.log(`📋 Pickup ${pickupId} status updated to: ${status}`);
     } catch (error) {
@@ -94,7 +104,7 @@ export class RealtimePickupService {
   /**
    * Handle new pickup creation
    */
-  async handlePickupCreated(data: { pickupId: string }) {
+  async handlePickupCreated(organizationId: string | null, data: { pickupId: string }) {
     try {
       const pickup = await this.pickupService.getPickupById(data.pickupId, 'ADMIN', '');
 
@@ -110,11 +120,11 @@ export class RealtimePickupService {
       };
 
       // Notify admin dashboard
-      this.io.to('admin-room').emit('pickup-created', notificationData);
+      emitToOrganization(this.io, organizationId, 'admins', 'pickup-created', notificationData);
 
-      // If high priority or urgent, notify all available drivers
+      // If high priority or urgent, notify the organization's drivers
       if (['HIGH', 'URGENT'].includes(pickup.priority)) {
-        this.io.to('driver-room').emit('urgent-pickup-created', notificationData);
+        emitToOrganization(this.io, organizationId, 'drivers', 'urgent-pickup-created', notificationData);
       }
 
       console.log(`📋 New pickup created: ${pickup.id} (${pickup.priority})`);
@@ -126,7 +136,7 @@ export class RealtimePickupService {
   /**
    * Handle driver assignment to pickup
    */
-  async handleDriverAssigned(data: { pickupId: string; driverId: string }) {
+  async handleDriverAssigned(organizationId: string | null, data: { pickupId: string; driverId: string }) {
     try {
       const pickup = await this.pickupService.getPickupById(data.pickupId, 'ADMIN', '');
 
@@ -143,13 +153,13 @@ export class RealtimePickupService {
       };
 
       // Notify assigned driver
-      this.io.to(`driver-${data.driverId}`).emit('pickup-assigned', assignmentData);
+      this.io.to(driverRoom(data.driverId)).emit('pickup-assigned', assignmentData);
 
       // Notify admin dashboard
-      this.io.to('admin-room').emit('pickup-assigned', assignmentData);
+      emitToOrganization(this.io, organizationId, 'admins', 'pickup-assigned', assignmentData);
 
       // Notify bin owner
-      this.io.to(`user-${pickup.createdBy.id}`).emit('pickup-assigned', assignmentData);
+      this.io.to(userRoom(pickup.createdBy.id)).emit('pickup-assigned', assignmentData);
 
       console.log(`📋 Driver ${data.driverId} assigned to pickup ${data.pickupId}`);
     } catch (error) {
@@ -171,13 +181,13 @@ export class RealtimePickupService {
       timestamp: new Date()
     };
 
-    this.io.to(`driver-${driverId}`).emit('pickup-reminder', reminderData);
+    this.io.to(driverRoom(driverId)).emit('pickup-reminder', reminderData);
   }
 
   /**
    * Broadcast emergency pickup alert
    */
-  broadcastEmergencyPickup(pickupId: string, binLocation: string) {
+  broadcastEmergencyPickup(organizationId: string, pickupId: string, binLocation: string) {
     const emergencyData = {
       type: 'EMERGENCY_PICKUP',
       pickupId,
@@ -186,17 +196,17 @@ export class RealtimePickupService {
       timestamp: new Date()
     };
 
-    // Notify all online drivers
-    this.io.to('driver-room').emit('emergency-pickup-alert', emergencyData);
+    // Notify the organization's online drivers
+    emitToOrganization(this.io, organizationId, 'drivers', 'emergency-pickup-alert', emergencyData);
 
     // Notify admin dashboard
-    this.io.to('admin-room').emit('emergency-pickup-alert', emergencyData);
+    emitToOrganization(this.io, organizationId, 'admins', 'emergency-pickup-alert', emergencyData);
   }
 
   /**
    * Send route completion notification
    */
-  notifyRouteCompletion(driverId: string, routeData: any) {
+  notifyRouteCompletion(organizationId: string, driverId: string, routeData: any) {
     const completionData = {
       type: 'ROUTE_COMPLETED',
       routeData,
@@ -204,8 +214,8 @@ export class RealtimePickupService {
       timestamp: new Date()
     };
 
-    this.io.to(`driver-${driverId}`).emit('route-completed', completionData);
-    this.io.to('admin-room').emit('route-completed', {
+    this.io.to(driverRoom(driverId)).emit('route-completed', completionData);
+    emitToOrganization(this.io, organizationId, 'admins', 'route-completed', {
       ...completionData,
       driverId
     });
@@ -214,8 +224,8 @@ export class RealtimePickupService {
   /**
    * Send pickup statistics update
    */
-  broadcastPickupStatsUpdate(stats: any) {
-    this.io.to('admin-room').emit('pickup-stats-updated', {
+  broadcastPickupStatsUpdate(organizationId: string, stats: any) {
+    emitToOrganization(this.io, organizationId, 'admins', 'pickup-stats-updated', {
       type: 'STATS_UPDATE',
       stats,
       timestamp: new Date()
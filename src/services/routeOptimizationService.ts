@@ -1,21 +1,110 @@
 // src/services/routeOptimizationService.ts
-import { PickupStatus, PrismaClient } from '@prisma/client';
-import { PickupRouteOptimization, OptimizedRoute } from '../types/pickup';
+import { PickupStatus, PrismaClient, RouteStatus, RouteStopType } from '@prisma/client';
+import { PickupRouteOptimization, OptimizedRoute, RouteReoptimization } from '../types/pickup';
+import {
+  FacilitySummary,
+  FleetRouteOptimizationRequest,
+  FleetRoutePlan,
+  RoutingProvider,
+  VrpFacility,
+  VrpProblem,
+  VrpRoute,
+  VrpSolution,
+  VrpStop,
+  VrpVehicle
+} from '../types/routing';
 import { AppError } from '../middleware/errorHandler';
+import { VrpSolverService } from '../services/vrpSolverService';
+import { getRoutingProvider } from '../services/routingProviderFactory';
+import { RealtimeDriverService } from '../services/realtimeDriverService';
+import { PolicyService } from '../services/policyService';
+import { OPEN_TICKET_STATUSES } from '../services/maintenanceService';
+import { getDriverShiftWindow } from '../utils/shift';
+import { getSocketServer } from '../config/socket';
+import { tenantIsolation } from '@/utils/tenantIsolation';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+const AVERAGE_SPEED_KMH = 30;
+const STOP_SERVICE_MINUTES = 5;
+// Loose mixed household waste, used when a bin does not report its weight
+const WASTE_DENSITY_KG_PER_LITRE = 0.15;
+// A scheduled pickup may be served this long before or after its scheduled time
+const PICKUP_WINDOW_BEFORE_MINUTES = 60;
+const PICKUP_WINDOW_AFTER_MINUTES = 120;
+const DEFAULT_START_LOCATION = { latitude: 8.4840, longitude: -13.2299 };
+const PRIORITY_RANK: Record<string, number> = { LOW: 0, MEDIUM: 1, HIGH: 2, URGENT: 3 };
+// Share of the truck's capacity filled before it is sent to a disposal site
+const USABLE_CAPACITY_RATIO = 0.9;
+// A single driver's route is not bound by a shift, only by this horizon
+const SINGLE_ROUTE_HORIZON_HOURS = 24;
+// Most pickups planned in one request; larger plans should be split by zone or date
+const MAX_PLANNED_STOPS = 300;
+// Stops a driver has not reached yet
+const PENDING_STOP_STATUSES: PickupStatus[] = [PickupStatus.SCHEDULED, PickupStatus.IN_PROGRESS];
 
 export class RouteOptimizationService {
+  private vrpSolverService: VrpSolverService;
+  private routingProvider: RoutingProvider;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.vrpSolverService = new VrpSolverService();
+    this.routingProvider = getRoutingProvider();
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Plan a driver's route on a user's behalf. Users who may only optimize their own
+   * route can plan it only for themselves, and only over pickups that are unassigned
+   * or already theirs, so they cannot take over another driver's work.
+   */
+  async optimizeDriverRoute(
+    data: PickupRouteOptimization,
+    requestUserRole: string,
+    requestUserId: string
+  ): Promise<OptimizedRoute> {
+    try {
+      await this.policyService.assertAllowed('route.optimize', requestUserRole, requestUserId, data.driverId, 'driver');
+
+      const scope = await this.policyService.scopeFor('route.optimize', requestUserRole);
+
+      if (scope !== 'any') {
+        const otherDriversPickups = await prisma.pickup.count({
+          where: {
+            id: { in: data.pickupIds },
+            driverId: { not: null },
+            NOT: { driverId: data.driverId }
+          }
+        });
+
+        if (otherDriversPickups > 0) {
+          const error: AppError = new Error('Some pickups are assigned to another driver');
+          error.statusCode = 403;
+          throw error;
+        }
+      }
+
+      return await this.optimizePickupRoute(data);
+    } catch (error) {
+      throw error;
+    }
+  }
+
   /**
-   * Optimize route for multiple pickups using nearest neighbor algorithm
+   * Plan a single driver's route over the given pickups, starting and ending at
+   * the truck's depot and tipping at disposal sites when the truck fills up. The
+   * plan is stored for the driver unless only a preview is asked for. Pickups
+   * that do not fit the truck or the shift are returned as unassigned.
    */
-  async optimizePickupRoute(data: PickupRouteOptimization): Promise<OptimizedRoute> {
+  async optimizePickupRoute(data: PickupRouteOptimization, persist: boolean = true): Promise<OptimizedRoute> {
     try {
       // Verify driver exists
       const driver = await prisma.driver.findUnique({
         where: { id: data.driverId },
         include: {
-          user: { select: { fullName: true } }
+          user: { select: { fullName: true } },
+          truck: { include: { depot: true } }
         }
       });
 
@@ -38,7 +127,9 @@ export class RouteOptimizationService {
               binCode: true,
               location: true,
               latitude: true,
-              longitude: true
+              longitude: true,
+              capacity: true,
+              currentLevel: true
             }
           }
         }
@@ -50,155 +141,267 @@ export class RouteOptimizationService {
         throw error;
       }
 
-      // Use driver's current location or provided start location
-      const startLocation = data.startLocation || {
-        latitude: driver.currentLatitude ? Number(driver.currentLatitude) : 8.4840,
-        longitude: driver.currentLongitude ? Number(driver.currentLongitude) : -13.2299
-      };
-
-      // Integrate Google Maps Directions API for route optimization
-      const { GoogleMapsService } = await import('./googleMapsService');
-      const googleMapsService = new GoogleMapsService();
+      const depot = driver.truck?.depot?.isActive ? driver.truck.depot : null;
+      const [demands, disposalSites] = await Promise.all([
+        this.estimatePickupDemands(pickups),
+        prisma.disposalSite.findMany({ where: { isActive: true } })
+      ]);
 
-      // Prepare waypoints
-      const waypoints = pickups.map((pickup: any) => ({
-        latitude: Number(pickup.bin.latitude),
-        longitude: Number(pickup.bin.longitude)
-      }));
-
-      let routeResponse;
-      let optimizedPickups;
-      let totalDistance = 0;
-      let estimatedDuration = 0;
-      let useGoogleMaps = true;
-
-      try {
-        // Use Google Maps for route optimization
-        if (waypoints.length > 1) {
-          routeResponse = await googleMapsService.getRoute({
-            origin: startLocation,
-            destination: waypoints[waypoints.length - 1],
-            waypoints: waypoints.slice(0, -1)
+      // Provided start location, then the depot, then the driver's current location
+      const startLocation = data.startLocation || (depot
+        ? { latitude: Number(depot.latitude), longitude: Number(depot.longitude) }
+        : {
+            latitude: driver.currentLatitude ? Number(driver.currentLatitude) : DEFAULT_START_LOCATION.latitude,
+            longitude: driver.currentLongitude ? Number(driver.currentLongitude) : DEFAULT_START_LOCATION.longitude
           });
 
-          // Google returns the optimized waypoint order if optimize:true is used
-          // Map the order back to pickups
-          const optimizedOrder = routeResponse.steps?.map((step: any, idx: number) => idx) || waypoints.map((_: any, idx: number) => idx);
-          optimizedPickups = optimizedOrder.map((i: number) => ({
-            pickupId: pickups[i].id,
-            bin: pickups[i].bin,
-            latitude: Number(pickups[i].bin.latitude),
-            longitude: Number(pickups[i].bin.longitude)
-          }));
-
-          totalDistance = routeResponse.distance;
-          estimatedDuration = Math.round(routeResponse.duration / 60 + pickups.length * 5); // duration in min + 5 min per stop
-        } else {
-          // Only one pickup, no optimization needed
-          optimizedPickups = pickups.map((pickup: any) => ({
-            pickupId: pickup.id,
-            bin: pickup.bin,
+      const startTime = new Date();
+      const solution = await this.solveOnRoadNetwork({
+        stops: pickups.map(pickup => ({
+          id: pickup.id,
+          location: {
             latitude: Number(pickup.bin.latitude),
             longitude: Number(pickup.bin.longitude)
-          }));
-          // Use Haversine as backup for single
-          totalDistance = googleMapsService.calculateHaversineDistance(startLocation, waypoints[0]);
-          estimatedDuration = Math.round((totalDistance / 30) * 60 + 5); // 30 km/h + 5 min
-        }
-      } catch (err) {
-        // Fallback to nearest neighbor if Google Maps fails
-        useGoogleMaps = false;
-        optimizedPickups = this.nearestNeighborOptimization(
-          startLocation,
-          pickups.map((pickup: any) => ({
-            pickupId: pickup.id,
-            bin: pickup.bin,
-            latitude: Number(pickup.bin.latitude),
-            longitude: Number(pickup.bin.longitude)
-          }))
-        );
-        // Calculate total distance and estimated duration
-        totalDistance = 0;
-        let currentLocation = startLocation;
-        for (const pickup of optimizedPickups) {
-          const distance = this.calculateDistance(
-            currentLocation.latitude,
-            currentLocation.longitude,
-            pickup.latitude,
-            pickup.longitude
-          );
-          totalDistance += distance;
-          currentLocation = { latitude: pickup.latitude, longitude: pickup.longitude };
-        }
-        const travelTimeMinutes = (totalDistance / 30) * 60;
-        const pickupTimeMinutes = optimizedPickups.length * 5;
-        estimatedDuration = Math.round(travelTimeMinutes + pickupTimeMinutes);
+          },
+          demand: demands.get(pickup.id)!,
+          serviceMinutes: STOP_SERVICE_MINUTES,
+          priority: PRIORITY_RANK[pickup.priority] ?? 1
+        })),
+        vehicles: [{
+          id: driver.id,
+          start: startLocation,
+          ...(depot && { end: this.toVrpFacility(depot, 0) }),
+          // Without a disposal site, pickups beyond one truckload are left unassigned
+          capacity: this.usableCapacity(driver.truck?.capacity),
+          availableFrom: startTime,
+          shiftEnd: new Date(startTime.getTime() + SINGLE_ROUTE_HORIZON_HOURS * 60 * 60 * 1000)
+        }],
+        disposalSites: disposalSites.map(site => this.toVrpFacility(site, site.unloadMinutes)),
+        speedKmh: AVERAGE_SPEED_KMH
+      });
+
+      // Pickups that did not fit are reported, not silently dropped
+      const pickupsById = new Map(pickups.map(pickup => [pickup.id, pickup]));
+      const unassigned = solution.unassigned.map(item => ({
+        pickupId: item.stopId,
+        binCode: pickupsById.get(item.stopId)!.bin.binCode,
+        reason: item.reason
+      }));
+
+      if (!persist) {
+        return {
+          ...this.toRoutePreview(driver.id, depot, disposalSites, solution.routes[0], pickups),
+          unassigned
+        };
       }
 
-      // Create route record
-      const route = await prisma.route.create({
-        data: {
-          driverId: data.driverId,
-          routeName: `Route ${new Date().toLocaleDateString()} - ${driver.user.fullName}`,
-          totalDistance: totalDistance,
-          estimatedDuration,
-          status: 'PLANNED'
-        }
-      });
+      const routeId = await this.saveRoute(
+        driver.id,
+        driver.user.fullName,
+        depot?.id ?? null,
+        solution.routes[0],
+        new Map(pickups.map(pickup => [pickup.id, pickup.bin.id]))
+      );
 
-      // Create route stops
-      const routeStops = [];
-      let currentTime = new Date();
-
-      for (let i = 0; i < optimizedPickups.length; i++) {
-        const pickup = optimizedPickups[i];
-        
-        // Calculate estimated arrival time
-        if (i > 0) {
-          const segmentDistance = this.calculateDistance(
-            optimizedPickups[i-1].latitude,
-            optimizedPickups[i-1].longitude,
-            pickup.latitude,
-            pickup.longitude
-          );
-          const travelTime = (segmentDistance / 30) * 60; // minutes
-          currentTime = new Date(currentTime.getTime() + (travelTime + 5) * 60 * 1000);
-        }
+      return {
+        ...await this.getOptimizedRoute(routeId),
+        unassigned
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
 
-        const routeStop = await prisma.routeStop.create({
-          data: {
-            routeId: route.id,
-            binId: pickup.bin.id,
-            stopOrder: i + 1,
-            estimatedArrival: currentTime,
-            status: PickupStatus.SCHEDULED
+  /**
+   * Plan routes for all open pickups across all available drivers, respecting
+   * truck capacity, pickup time windows and shift ends
+   */
+  async optimizeFleetRoutes(data: FleetRouteOptimizationRequest): Promise<FleetRoutePlan> {
+    try {
+      const startTime = data.startTime ? new Date(data.startTime) : new Date();
+
+      const [pickups, drivers, disposalSites] = await Promise.all([
+        prisma.pickup.findMany({
+          where: {
+            status: PickupStatus.SCHEDULED,
+            ...(data.pickupIds && { id: { in: data.pickupIds } })
+          },
+          include: {
+            bin: {
+              select: {
+                id: true,
+                binCode: true,
+                location: true,
+                latitude: true,
+                longitude: true,
+                capacity: true,
+                currentLevel: true
+              }
+            }
           }
-        });
+        }),
+        prisma.driver.findMany({
+          where: {
+            isAvailable: true,
+            user: { isActive: true },
+            // Trucks in the shop or with an unresolved critical defect stay home
+            truck: {
+              isActive: true,
+              maintenanceRecords: { none: { completedAt: null } },
+              maintenanceTickets: { none: { isCritical: true, status: { in: OPEN_TICKET_STATUSES } } }
+            },
+            ...(data.driverIds && { id: { in: data.driverIds } })
+          },
+          include: {
+            user: { select: { fullName: true } },
+            truck: {
+              include: {
+                depot: true,
+                inspections: { orderBy: { createdAt: 'desc' }, take: 1 }
+              }
+            },
+            shiftTemplates: true
+          }
+        }),
+        prisma.disposalSite.findMany({ where: { isActive: true } })
+      ]);
 
-        routeStops.push({
-          pickupId: pickup.pickupId,
-          order: i + 1,
-          estimatedArrival: currentTime,
-          bin: pickup.bin
-        });
+      if (pickups.length === 0) {
+        const error: AppError = new Error('No open pickups to optimize');
+        error.statusCode = 400;
+        throw error;
       }
 
-      // Update pickups with route assignment
-      await prisma.pickup.updateMany({
-        where: {
-          id: { in: data.pickupIds }
+      const demands = await this.estimatePickupDemands(pickups);
+
+      const stops: VrpStop[] = pickups.map(pickup => ({
+        id: pickup.id,
+        location: {
+          latitude: Number(pickup.bin.latitude),
+          longitude: Number(pickup.bin.longitude)
         },
-        data: {
-          driverId: data.driverId
+        demand: demands.get(pickup.id)!,
+        serviceMinutes: STOP_SERVICE_MINUTES,
+        priority: PRIORITY_RANK[pickup.priority] ?? 1,
+        ...(pickup.scheduledAt && {
+          windowStart: new Date(pickup.scheduledAt.getTime() - PICKUP_WINDOW_BEFORE_MINUTES * 60 * 1000),
+          windowEnd: new Date(pickup.scheduledAt.getTime() + PICKUP_WINDOW_AFTER_MINUTES * 60 * 1000)
+        })
+      }));
+
+      const vehicles: VrpVehicle[] = [];
+      for (const driver of drivers) {
+        const shift = getDriverShiftWindow(startTime, driver);
+        if (!shift || !driver.truck || shift.end <= startTime) {
+          continue;
         }
+
+        // A truck whose last pre-trip inspection failed on a critical item is not driven
+        if (driver.truck.inspections[0]?.criticalFailure) {
+          continue;
+        }
+
+        // Trucks based at a depot start and end their route there
+        const depot = driver.truck.depot?.isActive ? driver.truck.depot : null;
+
+        vehicles.push({
+          id: driver.id,
+          start: depot
+            ? { latitude: Number(depot.latitude), longitude: Number(depot.longitude) }
+            : {
+                latitude: driver.currentLatitude ? Number(driver.currentLatitude) : DEFAULT_START_LOCATION.latitude,
+                longitude: driver.currentLongitude ? Number(driver.currentLongitude) : DEFAULT_START_LOCATION.longitude
+              },
+          ...(depot && { end: this.toVrpFacility(depot, 0) }),
+          capacity: disposalSites.length > 0
+            ? this.usableCapacity(driver.truck.capacity)
+            : driver.truck.capacity ?? 1000,
+          availableFrom: shift.start > startTime ? shift.start : startTime,
+          shiftEnd: shift.end
+        });
+      }
+
+      const solution = await this.solveOnRoadNetwork({
+        stops,
+        vehicles,
+        disposalSites: disposalSites.map(site => this.toVrpFacility(site, site.unloadMinutes)),
+        speedKmh: AVERAGE_SPEED_KMH
       });
 
+      const pickupsById = new Map(pickups.map(pickup => [pickup.id, pickup]));
+      const driversById = new Map(drivers.map(driver => [driver.id, driver]));
+      const routeIds = new Map<string, string>();
+
+      if (data.persist) {
+        const binsByPickup = new Map(pickups.map(pickup => [pickup.id, pickup.bin.id]));
+
+        for (const route of solution.routes.filter(plannedRoute => plannedRoute.stops.length > 0)) {
+          const driver = driversById.get(route.vehicleId)!;
+          const depot = driver.truck!.depot?.isActive ? driver.truck!.depot : null;
+          routeIds.set(
+            driver.id,
+            await this.saveRoute(driver.id, driver.user.fullName, depot?.id ?? null, route, binsByPickup)
+          );
+        }
+      }
+
+      const facilitiesById = new Map<string, FacilitySummary>(
+        [
+          ...disposalSites,
+          ...drivers.flatMap(driver => driver.truck?.depot ? [driver.truck.depot] : [])
+        ].map(facility => [facility.id, this.toFacilitySummary(facility)])
+      );
+
       return {
-        routeId: route.id,
-        driverId: data.driverId,
-        totalDistance: Math.round(totalDistance * 100) / 100,
-        estimatedDuration,
-        pickups: routeStops
+        routes: solution.routes
+          .filter(route => route.stops.length > 0)
+          .map(route => {
+            const driver = driversById.get(route.vehicleId)!;
+            const depotId = driver.truck!.depot?.isActive ? driver.truck!.depot.id : null;
+
+            return {
+              routeId: routeIds.get(driver.id) ?? null,
+              driverId: driver.id,
+              driverName: driver.user.fullName,
+              truckId: driver.truck!.id,
+              licensePlate: driver.truck!.licensePlate,
+              capacity: driver.truck!.capacity ?? 1000,
+              load: Math.round(route.load * 100) / 100,
+              totalDistance: Math.round(route.distance * 100) / 100,
+              estimatedDuration: route.duration,
+              depot: depotId ? facilitiesById.get(depotId)! : null,
+              stops: route.stops.map((stop, index) => {
+                const pickup = stop.stopId ? pickupsById.get(stop.stopId)! : null;
+
+                return {
+                  type: stop.type,
+                  pickupId: pickup?.id ?? null,
+                  order: index + 1,
+                  estimatedArrival: stop.arrival,
+                  estimatedDeparture: stop.departure,
+                  demand: pickup ? demands.get(pickup.id)! : 0,
+                  load: Math.round(stop.load * 100) / 100,
+                  bin: pickup
+                    ? {
+                        id: pickup.bin.id,
+                        binCode: pickup.bin.binCode,
+                        location: pickup.bin.location,
+                        latitude: Number(pickup.bin.latitude),
+                        longitude: Number(pickup.bin.longitude)
+                      }
+                    : null,
+                  facility: stop.facilityId ? facilitiesById.get(stop.facilityId) ?? null : null
+                };
+              })
+            };
+          }),
+        unassigned: solution.unassigned.map(item => ({
+          pickupId: item.stopId,
+          binCode: pickupsById.get(item.stopId)!.bin.binCode,
+          reason: vehicles.length === 0 ? 'NO_VEHICLE' : item.reason
+        })),
+        totalDistance: Math.round(solution.totalDistance * 100) / 100,
+        generatedAt: new Date()
       };
     } catch (error) {
       throw error;
@@ -206,10 +409,30 @@ export class RouteOptimizationService {
   }
 
   /**
-   * Get optimized route for driver's assigned pickups
+   * Get optimized route for driver's assigned pickups. Only reads: without a stored
+   * route the driver gets a preview, so a dispatcher's plan is never replaced.
    */
   async getDriverOptimizedRoute(driverId: string) {
     try {
+      // A route released to the driver takes precedence, then the latest plan
+      const activeRoute =
+        await prisma.route.findFirst({ where: { driverId, status: RouteStatus.IN_PROGRESS } }) ||
+        await prisma.route.findFirst({
+          where: { driverId, status: RouteStatus.PUBLISHED },
+          orderBy: { publishedAt: 'desc' }
+        }) ||
+        await prisma.route.findFirst({
+          where: { driverId, status: RouteStatus.PLANNED },
+          orderBy: { createdAt: 'desc' }
+        });
+
+      if (activeRoute) {
+        return {
+          success: true,
+          data: await this.getOptimizedRoute(activeRoute.id)
+        };
+      }
+
       // Get scheduled pickups for driver
       const pickups = await prisma.pickup.findMany({
         where: {
@@ -237,6 +460,8 @@ export class RouteOptimizationService {
           success: true,
           data: {
             routeId: null,
+            depot: null,
+            stops: [],
             pickups: [],
             totalDistance: 0,
             estimatedDuration: 0
@@ -244,11 +469,11 @@ export class RouteOptimizationService {
         };
       }
 
-      // Optimize route
+      // Preview an optimized route without storing it
       const optimizedRoute = await this.optimizePickupRoute({
         driverId,
         pickupIds: pickups.map(p => p.id)
-      });
+      }, false);
 
       return {
         success: true,
@@ -260,113 +485,609 @@ export class RouteOptimizationService {
   }
 
   /**
-   * Nearest neighbor algorithm for route optimization
+   * Slot an urgent pickup into the cheapest feasible place across the routes
+   * drivers are driving. Stops not yet reached keep their order; disposal trips
+   * and the return to the depot are re-planned around the new stop, and the
+   * driver is sent the revised stop list. Returns null when no route can take it.
    */
-  private nearestNeighborOptimization(
-    startLocation: { latitude: number; longitude: number },
-    pickups: Array<{
-      pickupId: string;
-      bin: any;
-      latitude: number;
-      longitude: number;
-    }>
-  ) {
-    const optimized = [];
-    const remaining = [...pickups];
-    let currentLocation = startLocation;
-
-    while (remaining.length > 0) {
-      let nearestIndex = 0;
-      let shortestDistance = this.calculateDistance(
-        currentLocation.latitude,
-        currentLocation.longitude,
-        remaining[0].latitude,
-        remaining[0].longitude
-      );
+  async insertUrgentPickup(pickupId: string, reason: string): Promise<RouteReoptimization | null> {
+    try {
+      const pickup = await prisma.pickup.findUnique({
+        where: { id: pickupId },
+        include: {
+          bin: {
+            select: {
+              id: true,
+              binCode: true,
+              latitude: true,
+              longitude: true,
+              capacity: true,
+              currentLevel: true
+            }
+          }
+        }
+      });
+
+      if (!pickup) {
+        const error: AppError = new Error('Pickup not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      // Already on a route a driver has been given
+      const existingStop = await prisma.routeStop.findFirst({
+        where: {
+          pickupId,
+          status: { in: PENDING_STOP_STATUSES },
+          route: { status: { in: [RouteStatus.PUBLISHED, RouteStatus.IN_PROGRESS] } }
+        }
+      });
+
+      if (pickup.status !== PickupStatus.SCHEDULED || existingStop) {
+        return null;
+      }
+
+      const [routes, disposalSites] = await Promise.all([
+        prisma.route.findMany({
+          where: {
+            status: RouteStatus.IN_PROGRESS,
+            driver: { truck: { isActive: true } }
+          },
+          include: {
+            depot: true,
+            driver: { include: { truck: true, shiftTemplates: true } },
+            stops: {
+              include: {
+                bin: {
+                  select: {
+                    id: true,
+                    latitude: true,
+                    longitude: true,
+                    capacity: true,
+                    currentLevel: true
+                  }
+                },
+                disposalSite: true
+              },
+              orderBy: { stopOrder: 'asc' }
+            }
+          }
+        }),
+        prisma.disposalSite.findMany({ where: { isActive: true } })
+      ]);
+
+      if (routes.length === 0) {
+        return null;
+      }
+
+      const now = new Date();
+      const remainingStops = routes.map(route => route.stops.filter(stop =>
+        stop.status === PickupStatus.SCHEDULED && stop.stopType === RouteStopType.PICKUP && stop.pickupId && stop.bin
+      ));
+      const demands = await this.estimatePickupDemands([
+        { id: pickup.id, bin: pickup.bin },
+        ...remainingStops.flat().map(stop => ({ id: stop.pickupId!, bin: stop.bin! }))
+      ]);
+
+      const vehicles: VrpVehicle[] = [];
+      for (const route of routes) {
+        const driver = route.driver;
+        // The stop the driver is at now is finished before anything else
+        const currentStop = route.stops.find(stop => stop.status === PickupStatus.IN_PROGRESS);
+        const currentLocation = currentStop?.bin ?? currentStop?.disposalSite ?? null;
+        const depot = route.depot?.isActive ? route.depot : null;
+        const shift = getDriverShiftWindow(now, driver);
+
+        vehicles.push({
+          id: route.id,
+          start: currentLocation
+            ? { latitude: Number(currentLocation.latitude), longitude: Number(currentLocation.longitude) }
+            : driver.currentLatitude && driver.currentLongitude
+              ? { latitude: Number(driver.currentLatitude), longitude: Number(driver.currentLongitude) }
+              : depot
+                ? { latitude: Number(depot.latitude), longitude: Number(depot.longitude) }
+                : DEFAULT_START_LOCATION,
+          ...(depot && { end: this.toVrpFacility(depot, 0) }),
+          capacity: disposalSites.length > 0
+            ? this.usableCapacity(driver.truck?.capacity)
+            : driver.truck?.capacity ?? 1000,
+          initialLoad: await this.estimateLoadOnBoard(route.stops),
+          availableFrom: currentStop
+            ? new Date(now.getTime() + STOP_SERVICE_MINUTES * 60 * 1000)
+            : now,
+          // Drivers past their shift end finish the stops they have, but take no more
+          shiftEnd: !shift
+            ? new Date(now.getTime() + SINGLE_ROUTE_HORIZON_HOURS * 60 * 60 * 1000)
+            : shift.end > now ? shift.end : now
+        });
+      }
 
-      // Find nearest pickup
-      for (let i = 1; i < remaining.length; i++) {
-        const distance = this.calculateDistance(
-          currentLocation.latitude,
-          currentLocation.longitude,
-          remaining[i].latitude,
-          remaining[i].longitude
-        );
-
-        if (distance < shortestDistance) {
-          shortestDistance = distance;
-          nearestIndex = i;
+      // Committed stops have no window, the urgent stop must be reached before its deadline
+      const stops: VrpStop[] = [
+        ...remainingStops.flat().map(stop => ({
+          id: stop.pickupId!,
+          location: { latitude: Number(stop.bin!.latitude), longitude: Number(stop.bin!.longitude) },
+          demand: demands.get(stop.pickupId!)!,
+          serviceMinutes: STOP_SERVICE_MINUTES,
+          priority: 1
+        })),
+        {
+          id: pickup.id,
+          location: { latitude: Number(pickup.bin.latitude), longitude: Number(pickup.bin.longitude) },
+          demand: demands.get(pickup.id)!,
+          serviceMinutes: STOP_SERVICE_MINUTES,
+          priority: PRIORITY_RANK[pickup.priority] ?? 1,
+          ...(pickup.scheduledAt && {
+            windowEnd: new Date(pickup.scheduledAt.getTime() + PICKUP_WINDOW_AFTER_MINUTES * 60 * 1000)
+          })
         }
+      ];
+
+      const problem: VrpProblem = {
+        stops,
+        vehicles,
+        disposalSites: disposalSites.map(site => this.toVrpFacility(site, site.unloadMinutes)),
+        speedKmh: AVERAGE_SPEED_KMH
+      };
+      await this.loadTravelMatrix(problem);
+
+      const { insertion, reason: failureReason } = this.vrpSolverService.insertStop(
+        problem,
+        remainingStops.map(routeStops => routeStops.map(stop => stop.pickupId!)),
+        pickup.id
+      );
+
+      if (!insertion) {
+        console.log(`🚨 No active route can take urgent pickup ${pickup.id} (${failureReason})`);
+        return null;
       }
 
-      // Add nearest pickup to optimized route
-      const nearestPickup = remaining.splice(nearestIndex, 1)[0];
-      optimized.push(nearestPickup);
-      currentLocation = { 
-        latitude: nearestPickup.latitude, 
-        longitude: nearestPickup.longitude 
+      const route = routes.find(activeRoute => activeRoute.id === insertion.vehicleId)!;
+      await this.replaceRemainingStops(route, insertion.route, pickup.id, pickup.bin.id, insertion.addedDistance);
+
+      const reoptimization: RouteReoptimization = {
+        pickupId: pickup.id,
+        reason,
+        addedDistance: Math.round(insertion.addedDistance * 100) / 100,
+        route: await this.getOptimizedRoute(route.id)
       };
-    }
 
-    return optimized;
+      const io = getSocketServer();
+      if (io) {
+        new RealtimeDriverService(io).notifyRouteUpdated(route.organizationId, route.driverId, reoptimization);
+      }
+
+      console.log(`🚨 Urgent pickup ${pickup.id} added to route ${route.id} (+${reoptimization.addedDistance} km)`);
+
+      return reoptimization;
+    } catch (error) {
+      throw error;
+    }
   }
 
   /**
-   * Calculate distance between two coordinates
+   * Estimate the weight collected at each pickup, in kg. Uses the bin's latest
+   * reported weight, or its fill volume when no weight sensor is fitted.
    */
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLng = this.deg2rad(lng2 - lng1);
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(this.deg2rad(lat1)) * Math.cos(this.deg2rad(lat2)) * 
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  private async estimatePickupDemands(
+    pickups: Array<{ id: string; bin: { id: string; capacity: number; currentLevel: any } }>
+  ): Promise<Map<string, number>> {
+    const latestWeights = await prisma.binSensorData.findMany({
+      where: {
+        binId: { in: pickups.map(pickup => pickup.bin.id) },
+        weight: { not: null },
+        quality: 'VALID'
+      },
+      orderBy: { timestamp: 'desc' },
+      distinct: ['binId'],
+      select: {
+        binId: true,
+        weight: true
+      }
+    });
+
+    const weightByBin = new Map(latestWeights.map(reading => [reading.binId, Number(reading.weight)]));
+    const demands = new Map<string, number>();
+
+    for (const pickup of pickups) {
+      const estimatedVolume = (Number(pickup.bin.currentLevel) / 100) * pickup.bin.capacity;
+      const demand = weightByBin.get(pickup.bin.id) ?? estimatedVolume * WASTE_DENSITY_KG_PER_LITRE;
+      demands.set(pickup.id, Math.round(demand * 100) / 100);
+    }
+
+    return demands;
   }
 
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI/180);
+  /**
+   * Estimate what a truck on the road is carrying, in kg: everything picked up
+   * since its last disposal trip, weighed by the last reading before each pickup
+   */
+  private async estimateLoadOnBoard(
+    stops: Array<{
+      stopType: RouteStopType;
+      status: PickupStatus;
+      actualArrival: Date | null;
+      bin: { id: string; capacity: number } | null;
+    }>
+  ): Promise<number> {
+    const collectedStops: typeof stops = [];
+    for (const stop of stops) {
+      if (stop.status !== PickupStatus.COMPLETED && stop.status !== PickupStatus.IN_PROGRESS) {
+        continue;
+      }
+      if (stop.stopType === RouteStopType.DISPOSAL) {
+        collectedStops.length = 0;
+      } else if (stop.stopType === RouteStopType.PICKUP && stop.bin) {
+        collectedStops.push(stop);
+      }
+    }
+
+    const loads = await Promise.all(collectedStops.map(async stop => {
+      const reading = await prisma.binSensorData.findFirst({
+        where: {
+          binId: stop.bin!.id,
+          quality: 'VALID',
+          ...(stop.actualArrival && { timestamp: { lte: stop.actualArrival } })
+        },
+        orderBy: { timestamp: 'desc' },
+        select: { fillLevel: true, weight: true }
+      });
+
+      if (!reading) {
+        return 0;
+      }
+
+      return reading.weight !== null
+        ? Number(reading.weight)
+        : (Number(reading.fillLevel) / 100) * stop.bin!.capacity * WASTE_DENSITY_KG_PER_LITRE;
+    }));
+
+    return loads.reduce((sum, load) => sum + load, 0);
   }
 
   /**
-   * Update route progress
+   * Store a planned route and its stops for a driver, replacing the driver's
+   * earlier plans that were never published
    */
-  async updateRouteProgress(routeId: string, stopId: string, status: PickupStatus) {
-    try {
-      await prisma.routeStop.update({
-        where: { id: stopId },
+  private async saveRoute(
+    driverId: string,
+    driverName: string,
+    depotId: string | null,
+    plannedRoute: VrpRoute,
+    binsByPickup: Map<string, string>
+  ): Promise<string> {
+    // Replace the old plans, store the new one and assign its pickups together, so a
+    // failure part-way leaves the driver's earlier plans as they were
+    const route = await prisma.$transaction(async (tx) => {
+      await tx.route.updateMany({
+        where: {
+          driverId,
+          status: RouteStatus.PLANNED
+        },
         data: {
-          status,
-          ...(status === PickupStatus.COMPLETED && { actualArrival: new Date() })
+          status: RouteStatus.CANCELLED
         }
       });
 
-      // Check if all stops are completed
-      const route = await prisma.route.findUnique({
-        where: { id: routeId },
-        include: {
-          stops: true
+      const createdRoute = await tx.route.create({
+        data: {
+          driverId,
+          depotId,
+          routeName: `Route ${new Date().toLocaleDateString()} - ${driverName}`,
+          totalDistance: Math.round(plannedRoute.distance * 100) / 100,
+          estimatedDuration: plannedRoute.duration,
+          status: RouteStatus.PLANNED,
+          // Disposal trips and the return to the depot are stops too
+          stops: {
+            create: plannedRoute.stops.map((plannedStop, index) => ({
+              stopType: plannedStop.type,
+              pickupId: plannedStop.stopId,
+              binId: plannedStop.stopId ? binsByPickup.get(plannedStop.stopId) : undefined,
+              disposalSiteId: plannedStop.type === 'DISPOSAL' ? plannedStop.facilityId : undefined,
+              stopOrder: index + 1,
+              estimatedArrival: plannedStop.arrival,
+              estimatedDeparture: plannedStop.departure,
+              status: PickupStatus.SCHEDULED
+            }))
+          }
+        }
+      });
+
+      // Update pickups with route assignment
+      await tx.pickup.updateMany({
+        where: {
+          id: { in: plannedRoute.stops.flatMap(stop => (stop.stopId ? [stop.stopId] : [])) }
+        },
+        data: {
+          driverId
         }
       });
 
-      if (route && route.stops.every(stop => stop.status === PickupStatus.COMPLETED)) {
-        await prisma.route.update({
-          where: { id: routeId },
+      return createdRoute;
+    });
+
+    return route.id;
+  }
+
+  /**
+   * Rewrite the stops a driver has not reached yet from a re-planned route.
+   * Pickup stops keep their ids; disposal trips and the depot return are re-created.
+   */
+  private async replaceRemainingStops(
+    route: {
+      id: string;
+      driverId: string;
+      totalDistance: any;
+      startedAt: Date | null;
+      stops: Array<{ id: string; stopOrder: number; status: PickupStatus; pickupId: string | null }>;
+    },
+    plannedRoute: VrpRoute,
+    pickupId: string,
+    binId: string,
+    addedDistance: number
+  ): Promise<void> {
+    const stopsByPickup = new Map(route.stops
+      .filter(stop => stop.status === PickupStatus.SCHEDULED && stop.pickupId)
+      .map(stop => [stop.pickupId!, stop.id]));
+    // Stops already served, skipped or under way keep their place
+    const lastFixedOrder = Math.max(0, ...route.stops
+      .filter(stop => stop.status !== PickupStatus.SCHEDULED)
+      .map(stop => stop.stopOrder));
+    const lastDeparture = plannedRoute.stops[plannedRoute.stops.length - 1].departure;
+
+    await prisma.$transaction([
+      prisma.routeStop.deleteMany({
+        where: {
+          routeId: route.id,
+          status: PickupStatus.SCHEDULED,
+          stopType: { in: [RouteStopType.DISPOSAL, RouteStopType.DEPOT] }
+        }
+      }),
+      ...plannedRoute.stops.map((plannedStop, index) => {
+        const stopOrder = lastFixedOrder + index + 1;
+        const existingStopId = plannedStop.stopId ? stopsByPickup.get(plannedStop.stopId) : undefined;
+
+        if (existingStopId) {
+          return prisma.routeStop.update({
+            where: { id: existingStopId },
+            data: {
+              stopOrder,
+              estimatedArrival: plannedStop.arrival,
+              estimatedDeparture: plannedStop.departure
+            }
+          });
+        }
+
+        return prisma.routeStop.create({
           data: {
-            status: PickupStatus.COMPLETED,
-            completedAt: new Date()
+            routeId: route.id,
+            stopType: plannedStop.type,
+            pickupId: plannedStop.stopId,
+            binId: plannedStop.stopId === pickupId ? binId : undefined,
+            disposalSiteId: plannedStop.type === 'DISPOSAL' ? plannedStop.facilityId : undefined,
+            stopOrder,
+            estimatedArrival: plannedStop.arrival,
+            estimatedDeparture: plannedStop.departure,
+            status: PickupStatus.SCHEDULED
           }
         });
+      }),
+      prisma.route.update({
+        where: { id: route.id },
+        data: {
+          totalDistance: Math.round((Number(route.totalDistance ?? 0) + addedDistance) * 100) / 100,
+          ...(route.startedAt && {
+            estimatedDuration: Math.round((lastDeparture.getTime() - route.startedAt.getTime()) / (60 * 1000))
+          })
+        }
+      }),
+      prisma.pickup.update({
+        where: { id: pickupId },
+        data: { driverId: route.driverId }
+      })
+    ]);
+  }
+
+  /**
+   * Load a stored route in the shape returned to drivers
+   */
+  private async getOptimizedRoute(routeId: string): Promise<OptimizedRoute> {
+    const route = await prisma.route.findUnique({
+      where: { id: routeId },
+      include: {
+        depot: true,
+        stops: {
+          include: {
+            bin: {
+              select: {
+                id: true,
+                binCode: true,
+                location: true,
+                latitude: true,
+                longitude: true
+              }
+            },
+            disposalSite: true
+          },
+          orderBy: { stopOrder: 'asc' }
+        }
       }
+    });
 
-      return {
-        success: true,
-        message: 'Route progress updated successfully'
+    if (!route) {
+      const error: AppError = new Error('Route not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const depot = route.depot ? this.toFacilitySummary(route.depot) : null;
+
+    return {
+      routeId: route.id,
+      driverId: route.driverId,
+      status: route.status,
+      totalDistance: Number(route.totalDistance ?? 0),
+      estimatedDuration: route.estimatedDuration ?? 0,
+      depot,
+      stops: route.stops.map(stop => ({
+        routeStopId: stop.id,
+        type: stop.stopType,
+        order: stop.stopOrder,
+        status: stop.status,
+        estimatedArrival: stop.estimatedArrival!,
+        pickupId: stop.pickupId,
+        binId: stop.binId,
+        facility: stop.disposalSite
+          ? this.toFacilitySummary(stop.disposalSite)
+          : stop.stopType === RouteStopType.DEPOT ? depot : null
+      })),
+      pickups: route.stops
+        .filter(stop => stop.pickupId && stop.bin)
+        .map(stop => ({
+          pickupId: stop.pickupId!,
+          order: stop.stopOrder,
+          estimatedArrival: stop.estimatedArrival!,
+          bin: {
+            id: stop.bin!.id,
+            binCode: stop.bin!.binCode,
+            location: stop.bin!.location,
+            latitude: Number(stop.bin!.latitude),
+            longitude: Number(stop.bin!.longitude)
+          }
+        }))
+    };
+  }
+
+  /**
+   * Solve with road distances and travel times from the routing provider,
+   * falling back to straight-line estimates when it is unavailable. The
+   * solver runs in a worker thread, within its time limit.
+   */
+  private async solveOnRoadNetwork(problem: VrpProblem): Promise<VrpSolution> {
+    if (problem.stops.length > MAX_PLANNED_STOPS) {
+      const error: AppError = new Error(
+        `Too many pickups to plan at once (${problem.stops.length}, at most ${MAX_PLANNED_STOPS}). Plan by zone or date`
+      );
+      error.statusCode = 400;
+      throw error;
+    }
+
+    await this.loadTravelMatrix(problem);
+    return this.vrpSolverService.solveInWorker(problem);
+  }
+
+  /**
+   * Attach road distances and travel times from the routing provider to a problem.
+   * Leaves it without a matrix, so the solver uses straight lines, when the provider is unavailable.
+   */
+  private async loadTravelMatrix(problem: VrpProblem): Promise<void> {
+    const locations = this.vrpSolverService.getLocations(problem);
+
+    try {
+      const matrix = await this.routingProvider.getDistanceMatrix({
+        origins: locations,
+        destinations: locations
+      });
+
+      problem.travelMatrix = {
+        distances: matrix.distances.map(row => row.map(meters => meters / 1000)),
+        durations: matrix.durations.map(row => row.map(seconds => seconds / 60))
       };
     } catch (error) {
-      throw error;
+      console.warn(`${this.routingProvider.name} routing unavailable, planning with straight-line distances:`, error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Load a truck is planned up to before it is sent to tip. Demand is only
+   * an estimate, so trucks tip a little before they are actually full.
+   */
+  private usableCapacity(capacity: number | null | undefined): number {
+    return (capacity ?? 1000) * USABLE_CAPACITY_RATIO;
+  }
+
+  /**
+   * Map a depot or disposal site onto a solver facility
+   */
+  private toVrpFacility(
+    facility: { id: string; latitude: any; longitude: any },
+    serviceMinutes: number
+  ): VrpFacility {
+    return {
+      id: facility.id,
+      location: {
+        latitude: Number(facility.latitude),
+        longitude: Number(facility.longitude)
+      },
+      serviceMinutes
+    };
+  }
+
+  /**
+   * Format a planned route that was not stored, in the shape returned to drivers
+   */
+  private toRoutePreview(
+    driverId: string,
+    depot: { id: string; name: string; latitude: any; longitude: any } | null,
+    disposalSites: Array<{ id: string; name: string; latitude: any; longitude: any }>,
+    plannedRoute: VrpRoute,
+    pickups: Array<{ id: string; bin: { id: string; binCode: string; location: string; latitude: any; longitude: any } }>
+  ): OptimizedRoute {
+    const depotSummary = depot ? this.toFacilitySummary(depot) : null;
+    const sitesById = new Map(disposalSites.map(site => [site.id, this.toFacilitySummary(site)]));
+    const pickupsById = new Map(pickups.map(pickup => [pickup.id, pickup]));
+
+    const stops = plannedRoute.stops.map((plannedStop, index) => ({
+      plannedStop,
+      order: index + 1,
+      pickup: plannedStop.stopId ? pickupsById.get(plannedStop.stopId) ?? null : null
+    }));
+
+    return {
+      routeId: null,
+      driverId,
+      status: RouteStatus.PLANNED,
+      totalDistance: Math.round(plannedRoute.distance * 100) / 100,
+      estimatedDuration: plannedRoute.duration,
+      depot: depotSummary,
+      stops: stops.map(({ plannedStop, order, pickup }) => ({
+        routeStopId: null,
+        type: plannedStop.type,
+        order,
+        status: PickupStatus.SCHEDULED,
+        estimatedArrival: plannedStop.arrival,
+        pickupId: pickup?.id ?? null,
+        binId: pickup?.bin.id ?? null,
+        facility: plannedStop.type === 'DISPOSAL'
+          ? sitesById.get(plannedStop.facilityId!) ?? null
+          : plannedStop.type === 'DEPOT' ? depotSummary : null
+      })),
+      pickups: stops
+        .filter(({ pickup }) => pickup)
+        .map(({ plannedStop, order, pickup }) => ({
+          pickupId: pickup!.id,
+          order,
+          estimatedArrival: plannedStop.arrival,
+          bin: {
+            id: pickup!.bin.id,
+            binCode: pickup!.bin.binCode,
+            location: pickup!.bin.location,
+            latitude: Number(pickup!.bin.latitude),
+            longitude: Number(pickup!.bin.longitude)
+          }
+        }))
+    };
+  }
+
+  /**
+   * Format a depot or disposal site for a planned route
+   */
+  private toFacilitySummary(facility: { id: string; name: string; latitude: any; longitude: any }): FacilitySummary {
+    return {
+      id: facility.id,
+      name: facility.name,
+      latitude: Number(facility.latitude),
+      longitude: Number(facility.longitude)
+    };
+  }
+}
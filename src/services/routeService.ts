@@ -0,0 +1,515 @@
+// src/services/routeService.ts
+import { PrismaClient, PickupStatus, RouteStatus } from '@prisma/client';
+import { PickupService } from '../services/pickupService';
+import { DriverLocationService } from '../services/driverLocationService';
+import { PolicyService } from '@/services/policyService';
+import { Permission } from '@/config/permissions';
+import {
+  RouteListQuery,
+  RouteResponse,
+  RouteStopResponse,
+  CompleteRouteStopRequest,
+  SkipRouteStopRequest,
+  CompleteRouteRequest
+} from '@/types/route';
+import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Stops that have not been completed or skipped yet
+const PENDING_STOP_STATUSES: PickupStatus[] = [PickupStatus.SCHEDULED, PickupStatus.IN_PROGRESS];
+
+const ROUTE_INCLUDE = {
+  driver: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          fullName: true
+        }
+      }
+    }
+  },
+  stops: {
+    include: {
+      bin: {
+        select: {
+          id: true,
+          binCode: true,
+          location: true,
+          latitude: true,
+          longitude: true
+        }
+      },
+      disposalSite: {
+        select: {
+          id: true,
+          name: true,
+          latitude: true,
+          longitude: true
+        }
+      }
+    },
+    orderBy: { stopOrder: 'asc' as const }
+  }
+};
+
+export class RouteService {
+  private pickupService: PickupService;
+  private driverLocationService: DriverLocationService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.pickupService = new PickupService();
+    this.driverLocationService = new DriverLocationService();
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Get routes with filtering and pagination, limited to the routes the user may see
+   */
+  async getRoutes(query: RouteListQuery, requestUserRole: string, requestUserId: string) {
+    try {
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('route.read', requestUserRole, requestUserId)]
+      };
+
+      if (query.driverId) {
+        whereClause.driverId = query.driverId;
+      }
+
+      if (query.status) {
+        whereClause.status = query.status;
+      }
+
+      if (query.dateFrom || query.dateTo) {
+        whereClause.createdAt = {
+          ...(query.dateFrom && { gte: new Date(query.dateFrom) }),
+          ...(query.dateTo && { lte: new Date(query.dateTo) })
+        };
+      }
+
+      const [routes, totalCount] = await Promise.all([
+        prisma.route.findMany({
+          where: whereClause,
+          include: ROUTE_INCLUDE,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.route.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: routes.map(route => this.formatRouteResponse(route)),
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get route by ID
+   */
+  async getRouteById(routeId: string, requestUserRole: string, requestUserId: string): Promise<RouteResponse> {
+    try {
+      const route = await this.findRoute(routeId, requestUserRole, requestUserId);
+      return this.formatRouteResponse(route);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Release a planned route to its driver
+   */
+  async publishRoute(routeId: string, requestUserRole: string, requestUserId: string): Promise<RouteResponse> {
+    try {
+      const route = await this.findRoute(routeId, requestUserRole, requestUserId, 'route.publish');
+      this.assertStatus(route.status, [RouteStatus.PLANNED], 'Only planned routes can be published');
+
+      const updatedRoute = await prisma.route.update({
+        where: { id: routeId },
+        data: {
+          status: RouteStatus.PUBLISHED,
+          publishedAt: new Date()
+        },
+        include: ROUTE_INCLUDE
+      });
+
+      return this.formatRouteResponse(updatedRoute);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Start driving a published route
+   */
+  async startRoute(routeId: string, requestUserRole: string, requestUserId: string): Promise<RouteResponse> {
+    try {
+      const route = await this.findRoute(routeId, requestUserRole, requestUserId, 'route.drive');
+      this.assertStatus(route.status, [RouteStatus.PUBLISHED], 'Only published routes can be started');
+
+      const activeRoute = await prisma.route.findFirst({
+        where: {
+          driverId: route.driverId,
+          status: RouteStatus.IN_PROGRESS
+        }
+      });
+
+      if (activeRoute) {
+        const error: AppError = new Error('Driver already has a route in progress');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const driver = await prisma.driver.findUnique({
+        where: { id: route.driverId },
+        select: { truckId: true }
+      });
+
+      // Record the truck that ran the route so collected tonnage can be set against its fuel
+      const updatedRoute = await prisma.route.update({
+        where: { id: routeId },
+        data: {
+          status: RouteStatus.IN_PROGRESS,
+          startedAt: new Date(),
+          truckId: driver?.truckId ?? null
+        },
+        include: ROUTE_INCLUDE
+      });
+
+      return this.formatRouteResponse(updatedRoute);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a stop. Completing a pickup stop completes the pickup and empties the bin.
+   */
+  async completeStop(
+    routeId: string,
+    stopId: string,
+    data: CompleteRouteStopRequest,
+    requestUserRole: string,
+    requestUserId: string
+  ): Promise<RouteResponse> {
+    try {
+      const stop = await this.findPendingStop(routeId, stopId, requestUserRole, requestUserId);
+
+      if (stop.pickupId) {
+        await this.pickupService.updatePickupStatus(
+          stop.pickupId,
+          { status: PickupStatus.COMPLETED, notes: data.notes },
+          requestUserRole,
+          requestUserId
+        );
+      }
+
+      const now = new Date();
+      // Arrival and departure are recorded earlier when the truck crosses the bin's geofence
+      const actualArrival = stop.actualArrival || now;
+      const actualDeparture = stop.actualDeparture || now;
+
+      return await this.updateRouteProgress(routeId, stopId, PickupStatus.COMPLETED, {
+        actualArrival,
+        actualDeparture,
+        dwellTime: stop.dwellTime ?? Math.round((actualDeparture.getTime() - actualArrival.getTime()) / 1000),
+        awaitingConfirmation: false,
+        ...(data.collectedWeight !== undefined && { collectedWeight: data.collectedWeight }),
+        ...(data.notes !== undefined && { notes: data.notes })
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Skip a stop that cannot be served. The pickup goes back to being scheduled,
+   * without a driver, so it is planned into a later route.
+   */
+  async skipStop(
+    routeId: string,
+    stopId: string,
+    data: SkipRouteStopRequest,
+    requestUserRole: string,
+    requestUserId: string
+  ): Promise<RouteResponse> {
+    try {
+      const stop = await this.findPendingStop(routeId, stopId, requestUserRole, requestUserId);
+
+      if (stop.pickupId) {
+        await this.releasePickups([stop.pickupId]);
+      }
+
+      return await this.updateRouteProgress(routeId, stopId, PickupStatus.CANCELLED, {
+        skipReason: data.reason,
+        awaitingConfirmation: false
+      });
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Finish a route, skipping any stops not yet served
+   */
+  async completeRoute(
+    routeId: string,
+    data: CompleteRouteRequest,
+    requestUserRole: string,
+    requestUserId: string
+  ): Promise<RouteResponse> {
+    try {
+      const route = await this.findRoute(routeId, requestUserRole, requestUserId, 'route.drive');
+      this.assertStatus(route.status, [RouteStatus.IN_PROGRESS], 'Only routes in progress can be completed');
+
+      await this.releasePickups(
+        route.stops
+          .filter(stop => stop.pickupId && PENDING_STOP_STATUSES.includes(stop.status))
+          .map(stop => stop.pickupId!)
+      );
+
+      await prisma.routeStop.updateMany({
+        where: {
+          routeId,
+          status: { in: PENDING_STOP_STATUSES }
+        },
+        data: {
+          status: PickupStatus.CANCELLED,
+          skipReason: data.notes || 'Not visited before the route was completed'
+        }
+      });
+
+      return await this.finishRoute(routeId, data.actualDistance);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Update a stop and complete the route once every stop is completed or skipped
+   */
+  async updateRouteProgress(
+    routeId: string,
+    stopId: string,
+    status: PickupStatus,
+    stopData: Record<string, any> = {}
+  ): Promise<RouteResponse> {
+    try {
+      await prisma.routeStop.update({
+        where: { id: stopId },
+        data: {
+          status,
+          ...(status === PickupStatus.COMPLETED && !stopData.actualArrival && { actualArrival: new Date() }),
+          ...stopData
+        }
+      });
+
+      const pendingStops = await prisma.routeStop.count({
+        where: {
+          routeId,
+          status: { in: PENDING_STOP_STATUSES }
+        }
+      });
+
+      if (pendingStops === 0) {
+        return await this.finishRoute(routeId);
+      }
+
+      return this.formatRouteResponse(await this.loadRoute(routeId));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a route completed and record how long it actually took
+   */
+  private async finishRoute(routeId: string, actualDistance?: number): Promise<RouteResponse> {
+    const route = await this.loadRoute(routeId);
+
+    // Without a reported distance, measure the driver's trail
+    const drivenDistance = actualDistance ?? await this.driverLocationService.getRouteDrivenDistance(routeId);
+
+    const completedAt = new Date();
+    const updatedRoute = await prisma.route.update({
+      where: { id: routeId },
+      data: {
+        status: RouteStatus.COMPLETED,
+        completedAt,
+        ...(route.startedAt && {
+          actualDuration: Math.round((completedAt.getTime() - route.startedAt.getTime()) / (60 * 1000))
+        }),
+        ...(drivenDistance > 0 && { actualDistance: drivenDistance })
+      },
+      include: ROUTE_INCLUDE
+    });
+
+    return this.formatRouteResponse(updatedRoute);
+  }
+
+  /**
+   * Find a route the user may act on with a permission
+   */
+  private async findRoute(
+    routeId: string,
+    requestUserRole: string,
+    requestUserId: string,
+    permission: Permission = 'route.read'
+  ) {
+    const route = await this.loadRoute(routeId);
+    await this.policyService.assertAllowed(permission, requestUserRole, requestUserId, routeId);
+
+    return route;
+  }
+
+  private async loadRoute(routeId: string) {
+    const route = await prisma.route.findUnique({
+      where: { id: routeId },
+      include: ROUTE_INCLUDE
+    });
+
+    if (!route) {
+      const error: AppError = new Error('Route not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return route;
+  }
+
+  /**
+   * Find a stop on a route in progress that has not been completed or skipped
+   */
+  private async findPendingStop(routeId: string, stopId: string, requestUserRole: string, requestUserId: string) {
+    const route = await this.findRoute(routeId, requestUserRole, requestUserId, 'route.drive');
+    this.assertStatus(route.status, [RouteStatus.IN_PROGRESS], 'Route must be started before its stops are updated');
+
+    const stop = route.stops.find(routeStop => routeStop.id === stopId);
+
+    if (!stop) {
+      const error: AppError = new Error('Route stop not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    if (!PENDING_STOP_STATUSES.includes(stop.status)) {
+      const error: AppError = new Error('Route stop has already been completed or skipped');
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return stop;
+  }
+
+  /**
+   * Hand the pickups of skipped stops back to the planners: unassigned and scheduled
+   * again, so the scheduler and fleet planner do not take them for work under way
+   */
+  private async releasePickups(pickupIds: string[]): Promise<void> {
+    if (pickupIds.length === 0) {
+      return;
+    }
+
+    await prisma.pickup.updateMany({
+      where: {
+        id: { in: pickupIds },
+        status: { in: [PickupStatus.SCHEDULED, PickupStatus.IN_PROGRESS] }
+      },
+      data: {
+        driverId: null,
+        status: PickupStatus.SCHEDULED,
+        startedAt: null
+      }
+    });
+  }
+
+  private assertStatus(status: RouteStatus, allowed: RouteStatus[], message: string): void {
+    if (!allowed.includes(status)) {
+      const error: AppError = new Error(message);
+      error.statusCode = 400;
+      throw error;
+    }
+  }
+
+  /**
+   * Format route response
+   */
+  formatRouteResponse(route: any): RouteResponse {
+    return {
+      id: route.id,
+      driverId: route.driverId,
+      truckId: route.truckId,
+      depotId: route.depotId,
+      routeName: route.routeName,
+      status: route.status,
+      totalDistance: route.totalDistance !== null ? Number(route.totalDistance) : null,
+      estimatedDuration: route.estimatedDuration,
+      actualDistance: route.actualDistance !== null ? Number(route.actualDistance) : null,
+      actualDuration: route.actualDuration,
+      createdAt: route.createdAt,
+      publishedAt: route.publishedAt,
+      startedAt: route.startedAt,
+      completedAt: route.completedAt,
+      driver: route.driver,
+      stops: (route.stops || []).map((stop: any) => this.formatRouteStopResponse(stop))
+    };
+  }
+
+  /**
+   * Format route stop response
+   */
+  private formatRouteStopResponse(stop: any): RouteStopResponse {
+    return {
+      id: stop.id,
+      stopType: stop.stopType,
+      stopOrder: stop.stopOrder,
+      status: stop.status,
+      pickupId: stop.pickupId,
+      binId: stop.binId,
+      disposalSiteId: stop.disposalSiteId,
+      estimatedArrival: stop.estimatedArrival,
+      estimatedDeparture: stop.estimatedDeparture,
+      etaUpdatedAt: stop.etaUpdatedAt,
+      actualArrival: stop.actualArrival,
+      actualDeparture: stop.actualDeparture,
+      dwellTime: stop.dwellTime,
+      collectedWeight: stop.collectedWeight !== null ? Number(stop.collectedWeight) : null,
+      awaitingConfirmation: stop.awaitingConfirmation,
+      skipReason: stop.skipReason,
+      notes: stop.notes,
+      bin: stop.bin
+        ? {
+            id: stop.bin.id,
+            binCode: stop.bin.binCode,
+            location: stop.bin.location,
+            latitude: Number(stop.bin.latitude),
+            longitude: Number(stop.bin.longitude)
+          }
+        : null,
+      disposalSite: stop.disposalSite
+        ? {
+            id: stop.disposalSite.id,
+            name: stop.disposalSite.name,
+            latitude: Number(stop.disposalSite.latitude),
+            longitude: Number(stop.disposalSite.longitude)
+          }
+        : null
+    };
+  }
+}
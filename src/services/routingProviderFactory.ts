@@ -0,0 +1,39 @@
+// src/services/routingProviderFactory.ts
+import { env } from '../config/env';
+import { RoutingProvider, RoutingProviderName } from '../types/routing';
+import { GoogleMapsService } from './googleMapsService';
+import { OsrmRoutingService } from './osrmRoutingService';
+import { ValhallaRoutingService } from './valhallaRoutingService';
+import { OsmGraphRoutingService } from './osmGraphRoutingService';
+import { StraightLineRoutingService } from './straightLineRoutingService';
+
+let routingProvider: RoutingProvider | null = null;
+
+/**
+ * Create a routing provider by name
+ */
+export const createRoutingProvider = (name: RoutingProviderName): RoutingProvider => {
+  switch (name) {
+    case 'GOOGLE':
+      return new GoogleMapsService();
+    case 'OSRM':
+      return new OsrmRoutingService();
+    case 'VALHALLA':
+      return new ValhallaRoutingService();
+    case 'OSM_GRAPH':
+      return new OsmGraphRoutingService();
+    case 'STRAIGHT_LINE':
+      return new StraightLineRoutingService();
+  }
+};
+
+/**
+ * The routing provider selected by ROUTING_PROVIDER, shared so the OSM graph is only loaded once
+ */
+export const getRoutingProvider = (): RoutingProvider => {
+  if (!routingProvider) {
+    routingProvider = createRoutingProvider(env.ROUTING_PROVIDER);
+  }
+
+  return routingProvider;
+};
@@ -0,0 +1,187 @@
+// src/services/sensorAnomalyService.ts
+import { PrismaClient, Bin, BinSensorData, ReadingQuality, SensorAnomaly } from '@prisma/client';
+import { BinSensorDataRequest, ReadingAssessment } from '@/types/bin';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// A drop this large needs an emptying since the last trusted reading to be believable
+const MAX_UNEXPLAINED_DROP = 40;
+// A rise this large within RAPID_RISE_WINDOW_MS is not physically plausible
+const MAX_RAPID_RISE = 50;
+const RAPID_RISE_WINDOW_MS = 15 * 60 * 1000;
+// A jump that persists across this many readings is accepted as the new level
+const JUMP_CONFIRMATION_READINGS = 2;
+const JUMP_CONFIRMATION_TOLERANCE = 5;
+// This many identical readings over at least FLATLINE_MIN_SPAN_MS point to a stuck sensor
+const FLATLINE_READINGS = 12;
+const FLATLINE_MIN_SPAN_MS = 6 * 60 * 60 * 1000;
+// Temperatures suggesting a fire inside the bin
+const FIRE_TEMPERATURE = 70;
+const MAX_TEMPERATURE_RISE = 25;
+
+// Worst quality implied by each anomaly
+const ANOMALY_QUALITY: Record<SensorAnomaly, ReadingQuality> = {
+  [SensorAnomaly.OUT_OF_RANGE]: ReadingQuality.INVALID,
+  [SensorAnomaly.IMPOSSIBLE_JUMP]: ReadingQuality.SUSPECT,
+  [SensorAnomaly.FLATLINE]: ReadingQuality.SUSPECT,
+  [SensorAnomaly.TEMPERATURE_SPIKE]: ReadingQuality.SUSPECT
+};
+
+export class SensorAnomalyService {
+  /**
+   * Score a new reading for plausibility against the bin's recent history
+   */
+  async assessReading(bin: Bin, reading: BinSensorDataRequest): Promise<ReadingAssessment> {
+    try {
+      if (this.isOutOfRange(reading)) {
+        return {
+          quality: ReadingQuality.INVALID,
+          anomalies: [SensorAnomaly.OUT_OF_RANGE]
+        };
+      }
+
+      const [recentReadings, lastValidReading] = await Promise.all([
+        prisma.binSensorData.findMany({
+          where: { binId: bin.id },
+          orderBy: { timestamp: 'desc' },
+          take: FLATLINE_READINGS - 1
+        }),
+        prisma.binSensorData.findFirst({
+          where: {
+            binId: bin.id,
+            quality: ReadingQuality.VALID
+          },
+          orderBy: { timestamp: 'desc' }
+        })
+      ]);
+
+      const anomalies: SensorAnomaly[] = [];
+
+      if (lastValidReading && this.isImpossibleJump(bin, reading, lastValidReading, recentReadings)) {
+        anomalies.push(SensorAnomaly.IMPOSSIBLE_JUMP);
+      }
+
+      if (this.isFlatline(reading, recentReadings)) {
+        anomalies.push(SensorAnomaly.FLATLINE);
+      }
+
+      if (this.isTemperatureSpike(reading, recentReadings[0])) {
+        anomalies.push(SensorAnomaly.TEMPERATURE_SPIKE);
+      }
+
+      return {
+        quality: this.resolveQuality(anomalies),
+        anomalies
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Values no working sensor can produce
+   */
+  private isOutOfRange(reading: BinSensorDataRequest): boolean {
+    const outside = (value: number | undefined, min: number, max: number) =>
+      value !== undefined && (!Number.isFinite(Number(value)) || value < min || value > max);
+
+    return (
+      !Number.isFinite(Number(reading.fillLevel)) ||
+      outside(reading.fillLevel, 0, 100) ||
+      outside(reading.humidity, 0, 100) ||
+      outside(reading.batteryLevel, 0, 100) ||
+      // No upper bound: very high temperatures are reported as a spike instead
+      outside(reading.temperature, -50, Number.MAX_VALUE)
+    );
+  }
+
+  /**
+   * Large drops without an emptying, or rises faster than a bin can be filled
+   */
+  private isImpossibleJump(
+    bin: Bin,
+    reading: BinSensorDataRequest,
+    lastValidReading: BinSensorData,
+    recentReadings: BinSensorData[]
+  ): boolean {
+    const delta = reading.fillLevel - Number(lastValidReading.fillLevel);
+    const elapsed = Date.now() - lastValidReading.timestamp.getTime();
+    const emptiedSince = bin.lastEmptied !== null && bin.lastEmptied > lastValidReading.timestamp;
+
+    const implausible =
+      (delta <= -MAX_UNEXPLAINED_DROP && !emptiedSince) ||
+      (delta >= MAX_RAPID_RISE && elapsed < RAPID_RISE_WINDOW_MS);
+
+    if (!implausible) {
+      return false;
+    }
+
+    // Bins emptied without a recorded pickup keep reporting the new level;
+    // once it holds for a few readings it is the real level
+    const confirmingReadings = recentReadings
+      .filter(data => data.timestamp > lastValidReading.timestamp)
+      .slice(0, JUMP_CONFIRMATION_READINGS);
+
+    const confirmed =
+      confirmingReadings.length === JUMP_CONFIRMATION_READINGS &&
+      confirmingReadings.every(
+        data => Math.abs(Number(data.fillLevel) - reading.fillLevel) <= JUMP_CONFIRMATION_TOLERANCE
+      );
+
+    return !confirmed;
+  }
+
+  /**
+   * Fill level and temperature frozen for hours. Temperature is required because
+   * an unused bin legitimately keeps the same fill level.
+   */
+  private isFlatline(reading: BinSensorDataRequest, recentReadings: BinSensorData[]): boolean {
+    if (reading.temperature === undefined || recentReadings.length < FLATLINE_READINGS - 1) {
+      return false;
+    }
+
+    const oldestReading = recentReadings[recentReadings.length - 1];
+    if (Date.now() - oldestReading.timestamp.getTime() < FLATLINE_MIN_SPAN_MS) {
+      return false;
+    }
+
+    return recentReadings.every(data =>
+      Number(data.fillLevel) === reading.fillLevel &&
+      data.temperature !== null &&
+      Number(data.temperature) === reading.temperature
+    );
+  }
+
+  /**
+   * Temperatures high enough, or rising fast enough, to suggest a fire
+   */
+  private isTemperatureSpike(reading: BinSensorDataRequest, previousReading?: BinSensorData): boolean {
+    if (reading.temperature === undefined) {
+      return false;
+    }
+
+    if (reading.temperature >= FIRE_TEMPERATURE) {
+      return true;
+    }
+
+    return (
+      previousReading?.temperature !== null &&
+      previousReading?.temperature !== undefined &&
+      reading.temperature - Number(previousReading.temperature) >= MAX_TEMPERATURE_RISE
+    );
+  }
+
+  /**
+   * The worst quality implied by any of the anomalies
+   */
+  private resolveQuality(anomalies: SensorAnomaly[]): ReadingQuality {
+    const qualities = anomalies.map(anomaly => ANOMALY_QUALITY[anomaly]);
+
+    if (qualities.includes(ReadingQuality.INVALID)) {
+      return ReadingQuality.INVALID;
+    }
+
+    return qualities.includes(ReadingQuality.SUSPECT) ? ReadingQuality.SUSPECT : ReadingQuality.VALID;
+  }
+}
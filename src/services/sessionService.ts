@@ -0,0 +1,95 @@
+// src/services/sessionService.ts
+import { PrismaClient } from '@prisma/client';
+import { SessionResponse } from '@/types/session';
+import { AppError } from '@/middleware/errorHandler';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+export class SessionService {
+  /**
+   * List a user's signed-in sessions, most recently used first
+   */
+  async getSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          expiresAt: { gt: new Date() }
+        },
+        orderBy: { lastUsedAt: 'desc' }
+      });
+
+      return sessions.map(session => this.formatSessionResponse(session, currentSessionId));
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Sign one of a user's sessions out. Its refresh token stops working at once;
+   * access tokens already issued to it run out within their short lifetime.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const { count } = await prisma.session.updateMany({
+        where: {
+          id: sessionId,
+          userId,
+          revokedAt: null
+        },
+        data: { revokedAt: new Date() }
+      });
+
+      if (count === 0) {
+        const error: AppError = new Error('Session not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return {
+        success: true,
+        message: 'Session revoked successfully'
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Sign a user out everywhere
+   */
+  async revokeAllSessions(userId: string): Promise<{ success: boolean; message: string; data: { revoked: number } }> {
+    try {
+      const { count } = await prisma.session.updateMany({
+        where: {
+          userId,
+          revokedAt: null
+        },
+        data: { revokedAt: new Date() }
+      });
+
+      return {
+        success: true,
+        message: 'Signed out of all sessions',
+        data: { revoked: count }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  private formatSessionResponse(session: any, currentSessionId?: string): SessionResponse {
+    return {
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      current: session.id === currentSessionId,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      createdAt: session.createdAt
+    };
+  }
+}
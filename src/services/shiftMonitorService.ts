@@ -0,0 +1,49 @@
+// src/services/shiftMonitorService.ts
+import { ShiftService } from '../services/shiftService';
+import { RealtimeDriverService } from '../services/realtimeDriverService';
+import { OrganizationService } from '../services/organizationService';
+
+export class ShiftMonitorService {
+  private shiftService: ShiftService;
+  private organizationService: OrganizationService;
+  private realtimeService: RealtimeDriverService;
+
+  constructor(realtimeService: RealtimeDriverService) {
+    this.shiftService = new ShiftService();
+    this.organizationService = new OrganizationService();
+    this.realtimeService = realtimeService;
+  }
+
+  /**
+   * Record scheduled shifts nobody clocked in to and alert each organization's dispatch
+   */
+  async checkMissedShifts(): Promise<void> {
+    try {
+      await this.organizationService.forEachOrganization(async (organizationId) => {
+        const missed = await this.shiftService.detectMissedShifts();
+
+        if (missed.length === 0) {
+          return;
+        }
+
+        this.realtimeService.broadcastMissedShifts(organizationId, missed);
+
+        console.log(`⏰ Flagged ${missed.length} missed shifts`);
+      });
+    } catch (error) {
+      console.error('Error checking missed shifts:', error);
+    }
+  }
+
+  /**
+   * Start missed shift monitoring
+   */
+  startMonitor(): void {
+    // Check for no-shows every 5 minutes
+    setInterval(() => {
+      this.checkMissedShifts();
+    }, 5 * 60 * 1000);
+
+    console.log('⏰ Shift monitor started');
+  }
+}
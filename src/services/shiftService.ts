@@ -0,0 +1,654 @@
+// src/services/shiftService.ts
+import { PrismaClient, DriverStatus, ShiftStatus } from '@prisma/client';
+import {
+  SetShiftTemplatesRequest,
+  ClockRequest,
+  ShiftListQuery,
+  TimesheetQuery,
+  ShiftTemplateResponse,
+  ShiftResponse,
+  TimesheetResponse,
+  MissedShift
+} from '@/types/shift';
+import { AppError } from '@/middleware/errorHandler';
+import { InspectionService } from '@/services/inspectionService';
+import { PolicyService } from '@/services/policyService';
+import { Permission } from '@/config/permissions';
+import { getDriverShiftWindow, parseShiftTime } from '@/utils/shift';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+// Drivers may clock in this long before their scheduled start and still be on that shift
+const EARLY_CLOCK_IN_MINUTES = 60;
+// A scheduled shift nobody clocked in to this long after it started is missed
+const MISSED_SHIFT_GRACE_MINUTES = 30;
+// Time worked beyond this on an unscheduled shift is overtime
+const STANDARD_SHIFT_MINUTES = 8 * 60;
+const MAX_TIMESHEET_DAYS = 62;
+
+const SHIFT_INCLUDE = {
+  breaks: {
+    orderBy: { startedAt: 'asc' as const }
+  }
+};
+
+export class ShiftService {
+  private inspectionService: InspectionService;
+  private policyService: PolicyService;
+
+  constructor() {
+    this.inspectionService = new InspectionService();
+    this.policyService = new PolicyService();
+  }
+
+  /**
+   * Get a driver's weekly shift schedule
+   */
+  async getShiftTemplates(driverId: string, requestUserRole: string, requestUserId: string): Promise<ShiftTemplateResponse> {
+    try {
+      await this.findDriver(driverId, requestUserRole, requestUserId);
+
+      const templates = await prisma.shiftTemplate.findMany({
+        where: { driverId },
+        orderBy: { dayOfWeek: 'asc' }
+      });
+
+      return {
+        driverId,
+        days: templates.map(template => ({
+          id: template.id,
+          dayOfWeek: template.dayOfWeek,
+          startTime: template.startTime,
+          endTime: template.endTime,
+          isActive: template.isActive
+        }))
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a driver's weekly shift schedule
+   */
+  async setShiftTemplates(
+    driverId: string,
+    data: SetShiftTemplatesRequest,
+    requestUserRole: string,
+    requestUserId: string
+  ): Promise<ShiftTemplateResponse> {
+    try {
+      await this.findDriver(driverId, requestUserRole, requestUserId, 'shift.template.manage');
+
+      const days = new Set(data.days.map(day => day.dayOfWeek));
+      if (days.size !== data.days.length) {
+        const error: AppError = new Error('Each day of the week can only have one shift');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      if (data.days.some(day => parseShiftTime(day.startTime) === parseShiftTime(day.endTime))) {
+        const error: AppError = new Error('Shift start and end times must differ');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      await prisma.$transaction([
+        prisma.shiftTemplate.deleteMany({ where: { driverId } }),
+        prisma.shiftTemplate.createMany({
+          data: data.days.map(day => ({
+            driverId,
+            dayOfWeek: day.dayOfWeek,
+            startTime: day.startTime,
+            endTime: day.endTime
+          }))
+        })
+      ]);
+
+      return await this.getShiftTemplates(driverId, 'ADMIN', '');
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Clock a driver in, matching the clock-in to their scheduled shift when there is one
+   */
+  async clockIn(driverId: string, data: ClockRequest = {}): Promise<ShiftResponse> {
+    try {
+      const driver = await prisma.driver.findUnique({
+        where: { id: driverId },
+        include: { shiftTemplates: true }
+      });
+
+      if (!driver) {
+        const error: AppError = new Error('Driver not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      if (await this.findOpenShift(driverId)) {
+        const error: AppError = new Error('Driver is already clocked in');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      // Clocking in puts the driver online, which needs an inspected truck
+      await this.inspectionService.assertCanGoOnline(driverId);
+
+      const now = new Date();
+      const scheduled = this.findScheduledWindow(driver, now);
+
+      // A driver arriving late takes over the shift already flagged as missed
+      const missedShift = scheduled
+        ? await prisma.shift.findFirst({
+            where: {
+              driverId,
+              status: ShiftStatus.MISSED,
+              scheduledStart: scheduled.start
+            }
+          })
+        : null;
+
+      const clockData = {
+        status: ShiftStatus.ACTIVE,
+        clockInAt: now,
+        clockInLatitude: data.latitude,
+        clockInLongitude: data.longitude,
+        ...(data.notes !== undefined && { notes: data.notes })
+      };
+
+      const shift = missedShift
+        ? await prisma.shift.update({
+            where: { id: missedShift.id },
+            data: clockData,
+            include: SHIFT_INCLUDE
+          })
+        : await prisma.shift.create({
+            data: {
+              driverId,
+              scheduledStart: scheduled?.start,
+              scheduledEnd: scheduled?.end,
+              ...clockData
+            },
+            include: SHIFT_INCLUDE
+          });
+
+      await prisma.driver.update({
+        where: { id: driverId },
+        data: {
+          status: DriverStatus.ONLINE,
+          ...(data.latitude !== undefined && { currentLatitude: data.latitude }),
+          ...(data.longitude !== undefined && { currentLongitude: data.longitude })
+        }
+      });
+
+      return this.formatShiftResponse(shift);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Clock a driver out, closing any open break and working out overtime
+   */
+  async clockOut(driverId: string, data: ClockRequest = {}): Promise<ShiftResponse> {
+    try {
+      const shift = await this.findOpenShift(driverId);
+
+      if (!shift) {
+        const error: AppError = new Error('Driver is not clocked in');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const now = new Date();
+      await prisma.shiftBreak.updateMany({
+        where: { shiftId: shift.id, endedAt: null },
+        data: { endedAt: now }
+      });
+
+      const breaks = await prisma.shiftBreak.findMany({ where: { shiftId: shift.id } });
+      const breakMinutes = Math.round(breaks.reduce(
+        (sum, shiftBreak) => sum + (shiftBreak.endedAt!.getTime() - shiftBreak.startedAt.getTime()),
+        0
+      ) / (60 * 1000));
+
+      const workedMinutes = Math.max(
+        0,
+        Math.round((now.getTime() - shift.clockInAt!.getTime()) / (60 * 1000)) - breakMinutes
+      );
+      const scheduledMinutes = shift.scheduledStart && shift.scheduledEnd
+        ? Math.round((shift.scheduledEnd.getTime() - shift.scheduledStart.getTime()) / (60 * 1000))
+        : STANDARD_SHIFT_MINUTES;
+
+      const updatedShift = await prisma.shift.update({
+        where: { id: shift.id },
+        data: {
+          status: ShiftStatus.COMPLETED,
+          clockOutAt: now,
+          clockOutLatitude: data.latitude,
+          clockOutLongitude: data.longitude,
+          workedMinutes,
+          breakMinutes,
+          overtimeMinutes: Math.max(0, workedMinutes - scheduledMinutes),
+          ...(data.notes !== undefined && { notes: data.notes })
+        },
+        include: SHIFT_INCLUDE
+      });
+
+      await prisma.driver.update({
+        where: { id: driverId },
+        data: {
+          status: DriverStatus.OFFLINE,
+          ...(data.latitude !== undefined && { currentLatitude: data.latitude }),
+          ...(data.longitude !== undefined && { currentLongitude: data.longitude })
+        }
+      });
+
+      return this.formatShiftResponse(updatedShift);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Start a break and put the driver ON_BREAK
+   */
+  async startBreak(driverId: string): Promise<ShiftResponse> {
+    try {
+      await this.syncBreakWithStatus(driverId, DriverStatus.ON_BREAK);
+
+      await prisma.driver.update({
+        where: { id: driverId },
+        data: { status: DriverStatus.ON_BREAK }
+      });
+
+      return this.formatShiftResponse((await this.findOpenShift(driverId))!);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * End a break and put the driver back ONLINE
+   */
+  async endBreak(driverId: string): Promise<ShiftResponse> {
+    try {
+      const shift = await this.findOpenShift(driverId);
+
+      if (!shift?.breaks.some(shiftBreak => !shiftBreak.endedAt)) {
+        const error: AppError = new Error('Driver is not on a break');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      // The truck may have failed an inspection or been taken off the road meanwhile
+      await this.inspectionService.assertCanGoOnline(driverId);
+
+      await this.syncBreakWithStatus(driverId, DriverStatus.ONLINE);
+
+      await prisma.driver.update({
+        where: { id: driverId },
+        data: { status: DriverStatus.ONLINE }
+      });
+
+      return this.formatShiftResponse((await this.findOpenShift(driverId))!);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Open or close a break to match a driver's new status. Breaks can only be
+   * taken while clocked in.
+   */
+  async syncBreakWithStatus(driverId: string, status: DriverStatus): Promise<void> {
+    try {
+      const shift = await this.findOpenShift(driverId);
+      const openBreak = shift?.breaks.find(shiftBreak => !shiftBreak.endedAt);
+
+      if (status === DriverStatus.ON_BREAK) {
+        if (!shift) {
+          const error: AppError = new Error('Driver must be clocked in to take a break');
+          error.statusCode = 400;
+          throw error;
+        }
+
+        if (!openBreak) {
+          await prisma.shiftBreak.create({ data: { shiftId: shift.id } });
+        }
+        return;
+      }
+
+      if (openBreak) {
+        await prisma.shiftBreak.update({
+          where: { id: openBreak.id },
+          data: { endedAt: new Date() }
+        });
+      }
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get the shift a driver is clocked in to, if any
+   */
+  async getCurrentShift(driverId: string): Promise<ShiftResponse | null> {
+    try {
+      const shift = await this.findOpenShift(driverId);
+      return shift ? this.formatShiftResponse(shift) : null;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get shifts with filtering and pagination, limited to the shifts the user may see
+   */
+  async getShifts(query: ShiftListQuery, requestUserRole: string, requestUserId: string) {
+    try {
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = {
+        AND: [await this.policyService.scopeWhere('shift.read', requestUserRole, requestUserId)]
+      };
+
+      if (query.driverId) {
+        whereClause.driverId = query.driverId;
+      }
+
+      if (query.status) {
+        whereClause.status = query.status;
+      }
+
+      if (query.from || query.to) {
+        whereClause.OR = this.periodFilter(
+          query.from ? new Date(query.from) : new Date(0),
+          query.to ? new Date(query.to) : new Date()
+        );
+      }
+
+      const [shifts, total] = await Promise.all([
+        prisma.shift.findMany({
+          where: whereClause,
+          include: SHIFT_INCLUDE,
+          skip,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        prisma.shift.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: shifts.map(shift => this.formatShiftResponse(shift)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Timesheet for one driver over a pay period
+   */
+  async getTimesheet(query: TimesheetQuery, requestUserRole: string, requestUserId: string): Promise<TimesheetResponse> {
+    try {
+      // Users who may only read their own shifts get their own timesheet
+      const scope = await this.policyService.authorize('shift.read', requestUserRole);
+      const driverId = scope === 'own'
+        ? (await this.getDriverForUser(requestUserId)).id
+        : query.driverId;
+
+      if (!driverId) {
+        const error: AppError = new Error('Driver ID is required');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const driver = await prisma.driver.findUnique({
+        where: { id: driverId },
+        include: { user: { select: { fullName: true } } }
+      });
+
+      if (!driver) {
+        const error: AppError = new Error('Driver not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      await this.policyService.assertAllowed('shift.read', requestUserRole, requestUserId, driverId, 'driver');
+
+      const periodStart = new Date(query.periodStart);
+      const periodEnd = new Date(query.periodEnd);
+
+      if (periodStart >= periodEnd) {
+        const error: AppError = new Error('Pay period must end after it starts');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      if (periodEnd.getTime() - periodStart.getTime() > MAX_TIMESHEET_DAYS * 24 * 60 * 60 * 1000) {
+        const error: AppError = new Error(`Pay period cannot exceed ${MAX_TIMESHEET_DAYS} days`);
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const shifts = await prisma.shift.findMany({
+        where: {
+          driverId,
+          OR: this.periodFilter(periodStart, periodEnd)
+        },
+        include: SHIFT_INCLUDE,
+        orderBy: [{ clockInAt: 'asc' }, { scheduledStart: 'asc' }]
+      });
+
+      const formatted = shifts.map(shift => this.formatShiftResponse(shift));
+      const completed = formatted.filter(shift => shift.status === ShiftStatus.COMPLETED);
+
+      return {
+        driver: {
+          id: driver.id,
+          fullName: driver.user.fullName,
+          driverLicense: driver.driverLicense
+        },
+        periodStart,
+        periodEnd,
+        shifts: formatted,
+        totals: {
+          shiftsWorked: completed.length,
+          missedShifts: formatted.filter(shift => shift.status === ShiftStatus.MISSED).length,
+          workedMinutes: completed.reduce((sum, shift) => sum + (shift.workedMinutes ?? 0), 0),
+          breakMinutes: completed.reduce((sum, shift) => sum + (shift.breakMinutes ?? 0), 0),
+          overtimeMinutes: completed.reduce((sum, shift) => sum + (shift.overtimeMinutes ?? 0), 0)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Record scheduled shifts that started a while ago without the driver clocking in
+   */
+  async detectMissedShifts(): Promise<MissedShift[]> {
+    try {
+      const drivers = await prisma.driver.findMany({
+        where: {
+          user: { isActive: true },
+          shiftTemplates: { some: { isActive: true } }
+        },
+        include: {
+          user: { select: { fullName: true } },
+          shiftTemplates: true
+        }
+      });
+
+      const now = new Date();
+      const missed: MissedShift[] = [];
+
+      for (const driver of drivers) {
+        // Yesterday's overnight shift may still be running
+        const windows = [-1, 0]
+          .map(offset => getDriverShiftWindow(new Date(now.getTime() + offset * 24 * 60 * 60 * 1000), driver))
+          .filter((window): window is { start: Date; end: Date } =>
+            !!window && now.getTime() - window.start.getTime() > MISSED_SHIFT_GRACE_MINUTES * 60 * 1000
+          );
+
+        for (const window of windows) {
+          const existing = await prisma.shift.findFirst({
+            where: {
+              driverId: driver.id,
+              OR: [
+                { scheduledStart: window.start },
+                {
+                  clockInAt: {
+                    gte: new Date(window.start.getTime() - EARLY_CLOCK_IN_MINUTES * 60 * 1000),
+                    lt: window.end
+                  }
+                }
+              ]
+            }
+          });
+
+          if (existing) {
+            continue;
+          }
+
+          const shift = await prisma.shift.create({
+            data: {
+              driverId: driver.id,
+              status: ShiftStatus.MISSED,
+              scheduledStart: window.start,
+              scheduledEnd: window.end
+            }
+          });
+
+          missed.push({
+            shiftId: shift.id,
+            driverId: driver.id,
+            driverName: driver.user.fullName,
+            scheduledStart: window.start,
+            scheduledEnd: window.end
+          });
+        }
+      }
+
+      return missed;
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the driver profile of a user
+   */
+  async getDriverForUser(userId: string) {
+    const driver = await prisma.driver.findUnique({
+      where: { userId }
+    });
+
+    if (!driver) {
+      const error: AppError = new Error('Driver profile not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return driver;
+  }
+
+  /**
+   * The scheduled shift a clock-in at the given time belongs to, if any
+   */
+  private findScheduledWindow(
+    driver: Parameters<typeof getDriverShiftWindow>[1],
+    at: Date
+  ): { start: Date; end: Date } | null {
+    const candidates = [-1, 0, 1].map(offset =>
+      getDriverShiftWindow(new Date(at.getTime() + offset * 24 * 60 * 60 * 1000), driver)
+    );
+
+    return candidates.find(window =>
+      !!window &&
+      at.getTime() >= window.start.getTime() - EARLY_CLOCK_IN_MINUTES * 60 * 1000 &&
+      at < window.end
+    ) ?? null;
+  }
+
+  private async findOpenShift(driverId: string) {
+    return prisma.shift.findFirst({
+      where: {
+        driverId,
+        status: ShiftStatus.ACTIVE
+      },
+      include: SHIFT_INCLUDE
+    });
+  }
+
+  private async findDriver(
+    driverId: string,
+    requestUserRole: string,
+    requestUserId: string,
+    permission: Permission = 'shift.read'
+  ) {
+    const driver = await prisma.driver.findUnique({ where: { id: driverId } });
+
+    if (!driver) {
+      const error: AppError = new Error('Driver not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    await this.policyService.assertAllowed(permission, requestUserRole, requestUserId, driverId, 'driver');
+
+    return driver;
+  }
+
+  /**
+   * Shifts worked in, or scheduled for, a period
+   */
+  private periodFilter(from: Date, to: Date) {
+    return [
+      { clockInAt: { gte: from, lt: to } },
+      { clockInAt: null, scheduledStart: { gte: from, lt: to } }
+    ];
+  }
+
+  private formatShiftResponse(shift: any): ShiftResponse {
+    return {
+      id: shift.id,
+      driverId: shift.driverId,
+      status: shift.status,
+      scheduledStart: shift.scheduledStart,
+      scheduledEnd: shift.scheduledEnd,
+      clockInAt: shift.clockInAt,
+      clockInLocation: shift.clockInLatitude !== null && shift.clockInLongitude !== null
+        ? { latitude: Number(shift.clockInLatitude), longitude: Number(shift.clockInLongitude) }
+        : null,
+      clockOutAt: shift.clockOutAt,
+      clockOutLocation: shift.clockOutLatitude !== null && shift.clockOutLongitude !== null
+        ? { latitude: Number(shift.clockOutLatitude), longitude: Number(shift.clockOutLongitude) }
+        : null,
+      workedMinutes: shift.workedMinutes,
+      breakMinutes: shift.breakMinutes,
+      overtimeMinutes: shift.overtimeMinutes,
+      onBreak: shift.breaks.some((shiftBreak: any) => !shiftBreak.endedAt),
+      breaks: shift.breaks.map((shiftBreak: any) => ({
+        id: shiftBreak.id,
+        startedAt: shiftBreak.startedAt,
+        endedAt: shiftBreak.endedAt
+      })),
+      notes: shift.notes
+    };
+  }
+}
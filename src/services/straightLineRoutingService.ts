@@ -0,0 +1,77 @@
+// src/services/straightLineRoutingService.ts
+import {
+  GeoPoint,
+  RouteRequest,
+  RouteResponse,
+  DistanceMatrixRequest,
+  DistanceMatrixResponse,
+  RoutingProvider,
+  RoutingProviderName
+} from '../types/routing';
+import { encodePolyline, haversineDistance } from '../utils/geo';
+
+// Straight lines underestimate road distance, so assume a slow average speed
+const AVERAGE_SPEED_KMH = 30;
+
+/**
+ * Offline estimates without any road data. Used when no routing provider is configured.
+ */
+export class StraightLineRoutingService implements RoutingProvider {
+  readonly name: RoutingProviderName = 'STRAIGHT_LINE';
+
+  /**
+   * Get route between two points with optional waypoints, visited in order
+   */
+  async getRoute(request: RouteRequest): Promise<RouteResponse> {
+    const points = [request.origin, ...(request.waypoints || []), request.destination];
+    const steps = points.slice(1).map((point, index) => {
+      const distance = haversineDistance(points[index], point);
+      return {
+        instruction: `Head to ${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`,
+        distance,
+        duration: this.travelSeconds(distance)
+      };
+    });
+
+    return {
+      distance: steps.reduce((sum, step) => sum + step.distance, 0),
+      duration: steps.reduce((sum, step) => sum + step.duration, 0),
+      polyline: encodePolyline(points),
+      steps
+    };
+  }
+
+  /**
+   * Get distance matrix for multiple origins and destinations
+   */
+  async getDistanceMatrix(request: DistanceMatrixRequest): Promise<DistanceMatrixResponse> {
+    const distances = request.origins.map(origin =>
+      request.destinations.map(destination => haversineDistance(origin, destination))
+    );
+
+    return {
+      distances,
+      durations: distances.map(row => row.map(distance => this.travelSeconds(distance)))
+    };
+  }
+
+  /**
+   * Geocoding needs map data
+   */
+  async geocode(address: string): Promise<GeoPoint> {
+    throw new Error(`Geocoding is not available without a routing provider (address: "${address}")`);
+  }
+
+  /**
+   * Reverse geocoding needs map data
+   */
+  async reverseGeocode(coordinates: GeoPoint): Promise<string> {
+    throw new Error(
+      `Reverse geocoding is not available without a routing provider (${coordinates.latitude}, ${coordinates.longitude})`
+    );
+  }
+
+  private travelSeconds(distance: number): number {
+    return (distance / 1000 / AVERAGE_SPEED_KMH) * 60 * 60;
+  }
+}
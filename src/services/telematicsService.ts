@@ -0,0 +1,395 @@
+// src/services/telematicsService.ts
+import { PrismaClient, DeviceStatus, MaintenanceTicketStatus, RouteStatus } from '@prisma/client';
+import {
+  ProvisionTelematicsUnitRequest,
+  TelematicsUnitResponse,
+  TelematicsCredentialsResponse,
+  AuthenticatedTelematicsUnit,
+  TelemetryReading,
+  TelemetryIngestResult,
+  TruckTelemetryQuery,
+  TruckTelemetryResponse
+} from '@/types/telemetry';
+import { DeviceCredentials } from '@/types/device';
+import { AppError } from '@/middleware/errorHandler';
+import { MaintenanceService } from '@/services/maintenanceService';
+import { DriverLocationService } from '@/services/driverLocationService';
+import { generateDeviceSecret, hashDeviceSecret, deviceSecretMatches } from '@/utils/deviceSecret';
+import { tenantIsolation } from '@/utils/tenantIsolation';
+
+const prisma = new PrismaClient().$extends(tenantIsolation);
+
+export class TelematicsService {
+  private maintenanceService: MaintenanceService;
+  private driverLocationService: DriverLocationService;
+
+  constructor() {
+    this.maintenanceService = new MaintenanceService();
+    this.driverLocationService = new DriverLocationService();
+  }
+
+  /**
+   * Provision credentials for the telematics unit fitted to a truck
+   */
+  async provisionUnit(truckId: string, data: ProvisionTelematicsUnitRequest): Promise<TelematicsCredentialsResponse> {
+    try {
+      const truck = await prisma.truck.findUnique({
+        where: { id: truckId },
+        include: { telematicsUnit: true }
+      });
+
+      if (!truck) {
+        const error: AppError = new Error('Truck not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      if (truck.telematicsUnit && truck.telematicsUnit.status === DeviceStatus.PROVISIONED) {
+        const error: AppError = new Error('Truck already has a provisioned telematics unit. Revoke it first');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const existingUnit = await prisma.telematicsUnit.findUnique({
+        where: { deviceId: data.deviceId }
+      });
+
+      if (existingUnit && existingUnit.truckId !== truckId) {
+        const error: AppError = new Error('Device ID is already bound to another truck');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const deviceSecret = generateDeviceSecret();
+      const unitData = {
+        deviceId: data.deviceId,
+        secretHash: hashDeviceSecret(deviceSecret),
+        status: DeviceStatus.PROVISIONED,
+        provisionedAt: new Date(),
+        revokedAt: null,
+        lastSeenAt: null
+      };
+
+      // A truck keeps a single unit record; re-provisioning replaces a revoked one
+      const unit = await prisma.telematicsUnit.upsert({
+        where: { truckId },
+        create: { truckId, ...unitData },
+        update: unitData
+      });
+
+      return {
+        unit: this.formatUnitResponse(unit),
+        deviceSecret
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get the telematics unit fitted to a truck
+   */
+  async getUnitByTruckId(truckId: string): Promise<TelematicsUnitResponse> {
+    try {
+      const unit = await prisma.telematicsUnit.findUnique({
+        where: { truckId }
+      });
+
+      if (!unit) {
+        const error: AppError = new Error('No telematics unit provisioned for this truck');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      return this.formatUnitResponse(unit);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke the telematics unit fitted to a truck
+   */
+  async revokeUnit(truckId: string): Promise<TelematicsUnitResponse> {
+    try {
+      const existingUnit = await this.getUnitByTruckId(truckId);
+
+      if (existingUnit.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Telematics unit is already revoked');
+        error.statusCode = 400;
+        throw error;
+      }
+
+      const unit = await prisma.telematicsUnit.update({
+        where: { truckId },
+        data: {
+          status: DeviceStatus.REVOKED,
+          revokedAt: new Date()
+        }
+      });
+
+      return this.formatUnitResponse(unit);
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Verify the credentials a telematics unit presents. The unit identifies the truck.
+   */
+  async verifyUnitCredentials(credentials: Partial<DeviceCredentials>): Promise<AuthenticatedTelematicsUnit> {
+    try {
+      if (!credentials.deviceId || !credentials.deviceSecret) {
+        const error: AppError = new Error('Device credentials required');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      const unit = await prisma.telematicsUnit.findUnique({
+        where: { deviceId: credentials.deviceId },
+        include: {
+          truck: { select: { organizationId: true } }
+        }
+      });
+
+      if (!unit || !deviceSecretMatches(credentials.deviceSecret, unit.secretHash)) {
+        const error: AppError = new Error('Invalid device credentials');
+        error.statusCode = 401;
+        throw error;
+      }
+
+      if (unit.status === DeviceStatus.REVOKED) {
+        const error: AppError = new Error('Device credentials have been revoked');
+        error.statusCode = 403;
+        throw error;
+      }
+
+      await prisma.telematicsUnit.update({
+        where: { id: unit.id },
+        data: { lastSeenAt: new Date() }
+      });
+
+      return {
+        id: unit.id,
+        deviceId: unit.deviceId,
+        truckId: unit.truckId,
+        organizationId: unit.truck.organizationId
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Store a batch of readings from a truck's telematics unit. The odometer feeds the
+   * maintenance intervals, GPS fixes go into the location history of the driver running
+   * a route with the truck, and new fault codes open maintenance tickets.
+   */
+  async ingestReadings(truckId: string, readings: TelemetryReading[]): Promise<TelemetryIngestResult> {
+    try {
+      const now = new Date();
+      const sorted = readings
+        .map(reading => ({ ...reading, recordedAt: reading.recordedAt ? new Date(reading.recordedAt) : now }))
+        .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+
+      await prisma.truckTelemetry.createMany({
+        data: sorted.map(reading => ({
+          truckId,
+          latitude: reading.latitude,
+          longitude: reading.longitude,
+          speed: reading.speed,
+          heading: reading.heading,
+          odometer: reading.odometer,
+          engineHours: reading.engineHours,
+          fuelLevel: reading.fuelLevel,
+          faultCodes: reading.faultCodes || [],
+          recordedAt: reading.recordedAt
+        }))
+      });
+
+      const odometers = sorted
+        .filter(reading => reading.odometer !== undefined)
+        .map(reading => reading.odometer!);
+
+      if (odometers.length > 0) {
+        await this.maintenanceService.recordOdometer(truckId, Math.max(...odometers));
+      }
+
+      const fixes = sorted.filter(reading => reading.latitude !== undefined && reading.longitude !== undefined);
+
+      if (fixes.length > 0) {
+        await this.recordDriverLocations(truckId, fixes);
+      }
+
+      const faultTicketIds = await this.openFaultTickets(
+        truckId,
+        sorted.flatMap(reading => reading.faultCodes || [])
+      );
+
+      return {
+        truckId,
+        accepted: sorted.length,
+        faultTicketIds
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Get a truck's telemetry, newest first
+   */
+  async getTruckTelemetry(truckId: string, query: TruckTelemetryQuery) {
+    try {
+      const truck = await prisma.truck.findUnique({
+        where: { id: truckId }
+      });
+
+      if (!truck) {
+        const error: AppError = new Error('Truck not found');
+        error.statusCode = 404;
+        throw error;
+      }
+
+      const page = Number(query.page) || 1;
+      const limit = Math.min(Number(query.limit) || 20, 100);
+      const skip = (page - 1) * limit;
+
+      const whereClause: any = { truckId };
+
+      if (query.startDate || query.endDate) {
+        whereClause.recordedAt = {
+          ...(query.startDate && { gte: new Date(query.startDate) }),
+          ...(query.endDate && { lte: new Date(query.endDate) })
+        };
+      }
+
+      const [readings, total] = await Promise.all([
+        prisma.truckTelemetry.findMany({
+          where: whereClause,
+          skip,
+          take: limit,
+          orderBy: { recordedAt: 'desc' }
+        }),
+        prisma.truckTelemetry.count({ where: whereClause })
+      ]);
+
+      return {
+        success: true,
+        data: readings.map(reading => this.formatTelemetryResponse(reading)),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Add GPS fixes to the trail of the driver running a route with the truck.
+   * Fixes from a truck nobody is driving on a route are kept in the telemetry only.
+   */
+  private async recordDriverLocations(
+    truckId: string,
+    fixes: Array<Omit<TelemetryReading, 'recordedAt'> & { recordedAt: Date }>
+  ): Promise<void> {
+    const activeRoute = await prisma.route.findFirst({
+      where: {
+        truckId,
+        status: RouteStatus.IN_PROGRESS
+      },
+      select: { driverId: true }
+    });
+
+    if (!activeRoute) {
+      return;
+    }
+
+    for (const fix of fixes) {
+      await this.driverLocationService.recordLocation(activeRoute.driverId, {
+        latitude: fix.latitude!,
+        longitude: fix.longitude!,
+        speed: fix.speed,
+        heading: fix.heading,
+        recordedAt: fix.recordedAt
+      });
+    }
+
+    const latest = fixes[fixes.length - 1];
+    await prisma.driver.update({
+      where: { id: activeRoute.driverId },
+      data: {
+        currentLatitude: latest.latitude,
+        currentLongitude: latest.longitude
+      }
+    });
+  }
+
+  /**
+   * Open a maintenance ticket for each fault code that has no open ticket yet
+   */
+  private async openFaultTickets(truckId: string, faultCodes: string[]): Promise<string[]> {
+    const codes = [...new Set(faultCodes.map(code => code.toUpperCase()))];
+
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const openTickets = await prisma.maintenanceTicket.findMany({
+      where: {
+        truckId,
+        faultCode: { in: codes },
+        status: { not: MaintenanceTicketStatus.RESOLVED }
+      },
+      select: { faultCode: true }
+    });
+    const alreadyOpen = new Set(openTickets.map(ticket => ticket.faultCode));
+
+    const ticketIds: string[] = [];
+    for (const code of codes.filter(code => !alreadyOpen.has(code))) {
+      const ticket = await this.maintenanceService.openTicket({
+        truckId,
+        title: `Fault code ${code} reported by telematics`,
+        faultCode: code
+      });
+      ticketIds.push(ticket.id);
+    }
+
+    return ticketIds;
+  }
+
+  private formatUnitResponse(unit: any): TelematicsUnitResponse {
+    return {
+      id: unit.id,
+      deviceId: unit.deviceId,
+      truckId: unit.truckId,
+      status: unit.status,
+      provisionedAt: unit.provisionedAt,
+      revokedAt: unit.revokedAt,
+      lastSeenAt: unit.lastSeenAt
+    };
+  }
+
+  private formatTelemetryResponse(reading: any): TruckTelemetryResponse {
+    const numberOrNull = (value: any) => (value !== null ? Number(value) : null);
+
+    return {
+      id: reading.id,
+      truckId: reading.truckId,
+      latitude: numberOrNull(reading.latitude),
+      longitude: numberOrNull(reading.longitude),
+      speed: numberOrNull(reading.speed),
+      heading: numberOrNull(reading.heading),
+      odometer: reading.odometer,
+      engineHours: numberOrNull(reading.engineHours),
+      fuelLevel: numberOrNull(reading.fuelLevel),
+      faultCodes: reading.faultCodes,
+      recordedAt: reading.recordedAt,
+      receivedAt: reading.receivedAt
+    };
+  }
+}
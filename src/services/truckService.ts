@@ -7,10 +7,18 @@ import {
   TruckListQuery 
 } from '@/types/truck';
 import { AppError } from '@/middleware/errorHandler';
+import { MaintenanceService } from '@/services/maintenanceService';
+import { tenantIsolation } from '@/utils/tenantIsolation';
 
-const prisma = new PrismaClient();
+const prisma = new PrismaClient().$extends(tenantIsolation);
 
 export class TruckService {
+  private maintenanceService: MaintenanceService;
+
+  constructor() {
+    this.maintenanceService = new MaintenanceService();
+  }
+
   /**
    * Create a new truck
    */
@@ -27,6 +35,10 @@ export class TruckService {
         throw error;
       }
 
+      if (data.depotId) {
+        await this.ensureDepotExists(data.depotId);
+      }
+
       const truck = await prisma.truck.create({
         data: {
           licensePlate: data.licensePlate.toUpperCase(),
@@ -34,7 +46,10 @@ export class TruckService {
           capacity: data.capacity || 1000,
           fuelType: data.fuelType,
           year: data.year,
-          isActive: data.isActive !== false
+          odometer: data.odometer,
+          fuelTankCapacity: data.fuelTankCapacity,
+          isActive: data.isActive !== false,
+          depotId: data.depotId
         },
         include: {
           _count: {
@@ -102,6 +117,10 @@ export class TruckService {
                   }
                 }
               }
+            },
+            maintenanceRecords: {
+              where: { completedAt: null },
+              select: { id: true }
             }
           },
           orderBy: { updatedAt: 'desc' },
@@ -151,6 +170,10 @@ export class TruckService {
                 }
               }
             }
+          },
+          maintenanceRecords: {
+            where: { completedAt: null },
+            select: { id: true }
           }
         }
       });
@@ -187,6 +210,10 @@ export class TruckService {
         }
       }
 
+      if (data.depotId) {
+        await this.ensureDepotExists(data.depotId);
+      }
+
       const updatedTruck = await prisma.truck.update({
         where: { id: truckId },
         data: {
@@ -195,7 +222,10 @@ export class TruckService {
           ...(data.capacity && { capacity: data.capacity }),
           ...(data.fuelType && { fuelType: data.fuelType }),
           ...(data.year && { year: data.year }),
-          ...(data.isActive !== undefined && { isActive: data.isActive })
+          ...(data.odometer !== undefined && { odometer: data.odometer }),
+          ...(data.fuelTankCapacity !== undefined && { fuelTankCapacity: data.fuelTankCapacity }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.depotId !== undefined && { depotId: data.depotId })
         },
         include: {
           _count: {
@@ -251,13 +281,16 @@ export class TruckService {
   }
 
   /**
-   * Get available trucks (not assigned to any driver or assigned to offline drivers)
+   * Get available trucks (not in the shop, and not assigned to any driver or assigned to offline drivers)
    */
   async getAvailableTrucks() {
     try {
       const trucks = await prisma.truck.findMany({
         where: {
           isActive: true,
+          maintenanceRecords: {
+            none: { completedAt: null }
+          },
           OR: [
             // Trucks with no drivers assigned
             {
@@ -490,29 +523,23 @@ export class TruckService {
   }
 
   /**
-   * Get truck maintenance schedule (placeholder for future implementation)
+   * Get truck maintenance schedule from its maintenance records and service interval rules
    */
   async getTruckMaintenanceSchedule(truckId: string) {
     try {
-      const truck = await this.getTruckById(truckId);
-
-      // This is a placeholder - you would implement actual maintenance tracking
-      const maintenanceSchedule = {
-        lastMaintenance: null, // Would come from maintenance records
-        nextMaintenance: null, // Calculated based on mileage/time
-        maintenanceInterval: 30, // days
-        maintenanceStatus: 'up-to-date'
-      };
+      const schedule = await this.maintenanceService.getMaintenanceSchedule(truckId);
 
       return {
         success: true,
         data: {
-          truck: {
-            id: truck.id,
-            licensePlate: truck.licensePlate,
-            model: truck.model
-          },
-          maintenance: maintenanceSchedule
+          truck: schedule.truck,
+          maintenance: {
+            lastMaintenance: schedule.lastMaintenance,
+            nextMaintenance: schedule.nextMaintenance,
+            maintenanceStatus: schedule.maintenanceStatus,
+            inShop: schedule.inShop,
+            items: schedule.items
+          }
         }
       };
     } catch (error) {
@@ -573,6 +600,21 @@ export class TruckService {
     }
   }
 
+  /**
+   * Make sure a depot exists before a truck is based there
+   */
+  private async ensureDepotExists(depotId: string): Promise<void> {
+    const depot = await prisma.depot.findUnique({
+      where: { id: depotId }
+    });
+
+    if (!depot) {
+      const error: AppError = new Error('Depot not found');
+      error.statusCode = 404;
+      throw error;
+    }
+  }
+
   /**
    * Format truck response
    */
@@ -584,7 +626,11 @@ export class TruckService {
       capacity: truck.capacity,
       fuelType: truck.fuelType,
       year: truck.year,
+      odometer: truck.odometer,
+      fuelTankCapacity: truck.fuelTankCapacity,
       isActive: truck.isActive,
+      inShop: truck.maintenanceRecords ? truck.maintenanceRecords.length > 0 : undefined,
+      depotId: truck.depotId,
       createdAt: truck.createdAt,
       updatedAt: truck.updatedAt,
       _count: truck._count,
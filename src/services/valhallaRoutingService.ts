@@ -0,0 +1,123 @@
+// src/services/valhallaRoutingService.ts
+import { env } from '../config/env';
+import {
+  GeoPoint,
+  RouteRequest,
+  RouteResponse,
+  DistanceMatrixRequest,
+  DistanceMatrixResponse,
+  RoutingProvider,
+  RoutingProviderName
+} from '../types/routing';
+import { NominatimGeocoderService } from './nominatimGeocoderService';
+import { decodePolyline, encodePolyline } from '../utils/geo';
+
+// Costing model that respects truck restrictions in the road data
+const VALHALLA_COSTING = 'truck';
+// Valhalla encodes shapes with six decimal places
+const VALHALLA_SHAPE_PRECISION = 6;
+
+export class ValhallaRoutingService implements RoutingProvider {
+  readonly name: RoutingProviderName = 'VALHALLA';
+  private baseUrl: string;
+  private geocoder: NominatimGeocoderService;
+
+  constructor(baseUrl: string = env.ROUTING_SERVICE_URL, geocoderUrl: string = env.GEOCODER_URL) {
+    this.baseUrl = baseUrl;
+    this.geocoder = new NominatimGeocoderService(geocoderUrl);
+  }
+
+  /**
+   * Get route between two points with optional waypoints, visited in order
+   */
+  async getRoute(request: RouteRequest): Promise<RouteResponse> {
+    try {
+      const points = [request.origin, ...(request.waypoints || []), request.destination];
+      const data = await this.request('/route', {
+        locations: points.map(point => this.formatLocation(point)),
+        costing: VALHALLA_COSTING,
+        directions_options: { units: 'kilometers' }
+      });
+
+      const legs: any[] = data.trip.legs;
+      const shape = legs.flatMap(leg => decodePolyline(leg.shape, VALHALLA_SHAPE_PRECISION));
+
+      return {
+        distance: data.trip.summary.length * 1000,
+        duration: data.trip.summary.time,
+        polyline: encodePolyline(shape),
+        steps: legs.flatMap(leg => (leg.maneuvers || []).map((maneuver: any) => ({
+          instruction: maneuver.instruction,
+          distance: maneuver.length * 1000,
+          duration: maneuver.time
+        })))
+      };
+    } catch (error) {
+      console.error('Error getting route from Valhalla:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get distance matrix for multiple origins and destinations
+   */
+  async getDistanceMatrix(request: DistanceMatrixRequest): Promise<DistanceMatrixResponse> {
+    try {
+      const data = await this.request('/sources_to_targets', {
+        sources: request.origins.map(point => this.formatLocation(point)),
+        targets: request.destinations.map(point => this.formatLocation(point)),
+        costing: VALHALLA_COSTING
+      });
+
+      const distances: number[][] = [];
+      const durations: number[][] = [];
+
+      // Unreachable pairs come back with null distance and time
+      data.sources_to_targets.forEach((row: any[], i: number) => {
+        distances[i] = row.map(cell => (cell.distance === null ? Infinity : cell.distance * 1000));
+        durations[i] = row.map(cell => (cell.time === null ? Infinity : cell.time));
+      });
+
+      return { distances, durations };
+    } catch (error) {
+      console.error('Error getting distance matrix from Valhalla:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Geocode an address to coordinates
+   */
+  async geocode(address: string): Promise<GeoPoint> {
+    return this.geocoder.geocode(address);
+  }
+
+  /**
+   * Reverse geocode coordinates to address
+   */
+  async reverseGeocode(coordinates: GeoPoint): Promise<string> {
+    return this.geocoder.reverseGeocode(coordinates);
+  }
+
+  /**
+   * Call the Valhalla HTTP API
+   */
+  private async request(path: string, body: object): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data = await response.json() as any;
+
+    if (!response.ok) {
+      throw new Error(`Valhalla error: ${data.error_code} - ${data.error}`);
+    }
+
+    return data;
+  }
+
+  private formatLocation(point: GeoPoint) {
+    return { lat: point.latitude, lon: point.longitude };
+  }
+}
@@ -0,0 +1,626 @@
+// src/services/vrpSolverService.ts
+import path from 'path';
+import { Worker } from 'worker_threads';
+import {
+  VrpProblem,
+  VrpSolution,
+  VrpRoute,
+  VrpPlannedStop,
+  VrpInsertionResult,
+  VrpUnassignedReason,
+  GeoPoint
+} from '@/types/routing';
+import { AppError } from '@/middleware/errorHandler';
+
+// Improvements smaller than this (in km) are rounding noise
+const IMPROVEMENT_EPSILON = 1e-6;
+const DEFAULT_MAX_ITERATIONS = 500;
+// Wall-clock budget for improving routes; the best plan found so far is returned
+const DEFAULT_TIME_LIMIT_MS = 5000;
+// Time a worker may take beyond the budget, for building routes, before it is stopped
+const WORKER_GRACE_MS = 30000;
+
+interface NodeLayout {
+  startOffset: number;
+  endOffset: number;
+  siteOffset: number;
+}
+
+interface SolverContext {
+  problem: VrpProblem;
+  // Stops first, then vehicle starts, vehicle ends and disposal sites
+  layout: NodeLayout;
+  distances: number[][]; // in kilometers
+  durations: number[][]; // in milliseconds
+  routes: number[][];
+  deadline: number; // Date.now() after which no more improvement moves are tried
+}
+
+interface RouteEvaluation {
+  feasible: boolean;
+  distance: number;
+  reason?: VrpUnassignedReason;
+  endTime?: number;
+  collected?: number;
+}
+
+export class VrpSolverService {
+  /**
+   * Solve a capacitated multi-vehicle routing problem with time windows.
+   * Routes are built by cheapest feasible insertion and improved with
+   * 2-opt, relocate and swap moves until no move shortens the plan or
+   * the time limit is reached.
+   * When disposal sites are given, trucks make several trips per route.
+   */
+  solve(problem: VrpProblem): VrpSolution {
+    const ctx = this.createContext(problem);
+
+    // Tight and important stops first, so they get the best slots
+    const order = problem.stops
+      .map((_, index) => index)
+      .sort((a, b) => {
+        const stopA = problem.stops[a];
+        const stopB = problem.stops[b];
+        if (stopA.priority !== stopB.priority) {
+          return stopB.priority - stopA.priority;
+        }
+        const endA = stopA.windowEnd?.getTime() ?? Infinity;
+        const endB = stopB.windowEnd?.getTime() ?? Infinity;
+        return endA - endB;
+      });
+
+    let unassigned = this.insertStops(ctx, order);
+
+    const maxIterations = problem.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    let iterations = 0;
+
+    while (iterations < maxIterations && !this.isOutOfTime(ctx)) {
+      const improved = this.applyTwoOpt(ctx) || this.applyRelocate(ctx) || this.applySwap(ctx);
+      if (!improved) {
+        break;
+      }
+      iterations++;
+    }
+
+    // Shorter routes may have freed time for stops that did not fit before
+    if (unassigned.length > 0) {
+      unassigned = this.insertStops(ctx, unassigned.map(item => item.index));
+    }
+
+    const routes = ctx.routes.map((route, vehicleIndex) => this.buildRoute(ctx, vehicleIndex, route));
+
+    return {
+      routes,
+      unassigned: unassigned.map(item => ({
+        stopId: problem.stops[item.index].id,
+        reason: item.reason
+      })),
+      totalDistance: routes.reduce((sum, route) => sum + route.distance, 0),
+      iterations
+    };
+  }
+
+  /**
+   * Solve in a worker thread, so a large problem does not hold up other requests
+   */
+  solveInWorker(problem: VrpProblem): Promise<VrpSolution> {
+    return new Promise((resolve, reject) => {
+      // Under ts-node the worker has to compile its TypeScript as well
+      const isTypeScript = path.extname(__filename) === '.ts';
+      const worker = new Worker(path.join(__dirname, `vrpSolverWorker${path.extname(__filename)}`), {
+        workerData: problem,
+        execArgv: isTypeScript ? ['-r', 'ts-node/register/transpile-only', '-r', 'tsconfig-paths/register'] : undefined
+      });
+
+      const timer = setTimeout(() => {
+        worker.terminate();
+        const error: AppError = new Error('Route planning took too long. Plan fewer pickups at once');
+        error.statusCode = 503;
+        reject(error);
+      }, (problem.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS) + WORKER_GRACE_MS);
+
+      worker.once('message', (solution: VrpSolution) => {
+        clearTimeout(timer);
+        resolve(solution);
+      });
+
+      worker.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      worker.once('exit', code => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(`Route solver worker stopped with exit code ${code}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Every location the solver travels between, in the order a travel matrix must follow:
+   * stops, vehicle starts, vehicle ends and disposal sites
+   */
+  getLocations(problem: VrpProblem): GeoPoint[] {
+    return [
+      ...problem.stops.map(stop => stop.location),
+      ...problem.vehicles.map(vehicle => vehicle.start),
+      // Vehicles without a depot never travel to their end node
+      ...problem.vehicles.map(vehicle => vehicle.end?.location ?? vehicle.start),
+      ...(problem.disposalSites || []).map(site => site.location)
+    ];
+  }
+
+  /**
+   * Cheapest feasible insertion of one stop into routes whose stop order is
+   * already fixed, e.g. routes drivers are part way through. Each sequence
+   * lists the stop ids of one vehicle's route; the rest of the order is kept.
+   */
+  insertStop(problem: VrpProblem, sequences: string[][], stopId: string): VrpInsertionResult {
+    const ctx = this.createContext(problem);
+    const indexById = new Map(problem.stops.map((stop, index) => [stop.id, index]));
+    ctx.routes = sequences.map(sequence => sequence.map(id => indexById.get(id)!));
+
+    const stopIndex = indexById.get(stopId)!;
+    let best: { vehicle: number; position: number; delta: number } | null = null;
+    const failures = new Map<VrpUnassignedReason, number>();
+
+    ctx.routes.forEach((route, vehicle) => {
+      const current = this.evaluateRoute(ctx, vehicle, route);
+      if (!current.feasible) {
+        failures.set(current.reason!, (failures.get(current.reason!) || 0) + 1);
+        return;
+      }
+
+      for (let position = 0; position <= route.length; position++) {
+        const candidate = [...route.slice(0, position), stopIndex, ...route.slice(position)];
+        const evaluation = this.evaluateRoute(ctx, vehicle, candidate);
+
+        if (!evaluation.feasible) {
+          failures.set(evaluation.reason!, (failures.get(evaluation.reason!) || 0) + 1);
+          continue;
+        }
+
+        const delta = evaluation.distance - current.distance;
+        if (!best || delta < best.delta) {
+          best = { vehicle, position, delta };
+        }
+      }
+    });
+
+    if (!best) {
+      return { insertion: null, reason: this.mostCommonReason(failures) };
+    }
+
+    const { vehicle, position, delta } = best;
+    ctx.routes[vehicle].splice(position, 0, stopIndex);
+
+    return {
+      insertion: {
+        vehicleId: problem.vehicles[vehicle].id,
+        position,
+        addedDistance: delta,
+        route: this.buildRoute(ctx, vehicle, ctx.routes[vehicle])
+      }
+    };
+  }
+
+  /**
+   * Cheapest feasible insertion of each stop, in the given order
+   */
+  private insertStops(
+    ctx: SolverContext,
+    order: number[]
+  ): Array<{ index: number; reason: VrpUnassignedReason }> {
+    const unassigned: Array<{ index: number; reason: VrpUnassignedReason }> = [];
+
+    for (const stopIndex of order) {
+      let best: { vehicle: number; position: number; delta: number } | null = null;
+      const failures = new Map<VrpUnassignedReason, number>();
+
+      ctx.routes.forEach((route, vehicle) => {
+        const currentDistance = this.evaluateRoute(ctx, vehicle, route).distance;
+
+        for (let position = 0; position <= route.length; position++) {
+          const candidate = [...route.slice(0, position), stopIndex, ...route.slice(position)];
+          const evaluation = this.evaluateRoute(ctx, vehicle, candidate);
+
+          if (!evaluation.feasible) {
+            failures.set(evaluation.reason!, (failures.get(evaluation.reason!) || 0) + 1);
+            continue;
+          }
+
+          const delta = evaluation.distance - currentDistance;
+          if (!best || delta < best.delta) {
+            best = { vehicle, position, delta };
+          }
+        }
+      });
+
+      if (best) {
+        const { vehicle, position } = best;
+        ctx.routes[vehicle].splice(position, 0, stopIndex);
+      } else {
+        unassigned.push({ index: stopIndex, reason: this.mostCommonReason(failures) });
+      }
+    }
+
+    return unassigned;
+  }
+
+  /**
+   * Reverse a segment within a route (intra-route 2-opt)
+   */
+  private applyTwoOpt(ctx: SolverContext): boolean {
+    for (let vehicle = 0; vehicle < ctx.routes.length; vehicle++) {
+      const route = ctx.routes[vehicle];
+      const currentDistance = this.evaluateRoute(ctx, vehicle, route).distance;
+
+      for (let i = 0; i < route.length - 1; i++) {
+        if (this.isOutOfTime(ctx)) {
+          return false;
+        }
+
+        for (let j = i + 1; j < route.length; j++) {
+          const candidate = [
+            ...route.slice(0, i),
+            ...route.slice(i, j + 1).reverse(),
+            ...route.slice(j + 1)
+          ];
+          const evaluation = this.evaluateRoute(ctx, vehicle, candidate);
+
+          if (evaluation.feasible && evaluation.distance < currentDistance - IMPROVEMENT_EPSILON) {
+            ctx.routes[vehicle] = candidate;
+            return true;
+          }
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Move one stop to another position, in the same or another route
+   */
+  private applyRelocate(ctx: SolverContext): boolean {
+    for (let from = 0; from < ctx.routes.length; from++) {
+      for (let i = 0; i < ctx.routes[from].length; i++) {
+        if (this.isOutOfTime(ctx)) {
+          return false;
+        }
+
+        const stopIndex = ctx.routes[from][i];
+        const reducedFrom = [...ctx.routes[from].slice(0, i), ...ctx.routes[from].slice(i + 1)];
+        const fromBefore = this.evaluateRoute(ctx, from, ctx.routes[from]).distance;
+        const fromAfter = this.evaluateRoute(ctx, from, reducedFrom);
+
+        if (!fromAfter.feasible) {
+          continue;
+        }
+
+        for (let to = 0; to < ctx.routes.length; to++) {
+          const target = to === from ? reducedFrom : ctx.routes[to];
+          const toBefore = to === from ? 0 : this.evaluateRoute(ctx, to, target).distance;
+
+          for (let position = 0; position <= target.length; position++) {
+            if (to === from && position === i) {
+              continue;
+            }
+
+            const candidate = [...target.slice(0, position), stopIndex, ...target.slice(position)];
+            const toAfter = this.evaluateRoute(ctx, to, candidate);
+            if (!toAfter.feasible) {
+              continue;
+            }
+
+            const delta = to === from
+              ? toAfter.distance - fromBefore
+              : fromAfter.distance + toAfter.distance - fromBefore - toBefore;
+
+            if (delta < -IMPROVEMENT_EPSILON) {
+              if (to === from) {
+                ctx.routes[from] = candidate;
+              } else {
+                ctx.routes[from] = reducedFrom;
+                ctx.routes[to] = candidate;
+              }
+              return true;
+            }
+          }
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Exchange two stops, in the same or different routes
+   */
+  private applySwap(ctx: SolverContext): boolean {
+    for (let a = 0; a < ctx.routes.length; a++) {
+      for (let b = a; b < ctx.routes.length; b++) {
+        const routeA = ctx.routes[a];
+        const routeB = ctx.routes[b];
+        const before = this.evaluateRoute(ctx, a, routeA).distance +
+          (a === b ? 0 : this.evaluateRoute(ctx, b, routeB).distance);
+
+        for (let i = 0; i < routeA.length; i++) {
+          if (this.isOutOfTime(ctx)) {
+            return false;
+          }
+
+          for (let j = a === b ? i + 1 : 0; j < routeB.length; j++) {
+            const candidateA = [...routeA];
+            const candidateB = a === b ? candidateA : [...routeB];
+            const stopA = candidateA[i];
+            candidateA[i] = candidateB[j];
+            candidateB[j] = stopA;
+
+            const evaluationA = this.evaluateRoute(ctx, a, candidateA);
+            if (!evaluationA.feasible) {
+              continue;
+            }
+
+            let after = evaluationA.distance;
+            if (a !== b) {
+              const evaluationB = this.evaluateRoute(ctx, b, candidateB);
+              if (!evaluationB.feasible) {
+                continue;
+              }
+              after += evaluationB.distance;
+            }
+
+            if (after < before - IMPROVEMENT_EPSILON) {
+              ctx.routes[a] = candidateA;
+              ctx.routes[b] = candidateB;
+              return true;
+            }
+          }
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Travel costs between every pair of locations, with empty routes
+   */
+  private createContext(problem: VrpProblem): SolverContext {
+    const nodes = this.getLocations(problem);
+    const msPerKm = (60 * 60 * 1000) / problem.speedKmh;
+    const matrix = problem.travelMatrix;
+
+    // Road costs where the provider found a path, straight-line estimates elsewhere
+    const distances = nodes.map((from, i) => nodes.map((to, j) => {
+      const road = matrix?.distances[i]?.[j];
+      return road !== undefined && Number.isFinite(road) ? road : this.calculateDistance(from, to);
+    }));
+    const durations = distances.map((row, i) => row.map((distance, j) => {
+      const road = matrix?.durations[i]?.[j];
+      return road !== undefined && Number.isFinite(road) ? road * 60 * 1000 : distance * msPerKm;
+    }));
+
+    return {
+      problem,
+      layout: {
+        startOffset: problem.stops.length,
+        endOffset: problem.stops.length + problem.vehicles.length,
+        siteOffset: problem.stops.length + 2 * problem.vehicles.length
+      },
+      distances,
+      durations,
+      routes: problem.vehicles.map(() => []),
+      deadline: Date.now() + (problem.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS)
+    };
+  }
+
+  private isOutOfTime(ctx: SolverContext): boolean {
+    return Date.now() > ctx.deadline;
+  }
+
+  /**
+   * Check capacity, time windows and shift end for a route and measure its length
+   */
+  private evaluateRoute(ctx: SolverContext, vehicleIndex: number, route: number[]): RouteEvaluation {
+    const { problem } = ctx;
+    const vehicle = problem.vehicles[vehicleIndex];
+
+    // Without a site to tip at, capacity does not depend on the order, so check it up front
+    if (!problem.disposalSites?.length) {
+      const totalLoad = route.reduce(
+        (sum, stopIndex) => sum + problem.stops[stopIndex].demand,
+        vehicle.initialLoad ?? 0
+      );
+      if (totalLoad > vehicle.capacity) {
+        return { feasible: false, distance: 0, reason: 'CAPACITY' };
+      }
+    }
+
+    return this.walkRoute(ctx, vehicleIndex, route);
+  }
+
+  /**
+   * Expand a route into arrival and departure times per stop, including
+   * disposal trips and the return to the depot
+   */
+  private buildRoute(ctx: SolverContext, vehicleIndex: number, route: number[]): VrpRoute {
+    const vehicle = ctx.problem.vehicles[vehicleIndex];
+    const stops: VrpPlannedStop[] = [];
+    const walk = this.walkRoute(ctx, vehicleIndex, route, stops);
+
+    return {
+      vehicleId: vehicle.id,
+      stops,
+      distance: walk.distance,
+      duration: route.length > 0 ? Math.round((walk.endTime! - vehicle.availableFrom.getTime()) / (60 * 1000)) : 0,
+      load: walk.collected ?? 0
+    };
+  }
+
+  /**
+   * Drive a route in order. The truck tips at the best-placed disposal site
+   * whenever the next stop would overflow it, tips once more after the last
+   * stop, and returns to its depot. Planned stops are appended when requested.
+   */
+  private walkRoute(
+    ctx: SolverContext,
+    vehicleIndex: number,
+    route: number[],
+    planned?: VrpPlannedStop[]
+  ): RouteEvaluation {
+    const { problem, distances, durations, layout } = ctx;
+    const vehicle = problem.vehicles[vehicleIndex];
+    const sites = problem.disposalSites || [];
+    const endNode = layout.endOffset + vehicleIndex;
+
+    let previous = layout.startOffset + vehicleIndex;
+    let time = vehicle.availableFrom.getTime();
+    let distance = 0;
+    let load = vehicle.initialLoad ?? 0;
+    let collected = 0;
+
+    const travel = (node: number) => {
+      distance += distances[previous][node];
+      time += durations[previous][node];
+      previous = node;
+    };
+
+    const tip = (nextNode: number | null) => {
+      // Pick the site that adds the least detour on the way to the next node
+      let bestSite = 0;
+      let bestDetour = Infinity;
+      sites.forEach((_, siteIndex) => {
+        const siteNode = layout.siteOffset + siteIndex;
+        const detour = distances[previous][siteNode] + (nextNode !== null ? distances[siteNode][nextNode] : 0);
+        if (detour < bestDetour) {
+          bestSite = siteIndex;
+          bestDetour = detour;
+        }
+      });
+
+      const site = sites[bestSite];
+      travel(layout.siteOffset + bestSite);
+      const arrival = new Date(time);
+      time += site.serviceMinutes * 60 * 1000;
+      load = 0;
+
+      planned?.push({
+        type: 'DISPOSAL',
+        facilityId: site.id,
+        arrival,
+        departure: new Date(time),
+        waitMinutes: 0,
+        load
+      });
+    };
+
+    for (const stopIndex of route) {
+      const stop = problem.stops[stopIndex];
+
+      if (load + stop.demand > vehicle.capacity) {
+        // A stop heavier than the whole truck never fits, tipping or not
+        if (sites.length === 0 || stop.demand > vehicle.capacity) {
+          return { feasible: false, distance, reason: 'CAPACITY' };
+        }
+        tip(stopIndex);
+      }
+
+      travel(stopIndex);
+
+      const arrival = new Date(time);
+      let waitMinutes = 0;
+      if (stop.windowStart && time < stop.windowStart.getTime()) {
+        waitMinutes = (stop.windowStart.getTime() - time) / (60 * 1000);
+        time = stop.windowStart.getTime();
+      }
+
+      if (stop.windowEnd && time > stop.windowEnd.getTime()) {
+        return { feasible: false, distance, reason: 'TIME_WINDOW' };
+      }
+
+      load += stop.demand;
+      collected += stop.demand;
+      time += stop.serviceMinutes * 60 * 1000;
+      if (time > vehicle.shiftEnd.getTime()) {
+        return { feasible: false, distance, reason: 'SHIFT_END' };
+      }
+
+      planned?.push({
+        type: 'PICKUP',
+        stopId: stop.id,
+        arrival,
+        departure: new Date(time),
+        waitMinutes: Math.round(waitMinutes),
+        load
+      });
+    }
+
+    if (route.length > 0) {
+      // Trucks go back to the depot empty
+      if (load > 0 && sites.length > 0) {
+        tip(vehicle.end ? endNode : null);
+      }
+
+      if (vehicle.end) {
+        travel(endNode);
+        const arrival = new Date(time);
+        time += vehicle.end.serviceMinutes * 60 * 1000;
+
+        planned?.push({
+          type: 'DEPOT',
+          facilityId: vehicle.end.id,
+          arrival,
+          departure: new Date(time),
+          waitMinutes: 0,
+          load
+        });
+      }
+
+      if (time > vehicle.shiftEnd.getTime()) {
+        return { feasible: false, distance, reason: 'SHIFT_END' };
+      }
+    }
+
+    return { feasible: true, distance, endTime: time, collected };
+  }
+
+  /**
+   * The constraint that blocked most insertion attempts
+   */
+  private mostCommonReason(failures: Map<VrpUnassignedReason, number>): VrpUnassignedReason {
+    let reason: VrpUnassignedReason = 'NO_VEHICLE';
+    let count = 0;
+
+    failures.forEach((value, key) => {
+      if (value > count) {
+        reason = key;
+        count = value;
+      }
+    });
+
+    return reason;
+  }
+
+  /**
+   * Calculate distance between two coordinates
+   */
+  private calculateDistance(from: GeoPoint, to: GeoPoint): number {
+    const R = 6371; // Earth's radius in kilometers
+    const dLat = this.deg2rad(to.latitude - from.latitude);
+    const dLng = this.deg2rad(to.longitude - from.longitude);
+    const a =
+      Math.sin(dLat/2) * Math.sin(dLat/2) +
+      Math.cos(this.deg2rad(from.latitude)) * Math.cos(this.deg2rad(to.latitude)) *
+      Math.sin(dLng/2) * Math.sin(dLng/2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    return R * c;
+  }
+
+  private deg2rad(deg: number): number {
+    return deg * (Math.PI/180);
+  }
+}
@@ -0,0 +1,7 @@
+// src/services/vrpSolverWorker.ts
+import { parentPort, workerData } from 'worker_threads';
+import { VrpSolverService } from './vrpSolverService';
+import { VrpProblem } from '@/types/routing';
+
+// Runs one solve for VrpSolverService.solveInWorker and exits
+parentPort!.postMessage(new VrpSolverService().solve(workerData as VrpProblem));
@@ -100,7 +100,7 @@ export interface DashboardMetrics {
     score: number;
     completionRate: number;
     averageTime: number;
-    fuelEfficiency: number;
+    litersPer100Km: number | null; // of the driver's truck, null without enough fill-ups
   }
   
   export interface ActivityHours {
@@ -116,9 +116,10 @@ export interface DashboardMetrics {
     driverName: string;
     totalPickups: number;
     completionRate: number;
-    averageRating: number;
-    totalDistance: number;
-    efficiency: number;
+    /** @deprecated Drivers are not rated, so this is always null. It will be removed. */
+    averageRating: number | null;
+    totalDistance: number; // in km, on routes completed in the period
+    efficiency: number; // the driver's efficiency score
   }
   
   export interface PickupAnalytics {
@@ -180,6 +181,20 @@ export interface DashboardMetrics {
     averageDuration: number;
     optimizationRate: number;
     fuelSavings: number;
+    averageDwellTime: number; // minutes trucks spend at a bin, from geofence arrival to departure
+    plannedVsActual: PlannedVsActual;
+  }
+  
+  // Completed routes with recorded actuals, compared with their plan
+  export interface PlannedVsActual {
+    routesCompared: number;
+    averageEstimatedDistance: number;
+    averageActualDistance: number;
+    distanceVariance: number; // percentage, positive when routes ran longer than planned
+    averageEstimatedDuration: number;
+    averageActualDuration: number;
+    durationVariance: number; // percentage, positive when routes took longer than planned
+    skippedStops: number;
   }
   
   export interface OptimizationImpact {
@@ -201,6 +216,8 @@ export interface DashboardMetrics {
   export interface FuelConsumption {
     totalFuelUsed: number;
     averagePerKm: number;
+    litersPer100Km: number;
+    litersPerTonne: number | null;
     costPerMonth: number;
     efficiencyTrend: TimeSeries[];
   }
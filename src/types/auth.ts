@@ -1,10 +1,12 @@
 // src/types/auth.ts
+import { AccountTokenPurpose } from '@prisma/client';
+
 export interface RegisterRequest {
     email: string;
     password: string;
     fullName: string;
     phone?: string;
-    role?: 'USER' | 'DRIVER' | 'ADMIN';
+    organizationSlug: string; // The council or hauler the user signs up to
   }
   
   export interface LoginRequest {
@@ -12,6 +14,13 @@ export interface RegisterRequest {
     password: string;
   }
   
+  // Second step of signing in, for users with two-factor authentication
+  export interface MfaLoginRequest {
+    mfaToken: string;
+    code?: string; // From the authenticator app
+    recoveryCode?: string; // Instead of a code, when the authenticator is lost
+  }
+  
   export interface RefreshTokenRequest {
     refreshToken: string;
   }
@@ -25,6 +34,10 @@ export interface RegisterRequest {
     password: string;
   }
   
+  export interface VerifyEmailRequest {
+    token: string;
+  }
+  
   export interface ChangePasswordRequest {
     currentPassword: string;
     newPassword: string;
@@ -39,6 +52,7 @@ export interface RegisterRequest {
         email: string;
         fullName: string;
         role: string;
+        organizationId: string | null;
         isActive: boolean;
         emailVerified: boolean;
       };
@@ -47,10 +61,35 @@ export interface RegisterRequest {
     };
   }
   
+  // Returned by the first step of signing in when a second factor is needed
+  export interface MfaChallengeResponse {
+    success: boolean;
+    message: string;
+    data: {
+      mfaRequired: true;
+      mfaToken: string;
+    };
+  }
+  
+  export interface MfaChallengePayload {
+    userId: string;
+    mfaChallenge: true;
+  }
+  
   export interface TokenPayload {
     userId: string;
     email: string;
     role: string;
+    organizationId: string | null; // Null for platform super-admins
+    mfa?: boolean; // Whether the session was signed in with a second factor
+    sessionId?: string; // The session the token was issued to
     iat?: number;
     exp?: number;
+  }
+  
+  // Claims of an emailed verification or password reset token
+  export interface AccountTokenPayload {
+    tokenId: string; // The AccountToken record the token redeems
+    userId: string;
+    purpose: AccountTokenPurpose;
   }
\ No newline at end of file
@@ -1,5 +1,5 @@
 // src/types/bin.ts
-import { BinStatus } from '@prisma/client';
+import { BinStatus, ReadingQuality, SensorAnomaly } from '@prisma/client';
 
 export interface CreateBinRequest {
   binCode: string;
@@ -8,6 +8,8 @@ export interface CreateBinRequest {
   longitude: number;
   capacity?: number;
   binType?: string;
+  reportingInterval?: number; // Expected seconds between sensor readings
+  geofenceRadius?: number; // in meters
   userId?: string; // For regular users, admin can assign to any user
 }
 
@@ -17,6 +19,8 @@ export interface UpdateBinRequest {
   longitude?: number;
   capacity?: number;
   binType?: string;
+  reportingInterval?: number;
+  geofenceRadius?: number | null; // null falls back to the default radius
   status?: BinStatus;
   isActive?: boolean;
 }
@@ -30,6 +34,16 @@ export interface BinSensorDataRequest {
   signalStrength?: number;
 }
 
+export interface ReadingAssessment {
+  quality: ReadingQuality;
+  anomalies: SensorAnomaly[];
+}
+
+export interface SensorDataUpdateResult extends ReadingAssessment {
+  success: boolean;
+  message: string;
+}
+
 export interface BinResponse {
   id: string;
   binCode: string;
@@ -41,6 +55,10 @@ export interface BinResponse {
   status: BinStatus;
   binType: string;
   lastEmptied?: Date;
+  reportingInterval: number;
+  geofenceRadius: number | null;
+  sensorOffline: boolean;
+  sensorOfflineSince?: Date;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -54,6 +72,21 @@ export interface BinResponse {
   };
 }
 
+export interface OfflineBinResponse extends BinResponse {
+  lastReadingAt?: Date;
+  overdueMinutes: number;
+}
+
+export interface AnomalousBinResponse extends BinResponse {
+  anomalousReadings: number;
+  lastAnomalyAt: Date;
+  lastAnomalies: SensorAnomaly[];
+}
+
+export interface AnomalousBinsQuery {
+  hours?: number; // Look-back window, default 24
+}
+
 export interface BinListQuery {
   page?: number;
   limit?: number;
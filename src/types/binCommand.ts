@@ -0,0 +1,55 @@
+// src/types/binCommand.ts
+import { BinCommandType, BinCommandStatus } from '@prisma/client';
+
+export interface IssueBinCommandRequest {
+  type: BinCommandType;
+  params?: {
+    intervalSeconds?: number; // For SET_REPORTING_INTERVAL
+  };
+  ttlSeconds?: number; // How long the command stays deliverable, default 10 minutes
+  maxAttempts?: number;
+}
+
+// Payload published to smartwaste/bins/{binCode}/command
+export interface BinCommandMessage {
+  commandId: string;
+  type: BinCommandType;
+  params?: any;
+  attempt: number;
+  expiresAt: Date;
+}
+
+// Payload of smartwaste/bins/{binCode}/ack
+export interface BinCommandAckMessage {
+  commandId: string;
+  success: boolean;
+  error?: string;
+  result?: any;
+}
+
+export interface BinCommandResponse {
+  id: string;
+  binId: string;
+  type: BinCommandType;
+  params?: any;
+  status: BinCommandStatus;
+  attempts: number;
+  maxAttempts: number;
+  sentAt?: Date;
+  lastAttemptAt?: Date;
+  ackedAt?: Date;
+  expiresAt: Date;
+  failureReason?: string;
+  result?: any;
+  issuedBy?: {
+    id: string;
+    fullName: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BinCommandListQuery {
+  status?: BinCommandStatus;
+  limit?: number;
+}
@@ -0,0 +1,69 @@
+// src/types/binEvent.ts
+import { AlertSeverity, AlertStatus, BinEventType, BinStatus } from '@prisma/client';
+
+// Payload of smartwaste/bins/{binCode}/status
+export interface BinStatusMessage {
+  lidOpen?: boolean;
+  tilted?: boolean;
+  tiltAngle?: number; // in degrees from upright
+}
+
+export type BinAlertType = 'LID_OPEN' | 'TILT' | 'FIRE' | 'TAMPER' | 'LOW_BATTERY';
+
+// Payload of smartwaste/bins/{binCode}/alert
+export interface BinAlertMessage {
+  type: BinAlertType;
+  message?: string;
+  temperature?: number;
+  batteryLevel?: number;
+  tiltAngle?: number;
+}
+
+export type GatewayHealthStatus = 'OK' | 'DEGRADED' | 'DOWN';
+
+// Payload of smartwaste/system/health, sent with the gateway's gatewaySecret
+export interface GatewayHealthMessage {
+  gatewayId: string;
+  status: GatewayHealthStatus;
+  uptime?: number; // in seconds
+  connectedDevices?: number;
+  signalStrength?: number;
+  batteryLevel?: number;
+}
+
+export interface BinEventResponse {
+  id: string;
+  organizationId?: string;
+  binId?: string;
+  gatewayId?: string;
+  type: BinEventType;
+  severity: AlertSeverity;
+  alertStatus?: AlertStatus;
+  message?: string;
+  payload?: any;
+  acknowledgedAt?: Date;
+  acknowledgementNote?: string;
+  acknowledgedBy?: {
+    id: string;
+    fullName: string;
+  };
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export interface RecordedBinEvent {
+  event: BinEventResponse;
+  statusChange?: {
+    oldStatus: BinStatus;
+    newStatus: BinStatus;
+  };
+}
+
+export interface BinAlertListQuery {
+  status?: AlertStatus;
+  limit?: number;
+}
+
+export interface AcknowledgeAlertRequest {
+  note?: string;
+}
@@ -0,0 +1,28 @@
+// src/types/binForecast.ts
+
+export type ForecastConfidence = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface BinForecast {
+  binId: string;
+  binCode: string;
+  location: string;
+  latitude: number;
+  longitude: number;
+  currentLevel: number;
+  threshold: number;
+  fillRatePerHour: number; // Average over the observed history, in percentage points
+  predictedFullAt: Date | null; // null when the bin is not expected to reach the threshold
+  hoursUntilThreshold: number | null;
+  confidence: ForecastConfidence;
+  observedHours: number; // Hours of fill history the forecast is based on
+  generatedAt: Date;
+}
+
+export interface BinForecastQuery {
+  threshold?: number; // Fill level to forecast, default 80
+}
+
+export interface PredictedFullBinsQuery {
+  hours?: number; // Forecast horizon, default 24
+  threshold?: number;
+}
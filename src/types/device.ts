@@ -0,0 +1,40 @@
+// src/types/device.ts
+import { DeviceStatus } from '@prisma/client';
+
+export interface ProvisionDeviceRequest {
+  deviceId: string;
+  firmwareVersion?: string;
+}
+
+export interface DeviceCredentials {
+  deviceId: string;
+  deviceSecret: string;
+}
+
+export interface DeviceResponse {
+  id: string;
+  deviceId: string;
+  binId: string;
+  binCode?: string;
+  firmwareVersion?: string;
+  status: DeviceStatus;
+  provisionedAt: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  lastSeenAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DeviceCredentialsResponse {
+  device: DeviceResponse;
+  deviceSecret: string; // Only returned once, at provisioning or rotation
+}
+
+export interface AuthenticatedDevice {
+  id: string;
+  deviceId: string;
+  binId: string;
+  binCode: string;
+  organizationId: string | null;
+}
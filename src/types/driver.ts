@@ -1,5 +1,5 @@
 // src/types/driver.ts
-import { DriverStatus, UserRole } from '@prisma/client';
+import { DriverStatus } from '@prisma/client';
 
 export interface CreateDriverRequest {
   userId?: string; // Admin can assign to any user, or create new user
@@ -30,6 +30,10 @@ export interface DriverStatusUpdate {
 export interface DriverLocationUpdate {
   latitude: number;
   longitude: number;
+  accuracy?: number; // in meters, as reported by the device
+  speed?: number; // in km/h
+  heading?: number; // degrees clockwise from north
+  recordedAt?: Date; // When the fix was taken, if the device buffered it
 }
 
 export interface DriverResponse {
@@ -101,4 +105,30 @@ export interface DriverPerformanceResponse {
   fuelEfficiency: number;
   rating: number;
   lastActiveDate: Date;
-}
\ No newline at end of file
+}
+export interface DriverTrackQuery {
+  from?: string; // Defaults to 24 hours before `to`
+  to?: string; // Defaults to now
+}
+
+// One continuous stretch of driving, as a GeoJSON LineString
+export interface DriverTrackFeature {
+  type: 'Feature';
+  geometry: {
+    type: 'LineString';
+    coordinates: number[][]; // [longitude, latitude]
+  };
+  properties: {
+    routeId: string | null;
+    startedAt: Date;
+    endedAt: Date;
+    distance: number; // in kilometers
+    timestamps: Date[]; // One per coordinate, for replay
+    speeds: Array<number | null>; // in km/h, one per coordinate
+  };
+}
+
+export interface DriverTrackResponse {
+  type: 'FeatureCollection';
+  features: DriverTrackFeature[];
+}
@@ -0,0 +1,67 @@
+// src/types/facility.ts
+import { DisposalSiteType } from '@prisma/client';
+
+export interface CreateDepotRequest {
+  name: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface UpdateDepotRequest {
+  name?: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  isActive?: boolean;
+}
+
+export interface DepotResponse {
+  id: string;
+  name: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  _count?: {
+    trucks: number;
+  };
+}
+
+export interface CreateDisposalSiteRequest {
+  name: string;
+  siteType?: DisposalSiteType;
+  address?: string;
+  latitude: number;
+  longitude: number;
+  unloadMinutes?: number;
+}
+
+export interface UpdateDisposalSiteRequest {
+  name?: string;
+  siteType?: DisposalSiteType;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  unloadMinutes?: number;
+  isActive?: boolean;
+}
+
+export interface DisposalSiteResponse {
+  id: string;
+  name: string;
+  siteType: DisposalSiteType;
+  address?: string;
+  latitude: number;
+  longitude: number;
+  unloadMinutes: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FacilityListQuery {
+  isActive?: boolean;
+}
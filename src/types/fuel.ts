@@ -0,0 +1,66 @@
+// src/types/fuel.ts
+import { FuelAnomaly } from '@prisma/client';
+import { TimeSeries } from '@/types/analytics';
+
+export interface CreateFuelLogRequest {
+  truckId?: string; // Drivers log fuel for their assigned truck
+  liters: number;
+  cost?: number;
+  odometer: number; // in km
+  station?: string;
+  fullTank?: boolean;
+  filledAt?: string;
+  notes?: string;
+}
+
+export interface FuelLogListQuery {
+  page?: number;
+  limit?: number;
+  truckId?: string;
+  anomalous?: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface FuelConsumptionQuery {
+  truckId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface FuelLogResponse {
+  id: string;
+  truckId: string;
+  driverId: string | null;
+  liters: number;
+  cost: number | null;
+  odometer: number;
+  station: string | null;
+  fullTank: boolean;
+  anomalies: FuelAnomaly[];
+  notes: string | null;
+  filledAt: Date;
+  createdAt: Date;
+}
+
+export interface TruckFuelConsumption {
+  truckId: string;
+  licensePlate: string;
+  fuelUsed: number; // liters put in during the period
+  fuelCost: number;
+  distance: number; // km covered between full fill-ups
+  litersPer100Km: number | null;
+  tonnesCollected: number;
+  litersPerTonne: number | null;
+  anomalies: number;
+}
+
+export interface FleetFuelSummary {
+  totalFuelUsed: number;
+  totalCost: number;
+  averagePerKm: number; // liters per km
+  litersPer100Km: number;
+  litersPerTonne: number | null;
+  efficiencyTrend: TimeSeries[]; // daily liters per 100 km
+  trucks: TruckFuelConsumption[];
+}
@@ -0,0 +1,36 @@
+// src/types/gateway.ts
+import { DeviceStatus } from '@prisma/client';
+
+export interface ProvisionGatewayRequest {
+  gatewayId: string;
+  name?: string;
+}
+
+export interface GatewayCredentials {
+  gatewayId: string;
+  gatewaySecret: string;
+}
+
+export interface GatewayResponse {
+  id: string;
+  gatewayId: string;
+  name?: string;
+  status: DeviceStatus;
+  provisionedAt: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  lastSeenAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GatewayCredentialsResponse {
+  gateway: GatewayResponse;
+  gatewaySecret: string; // Only returned once, at provisioning or rotation
+}
+
+export interface AuthenticatedGateway {
+  id: string;
+  gatewayId: string;
+  organizationId: string | null;
+}
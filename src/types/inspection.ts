@@ -0,0 +1,64 @@
+// src/types/inspection.ts
+export interface CreateInspectionItemRequest {
+  code: string;
+  label: string;
+  description?: string;
+  isCritical?: boolean;
+  sortOrder?: number;
+}
+
+export interface UpdateInspectionItemRequest {
+  label?: string;
+  description?: string | null;
+  isCritical?: boolean;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+export interface InspectionItemResponse {
+  id: string;
+  code: string;
+  label: string;
+  description: string | null;
+  isCritical: boolean;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface SubmitInspectionRequest {
+  results: Array<{
+    itemId: string;
+    passed: boolean;
+    notes?: string;
+  }>; // One per active checklist item
+  odometer?: number;
+  notes?: string;
+}
+
+export interface InspectionListQuery {
+  page?: number;
+  limit?: number;
+  truckId?: string;
+  driverId?: string;
+  passed?: boolean;
+}
+
+export interface InspectionResponse {
+  id: string;
+  truckId: string;
+  driverId: string;
+  passed: boolean;
+  criticalFailure: boolean;
+  odometer: number | null;
+  notes: string | null;
+  results: Array<{
+    itemId: string;
+    code: string;
+    label: string;
+    passed: boolean;
+    isCritical: boolean;
+    notes: string | null;
+  }>;
+  maintenanceTicketIds: string[];
+  createdAt: Date;
+}
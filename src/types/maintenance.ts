@@ -0,0 +1,135 @@
+// src/types/maintenance.ts
+import { MaintenanceTicketStatus } from '@prisma/client';
+
+export interface MaintenanceTicketListQuery {
+  page?: number;
+  limit?: number;
+  truckId?: string;
+  status?: MaintenanceTicketStatus;
+}
+
+export interface UpdateMaintenanceTicketRequest {
+  status: MaintenanceTicketStatus;
+  resolutionNotes?: string;
+}
+
+export interface MaintenanceTicketResponse {
+  id: string;
+  truckId: string;
+  truck?: {
+    licensePlate: string;
+    model: string | null;
+  };
+  inspectionId: string | null;
+  faultCode: string | null;
+  title: string;
+  description: string | null;
+  isCritical: boolean;
+  status: MaintenanceTicketStatus;
+  resolvedAt: Date | null;
+  resolutionNotes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateMaintenanceRecordRequest {
+  truckId: string;
+  type: string;
+  serviceDate: string;
+  completedAt?: string; // Left out while the truck is still in the shop
+  odometer?: number;
+  cost?: number;
+  vendor?: string;
+  notes?: string;
+}
+
+export interface UpdateMaintenanceRecordRequest {
+  completedAt?: string | null;
+  odometer?: number;
+  cost?: number | null;
+  vendor?: string | null;
+  notes?: string | null;
+}
+
+export interface MaintenanceRecordListQuery {
+  page?: number;
+  limit?: number;
+  truckId?: string;
+  type?: string;
+  inShop?: boolean;
+}
+
+export interface MaintenanceRecordResponse {
+  id: string;
+  truckId: string;
+  type: string;
+  serviceDate: Date;
+  completedAt: Date | null;
+  inShop: boolean;
+  odometer: number | null;
+  cost: number | null;
+  vendor: string | null;
+  notes: string | null;
+  createdAt: Date;
+}
+
+export interface CreateMaintenanceRuleRequest {
+  truckId?: string; // Fleet-wide when left out
+  type: string;
+  description?: string;
+  intervalDays?: number;
+  intervalKm?: number;
+}
+
+export interface UpdateMaintenanceRuleRequest {
+  description?: string | null;
+  intervalDays?: number | null;
+  intervalKm?: number | null;
+  isActive?: boolean;
+}
+
+export interface MaintenanceRuleResponse {
+  id: string;
+  truckId: string | null;
+  type: string;
+  description: string | null;
+  intervalDays: number | null;
+  intervalKm: number | null;
+  isActive: boolean;
+}
+
+export type MaintenanceDueStatus = 'OK' | 'DUE_SOON' | 'OVERDUE';
+
+export interface MaintenanceDueItem {
+  ruleId: string;
+  type: string;
+  intervalDays: number | null;
+  intervalKm: number | null;
+  lastServiceDate: Date | null;
+  lastServiceOdometer: number | null;
+  nextDueDate: Date | null;
+  nextDueOdometer: number | null;
+  kmRemaining: number | null;
+  status: MaintenanceDueStatus;
+}
+
+export interface MaintenanceScheduleResponse {
+  truck: {
+    id: string;
+    licensePlate: string;
+    model: string | null;
+    odometer: number | null;
+  };
+  inShop: boolean;
+  lastMaintenance: MaintenanceRecordResponse | null;
+  nextMaintenance: MaintenanceDueItem | null; // The service falling due first
+  maintenanceStatus: MaintenanceDueStatus;
+  items: MaintenanceDueItem[];
+}
+
+export interface OverdueMaintenance {
+  truckId: string;
+  licensePlate: string;
+  item: MaintenanceDueItem;
+  ticketId: string;
+}
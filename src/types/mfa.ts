@@ -0,0 +1,19 @@
+// src/types/mfa.ts
+export interface MfaCodeRequest {
+  code: string;
+}
+
+export interface MfaEnrollmentResponse {
+  secret: string; // For typing into an authenticator by hand
+  otpauthUri: string; // Shown as a QR code for the authenticator to scan
+}
+
+export interface MfaRecoveryCodesResponse {
+  recoveryCodes: string[]; // Shown once; only their hashes are kept
+}
+
+export interface MfaStatusResponse {
+  enabled: boolean;
+  required: boolean; // Whether the user's role requires a second factor
+  recoveryCodesRemaining: number;
+}
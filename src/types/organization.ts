@@ -0,0 +1,38 @@
+// src/types/organization.ts
+export interface CreateOrganizationRequest {
+  name: string;
+  slug: string;
+  admin: {
+    email: string;
+    password: string;
+    fullName: string;
+    phone?: string;
+  };
+}
+
+export interface UpdateOrganizationRequest {
+  name?: string;
+  isActive?: boolean;
+}
+
+export interface OrganizationResponse {
+  id: string;
+  name: string;
+  slug: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  _count?: {
+    users: number;
+    bins: number;
+    drivers: number;
+    trucks: number;
+  };
+}
+
+export interface OrganizationListQuery {
+  page?: number;
+  limit?: number;
+  isActive?: boolean;
+  search?: string;
+}
@@ -1,5 +1,7 @@
 // src/types/pickup.ts
-import { PickupStatus } from '@prisma/client';
+import { PickupStatus, PickupSource, RouteStatus } from '@prisma/client';
+import { ForecastConfidence } from '@/types/binForecast';
+import { FacilitySummary, VrpPlannedStopType, UnassignedPickup } from '@/types/routing';
 
 export interface CreatePickupRequest {
   binId: string;
@@ -10,6 +12,33 @@ export interface CreatePickupRequest {
   pickupType?: 'SCHEDULED' | 'ON_DEMAND' | 'EMERGENCY';
 }
 
+// Audit record explaining an automatically generated pickup
+export interface PickupGenerationReason {
+  rule: string;
+  currentLevel: number;
+  threshold: number;
+  predictedFullAt?: Date | null;
+  hoursUntilThreshold?: number | null;
+  fillRatePerHour?: number;
+  confidence?: ForecastConfidence;
+  batch?: {
+    key: string;
+    area: string; // Grid cell centre as "lat,lng"
+    day: string; // YYYY-MM-DD
+    size: number;
+  };
+  shiftWindow?: {
+    driverId: string;
+    start: Date;
+    end: Date;
+  };
+}
+
+export interface PickupGeneration {
+  source: PickupSource;
+  reason: PickupGenerationReason;
+}
+
 export interface UpdatePickupRequest {
   driverId?: string;
   scheduledAt?: Date;
@@ -36,6 +65,8 @@ export interface PickupResponse {
   startedAt?: Date;
   completedAt?: Date;
   notes?: string;
+  generationSource: PickupSource;
+  generationReason?: PickupGenerationReason;
   createdAt: Date;
   updatedAt: Date;
   bin: {
@@ -77,6 +108,7 @@ export interface PickupListQuery {
   driverId?: string;
   binId?: string;
   userId?: string;
+  generationSource?: PickupSource;
   scheduledDate?: string; // YYYY-MM-DD format
   startDate?: string;
   endDate?: string;
@@ -112,10 +144,23 @@ export interface PickupRouteOptimization {
 }
 
 export interface OptimizedRoute {
-  routeId: string;
+  routeId: string | null; // Null for a preview that was not stored
   driverId: string;
+  status: RouteStatus;
   totalDistance: number;
   estimatedDuration: number;
+  depot: FacilitySummary | null;
+  // Every stop in driving order, including disposal trips and the return to the depot
+  stops: {
+    routeStopId: string | null;
+    type: VrpPlannedStopType;
+    order: number;
+    status: PickupStatus;
+    estimatedArrival: Date;
+    pickupId: string | null;
+    binId: string | null;
+    facility: FacilitySummary | null;
+  }[];
   pickups: {
     pickupId: string;
     order: number;
@@ -128,6 +173,15 @@ export interface OptimizedRoute {
       longitude: number;
     };
   }[];
+  unassigned?: UnassignedPickup[]; // Set when the route was just planned
+}
+
+// An urgent pickup slotted into a route the driver is already driving
+export interface RouteReoptimization {
+  pickupId: string;
+  reason: string;
+  addedDistance: number; // in kilometers
+  route: OptimizedRoute; // The revised route
 }
 
 export interface PickupNotification {
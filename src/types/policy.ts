@@ -0,0 +1,68 @@
+// src/types/policy.ts
+
+// Which resources a permission is granted on: all of them, the user's own
+// (their bins, pickups, driver profile...) or those of the depot they work out of
+export type PermissionScope = 'any' | 'own' | 'zone';
+
+export type ResourceType =
+  | 'bin'
+  | 'pickup'
+  | 'route'
+  | 'driver'
+  | 'truck'
+  | 'inspection'
+  | 'shift'
+  | 'fuel'
+  | 'facility'
+  | 'analytics'
+  | 'role'
+  | 'user'
+  | 'organization';
+
+export interface PermissionResponse {
+  name: string;
+  resource: ResourceType;
+  scopes: PermissionScope[];
+  description: string;
+}
+
+export interface CreateRoleRequest {
+  name: string;
+  description?: string;
+  permissions: string[]; // e.g. pickup.assign, or pickup.read:zone
+  requireMfa?: boolean;
+}
+
+export interface UpdateRoleRequest {
+  description?: string | null;
+  permissions?: string[];
+  requireMfa?: boolean;
+}
+
+export interface AssignUserRoleRequest {
+  roleId: string | null; // null returns the user to their built-in role
+  depotId?: string | null;
+}
+
+export interface UpdateUserRoleRequest {
+  role: 'USER' | 'DRIVER' | 'ADMIN'; // Platform super-admins are not made through the API
+}
+
+export interface RoleResponse {
+  id: string | null; // null for built-in roles
+  name: string;
+  description: string | null;
+  builtIn: boolean;
+  permissions: string[];
+  requireMfa: boolean; // Holders must sign in with a second factor
+  userCount?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface UserRoleResponse {
+  userId: string;
+  role: string; // The built-in role
+  customRole: string | null;
+  depotId: string | null;
+}
@@ -0,0 +1,120 @@
+// src/types/route.ts
+import { PickupStatus, RouteStatus, RouteStopType } from '@prisma/client';
+
+export interface RouteListQuery {
+  page?: number;
+  limit?: number;
+  status?: RouteStatus;
+  driverId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface CompleteRouteStopRequest {
+  collectedWeight?: number; // in kilograms, the bin's weight or the weighbridge ticket at a disposal site
+  notes?: string;
+}
+
+export interface SkipRouteStopRequest {
+  reason: string;
+}
+
+export interface CompleteRouteRequest {
+  actualDistance?: number; // in kilometers, e.g. from the odometer
+  notes?: string;
+}
+
+export interface RouteStopResponse {
+  id: string;
+  stopType: RouteStopType;
+  stopOrder: number;
+  status: PickupStatus;
+  pickupId: string | null;
+  binId: string | null;
+  disposalSiteId: string | null;
+  estimatedArrival: Date | null;
+  estimatedDeparture: Date | null;
+  etaUpdatedAt: Date | null;
+  actualArrival: Date | null;
+  actualDeparture: Date | null;
+  dwellTime: number | null; // in seconds
+  collectedWeight: number | null; // in kilograms
+  awaitingConfirmation: boolean; // The truck left but the driver has not completed the stop
+  skipReason: string | null;
+  notes: string | null;
+  bin?: {
+    id: string;
+    binCode: string;
+    location: string;
+    latitude: number;
+    longitude: number;
+  } | null;
+  disposalSite?: {
+    id: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+  } | null;
+}
+
+export interface RouteResponse {
+  id: string;
+  driverId: string;
+  truckId: string | null;
+  depotId: string | null;
+  routeName: string | null;
+  status: RouteStatus;
+  totalDistance: number | null;
+  estimatedDuration: number | null;
+  actualDistance: number | null;
+  actualDuration: number | null;
+  createdAt: Date;
+  publishedAt: Date | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  driver?: {
+    id: string;
+    user: {
+      fullName: string;
+    };
+  };
+  stops: RouteStopResponse[];
+}
+
+export interface StopEta {
+  routeStopId: string;
+  pickupId: string | null;
+  binId: string | null;
+  binOwnerId: string | null;
+  estimatedArrival: Date;
+}
+
+export interface RouteEtaUpdate {
+  routeId: string;
+  driverId: string;
+  stops: StopEta[]; // Remaining stops, in driving order
+  updatedAt: Date;
+}
+
+export interface PickupEtaResponse {
+  pickupId: string;
+  status: PickupStatus;
+  routeId: string | null;
+  driverId: string | null;
+  scheduledAt: Date | null;
+  estimatedArrival: Date | null; // Null until the pickup is on a route
+  etaUpdatedAt: Date | null; // Null while the estimate is still the planned one
+  stopsAhead: number; // Stops the driver visits before this one
+  completedAt: Date | null;
+}
+
+export interface GeofenceEvent {
+  type: 'ARRIVAL' | 'DEPARTURE';
+  routeId: string;
+  routeStopId: string;
+  pickupId: string | null;
+  binId: string;
+  driverId: string;
+  occurredAt: Date; // When the truck crossed the geofence, not when it was confirmed
+  dwellTime?: number; // Seconds at the stop, set on departure
+}
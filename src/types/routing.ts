@@ -0,0 +1,187 @@
+// src/types/routing.ts
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// A pickup to be served by the vehicle routing solver
+export interface VrpStop {
+  id: string;
+  location: GeoPoint;
+  demand: number; // in kg
+  serviceMinutes: number;
+  priority: number; // Higher is inserted first
+  windowStart?: Date;
+  windowEnd?: Date;
+}
+
+// A depot or disposal site visited by the solver
+export interface VrpFacility {
+  id: string;
+  location: GeoPoint;
+  serviceMinutes: number;
+}
+
+// A driver and truck available to the solver
+export interface VrpVehicle {
+  id: string;
+  start: GeoPoint;
+  end?: VrpFacility; // Depot to return to after the last stop
+  capacity: number; // in kg
+  availableFrom: Date;
+  shiftEnd: Date;
+  initialLoad?: number; // Already on board at availableFrom, in kg
+}
+
+export interface VrpProblem {
+  stops: VrpStop[];
+  vehicles: VrpVehicle[];
+  disposalSites?: VrpFacility[]; // Trucks tip here when their load nears capacity
+  travelMatrix?: VrpTravelMatrix; // Road costs; straight-line at speedKmh when absent
+  speedKmh: number;
+  maxIterations?: number;
+  timeLimitMs?: number; // Improvement stops once the solve has run this long
+}
+
+export type VrpPlannedStopType = 'PICKUP' | 'DISPOSAL' | 'DEPOT';
+
+export interface VrpPlannedStop {
+  type: VrpPlannedStopType;
+  stopId?: string; // Set for pickups
+  facilityId?: string; // Set for disposal sites and depots
+  arrival: Date;
+  departure: Date;
+  waitMinutes: number;
+  load: number; // Truck load after this stop, in kg
+}
+
+export interface VrpRoute {
+  vehicleId: string;
+  stops: VrpPlannedStop[];
+  distance: number; // in kilometers, including the return to the depot
+  duration: number; // in minutes, from availableFrom to the end of the route
+  load: number; // Total collected, across all trips
+}
+
+export type VrpUnassignedReason = 'CAPACITY' | 'TIME_WINDOW' | 'SHIFT_END' | 'NO_VEHICLE';
+
+export interface VrpSolution {
+  routes: VrpRoute[];
+  unassigned: Array<{ stopId: string; reason: VrpUnassignedReason }>;
+  totalDistance: number;
+  iterations: number;
+}
+
+export interface VrpInsertion {
+  vehicleId: string;
+  position: number; // Index in the vehicle's stop sequence
+  addedDistance: number; // in kilometers
+  route: VrpRoute; // The vehicle's route with the stop inserted
+}
+
+export interface VrpInsertionResult {
+  insertion: VrpInsertion | null;
+  reason?: VrpUnassignedReason; // Set when no vehicle can take the stop
+}
+
+export interface FleetRouteOptimizationRequest {
+  pickupIds?: string[]; // Defaults to all open scheduled pickups
+  driverIds?: string[]; // Defaults to all available drivers with a truck
+  startTime?: Date;
+  persist?: boolean; // Store each route as a planned route for its driver
+}
+
+// Depot or disposal site shown on a planned route
+export interface FacilitySummary {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface FleetRoutePlan {
+  routes: Array<{
+    routeId: string | null; // Set when the plan was persisted
+    driverId: string;
+    driverName: string;
+    truckId: string;
+    licensePlate: string;
+    capacity: number;
+    load: number;
+    totalDistance: number;
+    estimatedDuration: number;
+    depot: FacilitySummary | null;
+    stops: Array<{
+      type: VrpPlannedStopType;
+      pickupId: string | null;
+      order: number;
+      estimatedArrival: Date;
+      estimatedDeparture: Date;
+      demand: number;
+      load: number;
+      bin: {
+        id: string;
+        binCode: string;
+        location: string;
+        latitude: number;
+        longitude: number;
+      } | null;
+      facility: FacilitySummary | null;
+    }>;
+  }>;
+  unassigned: UnassignedPickup[];
+  totalDistance: number;
+  generatedAt: Date;
+}
+
+// A pickup a route plan could not fit, and the constraint that kept it out
+export interface UnassignedPickup {
+  pickupId: string;
+  binCode: string;
+  reason: VrpUnassignedReason;
+}
+
+export type RoutingProviderName = 'GOOGLE' | 'OSRM' | 'VALHALLA' | 'OSM_GRAPH' | 'STRAIGHT_LINE';
+
+export interface RouteRequest {
+  origin: GeoPoint;
+  destination: GeoPoint;
+  waypoints?: GeoPoint[]; // Visited in the given order
+}
+
+export interface RouteResponse {
+  distance: number; // in meters
+  duration: number; // in seconds
+  polyline: string; // Encoded polyline, precision 5
+  steps?: Array<{
+    instruction: string;
+    distance: number;
+    duration: number;
+  }>;
+}
+
+export interface DistanceMatrixRequest {
+  origins: GeoPoint[];
+  destinations: GeoPoint[];
+}
+
+export interface DistanceMatrixResponse {
+  distances: number[][]; // distances[i][j] = meters from origin[i] to destination[j], Infinity if unreachable
+  durations: number[][]; // durations[i][j] = seconds from origin[i] to destination[j], Infinity if unreachable
+}
+
+// Directions, travel costs and geocoding from a maps backend
+export interface RoutingProvider {
+  readonly name: RoutingProviderName;
+  getRoute(request: RouteRequest): Promise<RouteResponse>;
+  getDistanceMatrix(request: DistanceMatrixRequest): Promise<DistanceMatrixResponse>;
+  geocode(address: string): Promise<GeoPoint>;
+  reverseGeocode(coordinates: GeoPoint): Promise<string>;
+}
+
+// Road travel costs between the solver's locations, in solver node order
+export interface VrpTravelMatrix {
+  distances: number[][]; // in kilometers
+  durations: number[][]; // in minutes
+}
@@ -0,0 +1,19 @@
+// src/types/session.ts
+
+// Where a session was signed in from, recorded with it
+export interface SessionMetadata {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionResponse {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean; // Whether this is the session making the request
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
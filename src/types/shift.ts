@@ -0,0 +1,87 @@
+// src/types/shift.ts
+import { ShiftStatus } from '@prisma/client';
+
+export interface ShiftTemplateDay {
+  dayOfWeek: number; // 0 = Sunday
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+export interface SetShiftTemplatesRequest {
+  days: ShiftTemplateDay[]; // Replaces the whole week; days left out are days off
+}
+
+export interface ClockRequest {
+  latitude?: number;
+  longitude?: number;
+  notes?: string;
+}
+
+export interface ShiftListQuery {
+  page?: number;
+  limit?: number;
+  driverId?: string;
+  status?: ShiftStatus;
+  from?: string;
+  to?: string;
+}
+
+export interface TimesheetQuery {
+  driverId?: string; // Drivers always get their own
+  periodStart: string;
+  periodEnd: string;
+  format?: 'json' | 'csv';
+}
+
+export interface ShiftTemplateResponse {
+  driverId: string;
+  days: Array<ShiftTemplateDay & { id: string; isActive: boolean }>;
+}
+
+export interface ShiftResponse {
+  id: string;
+  driverId: string;
+  status: ShiftStatus;
+  scheduledStart: Date | null;
+  scheduledEnd: Date | null;
+  clockInAt: Date | null;
+  clockInLocation: { latitude: number; longitude: number } | null;
+  clockOutAt: Date | null;
+  clockOutLocation: { latitude: number; longitude: number } | null;
+  workedMinutes: number | null;
+  breakMinutes: number | null;
+  overtimeMinutes: number | null;
+  onBreak: boolean;
+  breaks: Array<{
+    id: string;
+    startedAt: Date;
+    endedAt: Date | null;
+  }>;
+  notes: string | null;
+}
+
+export interface TimesheetResponse {
+  driver: {
+    id: string;
+    fullName: string;
+    driverLicense: string;
+  };
+  periodStart: Date;
+  periodEnd: Date;
+  shifts: ShiftResponse[];
+  totals: {
+    shiftsWorked: number;
+    missedShifts: number;
+    workedMinutes: number;
+    breakMinutes: number;
+    overtimeMinutes: number;
+  };
+}
+
+export interface MissedShift {
+  shiftId: string;
+  driverId: string;
+  driverName: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+}
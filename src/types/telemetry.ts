@@ -0,0 +1,72 @@
+// src/types/telemetry.ts
+import { DeviceStatus } from '@prisma/client';
+
+export interface ProvisionTelematicsUnitRequest {
+  deviceId: string;
+}
+
+export interface TelematicsUnitResponse {
+  id: string;
+  deviceId: string;
+  truckId: string;
+  status: DeviceStatus;
+  provisionedAt: Date;
+  revokedAt: Date | null;
+  lastSeenAt: Date | null;
+}
+
+export interface TelematicsCredentialsResponse {
+  unit: TelematicsUnitResponse;
+  deviceSecret: string; // Only returned once, at provisioning
+}
+
+export interface AuthenticatedTelematicsUnit {
+  id: string;
+  deviceId: string;
+  truckId: string;
+  organizationId: string | null;
+}
+
+export interface TelemetryReading {
+  recordedAt?: string; // Defaults to when the reading was received
+  latitude?: number;
+  longitude?: number;
+  speed?: number; // in km/h
+  heading?: number; // degrees clockwise from north
+  odometer?: number; // in km
+  engineHours?: number;
+  fuelLevel?: number; // percent of the tank
+  faultCodes?: string[];
+}
+
+export interface TelemetryBatchRequest {
+  readings: TelemetryReading[];
+}
+
+export interface TelemetryIngestResult {
+  truckId: string;
+  accepted: number;
+  faultTicketIds: string[]; // Maintenance tickets opened for newly reported fault codes
+}
+
+export interface TruckTelemetryQuery {
+  page?: number;
+  limit?: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface TruckTelemetryResponse {
+  id: string;
+  truckId: string;
+  latitude: number | null;
+  longitude: number | null;
+  speed: number | null;
+  heading: number | null;
+  odometer: number | null;
+  engineHours: number | null;
+  fuelLevel: number | null;
+  faultCodes: string[];
+  recordedAt: Date;
+  receivedAt: Date;
+}
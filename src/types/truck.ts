@@ -5,7 +5,10 @@ export interface CreateTruckRequest {
     capacity?: number; // in liters or kg
     fuelType?: string;
     year?: number;
+    odometer?: number; // in km
+    fuelTankCapacity?: number; // in liters
     isActive?: boolean;
+    depotId?: string;
   }
   
   export interface UpdateTruckRequest {
@@ -14,7 +17,10 @@ export interface CreateTruckRequest {
     capacity?: number;
     fuelType?: string;
     year?: number;
+    odometer?: number;
+    fuelTankCapacity?: number | null;
     isActive?: boolean;
+    depotId?: string | null;
   }
   
   export interface TruckResponse {
@@ -24,7 +30,11 @@ export interface CreateTruckRequest {
     capacity?: number;
     fuelType?: string;
     year?: number;
+    odometer?: number | null;
+    fuelTankCapacity?: number | null;
     isActive: boolean;
+    inShop?: boolean; // Maintenance under way, so not available
+    depotId?: string | null;
     createdAt: Date;
     updatedAt: Date;
     _count?: {
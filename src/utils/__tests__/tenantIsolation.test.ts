@@ -0,0 +1,99 @@
+// src/utils/__tests__/tenantIsolation.test.ts
+import { tenantIsolation } from '@/utils/tenantIsolation';
+import { runWithTenant } from '@/utils/tenantContext';
+
+const ORG_ID = '11111111-1111-1111-1111-111111111111';
+
+// The extension is applied to a client; a stand-in client hands back its definition
+const extension: any = (tenantIsolation as any)({ $extends: (definition: any) => definition });
+
+/**
+ * Run an operation through the extension and return the args it passes on to Prisma
+ */
+const scopedArgs = async (model: string, operation: string, args: any): Promise<any> => {
+  const query = jest.fn(async (passed: any) => passed);
+  return extension.query.$allModels.$allOperations({ model, operation, args, query });
+};
+
+describe('tenantIsolation', () => {
+  it('leaves queries outside a tenant context alone', async () => {
+    const args = { where: { id: 'bin-1' } };
+
+    expect(await scopedArgs('Bin', 'findMany', args)).toBe(args);
+  });
+
+  it('leaves platform-wide queries alone', async () => {
+    const args = { where: { id: 'bin-1' } };
+
+    expect(await runWithTenant(null, () => scopedArgs('Bin', 'findMany', args))).toBe(args);
+  });
+
+  it('adds the organization to the where clause of a model that carries it', async () => {
+    const args = await runWithTenant(ORG_ID, () =>
+      scopedArgs('Bin', 'findMany', { where: { status: 'FULL' } })
+    );
+
+    expect(args.where).toEqual({ status: 'FULL', AND: [{ organizationId: ORG_ID }] });
+  });
+
+  it('keeps the conditions already in an AND', async () => {
+    const args = await runWithTenant(ORG_ID, () =>
+      scopedArgs('Bin', 'updateMany', { where: { AND: { status: 'FULL' } }, data: {} })
+    );
+
+    expect(args.where.AND).toEqual([{ status: 'FULL' }, { organizationId: ORG_ID }]);
+  });
+
+  it('scopes queries without a where clause', async () => {
+    const args = await runWithTenant(ORG_ID, () => scopedArgs('Driver', 'count', {}));
+
+    expect(args.where).toEqual({ AND: [{ organizationId: ORG_ID }] });
+  });
+
+  it('creates rows in the tenant organization whatever the data says', async () => {
+    const created = await runWithTenant(ORG_ID, () =>
+      scopedArgs('Truck', 'create', { data: { plateNumber: 'AB-123', organizationId: 'other' } })
+    );
+    const createdMany = await runWithTenant(ORG_ID, () =>
+      scopedArgs('Truck', 'createMany', { data: [{ plateNumber: 'AB-123' }, { plateNumber: 'CD-456' }] })
+    );
+    const upserted = await runWithTenant(ORG_ID, () =>
+      scopedArgs('Truck', 'upsert', { where: { id: 'truck-1' }, create: { plateNumber: 'AB-123' }, update: {} })
+    );
+
+    expect(created.data.organizationId).toBe(ORG_ID);
+    expect(createdMany.data.map((data: any) => data.organizationId)).toEqual([ORG_ID, ORG_ID]);
+    expect(upserted.create.organizationId).toBe(ORG_ID);
+    expect(upserted.where.AND).toEqual([{ organizationId: ORG_ID }]);
+  });
+
+  it('scopes models that belong to an organization through their parent', async () => {
+    const args = await runWithTenant(ORG_ID, () =>
+      scopedArgs('RouteStop', 'findMany', { where: { routeId: 'route-1' } })
+    );
+
+    expect(args.where.AND).toEqual([{ route: { organizationId: ORG_ID } }]);
+  });
+
+  it('does not add an organization to rows created under a parent', async () => {
+    const args = await runWithTenant(ORG_ID, () =>
+      scopedArgs('FuelLog', 'create', { data: { truckId: 'truck-1' } })
+    );
+
+    expect(args.data).toEqual({ truckId: 'truck-1' });
+  });
+
+  it('matches bin events by their own organization or their bin', async () => {
+    const args = await runWithTenant(ORG_ID, () => scopedArgs('BinEvent', 'findFirst', { where: {} }));
+
+    expect(args.where.AND).toEqual([
+      { OR: [{ organizationId: ORG_ID }, { bin: { organizationId: ORG_ID } }] }
+    ]);
+  });
+
+  it('leaves models that belong to no organization alone', async () => {
+    const args = { where: { name: 'Acme' } };
+
+    expect(await runWithTenant(ORG_ID, () => scopedArgs('Organization', 'findMany', args))).toBe(args);
+  });
+});
@@ -0,0 +1,86 @@
+// src/utils/__tests__/totp.test.ts
+import {
+  generateTotpSecret,
+  buildTotpUri,
+  matchTotpStep,
+  generateRecoveryCode,
+  hashRecoveryCode
+} from '@/utils/totp';
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890", base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_TIME = new Date(59 * 1000);
+const RFC_CODE = '287082';
+const RFC_LATER_TIME = new Date(1111111109 * 1000);
+const RFC_LATER_CODE = '081804';
+
+describe('matchTotpStep', () => {
+  it('matches the RFC 6238 test vector to its time step', () => {
+    expect(matchTotpStep(RFC_SECRET, RFC_CODE, RFC_TIME)).toBe(1);
+  });
+
+  it('matches a later test vector', () => {
+    expect(matchTotpStep(RFC_SECRET, RFC_LATER_CODE, RFC_LATER_TIME)).toBe(37037036);
+  });
+
+  it('accepts a code from one step either side to allow for clock drift', () => {
+    const step = 30 * 1000;
+
+    expect(matchTotpStep(RFC_SECRET, RFC_LATER_CODE, new Date(RFC_LATER_TIME.getTime() + step))).toBe(37037036);
+    expect(matchTotpStep(RFC_SECRET, RFC_LATER_CODE, new Date(RFC_LATER_TIME.getTime() - step))).toBe(37037036);
+  });
+
+  it('rejects a code from further away', () => {
+    expect(matchTotpStep(RFC_SECRET, RFC_CODE, new Date(120 * 1000))).toBeNull();
+  });
+
+  it('ignores spaces in the code', () => {
+    expect(matchTotpStep(RFC_SECRET, '287 082', RFC_TIME)).toBe(1);
+  });
+
+  it('rejects wrong, short and non-digit codes', () => {
+    expect(matchTotpStep(RFC_SECRET, '287083', RFC_TIME)).toBeNull();
+    expect(matchTotpStep(RFC_SECRET, '28708', RFC_TIME)).toBeNull();
+    expect(matchTotpStep(RFC_SECRET, '28708a', RFC_TIME)).toBeNull();
+    expect(matchTotpStep(RFC_SECRET, '', RFC_TIME)).toBeNull();
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('generates a base32 secret of 160 bits', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('buildTotpUri', () => {
+  it('labels the account with the issuer and passes the code settings', () => {
+    const uri = buildTotpUri(RFC_SECRET, 'jane@example.com', 'Smart Waste');
+    const [path, query] = uri.split('?');
+
+    expect(path).toBe('otpauth://totp/Smart%20Waste%3Ajane%40example.com');
+    expect(Object.fromEntries(new URLSearchParams(query))).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Smart Waste',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30'
+    });
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates codes of two groups of five hex digits', () => {
+    expect(generateRecoveryCode()).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+  });
+
+  it('hashes a code the same however the user types it', () => {
+    const hash = hashRecoveryCode('3f9a1-c07be');
+
+    expect(hashRecoveryCode('3F9A1C07BE')).toBe(hash);
+    expect(hashRecoveryCode(' 3f9a1 c07be ')).toBe(hash);
+    expect(hashRecoveryCode('3f9a1-c07bf')).not.toBe(hash);
+  });
+});
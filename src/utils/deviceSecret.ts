@@ -0,0 +1,27 @@
+// src/utils/deviceSecret.ts
+import crypto from 'crypto';
+
+/**
+ * Generate a random device secret
+ */
+export const generateDeviceSecret = (): string => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+/**
+ * Hash a device secret. Secrets are high-entropy random values, so a fast
+ * digest is sufficient and keeps per-reading verification cheap.
+ */
+export const hashDeviceSecret = (secret: string): string => {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+};
+
+/**
+ * Compare a presented secret with a stored hash in constant time
+ */
+export const deviceSecretMatches = (secret: string, secretHash: string): boolean => {
+  const presented = Buffer.from(hashDeviceSecret(secret), 'hex');
+  const stored = Buffer.from(secretHash, 'hex');
+
+  return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+};
@@ -0,0 +1,132 @@
+// src/utils/geo.ts
+import { GeoPoint } from '@/types/routing';
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+/**
+ * Great-circle distance between two points, in meters
+ */
+export const haversineDistance = (from: GeoPoint, to: GeoPoint): number => {
+  const φ1 = (from.latitude * Math.PI) / 180;
+  const φ2 = (to.latitude * Math.PI) / 180;
+  const Δφ = ((to.latitude - from.latitude) * Math.PI) / 180;
+  const Δλ = ((to.longitude - from.longitude) * Math.PI) / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) *
+    Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Encode points in the Google encoded polyline format
+ */
+export const encodePolyline = (points: GeoPoint[], precision: number = 5): string => {
+  const factor = Math.pow(10, precision);
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  const encodeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : value << 1;
+    while (shifted >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    encoded += String.fromCharCode(shifted + 63);
+  };
+
+  for (const point of points) {
+    const lat = Math.round(point.latitude * factor);
+    const lng = Math.round(point.longitude * factor);
+    encodeValue(lat - previousLat);
+    encodeValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return encoded;
+};
+
+/**
+ * Decode a Google encoded polyline. Valhalla encodes with precision 6.
+ */
+export const decodePolyline = (encoded: string, precision: number = 5): GeoPoint[] => {
+  const factor = Math.pow(10, precision);
+  const points: GeoPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeValue();
+    lng += decodeValue();
+    points.push({ latitude: lat / factor, longitude: lng / factor });
+  }
+
+  return points;
+};
+
+/**
+ * Simplify a path with the Ramer-Douglas-Peucker algorithm. Returns the indices
+ * of the points to keep, always including the first and last.
+ */
+export const simplifyPath = (points: GeoPoint[], toleranceMeters: number): number[] => {
+  if (points.length <= 2) {
+    return points.map((_, index) => index);
+  }
+
+  // Project onto a local plane in meters; accurate enough over a single trip
+  const originLat = (points[0].latitude * Math.PI) / 180;
+  const projected = points.map(point => ({
+    x: ((point.longitude * Math.PI) / 180) * Math.cos(originLat) * EARTH_RADIUS_METERS,
+    y: ((point.latitude * Math.PI) / 180) * EARTH_RADIUS_METERS
+  }));
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long trails
+  const segments: Array<[number, number]> = [[0, points.length - 1]];
+  while (segments.length > 0) {
+    const [first, last] = segments.pop()!;
+    const a = projected[first];
+    const b = projected[last];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+
+    let farthest = -1;
+    let farthestDistance = 0;
+    for (let i = first + 1; i < last; i++) {
+      const p = projected[i];
+      const distance = length === 0
+        ? Math.hypot(p.x - a.x, p.y - a.y)
+        : Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest !== -1 && farthestDistance > toleranceMeters) {
+      keep[farthest] = true;
+      segments.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return keep.flatMap((kept, index) => (kept ? [index] : []));
+};
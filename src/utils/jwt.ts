@@ -1,7 +1,22 @@
 // src/utils/jwt.ts (updated)
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
+import { AccountTokenPurpose } from '@prisma/client';
 import { env } from '../config/env';
-import { TokenPayload } from '@/types/auth';
+import { TokenPayload, AccountTokenPayload, MfaChallengePayload } from '@/types/auth';
+
+// How long a user has to enter their second factor after their password
+const MFA_CHALLENGE_EXPIRES_IN_SECONDS = 5 * 60;
+
+// Account and MFA challenge tokens are each signed with a key of their own, so that
+// none of them can be passed off as an access token or as one another
+const derivedSecret = (label: string): string => {
+  return crypto.createHmac('sha256', env.JWT_SECRET).update(label).digest('hex');
+};
+
+const accountTokenSecret = (purpose: AccountTokenPurpose): string => {
+  return derivedSecret(`account-token:${purpose}`);
+};
 
 export const generateTokens = (payload: TokenPayload) => {
   const accessToken = jwt.sign(
@@ -10,10 +25,11 @@ export const generateTokens = (payload: TokenPayload) => {
     { expiresIn: env.JWT_EXPIRES_IN } as SignOptions
   );
 
+  // A unique ID keeps tokens rotated within the same second from being identical
   const refreshToken = jwt.sign(
     payload,
     env.JWT_REFRESH_SECRET as string,
-    { expiresIn: env.JWT_REFRESH_EXPIRES_IN } as SignOptions
+    { expiresIn: env.JWT_REFRESH_EXPIRES_IN, jwtid: crypto.randomUUID() } as SignOptions
   );
 
   return { accessToken, refreshToken };
@@ -55,6 +71,72 @@ export const verifyRefreshToken = (token: string): TokenPayload => {
   }
 };
 
+export const generateAccountToken = (payload: AccountTokenPayload, expiresInSeconds: number): string => {
+  return jwt.sign(
+    payload,
+    accountTokenSecret(payload.purpose),
+    { expiresIn: expiresInSeconds }
+  );
+};
+
+export const verifyAccountToken = (token: string, purpose: AccountTokenPurpose): AccountTokenPayload => {
+  try {
+    const decoded = jwt.verify(token, accountTokenSecret(purpose)) as AccountTokenPayload;
+
+    if (decoded.purpose !== purpose) {
+      throw new jwt.JsonWebTokenError('Wrong token purpose');
+    }
+
+    return decoded;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      const err = new Error('Token has expired. Please request a new one');
+      (err as any).statusCode = 400;
+      throw err;
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      const err = new Error('Invalid or already used token');
+      (err as any).statusCode = 400;
+      throw err;
+    }
+    throw error;
+  }
+};
+
+export const generateMfaChallengeToken = (payload: MfaChallengePayload): string => {
+  return jwt.sign(
+    payload,
+    derivedSecret('mfa-challenge'),
+    { expiresIn: MFA_CHALLENGE_EXPIRES_IN_SECONDS }
+  );
+};
+
+export const verifyMfaChallengeToken = (token: string): MfaChallengePayload => {
+  try {
+    return jwt.verify(token, derivedSecret('mfa-challenge')) as MfaChallengePayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      const err = new Error('Sign-in attempt expired. Please sign in again');
+      (err as any).statusCode = 401;
+      throw err;
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      const err = new Error('Invalid MFA token');
+      (err as any).statusCode = 401;
+      throw err;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Hash a refresh token for storage. Tokens are long and random, so a fast digest
+ * is sufficient.
+ */
+export const hashRefreshToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
 export const extractTokenFromHeader = (authHeader: string | undefined): string | null => {
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return null;
@@ -0,0 +1,66 @@
+// src/utils/shift.ts
+
+// Shift assumed for drivers without shiftStart/shiftEnd
+export const DEFAULT_SHIFT = { start: '08:00', end: '17:00' };
+
+/**
+ * Minutes after midnight for an HH:MM shift time, or null if malformed
+ */
+export const parseShiftTime = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return null;
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * The shift window starting on the given day. Overnight shifts end the next day.
+ */
+export const getShiftWindow = (
+  day: Date,
+  shiftStart?: string | null,
+  shiftEnd?: string | null
+): { start: Date; end: Date } | null => {
+  const startMinutes = parseShiftTime(shiftStart || DEFAULT_SHIFT.start);
+  const endMinutes = parseShiftTime(shiftEnd || DEFAULT_SHIFT.end);
+
+  if (startMinutes === null || endMinutes === null) {
+    return null;
+  }
+
+  const midnight = new Date(day);
+  midnight.setHours(0, 0, 0, 0);
+
+  const start = new Date(midnight.getTime() + startMinutes * 60 * 1000);
+  const end = new Date(midnight.getTime() + endMinutes * 60 * 1000);
+  if (end <= start) {
+    end.setDate(end.getDate() + 1);
+  }
+
+  return { start, end };
+};
+
+/**
+ * A driver's shift window starting on the given day. A weekly schedule, when the
+ * driver has one, takes precedence over shiftStart/shiftEnd, and days missing from
+ * it are days off.
+ */
+export const getDriverShiftWindow = (
+  day: Date,
+  driver: {
+    shiftStart?: string | null;
+    shiftEnd?: string | null;
+    shiftTemplates?: Array<{ dayOfWeek: number; startTime: string; endTime: string; isActive: boolean }>;
+  }
+): { start: Date; end: Date } | null => {
+  const templates = (driver.shiftTemplates || []).filter(template => template.isActive);
+
+  if (templates.length === 0) {
+    return getShiftWindow(day, driver.shiftStart, driver.shiftEnd);
+  }
+
+  const template = templates.find(entry => entry.dayOfWeek === day.getDay());
+  return template ? getShiftWindow(day, template.startTime, template.endTime) : null;
+};
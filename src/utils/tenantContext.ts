@@ -0,0 +1,23 @@
+// src/utils/tenantContext.ts
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface TenantContext {
+  organizationId: string | null;
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Run a function, and everything it awaits, on behalf of an organization. A null
+ * organization runs it platform-wide, as background jobs and super-admins do.
+ */
+export const runWithTenant = <T>(organizationId: string | null, fn: () => T): T => {
+  return tenantStorage.run({ organizationId }, fn);
+};
+
+/**
+ * The organization the current request or job acts for, if any
+ */
+export const getTenantId = (): string | null => {
+  return tenantStorage.getStore()?.organizationId ?? null;
+};
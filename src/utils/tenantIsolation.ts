@@ -0,0 +1,112 @@
+// src/utils/tenantIsolation.ts
+import { Prisma } from '@prisma/client';
+import { getTenantId } from './tenantContext';
+
+// Models that carry an organization_id column
+const TENANT_MODELS = new Set<string>([
+  'User',
+  'Role',
+  'Bin',
+  'Driver',
+  'Truck',
+  'Pickup',
+  'Route',
+  'Depot',
+  'DisposalSite',
+  'InspectionItem',
+  'MaintenanceRule',
+  'Gateway'
+]);
+
+// Models that belong to an organization through their parent record
+const TENANT_PARENTS: Record<string, (organizationId: string) => any> = {
+  ShiftTemplate: organizationId => ({ driver: { organizationId } }),
+  Shift: organizationId => ({ driver: { organizationId } }),
+  ShiftBreak: organizationId => ({ shift: { driver: { organizationId } } }),
+  DriverLocation: organizationId => ({ driver: { organizationId } }),
+  TelematicsUnit: organizationId => ({ truck: { organizationId } }),
+  TruckTelemetry: organizationId => ({ truck: { organizationId } }),
+  TruckInspection: organizationId => ({ truck: { organizationId } }),
+  InspectionResult: organizationId => ({ inspection: { truck: { organizationId } } }),
+  FuelLog: organizationId => ({ truck: { organizationId } }),
+  MaintenanceTicket: organizationId => ({ truck: { organizationId } }),
+  MaintenanceRecord: organizationId => ({ truck: { organizationId } }),
+  BinSensorData: organizationId => ({ bin: { organizationId } }),
+  BinDevice: organizationId => ({ bin: { organizationId } }),
+  // Gateway events have no bin, so they carry the organization themselves
+  BinEvent: organizationId => ({ OR: [{ organizationId }, { bin: { organizationId } }] }),
+  BinCommand: organizationId => ({ bin: { organizationId } }),
+  RouteStop: organizationId => ({ route: { organizationId } }),
+  RefreshToken: organizationId => ({ user: { organizationId } }),
+  Session: organizationId => ({ user: { organizationId } }),
+  AccountToken: organizationId => ({ user: { organizationId } }),
+  MfaRecoveryCode: organizationId => ({ user: { organizationId } })
+};
+
+// Operations that take a where clause
+const FILTERED_OPERATIONS = new Set<string>([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+  'delete',
+  'deleteMany'
+]);
+
+const tenantFilter = (model: string, organizationId: string): any => {
+  if (TENANT_MODELS.has(model)) {
+    return { organizationId };
+  }
+
+  return TENANT_PARENTS[model]?.(organizationId) ?? null;
+};
+
+/**
+ * Confine every query to the organization of the current tenant context: reads,
+ * updates and deletes only match its rows, and new rows are created in it.
+ * Queries outside a tenant context, or in a platform-wide one, are left alone.
+ */
+export const tenantIsolation = Prisma.defineExtension({
+  name: 'tenantIsolation',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        const organizationId = getTenantId();
+        const filter = organizationId ? tenantFilter(model, organizationId) : null;
+
+        if (!filter) {
+          return query(args);
+        }
+
+        const scopedArgs: any = { ...args };
+
+        if (FILTERED_OPERATIONS.has(operation)) {
+          const where = scopedArgs.where || {};
+          const conditions = where.AND ? [].concat(where.AND) : [];
+          scopedArgs.where = { ...where, AND: [...conditions, filter] };
+        }
+
+        // Rows are always created in the tenant's organization, whatever the data says
+        if (TENANT_MODELS.has(model)) {
+          if (operation === 'create') {
+            scopedArgs.data = { ...scopedArgs.data, organizationId };
+          } else if (operation === 'createMany' || operation === 'createManyAndReturn') {
+            scopedArgs.data = [].concat(scopedArgs.data).map((data: any) => ({ ...data, organizationId }));
+          } else if (operation === 'upsert') {
+            scopedArgs.create = { ...scopedArgs.create, organizationId };
+          }
+        }
+
+        return query(scopedArgs);
+      }
+    }
+  }
+});
@@ -1,6 +1,14 @@
 // src/validators/authValidators.ts
 import { body, ValidationChain } from 'express-validator';
 
+// Optional name the client gives the device, shown in the list of sessions
+const deviceNameValidation = body('deviceName')
+  .optional()
+  .isString()
+  .isLength({ max: 100 })
+  .withMessage('Device name must be at most 100 characters')
+  .trim();
+
 export const registerValidation: ValidationChain[] = [
   body('email')
     .isEmail()
@@ -23,10 +31,13 @@ export const registerValidation: ValidationChain[] = [
     .isMobilePhone('any')
     .withMessage('Please provide a valid phone number'),
   
-  body('role')
-    .optional()
-    .isIn(['USER', 'DRIVER', 'ADMIN'])
-    .withMessage('Invalid role')
+  body('organizationSlug')
+    .notEmpty()
+    .withMessage('Organization is required')
+    .trim()
+    .toLowerCase(),
+
+  deviceNameValidation
 ];
 
 export const loginValidation: ValidationChain[] = [
@@ -37,7 +48,34 @@ export const loginValidation: ValidationChain[] = [
   
   body('password')
     .notEmpty()
-    .withMessage('Password is required')
+    .withMessage('Password is required'),
+
+  deviceNameValidation
+];
+
+export const mfaLoginValidation: ValidationChain[] = [
+  body('mfaToken')
+    .notEmpty()
+    .withMessage('MFA token is required'),
+  
+  body('code')
+    .if(body('recoveryCode').not().exists())
+    .matches(/^\d{6}$/)
+    .withMessage('Provide the 6-digit code from your authenticator app or a recovery code'),
+  
+  body('recoveryCode')
+    .optional()
+    .isString()
+    .isLength({ min: 10, max: 20 })
+    .withMessage('Invalid recovery code'),
+
+  deviceNameValidation
+];
+
+export const mfaCodeValidation: ValidationChain[] = [
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Code must be the 6 digits shown by your authenticator app')
 ];
 
 export const refreshTokenValidation: ValidationChain[] = [
@@ -46,6 +84,31 @@ export const refreshTokenValidation: ValidationChain[] = [
     .withMessage('Refresh token is required')
 ];
 
+export const verifyEmailValidation: ValidationChain[] = [
+  body('token')
+    .notEmpty()
+    .withMessage('Token is required')
+];
+
+export const forgotPasswordValidation: ValidationChain[] = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email')
+];
+
+export const resetPasswordValidation: ValidationChain[] = [
+  body('token')
+    .notEmpty()
+    .withMessage('Token is required'),
+  
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number')
+];
+
 export const changePasswordValidation: ValidationChain[] = [
   body('currentPassword')
     .notEmpty()
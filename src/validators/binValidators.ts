@@ -1,6 +1,6 @@
 // src/validators/binValidators.ts
 import { body, query, ValidationChain } from 'express-validator';
-import { BinStatus } from '@prisma/client';
+import { BinStatus, AlertStatus, BinCommandType, BinCommandStatus } from '@prisma/client';
 
 export const createBinValidation: ValidationChain[] = [
   body('binCode')
@@ -35,6 +35,16 @@ export const createBinValidation: ValidationChain[] = [
     .isLength({ min: 2, max: 50 })
     .withMessage('Bin type must be between 2 and 50 characters'),
   
+  body('reportingInterval')
+    .optional()
+    .isInt({ min: 10, max: 86400 })
+    .withMessage('Reporting interval must be between 10 and 86400 seconds'),
+  
+  body('geofenceRadius')
+    .optional()
+    .isInt({ min: 5, max: 500 })
+    .withMessage('Geofence radius must be between 5 and 500 meters'),
+  
   body('userId')
     .optional()
     .isUUID()
@@ -67,6 +77,16 @@ export const updateBinValidation: ValidationChain[] = [
     .isLength({ min: 2, max: 50 })
     .withMessage('Bin type must be between 2 and 50 characters'),
   
+  body('reportingInterval')
+    .optional()
+    .isInt({ min: 10, max: 86400 })
+    .withMessage('Reporting interval must be between 10 and 86400 seconds'),
+  
+  body('geofenceRadius')
+    .optional({ values: 'null' })
+    .isInt({ min: 5, max: 500 })
+    .withMessage('Geofence radius must be between 5 and 500 meters'),
+  
   body('status')
     .optional()
     .isIn(Object.values(BinStatus))
@@ -109,6 +129,29 @@ export const sensorDataValidation: ValidationChain[] = [
     .withMessage('Signal strength must be between -120 and 0 dBm')
 ];
 
+export const anomalousBinsValidation: ValidationChain[] = [
+  query('hours')
+    .optional()
+    .isInt({ min: 1, max: 720 })
+    .withMessage('Hours must be between 1 and 720')
+];
+
+export const binForecastValidation: ValidationChain[] = [
+  query('threshold')
+    .optional()
+    .isFloat({ min: 1, max: 100 })
+    .withMessage('Threshold must be between 1 and 100')
+];
+
+export const predictedFullBinsValidation: ValidationChain[] = [
+  query('hours')
+    .optional()
+    .isInt({ min: 1, max: 336 })
+    .withMessage('Hours must be between 1 and 336'),
+
+  ...binForecastValidation
+];
+
 export const binListValidation: ValidationChain[] = [
   query('page')
     .optional()
@@ -164,4 +207,55 @@ export const nearbyBinsValidation: ValidationChain[] = [
     .optional()
     .isInt({ min: 1, max: 50 })
     .withMessage('Limit must be between 1 and 50')
-];
\ No newline at end of file
+];
+export const binAlertListValidation: ValidationChain[] = [
+  query('status')
+    .optional()
+    .isIn(Object.values(AlertStatus))
+    .withMessage('Invalid alert status'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200')
+];
+
+export const acknowledgeAlertValidation: ValidationChain[] = [
+  body('note')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters')
+];
+
+export const issueBinCommandValidation: ValidationChain[] = [
+  body('type')
+    .isIn(Object.values(BinCommandType))
+    .withMessage('Invalid command type'),
+  
+  body('params.intervalSeconds')
+    .if(body('type').equals(BinCommandType.SET_REPORTING_INTERVAL))
+    .isInt({ min: 10, max: 86400 })
+    .withMessage('Reporting interval must be between 10 and 86400 seconds'),
+  
+  body('ttlSeconds')
+    .optional()
+    .isInt({ min: 30, max: 7 * 24 * 60 * 60 })
+    .withMessage('TTL must be between 30 seconds and 7 days'),
+  
+  body('maxAttempts')
+    .optional()
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Max attempts must be between 1 and 10')
+];
+
+export const binCommandListValidation: ValidationChain[] = [
+  query('status')
+    .optional()
+    .isIn(Object.values(BinCommandStatus))
+    .withMessage('Invalid command status'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200')
+];
@@ -0,0 +1,17 @@
+// src/validators/deviceValidators.ts
+import { body, ValidationChain } from 'express-validator';
+
+export const provisionDeviceValidation: ValidationChain[] = [
+  body('deviceId')
+    .notEmpty()
+    .withMessage('Device ID is required')
+    .isLength({ min: 3, max: 64 })
+    .withMessage('Device ID must be between 3 and 64 characters')
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage('Device ID may only contain letters, numbers, dashes and underscores'),
+
+  body('firmwareVersion')
+    .optional()
+    .isLength({ min: 1, max: 32 })
+    .withMessage('Firmware version must be between 1 and 32 characters')
+];
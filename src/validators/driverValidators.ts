@@ -104,7 +104,27 @@ export const driverLocationValidation: ValidationChain[] = [
   
   body('longitude')
     .isFloat({ min: -180, max: 180 })
-    .withMessage('Longitude is required and must be between -180 and 180')
+    .withMessage('Longitude is required and must be between -180 and 180'),
+
+  body('accuracy')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Accuracy must be a positive number of meters'),
+
+  body('speed')
+    .optional()
+    .isFloat({ min: 0, max: 250 })
+    .withMessage('Speed must be between 0 and 250 km/h'),
+
+  body('heading')
+    .optional()
+    .isFloat({ min: 0, max: 360 })
+    .withMessage('Heading must be between 0 and 360 degrees'),
+
+  body('recordedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Recorded at must be a valid ISO 8601 date')
 ];
 
 export const driverListValidation: ValidationChain[] = [
@@ -159,6 +179,18 @@ export const nearbyDriversValidation: ValidationChain[] = [
     .withMessage('Invalid driver status')
 ];
 
+export const driverTrackValidation: ValidationChain[] = [
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be a valid ISO 8601 date'),
+
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be a valid ISO 8601 date')
+];
+
 // Truck validation schemas
 export const createTruckValidation: ValidationChain[] = [
   body('licensePlate')
@@ -189,10 +221,25 @@ export const createTruckValidation: ValidationChain[] = [
     .isInt({ min: 1900, max: new Date().getFullYear() + 1 })
     .withMessage('Year must be a valid year'),
   
+  body('odometer')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Odometer must be a non-negative number of km'),
+  
+  body('fuelTankCapacity')
+    .optional()
+    .isInt({ min: 1, max: 2000 })
+    .withMessage('Fuel tank capacity must be between 1 and 2000 liters'),
+  
   body('isActive')
     .optional()
     .isBoolean()
-    .withMessage('isActive must be a boolean')
+    .withMessage('isActive must be a boolean'),
+  
+  body('depotId')
+    .optional()
+    .isUUID()
+    .withMessage('Depot ID must be a valid UUID')
 ];
 
 export const updateTruckValidation: ValidationChain[] = [
@@ -223,8 +270,23 @@ export const updateTruckValidation: ValidationChain[] = [
     .isInt({ min: 1900, max: new Date().getFullYear() + 1 })
     .withMessage('Year must be a valid year'),
   
+  body('odometer')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Odometer must be a non-negative number of km'),
+  
+  body('fuelTankCapacity')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 2000 })
+    .withMessage('Fuel tank capacity must be between 1 and 2000 liters'),
+  
   body('isActive')
     .optional()
     .isBoolean()
-    .withMessage('isActive must be a boolean')
+    .withMessage('isActive must be a boolean'),
+  
+  body('depotId')
+    .optional({ values: 'null' })
+    .isUUID()
+    .withMessage('Depot ID must be a valid UUID')
 ];
\ No newline at end of file
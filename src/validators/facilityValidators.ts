@@ -0,0 +1,110 @@
+// src/validators/facilityValidators.ts
+import { body, query, ValidationChain } from 'express-validator';
+import { DisposalSiteType } from '@prisma/client';
+
+const nameValidation = (optional: boolean) => {
+  const chain = body('name');
+  return (optional ? chain.optional() : chain.notEmpty().withMessage('Name is required'))
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters')
+    .trim();
+};
+
+const coordinateValidation = (optional: boolean): ValidationChain[] => {
+  const latitude = body('latitude');
+  const longitude = body('longitude');
+
+  return [
+    (optional ? latitude.optional() : latitude)
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Latitude must be between -90 and 90'),
+    (optional ? longitude.optional() : longitude)
+      .isFloat({ min: -180, max: 180 })
+      .withMessage('Longitude must be between -180 and 180')
+  ];
+};
+
+export const createDepotValidation: ValidationChain[] = [
+  nameValidation(false),
+  
+  body('address')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Address must be at most 255 characters')
+    .trim(),
+  
+  ...coordinateValidation(false)
+];
+
+export const updateDepotValidation: ValidationChain[] = [
+  nameValidation(true),
+  
+  body('address')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Address must be at most 255 characters')
+    .trim(),
+  
+  ...coordinateValidation(true),
+  
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
+
+export const createDisposalSiteValidation: ValidationChain[] = [
+  nameValidation(false),
+  
+  body('siteType')
+    .optional()
+    .isIn(Object.values(DisposalSiteType))
+    .withMessage('Invalid disposal site type'),
+  
+  body('address')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Address must be at most 255 characters')
+    .trim(),
+  
+  ...coordinateValidation(false),
+  
+  body('unloadMinutes')
+    .optional()
+    .isInt({ min: 1, max: 240 })
+    .withMessage('Unload minutes must be between 1 and 240')
+];
+
+export const updateDisposalSiteValidation: ValidationChain[] = [
+  nameValidation(true),
+  
+  body('siteType')
+    .optional()
+    .isIn(Object.values(DisposalSiteType))
+    .withMessage('Invalid disposal site type'),
+  
+  body('address')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Address must be at most 255 characters')
+    .trim(),
+  
+  ...coordinateValidation(true),
+  
+  body('unloadMinutes')
+    .optional()
+    .isInt({ min: 1, max: 240 })
+    .withMessage('Unload minutes must be between 1 and 240'),
+  
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
+
+export const facilityListValidation: ValidationChain[] = [
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
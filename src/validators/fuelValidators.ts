@@ -0,0 +1,93 @@
+// src/validators/fuelValidators.ts
+import { body, query, ValidationChain } from 'express-validator';
+
+export const createFuelLogValidation: ValidationChain[] = [
+  body('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  body('liters')
+    .isFloat({ min: 0.1, max: 2000 })
+    .withMessage('Liters must be between 0.1 and 2000'),
+
+  body('cost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Cost must be a positive number'),
+
+  body('odometer')
+    .isInt({ min: 0 })
+    .withMessage('Odometer must be a non-negative number of km'),
+
+  body('station')
+    .optional()
+    .isLength({ max: 100 })
+    .withMessage('Station must be at most 100 characters')
+    .trim(),
+
+  body('fullTank')
+    .optional()
+    .isBoolean()
+    .withMessage('fullTank must be a boolean'),
+
+  body('filledAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Filled at must be a valid ISO 8601 date'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Notes must be at most 500 characters')
+    .trim()
+];
+
+export const fuelLogListValidation: ValidationChain[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  query('anomalous')
+    .optional()
+    .isBoolean()
+    .withMessage('anomalous must be a boolean'),
+
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+];
+
+export const fuelConsumptionValidation: ValidationChain[] = [
+  query('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+];
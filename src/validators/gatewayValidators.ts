@@ -0,0 +1,18 @@
+// src/validators/gatewayValidators.ts
+import { body, ValidationChain } from 'express-validator';
+
+export const provisionGatewayValidation: ValidationChain[] = [
+  body('gatewayId')
+    .notEmpty()
+    .withMessage('Gateway ID is required')
+    .isLength({ min: 3, max: 64 })
+    .withMessage('Gateway ID must be between 3 and 64 characters')
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage('Gateway ID may only contain letters, numbers, dashes and underscores'),
+
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters')
+];
@@ -0,0 +1,120 @@
+// src/validators/inspectionValidators.ts
+import { body, query, ValidationChain } from 'express-validator';
+
+export const createInspectionItemValidation: ValidationChain[] = [
+  body('code')
+    .notEmpty()
+    .withMessage('Code is required')
+    .matches(/^[A-Za-z0-9_]{2,50}$/)
+    .withMessage('Code must be 2-50 letters, digits or underscores'),
+
+  body('label')
+    .notEmpty()
+    .withMessage('Label is required')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Label must be between 2 and 100 characters')
+    .trim(),
+
+  body('description')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters')
+    .trim(),
+
+  body('isCritical')
+    .optional()
+    .isBoolean()
+    .withMessage('isCritical must be a boolean'),
+
+  body('sortOrder')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Sort order must be a non-negative integer')
+];
+
+export const updateInspectionItemValidation: ValidationChain[] = [
+  body('label')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Label must be between 2 and 100 characters')
+    .trim(),
+
+  body('description')
+    .optional({ values: 'null' })
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters')
+    .trim(),
+
+  body('isCritical')
+    .optional()
+    .isBoolean()
+    .withMessage('isCritical must be a boolean'),
+
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+
+  body('sortOrder')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Sort order must be a non-negative integer')
+];
+
+export const submitInspectionValidation: ValidationChain[] = [
+  body('results')
+    .isArray({ min: 1 })
+    .withMessage('Results must be a non-empty array'),
+
+  body('results.*.itemId')
+    .isUUID()
+    .withMessage('Checklist item ID must be a valid UUID'),
+
+  body('results.*.passed')
+    .isBoolean()
+    .withMessage('Passed must be a boolean'),
+
+  body('results.*.notes')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Notes must be at most 500 characters')
+    .trim(),
+
+  body('odometer')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Odometer must be a non-negative number of km'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be at most 1000 characters')
+    .trim()
+];
+
+export const inspectionListValidation: ValidationChain[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  query('driverId')
+    .optional()
+    .isUUID()
+    .withMessage('Driver ID must be a valid UUID'),
+
+  query('passed')
+    .optional()
+    .isBoolean()
+    .withMessage('Passed must be a boolean')
+];
@@ -0,0 +1,191 @@
+// src/validators/maintenanceValidators.ts
+import { body, query, ValidationChain } from 'express-validator';
+import { MaintenanceTicketStatus } from '@prisma/client';
+
+export const maintenanceTicketListValidation: ValidationChain[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  query('status')
+    .optional()
+    .isIn(Object.values(MaintenanceTicketStatus))
+    .withMessage('Invalid maintenance ticket status')
+];
+
+export const updateMaintenanceTicketValidation: ValidationChain[] = [
+  body('status')
+    .isIn(Object.values(MaintenanceTicketStatus))
+    .withMessage('Invalid maintenance ticket status'),
+
+  body('resolutionNotes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Resolution notes must be at most 1000 characters')
+    .trim()
+];
+
+export const maintenanceRecordListValidation: ValidationChain[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  query('type')
+    .optional()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Type must be between 2 and 50 characters'),
+
+  query('inShop')
+    .optional()
+    .isBoolean()
+    .withMessage('inShop must be a boolean')
+];
+
+export const createMaintenanceRecordValidation: ValidationChain[] = [
+  body('truckId')
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  body('type')
+    .matches(/^[A-Za-z0-9_]{2,50}$/)
+    .withMessage('Type must be 2-50 letters, digits or underscores'),
+
+  body('serviceDate')
+    .isISO8601()
+    .withMessage('Service date must be a valid ISO 8601 date'),
+
+  body('completedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Completed at must be a valid ISO 8601 date'),
+
+  body('odometer')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Odometer must be a non-negative number of km'),
+
+  body('cost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Cost must be a positive number'),
+
+  body('vendor')
+    .optional()
+    .isLength({ max: 100 })
+    .withMessage('Vendor must be at most 100 characters')
+    .trim(),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be at most 1000 characters')
+    .trim()
+];
+
+export const updateMaintenanceRecordValidation: ValidationChain[] = [
+  body('completedAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Completed at must be a valid ISO 8601 date'),
+
+  body('odometer')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Odometer must be a non-negative number of km'),
+
+  body('cost')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Cost must be a positive number'),
+
+  body('vendor')
+    .optional({ values: 'null' })
+    .isLength({ max: 100 })
+    .withMessage('Vendor must be at most 100 characters')
+    .trim(),
+
+  body('notes')
+    .optional({ values: 'null' })
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be at most 1000 characters')
+    .trim()
+];
+
+export const maintenanceRuleListValidation: ValidationChain[] = [
+  query('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID')
+];
+
+export const createMaintenanceRuleValidation: ValidationChain[] = [
+  body('truckId')
+    .optional()
+    .isUUID()
+    .withMessage('Truck ID must be a valid UUID'),
+
+  body('type')
+    .matches(/^[A-Za-z0-9_]{2,50}$/)
+    .withMessage('Type must be 2-50 letters, digits or underscores'),
+
+  body('description')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters')
+    .trim(),
+
+  body('intervalDays')
+    .optional()
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('Interval must be between 1 and 3650 days'),
+
+  body('intervalKm')
+    .optional()
+    .isInt({ min: 1, max: 1000000 })
+    .withMessage('Interval must be between 1 and 1000000 km')
+];
+
+export const updateMaintenanceRuleValidation: ValidationChain[] = [
+  body('description')
+    .optional({ values: 'null' })
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters')
+    .trim(),
+
+  body('intervalDays')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('Interval must be between 1 and 3650 days'),
+
+  body('intervalKm')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 1000000 })
+    .withMessage('Interval must be between 1 and 1000000 km'),
+
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
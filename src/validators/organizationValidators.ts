@@ -0,0 +1,53 @@
+// src/validators/organizationValidators.ts
+import { body, ValidationChain } from 'express-validator';
+
+export const createOrganizationValidation: ValidationChain[] = [
+  body('name')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters')
+    .trim(),
+
+  body('slug')
+    .notEmpty()
+    .withMessage('Slug is required')
+    .trim()
+    .toLowerCase()
+    .matches(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+    .withMessage('Slug may only contain lowercase letters, numbers and single hyphens')
+    .isLength({ max: 50 })
+    .withMessage('Slug must be at most 50 characters'),
+
+  body('admin.email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid administrator email'),
+
+  body('admin.password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+
+  body('admin.fullName')
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Full name must be between 2 and 100 characters')
+    .trim(),
+
+  body('admin.phone')
+    .optional()
+    .isMobilePhone('any')
+    .withMessage('Please provide a valid phone number')
+];
+
+export const updateOrganizationValidation: ValidationChain[] = [
+  body('name')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters')
+    .trim(),
+
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
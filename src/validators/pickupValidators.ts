@@ -1,6 +1,6 @@
 // src/validators/pickupValidators.ts
 import { body, query, ValidationChain } from 'express-validator';
-import { PickupStatus } from '@prisma/client';
+import { PickupStatus, PickupSource } from '@prisma/client';
 
 export const createPickupValidation: ValidationChain[] = [
   body('binId')
@@ -138,6 +138,11 @@ export const pickupListValidation: ValidationChain[] = [
     .isUUID()
     .withMessage('User ID must be a valid UUID'),
   
+  query('generationSource')
+    .optional()
+    .isIn(Object.values(PickupSource))
+    .withMessage('Invalid generation source'),
+  
   query('scheduledDate')
     .optional()
     .matches(/^\d{4}-\d{2}-\d{2}$/)
@@ -178,6 +183,36 @@ export const routeOptimizationValidation: ValidationChain[] = [
     .withMessage('Start longitude must be between -180 and 180')
 ];
 
+export const fleetRouteOptimizationValidation: ValidationChain[] = [
+  body('pickupIds')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Pickup IDs must be a non-empty array'),
+  
+  body('pickupIds.*')
+    .isUUID()
+    .withMessage('Each pickup ID must be a valid UUID'),
+  
+  body('driverIds')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Driver IDs must be a non-empty array'),
+  
+  body('driverIds.*')
+    .isUUID()
+    .withMessage('Each driver ID must be a valid UUID'),
+  
+  body('startTime')
+    .optional()
+    .isISO8601()
+    .withMessage('Start time must be a valid ISO 8601 date'),
+  
+  body('persist')
+    .optional()
+    .isBoolean()
+    .withMessage('persist must be a boolean')
+];
+
 export const cancelPickupValidation: ValidationChain[] = [
   body('reason')
     .notEmpty()
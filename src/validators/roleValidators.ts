@@ -0,0 +1,75 @@
+// src/validators/roleValidators.ts
+import { body, ValidationChain } from 'express-validator';
+
+const permissionsValidation = (optional: boolean): ValidationChain[] => {
+  const chain = body('permissions');
+
+  return [
+    (optional ? chain.optional() : chain)
+      .isArray({ max: 200 })
+      .withMessage('Permissions must be an array'),
+
+    body('permissions.*')
+      .isString()
+      .matches(/^[a-z]+(\.[a-z]+)*(:(any|own|zone))?$/)
+      .withMessage('Permissions must look like pickup.assign or pickup.read:zone')
+  ];
+};
+
+export const createRoleValidation: ValidationChain[] = [
+  body('name')
+    .notEmpty()
+    .withMessage('Name is required')
+    .trim()
+    .toUpperCase()
+    .matches(/^[A-Z][A-Z0-9_]{1,49}$/)
+    .withMessage('Name must be 2 to 50 letters, numbers or underscores, starting with a letter'),
+
+  body('description')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Description must be at most 255 characters')
+    .trim(),
+
+  body('requireMfa')
+    .optional()
+    .isBoolean()
+    .withMessage('requireMfa must be a boolean'),
+
+  ...permissionsValidation(false)
+];
+
+export const updateRoleValidation: ValidationChain[] = [
+  body('description')
+    .optional({ values: 'null' })
+    .isLength({ max: 255 })
+    .withMessage('Description must be at most 255 characters')
+    .trim(),
+
+  body('requireMfa')
+    .optional()
+    .isBoolean()
+    .withMessage('requireMfa must be a boolean'),
+
+  ...permissionsValidation(true)
+];
+
+export const assignUserRoleValidation: ValidationChain[] = [
+  body('roleId')
+    .exists()
+    .withMessage('Role ID is required; use null for the built-in role')
+    .if(body('roleId').exists({ values: 'null' }))
+    .isUUID()
+    .withMessage('Invalid role ID format'),
+
+  body('depotId')
+    .optional({ values: 'null' })
+    .isUUID()
+    .withMessage('Invalid depot ID format')
+];
+
+export const updateUserRoleValidation: ValidationChain[] = [
+  body('role')
+    .isIn(['USER', 'DRIVER', 'ADMIN'])
+    .withMessage('Role must be USER, DRIVER or ADMIN')
+];
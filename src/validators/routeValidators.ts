@@ -0,0 +1,69 @@
+// src/validators/routeValidators.ts
+import { body, query, ValidationChain } from 'express-validator';
+import { RouteStatus } from '@prisma/client';
+
+export const routeListValidation: ValidationChain[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  
+  query('status')
+    .optional()
+    .isIn(Object.values(RouteStatus))
+    .withMessage('Invalid route status'),
+  
+  query('driverId')
+    .optional()
+    .isUUID()
+    .withMessage('Driver ID must be a valid UUID'),
+  
+  query('dateFrom')
+    .optional()
+    .isISO8601()
+    .withMessage('Date from must be a valid ISO 8601 date'),
+  
+  query('dateTo')
+    .optional()
+    .isISO8601()
+    .withMessage('Date to must be a valid ISO 8601 date')
+];
+
+export const completeRouteStopValidation: ValidationChain[] = [
+  body('collectedWeight')
+    .optional()
+    .isFloat({ min: 0, max: 50000 })
+    .withMessage('Collected weight must be between 0 and 50000 kg'),
+  body('notes')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Notes must be at most 500 characters')
+    .trim()
+];
+
+export const skipRouteStopValidation: ValidationChain[] = [
+  body('reason')
+    .notEmpty()
+    .withMessage('Skip reason is required')
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters')
+    .trim()
+];
+
+export const completeRouteValidation: ValidationChain[] = [
+  body('actualDistance')
+    .optional()
+    .isFloat({ min: 0, max: 2000 })
+    .withMessage('Actual distance must be between 0 and 2000 km'),
+  
+  body('notes')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Notes must be at most 500 characters')
+    .trim()
+];
@@ -0,0 +1,91 @@
+// src/validators/shiftValidators.ts
+import { body, query, ValidationChain } from 'express-validator';
+import { ShiftStatus } from '@prisma/client';
+
+export const setShiftTemplatesValidation: ValidationChain[] = [
+  body('days')
+    .isArray({ max: 7 })
+    .withMessage('Days must be an array of at most 7 shifts'),
+
+  body('days.*.dayOfWeek')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+
+  body('days.*.startTime')
+    .matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Shift start must be in HH:MM format'),
+
+  body('days.*.endTime')
+    .matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Shift end must be in HH:MM format')
+];
+
+export const clockValidation: ValidationChain[] = [
+  body('latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+
+  body('longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Notes must be at most 500 characters')
+    .trim()
+];
+
+export const shiftListValidation: ValidationChain[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('driverId')
+    .optional()
+    .isUUID()
+    .withMessage('Driver ID must be a valid UUID'),
+
+  query('status')
+    .optional()
+    .isIn(Object.values(ShiftStatus))
+    .withMessage('Invalid shift status'),
+
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be a valid ISO 8601 date'),
+
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be a valid ISO 8601 date')
+];
+
+export const timesheetValidation: ValidationChain[] = [
+  query('driverId')
+    .optional()
+    .isUUID()
+    .withMessage('Driver ID must be a valid UUID'),
+
+  query('periodStart')
+    .isISO8601()
+    .withMessage('Period start must be a valid ISO 8601 date'),
+
+  query('periodEnd')
+    .isISO8601()
+    .withMessage('Period end must be a valid ISO 8601 date'),
+
+  query('format')
+    .optional()
+    .isIn(['json', 'csv'])
+    .withMessage('Format must be json or csv')
+];
@@ -0,0 +1,92 @@
+// src/validators/telemetryValidators.ts
+import { body, query, ValidationChain } from 'express-validator';
+
+// Largest batch a unit may upload at once, e.g. after a spell without signal
+const MAX_BATCH_SIZE = 500;
+
+export const provisionTelematicsUnitValidation: ValidationChain[] = [
+  body('deviceId')
+    .notEmpty()
+    .withMessage('Device ID is required')
+    .isLength({ min: 3, max: 64 })
+    .withMessage('Device ID must be between 3 and 64 characters')
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage('Device ID may only contain letters, numbers, dashes and underscores')
+];
+
+export const telemetryBatchValidation: ValidationChain[] = [
+  body('readings')
+    .isArray({ min: 1, max: MAX_BATCH_SIZE })
+    .withMessage(`Readings must be an array of 1 to ${MAX_BATCH_SIZE} items`),
+
+  body('readings.*.recordedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Recorded at must be a valid ISO 8601 date'),
+
+  body('readings.*.latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+
+  body('readings.*.longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+
+  body('readings.*.speed')
+    .optional()
+    .isFloat({ min: 0, max: 300 })
+    .withMessage('Speed must be between 0 and 300 km/h'),
+
+  body('readings.*.heading')
+    .optional()
+    .isFloat({ min: 0, max: 360 })
+    .withMessage('Heading must be between 0 and 360 degrees'),
+
+  body('readings.*.odometer')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Odometer must be a non-negative number of km'),
+
+  body('readings.*.engineHours')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Engine hours must be a positive number'),
+
+  body('readings.*.fuelLevel')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Fuel level must be a percentage between 0 and 100'),
+
+  body('readings.*.faultCodes')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Fault codes must be an array'),
+
+  body('readings.*.faultCodes.*')
+    .matches(/^[A-Za-z0-9-]{2,20}$/)
+    .withMessage('Fault codes must be 2-20 letters, digits or dashes')
+];
+
+export const truckTelemetryQueryValidation: ValidationChain[] = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+];